@@ -0,0 +1,41 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.24;
+
+import "forge-std/Script.sol";
+import { X811Escrow } from "../src/X811Escrow.sol";
+
+/**
+ * @title DeployEscrow
+ * @notice Deployment script for X811Escrow.
+ * @dev Usage:
+ *   forge script script/DeployEscrow.s.sol:DeployEscrow \
+ *     --rpc-url $RPC_URL \
+ *     --broadcast \
+ *     --verify \
+ *     -vvvv
+ *
+ * Required environment variables:
+ *   DEPLOYER_PRIVATE_KEY — Private key of the deployer account.
+ *   USDC_ADDRESS         — Settlement token (USDC) address.
+ *   RELAYER_ADDRESS      — Arbiter address (the x811 server's relayer).
+ *   TREASURY_ADDRESS     — Address receiving protocol fees.
+ */
+contract DeployEscrow is Script {
+    function run() external {
+        uint256 deployerPrivateKey = vm.envUint("DEPLOYER_PRIVATE_KEY");
+        address usdcAddress = vm.envAddress("USDC_ADDRESS");
+        address relayerAddress = vm.envAddress("RELAYER_ADDRESS");
+        address treasuryAddress = vm.envAddress("TREASURY_ADDRESS");
+
+        vm.startBroadcast(deployerPrivateKey);
+
+        X811Escrow escrow = new X811Escrow(usdcAddress, relayerAddress, treasuryAddress);
+
+        vm.stopBroadcast();
+
+        console.log("X811Escrow deployed at:", address(escrow));
+        console.log("Token:", address(escrow.token()));
+        console.log("Arbiter:", escrow.arbiter());
+        console.log("Treasury:", escrow.treasury());
+    }
+}
@@ -0,0 +1,258 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.24;
+
+import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+/**
+ * @title X811Escrow
+ * @notice Escrow settlement for x811 Protocol interactions. The initiator locks
+ *         the offer's total cost (price + protocol fee) when accepting an offer.
+ *         On successful verification the price is released to the provider and
+ *         the fee to the treasury; on timeout the deposit is refunded, and a
+ *         resolved dispute can release, refund or split it.
+ * @dev Escrows are keyed by keccak256 of the server-assigned interaction ID.
+ *      The arbiter (the x811 server's relayer) can release or refund at any
+ *      time. The payer can release at any time and refund once the deadline
+ *      has passed, so funds are never stuck if the arbiter disappears.
+ */
+contract X811Escrow {
+    using SafeERC20 for IERC20;
+
+    // -----------------------------------------------------------------------
+    // Types
+    // -----------------------------------------------------------------------
+
+    enum Status {
+        None,
+        Funded,
+        Released,
+        Refunded,
+        Split
+    }
+
+    struct Escrow {
+        address payer;
+        address payee;
+        uint256 amount;
+        uint256 fee;
+        uint64 deadline;
+        Status status;
+    }
+
+    // -----------------------------------------------------------------------
+    // State
+    // -----------------------------------------------------------------------
+
+    /// @notice Settlement token (USDC).
+    IERC20 public immutable token;
+
+    /// @notice All escrows, keyed by keccak256(interaction ID).
+    mapping(bytes32 => Escrow) public escrows;
+
+    /// @notice Address authorized to release or refund any escrow.
+    address public arbiter;
+
+    /// @notice Address receiving protocol fees on release.
+    address public treasury;
+
+    /// @notice Contract owner (deployer).
+    address public owner;
+
+    // -----------------------------------------------------------------------
+    // Events
+    // -----------------------------------------------------------------------
+
+    event Deposited(
+        bytes32 indexed escrowId,
+        address indexed payer,
+        address indexed payee,
+        uint256 amount,
+        uint256 fee,
+        uint64 deadline
+    );
+    event Released(bytes32 indexed escrowId, address indexed payee, uint256 amount, uint256 fee);
+    event Refunded(bytes32 indexed escrowId, address indexed payer, uint256 total);
+    event Split(bytes32 indexed escrowId, uint256 toPayee, uint256 toTreasury, uint256 toPayer);
+    event ArbiterUpdated(address indexed oldArbiter, address indexed newArbiter);
+    event TreasuryUpdated(address indexed oldTreasury, address indexed newTreasury);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+
+    // -----------------------------------------------------------------------
+    // Errors
+    // -----------------------------------------------------------------------
+
+    error OnlyOwner();
+    error NotAuthorized();
+    error ZeroAddress();
+    error ZeroAmount();
+    error EscrowExists();
+    error EscrowNotFunded();
+    error DeadlineInPast();
+    error DeadlineNotReached();
+    error InvalidShare();
+
+    // -----------------------------------------------------------------------
+    // Modifiers
+    // -----------------------------------------------------------------------
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert OnlyOwner();
+        _;
+    }
+
+    // -----------------------------------------------------------------------
+    // Constructor
+    // -----------------------------------------------------------------------
+
+    /**
+     * @param _token Settlement token (USDC) address.
+     * @param _arbiter Address authorized to release or refund escrows.
+     * @param _treasury Address receiving protocol fees.
+     */
+    constructor(address _token, address _arbiter, address _treasury) {
+        if (_token == address(0) || _arbiter == address(0) || _treasury == address(0)) revert ZeroAddress();
+        token = IERC20(_token);
+        arbiter = _arbiter;
+        treasury = _treasury;
+        owner = msg.sender;
+    }
+
+    // -----------------------------------------------------------------------
+    // Admin functions
+    // -----------------------------------------------------------------------
+
+    /**
+     * @notice Update the arbiter address.
+     * @param _newArbiter New arbiter address.
+     */
+    function setArbiter(address _newArbiter) external onlyOwner {
+        if (_newArbiter == address(0)) revert ZeroAddress();
+        address old = arbiter;
+        arbiter = _newArbiter;
+        emit ArbiterUpdated(old, _newArbiter);
+    }
+
+    /**
+     * @notice Update the treasury address.
+     * @param _newTreasury New treasury address.
+     */
+    function setTreasury(address _newTreasury) external onlyOwner {
+        if (_newTreasury == address(0)) revert ZeroAddress();
+        address old = treasury;
+        treasury = _newTreasury;
+        emit TreasuryUpdated(old, _newTreasury);
+    }
+
+    /**
+     * @notice Transfer contract ownership.
+     * @param _newOwner New owner address.
+     */
+    function transferOwnership(address _newOwner) external onlyOwner {
+        if (_newOwner == address(0)) revert ZeroAddress();
+        address previous = owner;
+        owner = _newOwner;
+        emit OwnershipTransferred(previous, _newOwner);
+    }
+
+    // -----------------------------------------------------------------------
+    // Escrow lifecycle
+    // -----------------------------------------------------------------------
+
+    /**
+     * @notice Lock `_amount + _fee` tokens from the caller for an interaction.
+     * @dev The caller must have approved this contract for at least `_amount + _fee`.
+     * @param _escrowId keccak256 of the interaction ID.
+     * @param _payee Provider's payment address.
+     * @param _amount Price paid to the provider on release.
+     * @param _fee Protocol fee paid to the treasury on release.
+     * @param _deadline Unix timestamp after which the payer may refund.
+     */
+    function deposit(bytes32 _escrowId, address _payee, uint256 _amount, uint256 _fee, uint64 _deadline) external {
+        if (escrows[_escrowId].status != Status.None) revert EscrowExists();
+        if (_payee == address(0)) revert ZeroAddress();
+        if (_amount == 0) revert ZeroAmount();
+        if (_deadline <= block.timestamp) revert DeadlineInPast();
+
+        escrows[_escrowId] = Escrow({
+            payer: msg.sender,
+            payee: _payee,
+            amount: _amount,
+            fee: _fee,
+            deadline: _deadline,
+            status: Status.Funded
+        });
+
+        token.safeTransferFrom(msg.sender, address(this), _amount + _fee);
+
+        emit Deposited(_escrowId, msg.sender, _payee, _amount, _fee, _deadline);
+    }
+
+    /**
+     * @notice Release a funded escrow: price to the payee, fee to the treasury.
+     * @dev Callable by the arbiter or the payer.
+     * @param _escrowId keccak256 of the interaction ID.
+     */
+    function release(bytes32 _escrowId) external {
+        Escrow storage e = escrows[_escrowId];
+        if (e.status != Status.Funded) revert EscrowNotFunded();
+        if (msg.sender != arbiter && msg.sender != e.payer) revert NotAuthorized();
+
+        e.status = Status.Released;
+
+        token.safeTransfer(e.payee, e.amount);
+        if (e.fee > 0) {
+            token.safeTransfer(treasury, e.fee);
+        }
+
+        emit Released(_escrowId, e.payee, e.amount, e.fee);
+    }
+
+    /**
+     * @notice Refund a funded escrow to the payer.
+     * @dev Callable by the arbiter at any time, or by the payer after the deadline.
+     * @param _escrowId keccak256 of the interaction ID.
+     */
+    function refund(bytes32 _escrowId) external {
+        Escrow storage e = escrows[_escrowId];
+        if (e.status != Status.Funded) revert EscrowNotFunded();
+        if (msg.sender != arbiter) {
+            if (msg.sender != e.payer) revert NotAuthorized();
+            if (block.timestamp < e.deadline) revert DeadlineNotReached();
+        }
+
+        e.status = Status.Refunded;
+        uint256 total = e.amount + e.fee;
+
+        token.safeTransfer(e.payer, total);
+
+        emit Refunded(_escrowId, e.payer, total);
+    }
+
+    /**
+     * @notice Settle a disputed escrow partially: `_payeeBps` basis points of the
+     *         price go to the payee (with the same share of the fee to the
+     *         treasury) and the remainder is returned to the payer.
+     * @dev Callable by the arbiter only. Use release/refund for 100% / 0%.
+     * @param _escrowId keccak256 of the interaction ID.
+     * @param _payeeBps Payee's share in basis points, strictly between 0 and 10000.
+     */
+    function split(bytes32 _escrowId, uint16 _payeeBps) external {
+        Escrow storage e = escrows[_escrowId];
+        if (e.status != Status.Funded) revert EscrowNotFunded();
+        if (msg.sender != arbiter) revert NotAuthorized();
+        if (_payeeBps == 0 || _payeeBps >= 10_000) revert InvalidShare();
+
+        e.status = Status.Split;
+
+        uint256 toPayee = (e.amount * _payeeBps) / 10_000;
+        uint256 toTreasury = (e.fee * _payeeBps) / 10_000;
+        uint256 toPayer = e.amount + e.fee - toPayee - toTreasury;
+
+        if (toPayee > 0) token.safeTransfer(e.payee, toPayee);
+        if (toTreasury > 0) token.safeTransfer(treasury, toTreasury);
+        token.safeTransfer(e.payer, toPayer);
+
+        emit Split(_escrowId, toPayee, toTreasury, toPayer);
+    }
+}
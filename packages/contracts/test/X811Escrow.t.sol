@@ -0,0 +1,336 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.24;
+
+import "forge-std/Test.sol";
+import { ERC20 } from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import { X811Escrow } from "../src/X811Escrow.sol";
+
+/// @dev 6-decimal stand-in for USDC.
+contract MockUSDC is ERC20 {
+    constructor() ERC20("USD Coin", "USDC") {}
+
+    function decimals() public pure override returns (uint8) {
+        return 6;
+    }
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
+
+contract X811EscrowTest is Test {
+    X811Escrow public escrow;
+    MockUSDC public usdc;
+
+    address public owner = address(this);
+    address public arbiter = address(0xBEEF);
+    address public treasury = address(0x7EA5);
+    address public payer = address(0xA11CE);
+    address public payee = address(0xB0B);
+    address public stranger = address(0xDEAD);
+
+    bytes32 constant ESCROW_ID = keccak256("interaction-1");
+    uint256 constant PRICE = 30_000; // 0.03 USDC
+    uint256 constant FEE = 750; // 0.00075 USDC
+
+    function setUp() public {
+        usdc = new MockUSDC();
+        escrow = new X811Escrow(address(usdc), arbiter, treasury);
+
+        usdc.mint(payer, 1_000_000);
+        vm.prank(payer);
+        usdc.approve(address(escrow), type(uint256).max);
+    }
+
+    function _deposit() internal {
+        vm.prank(payer);
+        escrow.deposit(ESCROW_ID, payee, PRICE, FEE, uint64(block.timestamp + 1 hours));
+    }
+
+    // -----------------------------------------------------------------------
+    // deposit
+    // -----------------------------------------------------------------------
+
+    function test_deposit() public {
+        _deposit();
+
+        (address p, address q, uint256 amount, uint256 fee, uint64 deadline, X811Escrow.Status status) =
+            escrow.escrows(ESCROW_ID);
+        assertEq(p, payer);
+        assertEq(q, payee);
+        assertEq(amount, PRICE);
+        assertEq(fee, FEE);
+        assertEq(deadline, block.timestamp + 1 hours);
+        assertEq(uint8(status), uint8(X811Escrow.Status.Funded));
+
+        assertEq(usdc.balanceOf(address(escrow)), PRICE + FEE);
+        assertEq(usdc.balanceOf(payer), 1_000_000 - PRICE - FEE);
+    }
+
+    function test_deposit_revertDuplicate() public {
+        _deposit();
+        vm.prank(payer);
+        vm.expectRevert(X811Escrow.EscrowExists.selector);
+        escrow.deposit(ESCROW_ID, payee, PRICE, FEE, uint64(block.timestamp + 1 hours));
+    }
+
+    function test_deposit_revertZeroPayee() public {
+        vm.prank(payer);
+        vm.expectRevert(X811Escrow.ZeroAddress.selector);
+        escrow.deposit(ESCROW_ID, address(0), PRICE, FEE, uint64(block.timestamp + 1 hours));
+    }
+
+    function test_deposit_revertZeroAmount() public {
+        vm.prank(payer);
+        vm.expectRevert(X811Escrow.ZeroAmount.selector);
+        escrow.deposit(ESCROW_ID, payee, 0, FEE, uint64(block.timestamp + 1 hours));
+    }
+
+    function test_deposit_revertDeadlineInPast() public {
+        vm.prank(payer);
+        vm.expectRevert(X811Escrow.DeadlineInPast.selector);
+        escrow.deposit(ESCROW_ID, payee, PRICE, FEE, uint64(block.timestamp));
+    }
+
+    function test_deposit_revertWithoutAllowance() public {
+        usdc.mint(stranger, 1_000_000);
+        vm.prank(stranger);
+        vm.expectRevert();
+        escrow.deposit(ESCROW_ID, payee, PRICE, FEE, uint64(block.timestamp + 1 hours));
+    }
+
+    // -----------------------------------------------------------------------
+    // release
+    // -----------------------------------------------------------------------
+
+    function test_release_byArbiter() public {
+        _deposit();
+
+        vm.prank(arbiter);
+        escrow.release(ESCROW_ID);
+
+        assertEq(usdc.balanceOf(payee), PRICE);
+        assertEq(usdc.balanceOf(treasury), FEE);
+        assertEq(usdc.balanceOf(address(escrow)), 0);
+
+        (, , , , , X811Escrow.Status status) = escrow.escrows(ESCROW_ID);
+        assertEq(uint8(status), uint8(X811Escrow.Status.Released));
+    }
+
+    function test_release_byPayer() public {
+        _deposit();
+
+        vm.prank(payer);
+        escrow.release(ESCROW_ID);
+
+        assertEq(usdc.balanceOf(payee), PRICE);
+    }
+
+    function test_release_revertStranger() public {
+        _deposit();
+
+        vm.prank(stranger);
+        vm.expectRevert(X811Escrow.NotAuthorized.selector);
+        escrow.release(ESCROW_ID);
+    }
+
+    function test_release_revertPayee() public {
+        _deposit();
+
+        vm.prank(payee);
+        vm.expectRevert(X811Escrow.NotAuthorized.selector);
+        escrow.release(ESCROW_ID);
+    }
+
+    function test_release_revertTwice() public {
+        _deposit();
+
+        vm.startPrank(arbiter);
+        escrow.release(ESCROW_ID);
+        vm.expectRevert(X811Escrow.EscrowNotFunded.selector);
+        escrow.release(ESCROW_ID);
+        vm.stopPrank();
+    }
+
+    function test_release_revertUnknown() public {
+        vm.prank(arbiter);
+        vm.expectRevert(X811Escrow.EscrowNotFunded.selector);
+        escrow.release(ESCROW_ID);
+    }
+
+    // -----------------------------------------------------------------------
+    // refund
+    // -----------------------------------------------------------------------
+
+    function test_refund_byArbiterBeforeDeadline() public {
+        _deposit();
+
+        vm.prank(arbiter);
+        escrow.refund(ESCROW_ID);
+
+        assertEq(usdc.balanceOf(payer), 1_000_000);
+        assertEq(usdc.balanceOf(address(escrow)), 0);
+
+        (, , , , , X811Escrow.Status status) = escrow.escrows(ESCROW_ID);
+        assertEq(uint8(status), uint8(X811Escrow.Status.Refunded));
+    }
+
+    function test_refund_byPayerAfterDeadline() public {
+        _deposit();
+        vm.warp(block.timestamp + 1 hours);
+
+        vm.prank(payer);
+        escrow.refund(ESCROW_ID);
+
+        assertEq(usdc.balanceOf(payer), 1_000_000);
+    }
+
+    function test_refund_revertPayerBeforeDeadline() public {
+        _deposit();
+
+        vm.prank(payer);
+        vm.expectRevert(X811Escrow.DeadlineNotReached.selector);
+        escrow.refund(ESCROW_ID);
+    }
+
+    function test_refund_revertStranger() public {
+        _deposit();
+        vm.warp(block.timestamp + 2 hours);
+
+        vm.prank(stranger);
+        vm.expectRevert(X811Escrow.NotAuthorized.selector);
+        escrow.refund(ESCROW_ID);
+    }
+
+    function test_refund_revertAfterRelease() public {
+        _deposit();
+
+        vm.startPrank(arbiter);
+        escrow.release(ESCROW_ID);
+        vm.expectRevert(X811Escrow.EscrowNotFunded.selector);
+        escrow.refund(ESCROW_ID);
+        vm.stopPrank();
+    }
+
+    function test_release_revertAfterRefund() public {
+        _deposit();
+
+        vm.startPrank(arbiter);
+        escrow.refund(ESCROW_ID);
+        vm.expectRevert(X811Escrow.EscrowNotFunded.selector);
+        escrow.release(ESCROW_ID);
+        vm.stopPrank();
+    }
+
+    // -----------------------------------------------------------------------
+    // split
+    // -----------------------------------------------------------------------
+
+    function test_split_byArbiter() public {
+        _deposit();
+
+        vm.prank(arbiter);
+        escrow.split(ESCROW_ID, 6_000); // 60% to payee
+
+        assertEq(usdc.balanceOf(payee), 18_000);
+        assertEq(usdc.balanceOf(treasury), 450);
+        assertEq(usdc.balanceOf(payer), 1_000_000 - 18_000 - 450);
+        assertEq(usdc.balanceOf(address(escrow)), 0);
+
+        (, , , , , X811Escrow.Status status) = escrow.escrows(ESCROW_ID);
+        assertEq(uint8(status), uint8(X811Escrow.Status.Split));
+    }
+
+    function test_split_revertPayer() public {
+        _deposit();
+
+        vm.prank(payer);
+        vm.expectRevert(X811Escrow.NotAuthorized.selector);
+        escrow.split(ESCROW_ID, 5_000);
+    }
+
+    function test_split_revertInvalidShare() public {
+        _deposit();
+
+        vm.startPrank(arbiter);
+        vm.expectRevert(X811Escrow.InvalidShare.selector);
+        escrow.split(ESCROW_ID, 0);
+        vm.expectRevert(X811Escrow.InvalidShare.selector);
+        escrow.split(ESCROW_ID, 10_000);
+        vm.stopPrank();
+    }
+
+    function test_split_revertAfterRelease() public {
+        _deposit();
+
+        vm.startPrank(arbiter);
+        escrow.release(ESCROW_ID);
+        vm.expectRevert(X811Escrow.EscrowNotFunded.selector);
+        escrow.split(ESCROW_ID, 5_000);
+        vm.stopPrank();
+    }
+
+    // -----------------------------------------------------------------------
+    // Admin
+    // -----------------------------------------------------------------------
+
+    function test_setArbiter() public {
+        escrow.setArbiter(address(0xCAFE));
+        assertEq(escrow.arbiter(), address(0xCAFE));
+    }
+
+    function test_setTreasury() public {
+        escrow.setTreasury(address(0xCAFE));
+        assertEq(escrow.treasury(), address(0xCAFE));
+    }
+
+    function test_transferOwnership() public {
+        escrow.transferOwnership(address(0xFACE));
+        assertEq(escrow.owner(), address(0xFACE));
+    }
+
+    function test_revertNonOwner_allAdminFunctions() public {
+        vm.startPrank(stranger);
+
+        vm.expectRevert(X811Escrow.OnlyOwner.selector);
+        escrow.setArbiter(address(0xCAFE));
+
+        vm.expectRevert(X811Escrow.OnlyOwner.selector);
+        escrow.setTreasury(address(0xCAFE));
+
+        vm.expectRevert(X811Escrow.OnlyOwner.selector);
+        escrow.transferOwnership(address(0xCAFE));
+
+        vm.stopPrank();
+    }
+
+    function test_admin_revertZeroAddress() public {
+        vm.expectRevert(X811Escrow.ZeroAddress.selector);
+        escrow.setArbiter(address(0));
+
+        vm.expectRevert(X811Escrow.ZeroAddress.selector);
+        escrow.setTreasury(address(0));
+    }
+
+    // -----------------------------------------------------------------------
+    // Constructor edge cases
+    // -----------------------------------------------------------------------
+
+    function test_constructor_revertZeroAddresses() public {
+        vm.expectRevert(X811Escrow.ZeroAddress.selector);
+        new X811Escrow(address(0), arbiter, treasury);
+
+        vm.expectRevert(X811Escrow.ZeroAddress.selector);
+        new X811Escrow(address(usdc), address(0), treasury);
+
+        vm.expectRevert(X811Escrow.ZeroAddress.selector);
+        new X811Escrow(address(usdc), arbiter, address(0));
+    }
+
+    function test_constructor_setsState() public view {
+        assertEq(address(escrow.token()), address(usdc));
+        assertEq(escrow.arbiter(), arbiter);
+        assertEq(escrow.treasury(), treasury);
+        assertEq(escrow.owner(), owner);
+    }
+}
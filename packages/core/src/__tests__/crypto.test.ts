@@ -1,17 +1,35 @@
 import { describe, it, expect } from "vitest";
+import { ed25519 } from "@noble/curves/ed25519";
 import {
   generateSigningKeyPair,
+  signingKeyPairFromPrivateKey,
   generateEncryptionKeyPair,
   generateDIDKeyPair,
+  rotateDIDKeyPair,
 } from "../crypto/keys.js";
 import {
   canonicalize,
   signEnvelope,
   verifyEnvelope,
   hashPayload,
+  signKeyRotationProof,
+  verifyKeyRotationProof,
+  signTrustAttestation,
+  verifyTrustAttestation,
+  signRequest,
+  signedRequestMessage,
 } from "../crypto/signing.js";
 import { MerkleTree } from "../crypto/merkle.js";
-import type { X811Envelope } from "../types/messages.js";
+import { computeEscrowId } from "../crypto/escrow.js";
+import {
+  encryptPayload,
+  decryptPayload,
+  encryptEnvelope,
+  decryptEnvelope,
+} from "../crypto/encryption.js";
+import { X811Error, X811ErrorCode } from "../types/errors.js";
+import type { SealedPayload, X811Envelope } from "../types/messages.js";
+import type { TrustAttestation } from "../types/agent-card.js";
 
 // ---------------------------------------------------------------------------
 // Key generation
@@ -32,6 +50,11 @@ describe("Key Generation", () => {
     expect(a.privateKey).not.toEqual(b.privateKey);
   });
 
+  it("rebuilds a signing key pair from its private key", () => {
+    const kp = generateSigningKeyPair();
+    expect(signingKeyPairFromPrivateKey(kp.privateKey).publicKey).toEqual(kp.publicKey);
+  });
+
   it("generates an X25519 encryption key pair with 32-byte keys", () => {
     const kp = generateEncryptionKeyPair();
     expect(kp.publicKey).toBeInstanceOf(Uint8Array);
@@ -54,6 +77,24 @@ describe("Key Generation", () => {
     expect(kp.encryptionKey.publicKey.length).toBe(32);
     expect(kp.encryptionKey.privateKey.length).toBe(32);
   });
+
+  it("rotates to fresh keys for the same DID", () => {
+    const original = generateDIDKeyPair("test-agent-001");
+    const rotated = rotateDIDKeyPair(original.did);
+    expect(rotated.did).toBe(original.did);
+    expect(rotated.signingKey.publicKey).not.toEqual(original.signingKey.publicKey);
+    expect(rotated.encryptionKey.publicKey).not.toEqual(original.encryptionKey.publicKey);
+  });
+
+  it("proves possession of the rotated key over a nonce", () => {
+    const original = generateDIDKeyPair("test-agent-001");
+    const rotated = rotateDIDKeyPair(original.did);
+    const proof = signKeyRotationProof("nonce-1", rotated.signingKey.privateKey);
+
+    expect(verifyKeyRotationProof("nonce-1", proof, rotated.signingKey.publicKey)).toBe(true);
+    expect(verifyKeyRotationProof("nonce-2", proof, rotated.signingKey.publicKey)).toBe(false);
+    expect(verifyKeyRotationProof("nonce-1", proof, original.signingKey.publicKey)).toBe(false);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -180,6 +221,116 @@ describe("Envelope Signing and Verification", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Trust attestations
+// ---------------------------------------------------------------------------
+describe("Trust Attestations", () => {
+  const issuer = "did:web:x811.org";
+
+  function makeCredential(): Omit<TrustAttestation, "proof"> {
+    return {
+      "@context": ["https://www.w3.org/2018/credentials/v1"],
+      type: ["VerifiableCredential", "X811TrustAttestation"],
+      id: "urn:uuid:5f1a9d0e-1b3c-4d5e-8f70-123456789abc",
+      issuer,
+      issuanceDate: "2026-01-01T00:00:00.000Z",
+      expirationDate: "2026-01-02T00:00:00.000Z",
+      credentialSubject: {
+        id: "did:x811:provider",
+        trust_score: 0.92,
+        interaction_count: 40,
+        successful_count: 39,
+        failed_count: 1,
+        anchored_batch: { merkle_root: "ab".repeat(32), tx_hash: "0x01", interaction_count: 100 },
+      },
+    };
+  }
+
+  const during = { now: new Date("2026-01-01T12:00:00.000Z") };
+
+  it("signs and verifies an attestation with the issuer key", () => {
+    const kp = generateSigningKeyPair();
+    const attestation = signTrustAttestation(makeCredential(), kp.privateKey, `${issuer}#key-1`);
+
+    expect(attestation.proof.verificationMethod).toBe(`${issuer}#key-1`);
+    expect(attestation.proof.proofPurpose).toBe("assertionMethod");
+    expect(verifyTrustAttestation(attestation, kp.publicKey, during)).toBe(true);
+  });
+
+  it("rejects a tampered subject, a foreign key and an expired attestation", () => {
+    const kp = generateSigningKeyPair();
+    const attestation = signTrustAttestation(makeCredential(), kp.privateKey, `${issuer}#key-1`);
+
+    const inflated = {
+      ...attestation,
+      credentialSubject: { ...attestation.credentialSubject, trust_score: 1 },
+    };
+    expect(verifyTrustAttestation(inflated, kp.publicKey, during)).toBe(false);
+    expect(verifyTrustAttestation(attestation, generateSigningKeyPair().publicKey, during)).toBe(false);
+    expect(verifyTrustAttestation(attestation, kp.publicKey, { now: new Date("2026-01-03T00:00:00.000Z") }))
+      .toBe(false);
+  });
+
+  it("rejects a proof whose key does not belong to the issuer", () => {
+    const kp = generateSigningKeyPair();
+    const attestation = signTrustAttestation(makeCredential(), kp.privateKey, "did:web:evil.example#key-1");
+
+    expect(verifyTrustAttestation(attestation, kp.publicKey, during)).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Signed HTTP requests
+// ---------------------------------------------------------------------------
+describe("signRequest", () => {
+  function parse(header: string): Record<string, string> {
+    expect(header.startsWith("X811-Signature ")).toBe(true);
+    return Object.fromEntries([...header.matchAll(/(\w+)="([^"]*)"/g)].map((m) => [m[1], m[2]]));
+  }
+
+  it("signs the method, path, DID, timestamp and nonce", () => {
+    const kp = generateSigningKeyPair();
+    const fields = parse(signRequest("get", "/api/v1/messages/abc?did=did%3Ax811%3Aabc", "did:x811:abc", kp.privateKey));
+
+    expect(fields.did).toBe("did:x811:abc");
+    const message = signedRequestMessage({
+      method: "GET",
+      path: "/api/v1/messages/abc?did=did%3Ax811%3Aabc",
+      did: fields.did,
+      created: fields.created,
+      nonce: fields.nonce,
+    });
+    const sig = Uint8Array.from(Buffer.from(fields.signature, "base64url"));
+    expect(ed25519.verify(sig, message, kp.publicKey)).toBe(true);
+
+    const otherPath = signedRequestMessage({ ...fields, method: "GET", path: "/api/v1/messages/xyz" });
+    expect(ed25519.verify(sig, otherPath, kp.publicKey)).toBe(false);
+  });
+
+  it("uses a fresh nonce for every request", () => {
+    const kp = generateSigningKeyPair();
+    const a = parse(signRequest("GET", "/p", "did:x811:abc", kp.privateKey));
+    const b = parse(signRequest("GET", "/p", "did:x811:abc", kp.privateKey));
+    expect(a.nonce).not.toBe(b.nonce);
+  });
+
+  it("signs a server-issued challenge as the nonce", () => {
+    const kp = generateSigningKeyPair();
+    const fields = parse(signRequest("GET", "/ws", "did:x811:abc", kp.privateKey, "challenge-1"));
+    expect(fields.nonce).toBe("challenge-1");
+
+    const message = signedRequestMessage({
+      method: "GET",
+      path: "/ws",
+      did: fields.did,
+      created: fields.created,
+      nonce: "challenge-1",
+    });
+    const sig = Uint8Array.from(Buffer.from(fields.signature, "base64url"));
+    expect(ed25519.verify(sig, message, kp.publicKey)).toBe(true);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // hashPayload
 // ---------------------------------------------------------------------------
@@ -283,3 +434,136 @@ describe("MerkleTree", () => {
     }
   });
 });
+
+// ---------------------------------------------------------------------------
+// Escrow identifiers
+// ---------------------------------------------------------------------------
+describe("computeEscrowId", () => {
+  it("returns keccak256 of the interaction ID as 0x-prefixed bytes32", () => {
+    // keccak256("abc") — matches Solidity keccak256(bytes("abc"))
+    expect(computeEscrowId("abc")).toBe(
+      "0x4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45",
+    );
+  });
+
+  it("is deterministic and distinct per interaction", () => {
+    const id = "0192f5a0-0000-7000-8000-000000000001";
+    expect(computeEscrowId(id)).toBe(computeEscrowId(id));
+    expect(computeEscrowId(id)).not.toBe(
+      computeEscrowId("0192f5a0-0000-7000-8000-000000000002"),
+    );
+    expect(computeEscrowId(id)).toMatch(/^0x[0-9a-f]{64}$/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Payload encryption
+// ---------------------------------------------------------------------------
+describe("encryptPayload / decryptPayload", () => {
+  it("round-trips a payload for the recipient", () => {
+    const recipient = generateEncryptionKeyPair();
+    const data = { text: "confidential", n: 42 };
+
+    const encrypted = encryptPayload(data, recipient.publicKey);
+    expect(encrypted.alg).toBe("X25519-HKDF-SHA256-CHACHA20-POLY1305");
+    expect(encrypted.ciphertext).not.toContain("confidential");
+    expect(decryptPayload(encrypted, recipient.privateKey)).toEqual(data);
+  });
+
+  it("uses a fresh ephemeral key and nonce per message", () => {
+    const recipient = generateEncryptionKeyPair();
+    const a = encryptPayload("same", recipient.publicKey);
+    const b = encryptPayload("same", recipient.publicKey);
+    expect(a.epk).not.toBe(b.epk);
+    expect(a.nonce).not.toBe(b.nonce);
+    expect(a.ciphertext).not.toBe(b.ciphertext);
+  });
+
+  it("rejects the wrong private key", () => {
+    const recipient = generateEncryptionKeyPair();
+    const other = generateEncryptionKeyPair();
+    const encrypted = encryptPayload({ secret: true }, recipient.publicKey);
+
+    expect(() => decryptPayload(encrypted, other.privateKey)).toThrow(X811Error);
+  });
+
+  it("rejects mismatched associated data and tampered ciphertext", () => {
+    const recipient = generateEncryptionKeyPair();
+    const encrypted = encryptPayload({ secret: true }, recipient.publicKey, "context-a");
+
+    expect(() => decryptPayload(encrypted, recipient.privateKey, "context-b")).toThrow(
+      "Failed to decrypt payload",
+    );
+
+    const bytes = Buffer.from(encrypted.ciphertext, "base64url");
+    bytes[0] ^= 0xff;
+    const tampered = { ...encrypted, ciphertext: bytes.toString("base64url") };
+    try {
+      decryptPayload(tampered, recipient.privateKey, "context-a");
+      expect.fail("Should have thrown");
+    } catch (err) {
+      expect((err as X811Error).code).toBe(X811ErrorCode.DECRYPTION_FAILED);
+    }
+  });
+});
+
+describe("encryptEnvelope / decryptEnvelope", () => {
+  function makeEnvelope<T>(type: X811Envelope<T>["type"], payload: T): Omit<X811Envelope<T>, "signature"> {
+    return {
+      version: "0.1.0",
+      id: "0192f5a0-0000-7000-8000-000000000001",
+      type,
+      from: "did:x811:sender",
+      to: "did:x811:recipient",
+      created: "2026-01-01T00:00:00.000Z",
+      payload,
+      nonce: "nonce-1",
+    };
+  }
+
+  it("seals only the confidential fields of a result", () => {
+    const recipient = generateEncryptionKeyPair();
+    const sender = generateSigningKeyPair();
+    const result = {
+      request_id: "req-1",
+      content: "the answer",
+      content_type: "text/plain",
+      result_hash: "abc",
+    };
+
+    const sealed = encryptEnvelope(makeEnvelope("x811/result", result), recipient.publicKey);
+    expect(sealed.encrypted).toBe(true);
+    const payload = sealed.payload as SealedPayload;
+    expect(payload.request_id).toBe("req-1");
+    expect(payload.result_hash).toBe("abc");
+    expect(payload.content).toBeUndefined();
+    expect(JSON.stringify(sealed)).not.toContain("the answer");
+
+    // Signed over the ciphertext like any other envelope
+    const signed = signEnvelope(sealed, sender.privateKey);
+    expect(verifyEnvelope(signed, sender.publicKey)).toBe(true);
+
+    const opened = decryptEnvelope(signed, recipient.privateKey);
+    expect(opened.payload).toEqual(result);
+    expect(opened.encrypted).toBeUndefined();
+  });
+
+  it("leaves message types without confidential fields unchanged", () => {
+    const recipient = generateEncryptionKeyPair();
+    const envelope = makeEnvelope("x811/offer", { request_id: "req-1", price: "1" });
+    expect(encryptEnvelope(envelope, recipient.publicKey)).toBe(envelope);
+  });
+
+  it("binds the ciphertext to its envelope", () => {
+    const recipient = generateEncryptionKeyPair();
+    const sender = generateSigningKeyPair();
+    const sealed = signEnvelope(
+      encryptEnvelope(makeEnvelope("x811/request", { parameters: { q: "secret" } }), recipient.publicKey),
+      sender.privateKey,
+    );
+
+    expect(() =>
+      decryptEnvelope({ ...sealed, id: "0192f5a0-0000-7000-8000-000000000002" }, recipient.privateKey),
+    ).toThrow("Failed to decrypt payload");
+  });
+});
@@ -5,9 +5,18 @@ import {
   extractPublicKey,
   extractEncryptionKey,
 } from "../did/document.js";
-import { resolveDID } from "../did/resolve.js";
+import {
+  DIDResolverRegistry,
+  didKeyFromPublicKey,
+  didWebToUrl,
+  resolveDID,
+} from "../did/resolve.js";
 import { isValidTransition, validateDIDStatus } from "../did/status.js";
-import { generateSigningKeyPair, generateEncryptionKeyPair } from "../crypto/keys.js";
+import {
+  generateSigningKeyPair,
+  generateEncryptionKeyPair,
+  generateDIDKeyPair,
+} from "../crypto/keys.js";
 import { X811Error, X811ErrorCode } from "../types/errors.js";
 
 // ---------------------------------------------------------------------------
@@ -262,13 +271,13 @@ describe("resolveDID", () => {
     }
   });
 
-  it("throws INVALID_DID_FORMAT for non-x811 DID", async () => {
+  it("throws INVALID_DID_FORMAT for an unsupported DID method", async () => {
     await expect(
-      resolveDID("did:web:example.com", "https://registry.example.com"),
+      resolveDID("did:ethr:0xabc", "https://registry.example.com"),
     ).rejects.toThrow(X811Error);
 
     try {
-      await resolveDID("did:web:example.com", "https://registry.example.com");
+      await resolveDID("did:ethr:0xabc", "https://registry.example.com");
     } catch (e) {
       expect((e as X811Error).code).toBe(X811ErrorCode.INVALID_DID_FORMAT);
     }
@@ -300,3 +309,76 @@ describe("resolveDID", () => {
     expect(calledUrl).not.toContain("//dids");
   });
 });
+
+describe("DID resolver registry", () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it("generates did:web DIDs under a registry domain", () => {
+    const result = generateDID(undefined, "localhost:3000");
+    expect(result.did).toMatch(/^did:web:localhost%3A3000:agents:[0-9a-f-]{36}$/);
+    expect(result.document.id).toBe(result.did);
+    expect(result.keyPair.did).toBe(result.did);
+  });
+
+  it("maps did:web DIDs to document URLs", () => {
+    expect(didWebToUrl("did:web:example.com")).toBe("https://example.com/.well-known/did.json");
+    expect(didWebToUrl("did:web:x811.org:agents:42")).toBe("https://x811.org/agents/42/did.json");
+    expect(didWebToUrl("did:web:localhost%3A3000:agents:42")).toBe("https://localhost:3000/agents/42/did.json");
+  });
+
+  it("resolves did:web by fetching the document from the domain", async () => {
+    const result = generateDID(undefined, "agents.example.com");
+    globalThis.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve(result.document),
+    } as Response);
+
+    const resolved = await resolveDID(result.did, "https://registry.example.com");
+
+    const agentId = result.did.split(":").pop();
+    expect(globalThis.fetch).toHaveBeenCalledWith(`https://agents.example.com/agents/${agentId}/did.json`);
+    expect(resolved.status).toBe("active");
+    expect(resolved.publicKey).toEqual(result.keyPair.signingKey.publicKey);
+  });
+
+  it("resolves did:key without a network call", async () => {
+    const keys = generateDIDKeyPair("unused");
+    const did = didKeyFromPublicKey(keys.signingKey.publicKey);
+    globalThis.fetch = vi.fn();
+
+    const resolved = await resolveDID(did, "https://registry.example.com");
+
+    expect(did).toMatch(/^did:key:z6Mk/);
+    expect(resolved.document.id).toBe(did);
+    expect(resolved.publicKey).toEqual(keys.signingKey.publicKey);
+    expect(resolved.encryptionKey).toHaveLength(32);
+    expect(globalThis.fetch).not.toHaveBeenCalled();
+  });
+
+  it("dispatches to registered resolvers and caches results", async () => {
+    const generated = generateDID();
+    const resolver = vi.fn().mockResolvedValue({
+      document: generated.document,
+      status: "active",
+      publicKey: generated.keyPair.signingKey.publicKey,
+      encryptionKey: generated.keyPair.encryptionKey.publicKey,
+    });
+    const registry = new DIDResolverRegistry({ cacheTtlMs: 60_000 }).register("example", resolver);
+
+    expect(registry.supports("did:example:123")).toBe(true);
+    expect(registry.supports("did:web:example.com")).toBe(false);
+
+    await registry.resolve("did:example:123");
+    await registry.resolve("did:example:123");
+    expect(resolver).toHaveBeenCalledTimes(1);
+
+    registry.invalidate("did:example:123");
+    await registry.resolve("did:example:123");
+    expect(resolver).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * x811 Protocol — End-to-end payload encryption (X25519 + ChaCha20-Poly1305).
+ *
+ * Each message is sealed to the recipient's keyAgreement key with a fresh
+ * ephemeral X25519 key: the shared secret is expanded with HKDF-SHA256 and
+ * the payload encrypted with ChaCha20-Poly1305. Only the recipient's
+ * private key can open it; the server relays the ciphertext untouched.
+ */
+
+import { x25519 } from "@noble/curves/ed25519";
+import { hkdf } from "@noble/hashes/hkdf";
+import { sha256 } from "@noble/hashes/sha256";
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+import {
+  ENCRYPTED_FIELDS,
+  type EncryptedPayload,
+  type SealedPayload,
+  type X811Envelope,
+} from "../types/messages.js";
+import { X811Error, X811ErrorCode } from "../types/errors.js";
+import { canonicalize } from "./signing.js";
+
+const ALGORITHM = "X25519-HKDF-SHA256-CHACHA20-POLY1305" as const;
+const HKDF_INFO = new TextEncoder().encode("x811/e2e/v1");
+const NONCE_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * Encrypt a JSON-serializable value for a recipient.
+ * @param recipientPublicKey - Recipient's X25519 public key (keyAgreement)
+ * @param associatedData - Authenticated but unencrypted context the
+ *   recipient must supply to decrypt (binds the ciphertext to it)
+ */
+export function encryptPayload(
+  data: unknown,
+  recipientPublicKey: Uint8Array,
+  associatedData?: string,
+): EncryptedPayload {
+  const ephemeralPrivateKey = new Uint8Array(randomBytes(32));
+  const ephemeralPublicKey = x25519.getPublicKey(ephemeralPrivateKey);
+  const key = deriveKey(
+    x25519.getSharedSecret(ephemeralPrivateKey, recipientPublicKey),
+    ephemeralPublicKey,
+    recipientPublicKey,
+  );
+  const nonce = new Uint8Array(randomBytes(NONCE_LENGTH));
+
+  const cipher = createCipheriv("chacha20-poly1305", key, nonce, { authTagLength: TAG_LENGTH });
+  if (associatedData !== undefined) {
+    cipher.setAAD(Buffer.from(associatedData, "utf8"), { plaintextLength: 0 });
+  }
+  const ciphertext = Buffer.concat([
+    cipher.update(JSON.stringify(data), "utf8"),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  return {
+    alg: ALGORITHM,
+    epk: Buffer.from(ephemeralPublicKey).toString("base64url"),
+    nonce: Buffer.from(nonce).toString("base64url"),
+    ciphertext: ciphertext.toString("base64url"),
+  };
+}
+
+/**
+ * Decrypt a payload produced by encryptPayload.
+ * @param recipientPrivateKey - Recipient's X25519 private key
+ * @throws X811Error(DECRYPTION_FAILED) if the key, associated data or
+ *   ciphertext is wrong
+ */
+export function decryptPayload<T = unknown>(
+  encrypted: EncryptedPayload,
+  recipientPrivateKey: Uint8Array,
+  associatedData?: string,
+): T {
+  if (encrypted.alg !== ALGORITHM) {
+    throw new X811Error(
+      X811ErrorCode.DECRYPTION_FAILED,
+      `Unsupported encryption algorithm: ${String(encrypted.alg)}`,
+    );
+  }
+
+  try {
+    const ephemeralPublicKey = new Uint8Array(Buffer.from(encrypted.epk, "base64url"));
+    const nonce = Buffer.from(encrypted.nonce, "base64url");
+    const sealed = Buffer.from(encrypted.ciphertext, "base64url");
+    const key = deriveKey(
+      x25519.getSharedSecret(recipientPrivateKey, ephemeralPublicKey),
+      ephemeralPublicKey,
+      x25519.getPublicKey(recipientPrivateKey),
+    );
+
+    const decipher = createDecipheriv("chacha20-poly1305", key, nonce, { authTagLength: TAG_LENGTH });
+    if (associatedData !== undefined) {
+      decipher.setAAD(Buffer.from(associatedData, "utf8"), { plaintextLength: 0 });
+    }
+    decipher.setAuthTag(sealed.subarray(sealed.length - TAG_LENGTH));
+    const plaintext = Buffer.concat([
+      decipher.update(sealed.subarray(0, sealed.length - TAG_LENGTH)),
+      decipher.final(),
+    ]);
+    return JSON.parse(plaintext.toString("utf8")) as T;
+  } catch {
+    throw new X811Error(X811ErrorCode.DECRYPTION_FAILED, "Failed to decrypt payload");
+  }
+}
+
+/**
+ * Encrypt an unsigned envelope's confidential payload fields (per
+ * ENCRYPTED_FIELDS) for its recipient and mark it `encrypted: true`.
+ * Sign the result as usual. Message types without confidential fields are
+ * returned unchanged.
+ */
+export function encryptEnvelope<T>(
+  envelope: Omit<X811Envelope<T>, "signature">,
+  recipientPublicKey: Uint8Array,
+): Omit<X811Envelope<T | SealedPayload>, "signature"> {
+  const fields = ENCRYPTED_FIELDS[envelope.type];
+  if (!fields) return envelope;
+
+  const clear: Record<string, unknown> = { ...(envelope.payload as Record<string, unknown>) };
+  const secret: Record<string, unknown> = {};
+  for (const field of fields) {
+    if (field in clear) {
+      secret[field] = clear[field];
+      delete clear[field];
+    }
+  }
+
+  return {
+    ...envelope,
+    encrypted: true,
+    payload: {
+      ...clear,
+      sealed: encryptPayload(secret, recipientPublicKey, envelopeContext(envelope)),
+    },
+  };
+}
+
+/**
+ * Decrypt an `encrypted: true` envelope addressed to us, restoring its
+ * payload. Plaintext envelopes are returned unchanged. The result no
+ * longer verifies against the sender's signature, which covers the
+ * ciphertext — verify before decrypting.
+ */
+export function decryptEnvelope<T = unknown>(
+  envelope: X811Envelope<unknown>,
+  recipientPrivateKey: Uint8Array,
+): X811Envelope<T> {
+  if (!envelope.encrypted) return envelope as X811Envelope<T>;
+
+  const { sealed, ...clear } = envelope.payload as SealedPayload;
+  if (!sealed) {
+    throw new X811Error(
+      X811ErrorCode.DECRYPTION_FAILED,
+      "Encrypted envelope is missing its sealed payload",
+    );
+  }
+  const secret = decryptPayload<Record<string, unknown>>(
+    sealed,
+    recipientPrivateKey,
+    envelopeContext(envelope),
+  );
+
+  const { encrypted: _encrypted, ...rest } = envelope;
+  return { ...rest, payload: { ...clear, ...secret } as T };
+}
+
+/**
+ * Derive the AEAD key from the X25519 shared secret, salted with both
+ * public keys so it is bound to this sender/recipient exchange.
+ */
+function deriveKey(
+  sharedSecret: Uint8Array,
+  ephemeralPublicKey: Uint8Array,
+  recipientPublicKey: Uint8Array,
+): Uint8Array {
+  const salt = new Uint8Array(ephemeralPublicKey.length + recipientPublicKey.length);
+  salt.set(ephemeralPublicKey);
+  salt.set(recipientPublicKey, ephemeralPublicKey.length);
+  return hkdf(sha256, sharedSecret, salt, HKDF_INFO, 32);
+}
+
+/**
+ * Associated data for a sealed envelope payload, so its ciphertext cannot
+ * be replayed inside another message.
+ */
+function envelopeContext(envelope: Pick<X811Envelope<unknown>, "id" | "type" | "from" | "to">): string {
+  return canonicalize({
+    id: envelope.id,
+    type: envelope.type,
+    from: envelope.from,
+    to: envelope.to,
+  });
+}
@@ -0,0 +1,14 @@
+/**
+ * x811 Protocol — Escrow identifiers for escrow-settled interactions.
+ */
+
+import { keccak_256 } from "@noble/hashes/sha3";
+import { bytesToHex } from "@noble/hashes/utils";
+
+/**
+ * Compute the X811Escrow key for an interaction: keccak256 of the
+ * server-assigned interaction ID (UTF-8), as a 0x-prefixed bytes32 hex.
+ */
+export function computeEscrowId(interactionId: string): string {
+  return `0x${bytesToHex(keccak_256(new TextEncoder().encode(interactionId)))}`;
+}
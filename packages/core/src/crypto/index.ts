@@ -1,3 +1,5 @@
 export * from "./keys.js";
 export * from "./signing.js";
 export * from "./merkle.js";
+export * from "./escrow.js";
+export * from "./encryption.js";
@@ -19,6 +19,11 @@ export function generateSigningKeyPair(): KeyPair {
   return { publicKey, privateKey };
 }
 
+/** Rebuild an Ed25519 signing key pair from its 32-byte private key. */
+export function signingKeyPairFromPrivateKey(privateKey: Uint8Array): KeyPair {
+  return { publicKey: ed25519.getPublicKey(privateKey), privateKey };
+}
+
 /** Generate an X25519 encryption key pair for key agreement. */
 export function generateEncryptionKeyPair(): KeyPair {
   const privateKey = new Uint8Array(randomBytes(32));
@@ -46,3 +51,25 @@ export function generateDIDKeyPair(agentId: string): DIDKeyPair {
     },
   };
 }
+
+/**
+ * Generate replacement signing and encryption keys for an existing DID,
+ * for key rotation. The DID itself is unchanged.
+ * @param did - The DID the new keys will be bound to.
+ */
+export function rotateDIDKeyPair(did: string): DIDKeyPair {
+  const signing = generateSigningKeyPair();
+  const encryption = generateEncryptionKeyPair();
+
+  return {
+    did,
+    signingKey: {
+      publicKey: signing.publicKey,
+      privateKey: signing.privateKey,
+    },
+    encryptionKey: {
+      publicKey: encryption.publicKey,
+      privateKey: encryption.privateKey,
+    },
+  };
+}
@@ -1,11 +1,15 @@
 /**
  * x811 Protocol — Envelope signing, verification, and canonical serialization.
+ * Also signs and verifies trust attestations (Verifiable Credentials) and
+ * signs HTTP requests to read routes that carry no envelope.
  */
 
 import { ed25519 } from "@noble/curves/ed25519";
 import { sha256 } from "@noble/hashes/sha256";
 import { bytesToHex } from "@noble/hashes/utils";
+import { v7 as uuidv7 } from "uuid";
 import type { X811Envelope } from "../types/messages.js";
+import type { TrustAttestation } from "../types/agent-card.js";
 
 /**
  * Deep-sort all object keys recursively to produce a canonical form.
@@ -90,6 +94,121 @@ export function verifyEnvelope<T>(
   }
 }
 
+/**
+ * Sign a key-rotation nonce with the new private key (proof of possession).
+ * @returns base64url-encoded Ed25519 signature
+ */
+export function signKeyRotationProof(nonce: string, newPrivateKey: Uint8Array): string {
+  return toBase64Url(ed25519.sign(new TextEncoder().encode(nonce), newPrivateKey));
+}
+
+/**
+ * Verify a key-rotation proof against the new public key.
+ * @returns true if the proof is valid, false otherwise.
+ */
+export function verifyKeyRotationProof(
+  nonce: string,
+  proof: string,
+  newPublicKey: Uint8Array,
+): boolean {
+  try {
+    return ed25519.verify(fromBase64Url(proof), new TextEncoder().encode(nonce), newPublicKey);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Sign a trust attestation. The Ed25519 signature covers the canonical
+ * credential together with the proof options (everything but proofValue).
+ * @param verificationMethod - DID URL of the signing key, e.g. "did:web:x811.org#key-1"
+ */
+export function signTrustAttestation(
+  credential: Omit<TrustAttestation, "proof">,
+  privateKey: Uint8Array,
+  verificationMethod: string,
+): TrustAttestation {
+  const proof = {
+    type: "Ed25519Signature2020" as const,
+    created: credential.issuanceDate,
+    verificationMethod,
+    proofPurpose: "assertionMethod" as const,
+  };
+  const messageBytes = new TextEncoder().encode(canonicalize({ ...credential, proof }));
+  return {
+    ...credential,
+    proof: { ...proof, proofValue: toBase64Url(ed25519.sign(messageBytes, privateKey)) },
+  };
+}
+
+/**
+ * Verify a trust attestation against the issuer's public key, resolved
+ * from the issuer DID's document (the key named by proof.verificationMethod).
+ * Works offline once the key is known.
+ * @param options.now - Time to check expiry against (default: now)
+ * @returns true if the signature is valid and the attestation is current, false otherwise.
+ */
+export function verifyTrustAttestation(
+  attestation: TrustAttestation,
+  issuerPublicKey: Uint8Array,
+  options: { now?: Date } = {},
+): boolean {
+  try {
+    if (!attestation.type.includes("X811TrustAttestation")) return false;
+    if (!attestation.proof.verificationMethod.startsWith(`${attestation.issuer}#`)) return false;
+    const now = (options.now ?? new Date()).getTime();
+    if (now > Date.parse(attestation.expirationDate)) return false;
+
+    const { proofValue, ...proof } = attestation.proof;
+    const messageBytes = new TextEncoder().encode(canonicalize({ ...attestation, proof }));
+    return ed25519.verify(fromBase64Url(proofValue), messageBytes, issuerPublicKey);
+  } catch {
+    return false;
+  }
+}
+
+/** Authorization scheme of signed HTTP requests. */
+export const SIGNED_REQUEST_SCHEME = "X811-Signature";
+
+/**
+ * The bytes a signed HTTP request's signature covers: the canonical JSON of
+ * the upper-cased method, the path with its query string, the DID, the
+ * timestamp and the nonce.
+ */
+export function signedRequestMessage(fields: {
+  method: string;
+  path: string;
+  did: string;
+  created: string;
+  nonce: string;
+}): Uint8Array {
+  return new TextEncoder().encode(canonicalize({ ...fields, method: fields.method.toUpperCase() }));
+}
+
+/**
+ * Sign an HTTP request made on behalf of an agent, for routes that read
+ * the agent's data without an envelope body (inbox polling, SSE streams).
+ * Each call uses a fresh nonce, so a header is good for one request.
+ * @param path - Request path including the query string, e.g. "/api/v1/messages/abc?did=..."
+ * @param nonce - Nonce issued by the server, when answering a WebSocket
+ *   authentication challenge; a fresh one is generated otherwise.
+ * @returns Value for the Authorization header:
+ *   `X811-Signature did="…",created="…",nonce="…",signature="…"`
+ */
+export function signRequest(
+  method: string,
+  path: string,
+  did: string,
+  privateKey: Uint8Array,
+  nonce: string = uuidv7(),
+): string {
+  const created = new Date().toISOString();
+  const signature = toBase64Url(
+    ed25519.sign(signedRequestMessage({ method, path, did, created, nonce }), privateKey),
+  );
+  return `${SIGNED_REQUEST_SCHEME} did="${did}",created="${created}",nonce="${nonce}",signature="${signature}"`;
+}
+
 /**
  * Compute the SHA-256 hex digest of canonicalized data.
  */
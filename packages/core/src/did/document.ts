@@ -73,6 +73,14 @@ export function buildDIDDocument(
   };
 }
 
+/**
+ * Multibase-encode (base58btc, "z" prefix) a raw Ed25519 public key with
+ * its multicodec prefix, as used in publicKeyMultibase and did:key.
+ */
+export function encodeEd25519Multibase(publicKey: Uint8Array): string {
+  return base58btc.encode(concatBytes(ED25519_MULTICODEC_PREFIX, publicKey));
+}
+
 /**
  * Extract the raw Ed25519 public key bytes from a DID Document.
  * @throws If no Ed25519VerificationKey2020 is found.
@@ -9,7 +9,7 @@ import { buildDIDDocument } from "./document.js";
 
 /** Result of generating a new DID. */
 export interface GeneratedDID {
-  /** The DID string (did:x811:<uuid>). */
+  /** The DID string (did:x811:<uuid> or did:web:<domain>:agents:<uuid>). */
   did: string;
   /** The W3C DID Document. */
   document: DIDDocument;
@@ -21,10 +21,15 @@ export interface GeneratedDID {
  * Generate a new x811 DID with a UUIDv7 agent identifier, cryptographic keys,
  * and a W3C-compliant DID Document.
  * @param serviceEndpoint - Optional service endpoint URL for agent communication.
+ * @param didDomain - Issue a did:web DID under this registry domain
+ *   (did:web:<domain>:agents:<uuid>) instead of did:x811:<uuid>.
  */
-export function generateDID(serviceEndpoint?: string): GeneratedDID {
+export function generateDID(serviceEndpoint?: string, didDomain?: string): GeneratedDID {
   const agentId = uuidv7();
   const keyPair = generateDIDKeyPair(agentId);
+  if (didDomain) {
+    keyPair.did = `did:web:${encodeURIComponent(didDomain)}:agents:${agentId}`;
+  }
   const did = keyPair.did;
 
   const document = buildDIDDocument(
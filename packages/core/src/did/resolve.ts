@@ -1,10 +1,22 @@
 /**
- * x811 Protocol — DID resolution from a registry endpoint.
+ * x811 Protocol — DID resolution.
+ *
+ * A DIDResolverRegistry dispatches on the DID method. Built-in resolvers:
+ * - did:x811 — fetched from an x811 registry endpoint
+ * - did:web  — fetched from the domain per the did:web spec
+ * - did:key  — derived from the key embedded in the DID itself
  */
 
+import { base58btc } from "multiformats/bases/base58";
+import { edwardsToMontgomeryPub } from "@noble/curves/ed25519";
 import type { DIDDocument, DIDStatus } from "../types/did.js";
 import { X811Error, X811ErrorCode } from "../types/errors.js";
-import { extractPublicKey, extractEncryptionKey } from "./document.js";
+import {
+  buildDIDDocument,
+  encodeEd25519Multibase,
+  extractPublicKey,
+  extractEncryptionKey,
+} from "./document.js";
 
 /** Result of resolving a DID from the registry. */
 export interface ResolvedDID {
@@ -18,43 +30,241 @@ export interface ResolvedDID {
   encryptionKey: Uint8Array;
 }
 
+/** Resolves DIDs of one method. */
+export type DIDResolver = (did: string) => Promise<ResolvedDID>;
+
+/** Ed25519 multicodec prefix: 0xed 0x01 */
+const ED25519_MULTICODEC_PREFIX = new Uint8Array([0xed, 0x01]);
+
+// ---------------------------------------------------------------------------
+// Resolver registry
+// ---------------------------------------------------------------------------
+
+/**
+ * Registry of DID resolvers keyed by DID method, with an optional cache of
+ * resolved documents.
+ */
+export class DIDResolverRegistry {
+  private readonly resolvers = new Map<string, DIDResolver>();
+  private readonly cache = new Map<string, { resolved: ResolvedDID; expiresAt: number }>();
+  private readonly cacheTtlMs: number;
+
+  /**
+   * @param options.cacheTtlMs - How long a resolved document is reused. 0 disables caching.
+   */
+  constructor(options: { cacheTtlMs?: number } = {}) {
+    this.cacheTtlMs = options.cacheTtlMs ?? 0;
+  }
+
+  /** Register (or replace) the resolver for a DID method, e.g. "web". */
+  register(method: string, resolver: DIDResolver): this {
+    this.resolvers.set(method, resolver);
+    return this;
+  }
+
+  /** Whether a resolver is registered for the DID's method. */
+  supports(did: string): boolean {
+    return this.resolvers.has(parseDIDMethod(did));
+  }
+
+  /**
+   * Resolve a DID with the resolver registered for its method.
+   * @throws {X811Error} INVALID_DID_FORMAT if the method is not supported.
+   */
+  async resolve(did: string): Promise<ResolvedDID> {
+    const method = parseDIDMethod(did);
+    const resolver = this.resolvers.get(method);
+    if (!resolver) {
+      throw new X811Error(
+        X811ErrorCode.INVALID_DID_FORMAT,
+        `Unsupported DID method "${method}": ${did}`,
+      );
+    }
+
+    const cached = this.cache.get(did);
+    if (cached && cached.expiresAt > Date.now()) return cached.resolved;
+
+    const resolved = await resolver(did);
+    if (this.cacheTtlMs > 0) {
+      this.cache.set(did, { resolved, expiresAt: Date.now() + this.cacheTtlMs });
+    }
+    return resolved;
+  }
+
+  /** Drop a cached document, e.g. after a signature fails to verify against it. */
+  invalidate(did: string): void {
+    this.cache.delete(did);
+  }
+}
+
+/**
+ * Create a registry with the built-in did:x811, did:web and did:key resolvers.
+ * @param registryUrl - Base URL of the x811 registry used for did:x811.
+ */
+export function createDefaultResolverRegistry(
+  registryUrl: string,
+  options: { cacheTtlMs?: number } = {},
+): DIDResolverRegistry {
+  return new DIDResolverRegistry(options)
+    .register("x811", createX811Resolver(registryUrl))
+    .register("web", resolveDIDWeb)
+    .register("key", resolveDIDKey);
+}
+
 /**
- * Resolve a DID by fetching its document from a registry endpoint.
+ * Resolve a DID of any supported method (did:x811, did:web, did:key).
  * @param did - The DID to resolve (e.g., "did:x811:<uuid>").
- * @param registryUrl - Base URL of the DID registry API.
+ * @param registryUrl - Base URL of the DID registry API, used for did:x811.
  * @throws {X811Error} If the DID is not found, revoked, or the format is invalid.
  */
 export async function resolveDID(
   did: string,
   registryUrl: string,
 ): Promise<ResolvedDID> {
-  // Validate DID format
-  if (!did.startsWith("did:x811:")) {
+  return createDefaultResolverRegistry(registryUrl).resolve(did);
+}
+
+// ---------------------------------------------------------------------------
+// did:x811
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a resolver that fetches did:x811 documents from a registry endpoint.
+ * @param registryUrl - Base URL of the DID registry API.
+ */
+export function createX811Resolver(registryUrl: string): DIDResolver {
+  // Normalize registry URL (strip trailing slash)
+  const baseUrl = registryUrl.replace(/\/+$/, "");
+
+  return async (did) => {
+    const agentId = did.slice("did:x811:".length);
+    if (!agentId) {
+      throw new X811Error(
+        X811ErrorCode.INVALID_DID_FORMAT,
+        "DID is missing the agent identifier",
+      );
+    }
+
+    const body = await fetchDIDJson<{ document: DIDDocument; status: DIDStatus }>(
+      `${baseUrl}/dids/${encodeURIComponent(did)}`,
+      did,
+    );
+    return toResolved(body.document, body.status, did);
+  };
+}
+
+// ---------------------------------------------------------------------------
+// did:web
+// ---------------------------------------------------------------------------
+
+/**
+ * Map a did:web DID to the URL of its DID document.
+ * "did:web:example.com" -> "https://example.com/.well-known/did.json"
+ * "did:web:example.com:agents:42" -> "https://example.com/agents/42/did.json"
+ * @throws {X811Error} INVALID_DID_FORMAT if the DID is not a did:web DID.
+ */
+export function didWebToUrl(did: string): string {
+  const [scheme, method, domain, ...path] = did.split(":");
+  if (scheme !== "did" || method !== "web" || !domain) {
     throw new X811Error(
       X811ErrorCode.INVALID_DID_FORMAT,
-      `Invalid DID format: expected "did:x811:<id>", got "${did}"`,
+      `Invalid did:web DID: "${did}"`,
     );
   }
 
-  const agentId = did.slice("did:x811:".length);
-  if (!agentId) {
+  // A port is percent-encoded in the domain segment
+  const host = decodeURIComponent(domain);
+  const pathname = path.length > 0
+    ? `/${path.map(decodeURIComponent).join("/")}/did.json`
+    : "/.well-known/did.json";
+  return `https://${host}${pathname}`;
+}
+
+/**
+ * Resolve a did:web DID by fetching its document over HTTPS. did:web has
+ * no status mechanism, so a served document is treated as active.
+ */
+export const resolveDIDWeb: DIDResolver = async (did) => {
+  const document = await fetchDIDJson<DIDDocument>(didWebToUrl(did), did);
+  if (document.id !== did) {
     throw new X811Error(
       X811ErrorCode.INVALID_DID_FORMAT,
-      "DID is missing the agent identifier",
+      `DID document id "${document.id}" does not match ${did}`,
     );
   }
+  return toResolved(document, "active", did);
+};
 
-  // Normalize registry URL (strip trailing slash)
-  const baseUrl = registryUrl.replace(/\/+$/, "");
-  const url = `${baseUrl}/dids/${encodeURIComponent(did)}`;
+// ---------------------------------------------------------------------------
+// did:key
+// ---------------------------------------------------------------------------
+
+/**
+ * Encode an Ed25519 public key as a did:key DID.
+ */
+export function didKeyFromPublicKey(publicKey: Uint8Array): string {
+  return `did:key:${encodeEd25519Multibase(publicKey)}`;
+}
+
+/**
+ * Resolve an Ed25519 did:key DID. The document is derived locally; the
+ * keyAgreement key is the X25519 form of the Ed25519 key.
+ */
+export const resolveDIDKey: DIDResolver = async (did) => {
+  const multibase = did.slice("did:key:".length);
+  let decoded: Uint8Array;
+  try {
+    decoded = base58btc.decode(multibase);
+  } catch {
+    throw new X811Error(
+      X811ErrorCode.INVALID_DID_FORMAT,
+      `Invalid did:key encoding: "${did}"`,
+    );
+  }
 
+  const isEd25519 =
+    decoded.length === ED25519_MULTICODEC_PREFIX.length + 32 &&
+    decoded[0] === ED25519_MULTICODEC_PREFIX[0] &&
+    decoded[1] === ED25519_MULTICODEC_PREFIX[1];
+  if (!isEd25519) {
+    throw new X811Error(
+      X811ErrorCode.INVALID_DID_FORMAT,
+      `Only Ed25519 did:key DIDs are supported: "${did}"`,
+    );
+  }
+
+  const publicKey = decoded.slice(ED25519_MULTICODEC_PREFIX.length);
+  const document = buildDIDDocument(did, publicKey, edwardsToMontgomeryPub(publicKey));
+  return toResolved(document, "active", did);
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Extract the method from a DID ("did:web:example.com" -> "web").
+ * @throws {X811Error} INVALID_DID_FORMAT if the string is not a DID.
+ */
+function parseDIDMethod(did: string): string {
+  const match = /^did:([a-z0-9]+):./.exec(did);
+  if (!match) {
+    throw new X811Error(
+      X811ErrorCode.INVALID_DID_FORMAT,
+      `Invalid DID format: "${did}"`,
+    );
+  }
+  return match[1];
+}
+
+async function fetchDIDJson<T>(url: string, did: string): Promise<T> {
   let response: Response;
   try {
     response = await fetch(url);
   } catch (err) {
     throw new X811Error(
       X811ErrorCode.INTERNAL_ERROR,
-      `Failed to reach DID registry at ${url}: ${err instanceof Error ? err.message : String(err)}`,
+      `Failed to reach ${url}: ${err instanceof Error ? err.message : String(err)}`,
     );
   }
 
@@ -68,18 +278,17 @@ export async function resolveDID(
   if (!response.ok) {
     throw new X811Error(
       X811ErrorCode.INTERNAL_ERROR,
-      `Registry returned HTTP ${response.status} for DID ${did}`,
+      `${url} returned HTTP ${response.status} for DID ${did}`,
     );
   }
 
-  const body = (await response.json()) as {
-    document: DIDDocument;
-    status: DIDStatus;
-  };
-
-  const { document, status } = body;
+  return (await response.json()) as T;
+}
 
-  // Reject revoked or deactivated DIDs
+/**
+ * Reject revoked or deactivated DIDs and extract the document's keys.
+ */
+function toResolved(document: DIDDocument, status: DIDStatus, did: string): ResolvedDID {
   if (status === "revoked") {
     throw new X811Error(
       X811ErrorCode.DID_REVOKED,
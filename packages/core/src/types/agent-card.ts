@@ -30,6 +30,8 @@ export interface Capability {
   id: string;
   /** Human-readable capability name. */
   name: string;
+  /** Version of the capability's schemas (semver, default "1.0.0"). */
+  version?: string;
   /** Description of what this capability does. */
   description?: string;
   /** JSON Schema for capability input. */
@@ -40,6 +42,69 @@ export interface Capability {
   pricing: PricingModel;
 }
 
+/** Provider reputation summary, computed from the agent's interactions. */
+export interface ReputationSummary {
+  /** Share of accepted tasks whose result was accepted (null without history). */
+  success_rate: number | null;
+  /** Share of delivered results that were disputed (null without deliveries). */
+  dispute_rate: number | null;
+  /** Median time from accept to result, in milliseconds. */
+  median_delivery_ms: number | null;
+  /** Total USDC paid for completed interactions. */
+  volume_usdc: number;
+  /** Trust score per capability the agent has delivered. */
+  capabilities: Record<string, number>;
+}
+
+/** Agent record a trust attestation vouches for. */
+export interface TrustAttestationSubject {
+  /** DID of the agent the attestation is about. */
+  id: string;
+  /** Trust score (0.0 - 1.0) at issuance. */
+  trust_score: number;
+  /** Total interactions. */
+  interaction_count: number;
+  /** Successful interactions. */
+  successful_count: number;
+  /** Failed interactions. */
+  failed_count: number;
+  /** Latest interaction batch the issuer anchored on-chain, if any. */
+  anchored_batch: {
+    merkle_root: string;
+    tx_hash: string;
+    interaction_count: number;
+  } | null;
+}
+
+/**
+ * Trust attestation: a W3C Verifiable Credential in which an x811 server
+ * vouches for an agent's trust record, signed with the key in the server's
+ * DID document.
+ */
+export interface TrustAttestation {
+  "@context": string[];
+  /** Always includes "VerifiableCredential" and "X811TrustAttestation". */
+  type: string[];
+  /** Credential ID (urn:uuid). */
+  id: string;
+  /** DID of the issuing server. */
+  issuer: string;
+  /** ISO 8601 issuance time. */
+  issuanceDate: string;
+  /** ISO 8601 time after which the attestation must not be relied on. */
+  expirationDate: string;
+  credentialSubject: TrustAttestationSubject;
+  proof: {
+    type: "Ed25519Signature2020";
+    created: string;
+    /** Key that signed the credential, e.g. "did:web:x811.org#key-1". */
+    verificationMethod: string;
+    proofPurpose: "assertionMethod";
+    /** Base64url Ed25519 signature over the canonical credential. */
+    proofValue: string;
+  };
+}
+
 /** Public agent card for discovery and trust evaluation. */
 export interface AgentCard {
   /** Agent display name. */
@@ -68,5 +133,7 @@ export interface AgentCard {
     network: "base";
     /** Current DID status. */
     status: DIDStatus;
+    /** Reputation summary as a provider. */
+    reputation?: ReputationSummary;
   };
 }
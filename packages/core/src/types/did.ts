@@ -57,3 +57,16 @@ export interface DIDKeyPair {
     privateKey: Uint8Array;
   };
 }
+
+/**
+ * Payload of a key-rotation envelope. The envelope is signed with the
+ * agent's current key, which authorizes the new one; the DID is unchanged.
+ */
+export interface KeyRotationPayload {
+  /** DID Document carrying the new keys. Its id must be the agent's DID. */
+  did_document: DIDDocument;
+  /** New Ed25519 public key, base64url encoded. Must match did_document. */
+  public_key: string;
+  /** Signature by the new key over the envelope nonce (proof of possession), base64url encoded. */
+  proof: string;
+}
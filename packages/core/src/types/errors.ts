@@ -15,12 +15,14 @@ export enum X811ErrorCode {
   NONCE_REUSED = "X811-2002",
   TIMESTAMP_EXPIRED = "X811-2003",
   UNAUTHORIZED = "X811-2004",
+  DECRYPTION_FAILED = "X811-2005",
 
   // Registry (3xxx)
   AGENT_NOT_FOUND = "X811-3001",
   AGENT_ALREADY_EXISTS = "X811-3002",
   CAPABILITY_NOT_FOUND = "X811-3003",
   NO_PROVIDERS_AVAILABLE = "X811-3004",
+  INVALID_CAPABILITY_SCHEMA = "X811-3005",
 
   // Negotiation (4xxx)
   OFFER_EXPIRED = "X811-4001",
@@ -29,6 +31,8 @@ export enum X811ErrorCode {
   DEADLINE_TOO_SHORT = "X811-4004",
   TRUST_TOO_LOW = "X811-4005",
   DUPLICATE_REQUEST = "X811-4006",
+  COUNTER_LIMIT_REACHED = "X811-4007",
+  INVALID_REQUEST_PARAMETERS = "X811-4008",
 
   // Settlement (5xxx)
   PAYMENT_FAILED = "X811-5001",
@@ -57,16 +61,20 @@ const ERROR_HTTP_STATUS: Record<string, number> = {
   "X811-2002": 409,
   "X811-2003": 401,
   "X811-2004": 403,
+  "X811-2005": 400,
   "X811-3001": 404,
   "X811-3002": 409,
   "X811-3003": 404,
   "X811-3004": 503,
+  "X811-3005": 400,
   "X811-4001": 410,
   "X811-4002": 409,
   "X811-4003": 400,
   "X811-4004": 400,
   "X811-4005": 403,
   "X811-4006": 409,
+  "X811-4007": 409,
+  "X811-4008": 400,
   "X811-5001": 502,
   "X811-5002": 402,
   "X811-5003": 502,
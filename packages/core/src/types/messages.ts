@@ -8,12 +8,18 @@ export type X811MessageType =
   | "x811/offer"
   | "x811/accept"
   | "x811/reject"
+  | "x811/counter"
   | "x811/result"
   | "x811/verify"
   | "x811/payment"
   | "x811/payment-failed"
+  | "x811/dispute-response"
   | "x811/cancel"
   | "x811/heartbeat"
+  | "x811/ack"
+  | "x811/peer"
+  | "x811/forward"
+  | "x811/webhook"
   | "x811/error";
 
 /** Signed message envelope for all x811 protocol communication. */
@@ -34,24 +40,135 @@ export interface X811Envelope<T> {
   expires?: string;
   /** Typed message payload. */
   payload: T;
+  /**
+   * Set when the payload's confidential fields are end-to-end encrypted
+   * for the recipient (see ENCRYPTED_FIELDS); the payload then carries
+   * them in `sealed`.
+   */
+  encrypted?: true;
   /** Base64url-encoded Ed25519 signature. */
   signature: string;
   /** Unique nonce to prevent replay attacks. */
   nonce: string;
 }
 
+/**
+ * Payload of a server-to-server peering envelope: the sending server
+ * announces the base URL it can be reached at.
+ */
+export interface PeerPayload {
+  /** Base URL of the announcing server's API. */
+  url: string;
+}
+
+/**
+ * Payload of a server-to-server envelope: a federated server relays an
+ * agent's envelope, unchanged, to the recipient's home server.
+ */
+export interface ForwardPayload {
+  /** The agent envelope being relayed. */
+  envelope: X811Envelope<unknown>;
+}
+
+/**
+ * Payload of a webhook delivery: the server POSTs an agent envelope
+ * addressed to the recipient to its registered endpoint, wrapped in an
+ * envelope signed with the server DID's key.
+ */
+export interface WebhookPayload {
+  /** The agent envelope being delivered. */
+  envelope: X811Envelope<unknown>;
+  /** 1 for the first attempt, incremented on every retry. */
+  attempt: number;
+}
+
+/**
+ * Payload of an acknowledgement: the recipient has processed these
+ * messages, so the server stops redelivering them.
+ */
+export interface AckPayload {
+  /** IDs of polled or pushed messages. */
+  message_ids: string[];
+}
+
+/** Server's answer to a submitted envelope (`POST /api/v1/messages`). */
+export interface SendResult {
+  message_id: string;
+  /** Delivery status: "queued", "forwarding", "forwarded", ... */
+  status: string;
+  recipient_availability?: string;
+  /** Set for negotiation messages the server hosts. */
+  interaction_id?: string;
+  interaction_status?: string;
+  /** The message was delivered, but the negotiation rejected it. */
+  negotiation_error?: { code: string; message: string; details?: Record<string, unknown> };
+  /** Home server of a forwarded message's recipient. */
+  peer_did?: string;
+}
+
+/**
+ * Frames an agent sends over the WebSocket transport
+ * (`/api/v1/messages/{agentId}/ws`), as JSON text. The first must be
+ * `auth`: an X811-Signature for the socket path whose nonce is the
+ * server's challenge. `subscribe: false` opens a send-only socket.
+ */
+export type ClientFrame =
+  | { type: "auth"; authorization: string; subscribe?: boolean }
+  | { type: "send"; envelope: X811Envelope<unknown> }
+  | { type: "ack"; message_ids: string[] };
+
+/**
+ * Frames the server sends over the WebSocket transport. `result` and
+ * `error` answer a `send` frame and carry the envelope's `id`.
+ */
+export type ServerFrame =
+  | { type: "challenge"; challenge: string }
+  | { type: "ready"; did: string }
+  | { type: "message"; envelope: X811Envelope<unknown> }
+  | { type: "result"; id: string; result: SendResult }
+  | { type: "acked"; acknowledged: string[]; unknown: string[] }
+  | {
+    type: "error";
+    id?: string;
+    error: { code: string; message: string; details?: Record<string, unknown> };
+  };
+
+/** Ciphertext of an end-to-end encrypted payload. */
+export interface EncryptedPayload {
+  /** Key agreement, KDF and AEAD suite. */
+  alg: "X25519-HKDF-SHA256-CHACHA20-POLY1305";
+  /** Base64url-encoded ephemeral X25519 public key of the sender. */
+  epk: string;
+  /** Base64url-encoded 12-byte AEAD nonce. */
+  nonce: string;
+  /** Base64url-encoded ciphertext followed by the 16-byte Poly1305 tag. */
+  ciphertext: string;
+}
+
+/**
+ * Payload of an `encrypted: true` envelope: the fields the server needs
+ * for routing and negotiation stay in the clear; the confidential ones
+ * are moved into `sealed`.
+ */
+export type SealedPayload = Record<string, unknown> & {
+  sealed: EncryptedPayload;
+};
+
 /** Negotiation lifecycle states. */
 export type NegotiationStatus =
   | "pending"
   | "offered"
+  | "countered"
   | "accepted"
   | "delivered"
   | "verified"
+  | "payment_pending"
   | "completed"
   | "expired"
   | "rejected"
   | "disputed"
-  | "failed";
+  | "failed"
+  | "cancelled";
 
 /** Size and time limits for protocol messages. */
 export const MESSAGE_LIMITS = {
@@ -67,6 +184,15 @@ export const MESSAGE_LIMITS = {
   MAX_CLOCK_SKEW_MINUTES: 5,
 } as const;
 
+/**
+ * Payload fields that are encrypted end-to-end, per message type. The
+ * server never needs them: it routes and negotiates on the rest.
+ */
+export const ENCRYPTED_FIELDS: Partial<Record<X811MessageType, readonly string[]>> = {
+  "x811/request": ["parameters"],
+  "x811/result": ["content", "result_url"],
+};
+
 /** TTLs for each negotiation phase in seconds. */
 export const NEGOTIATION_TTLS = {
   /** Time from request to offer (seconds). */
@@ -81,6 +207,8 @@ export const NEGOTIATION_TTLS = {
   VERIFY_TO_PAY: 60,
   /** Time for payment confirmation (seconds). */
   PAY_CONFIRMATION: 30,
+  /** Time for the provider to respond to a dispute (seconds). */
+  DISPUTE_RESPONSE: 3_600,
   /** Maximum payment retry attempts. */
   PAYMENT_MAX_RETRIES: 4,
 } as const;
@@ -2,10 +2,14 @@
  * x811 Protocol — Negotiation payload types for the request-offer-accept lifecycle.
  */
 
+import type { TrustAttestation } from "./agent-card.js";
+
 /** Payload for a task request from a consumer agent. */
 export interface RequestPayload {
-  /** Type of task being requested. */
+  /** Type of task being requested — the provider's capability name. */
   task_type: string;
+  /** Capability version the parameters were written against; rejected if the provider's differs. */
+  capability_version?: string;
   /** Task-specific parameters. */
   parameters: Record<string, unknown>;
   /** Maximum budget the consumer is willing to pay (USDC). */
@@ -22,8 +26,22 @@ export interface RequestPayload {
   callback_url?: string;
   /** UUIDv4 idempotency key to prevent duplicate requests. */
   idempotency_key: string;
+  /**
+   * Request-for-quote group. Requests fanned out to several providers share
+   * an rfq_id; once one of their offers is accepted the server closes out
+   * the rest.
+   */
+  rfq_id?: string;
 }
 
+/**
+ * How an accepted offer is settled.
+ * - "direct": the initiator transfers USDC to the provider after verification.
+ * - "escrow": the initiator locks total_cost in X811Escrow on accept; the
+ *   server releases it on successful verification or refunds it on timeout.
+ */
+export type SettlementMode = "direct" | "escrow";
+
 /** Payload for a provider's offer in response to a request. */
 export interface OfferPayload {
   /** ID of the original request. */
@@ -46,6 +64,10 @@ export interface OfferPayload {
   expiry: number;
   /** Provider's checksummed Ethereum address for receiving payment. REQUIRED per RFC S.8.2. */
   payment_address: string;
+  /** Settlement mode for this offer. Defaults to "direct". */
+  settlement?: SettlementMode;
+  /** Provider's trust attestation from its home server, for the initiator to check. */
+  trust_attestation?: TrustAttestation;
 }
 
 /** Payload for accepting a provider's offer. */
@@ -54,6 +76,8 @@ export interface AcceptPayload {
   offer_id: string;
   /** SHA-256 hash of the offer for integrity verification. */
   offer_hash: string;
+  /** Escrow deposit tx hash. Required when the offer's settlement is "escrow". */
+  escrow_tx_hash?: string;
 }
 
 /** Rejection reason codes. */
@@ -74,6 +98,58 @@ export interface RejectPayload {
   code: RejectReasonCode;
 }
 
+/**
+ * Payload for a counter-offer. The initiator counters the provider's
+ * current offer; the provider answers with a counter that becomes the new
+ * offer (its terms replace the offer's price, protocol_fee, total_cost and
+ * estimated_time). Rounds alternate and are capped by the server.
+ */
+export interface CounterPayload {
+  /** ID of the interaction under negotiation. */
+  request_id: string;
+  /** Proposed price in USDC. */
+  price: string;
+  /** Protocol fee (2.5%) on the proposed price. */
+  protocol_fee: string;
+  /** Proposed total cost (price + protocol_fee). */
+  total_cost: string;
+  /** Proposed execution time (deadline) in seconds. Defaults to the current terms. */
+  estimated_time?: number;
+  /** Optional note explaining the counter. */
+  message?: string;
+}
+
+/** One round of an interaction's offer history. */
+export interface OfferRound {
+  /** 0 for the provider's initial offer, then 1, 2, ... per counter. */
+  round: number;
+  /** Which party proposed these terms. */
+  from: "initiator" | "provider";
+  price: string;
+  protocol_fee: string;
+  total_cost: string;
+  estimated_time: number;
+  message?: string;
+  /** ISO 8601 time the round was received. */
+  created_at: string;
+}
+
+/**
+ * Payload for cancelling an interaction. The initiator may cancel before
+ * acceptance at no cost. Once accepted, a cancel from one party waits for
+ * the other party's cancel (consent), unless `force` is set, in which case
+ * it takes effect immediately and counts against the sender's trust score.
+ * Delivered interactions cannot be cancelled.
+ */
+export interface CancelPayload {
+  /** ID of the interaction to cancel. */
+  interaction_id: string;
+  /** Human-readable reason for the cancellation. */
+  reason?: string;
+  /** Cancel an accepted interaction without the counterparty's consent. */
+  force?: boolean;
+}
+
 /** Payload for delivering task results. */
 export interface ResultPayload {
   /** ID of the original request. */
@@ -136,6 +212,33 @@ export interface VerifyPayload {
   dispute_code?: "WRONG_RESULT" | "INCOMPLETE" | "TIMEOUT" | "QUALITY" | "OTHER";
 }
 
+/** Payload for a provider's response to a disputed result. */
+export interface DisputeResponsePayload {
+  /** ID of the disputed request interaction. */
+  request_id: string;
+  /** Provider's explanation and evidence supporting the delivered result. */
+  evidence: string;
+  /** Optional URL with additional evidence (logs, intermediate artifacts). */
+  evidence_url?: string;
+}
+
+/** Outcome of a resolved dispute. */
+export type DisputeOutcome = "provider_wins" | "initiator_wins" | "split";
+
+/** Resolution recorded on a disputed interaction. */
+export interface DisputeResolution {
+  /** Which party the dispute was decided for. */
+  outcome: DisputeOutcome;
+  /** Provider's share of the total cost when outcome = "split" (0 < share < 1). */
+  provider_share?: number;
+  /** Human-readable rationale for the decision. */
+  reason: string;
+  /** Who decided: the automated arbiter, an admin, or the response timeout. */
+  resolved_by: "automated" | "admin" | "timeout";
+  /** ISO 8601 resolution timestamp. */
+  resolved_at: string;
+}
+
 /** Payload for protocol error messages. */
 export interface ErrorPayload {
   /** Machine-readable error code. */
@@ -36,9 +36,18 @@ import { readFileSync, writeFileSync, existsSync, mkdirSync } from "node:fs";
 import { join } from "node:path";
 import { homedir } from "node:os";
 
-import { X811Client, generateDID, createWalletAdapter } from "@x811/sdk";
+import {
+  X811Client,
+  generateDID,
+  createWalletAdapter,
+  lockOfferInEscrow,
+  evaluateOffer,
+  ApprovalQueue,
+  selectOffer,
+} from "@x811/sdk";
 import type { WalletAdapter, VerifyPayload } from "@x811/sdk";
-import type { DIDKeyPair } from "@x811/core";
+import { signRequest } from "@x811/core";
+import type { DIDKeyPair, AcceptancePolicy, OfferPayload } from "@x811/core";
 import { initBuffer, pushToBuffer, consumeFromBuffer, drainBuffer, bufferSize } from "./buffer-utils.js";
 import { SSEClient } from "./sse-client.js";
 
@@ -49,6 +58,10 @@ import { SSEClient } from "./sse-client.js";
 const SERVER_URL = process.env.X811_SERVER_URL || "https://api.x811.org";
 const STATE_DIR = process.env.X811_STATE_DIR || join(homedir(), ".x811");
 const KEYS_FILE = join(STATE_DIR, "keys.json");
+/** End-to-end encrypt request parameters and result content. */
+const ENCRYPT = process.env.X811_ENCRYPT === "true";
+/** Transport for sends and push: "sse" (REST + SSE) or "websocket". */
+const TRANSPORT = process.env.X811_TRANSPORT === "websocket" ? "websocket" : "sse";
 
 // ---------------------------------------------------------------------------
 // Key persistence — save DID keys so agent identity survives restarts
@@ -110,7 +123,12 @@ function getOrCreateKeys(): DIDKeyPair {
 // ---------------------------------------------------------------------------
 
 const keyPair = getOrCreateKeys();
-const client = new X811Client({ serverUrl: SERVER_URL, keyPair });
+const client = new X811Client({
+  serverUrl: SERVER_URL,
+  keyPair,
+  encrypt: ENCRYPT,
+  transport: TRANSPORT === "websocket" ? "websocket" : "http",
+});
 
 // Wallet adapter — initialized async, null means no wallet configured
 let wallet: WalletAdapter | null = null;
@@ -118,6 +136,15 @@ let wallet: WalletAdapter | null = null;
 let registered = false;
 let agentName = "";
 
+// Offers escalated by an acceptance policy, awaiting x811_approve_offer / x811_deny_offer
+const approvals = new ApprovalQueue();
+
+/** Policies of requests sent via x811_request, keyed by provider DID (latest request wins). */
+const requestPolicies = new Map<string, { policy: AcceptancePolicy; capability: string }>();
+
+/** Escalated offers from x811_request_and_pay — approving them resumes the autonomous flow. */
+const autonomousApprovals = new Map<string, { providerName: string }>();
+
 // Log startup info for diagnostics
 process.stderr.write(`[x811] MCP server starting\n`);
 process.stderr.write(`[x811]   DID: ${client.did}\n`);
@@ -129,7 +156,7 @@ process.stderr.write(`[x811]   Keys file: ${KEYS_FILE}\n`);
 initBuffer();
 
 // SSE client — connects on startup, falls back to poll mode on failure
-const sseClient = new SSEClient();
+const sseClient = new SSEClient({ transport: TRANSPORT });
 
 // Initialize wallet adapter (async — runs before server starts)
 const walletInitPromise = createWalletAdapter().then((adapter: WalletAdapter | null) => {
@@ -147,8 +174,18 @@ walletInitPromise.finally(() => {
   sseClient.connect(
     SERVER_URL,
     client.did,
-    () => "", // SSE uses ?did= query param auth, no auth header needed
-    pushToBuffer,
+    // Signed fresh on every (re)connect — each signature is single-use
+    (path, nonce) => signRequest("GET", path, client.did, client.keyPair.signingKey.privateKey, nonce),
+    (msg) => {
+      // Acknowledge only once the message is persisted in the buffer; until
+      // then the server redelivers it
+      pushToBuffer(msg);
+      if (typeof msg.id === "string") {
+        client.ack([msg.id]).catch((err: unknown) => {
+          process.stderr.write(`[x811:sse] ack failed: ${err instanceof Error ? err.message : String(err)}\n`);
+        });
+      }
+    },
   ).catch((err: unknown) => {
     process.stderr.write(`[x811:sse] connection error: ${err instanceof Error ? err.message : String(err)}\n`);
   });
@@ -243,21 +280,27 @@ server.tool(
 );
 
 // ---------------------------------------------------------------------------
-// Tool: x811_discover — Find agents by capability
+// Tool: x811_discover — Find agents by capability or description
 // ---------------------------------------------------------------------------
 
 server.tool(
   "x811_discover",
-  "Discover other AI agents on the x811 network by capability, trust score, or availability. Use this to find a provider for a task.",
+  "Discover other AI agents on the x811 network by capability, a description of the task, price, completion time, trust score, or availability. Use this to shortlist providers within budget before sending a request.",
   {
-    capability: z.string().optional().describe("Filter by capability (e.g. 'financial-analysis')"),
+    capability: z.string().optional().describe("Filter by capability or taxonomy path; matches everything below it (e.g. 'code/review' also finds 'code/review/typescript')"),
+    q: z.string().optional().describe("Describe the task in plain words; results are ranked by relevance and trust"),
+    max_price: z.number().optional().describe("Only providers with a matching capability priced at or below this (USDC)"),
+    max_latency_ms: z.number().optional().describe("Only providers whose median completion time is at or below this (ms)"),
+    sort: z.enum(["price", "trust", "latency"]).optional().describe("Order results by lowest price, highest trust or fastest completion"),
     trust_min: z.number().optional().describe("Minimum trust score 0.0-1.0"),
     availability: z.string().optional().describe("Filter by availability: online, busy, offline"),
     limit: z.number().optional().describe("Max results (default 20)"),
   },
-  async ({ capability, trust_min, availability, limit }) => {
+  async ({ capability, q, max_price, max_latency_ms, sort, trust_min, availability, limit }) => {
     try {
-      const result = await client.discover({ capability, trust_min, availability, limit });
+      const result = await client.discover({
+        capability, q, max_price, max_latency_ms, sort, trust_min, availability, limit,
+      });
       return {
         content: [{
           type: "text",
@@ -315,23 +358,35 @@ server.tool(
     max_budget: z.number().describe("Maximum budget in USDC (e.g. 0.05)"),
     deadline: z.number().optional().describe("Deadline in seconds (default 60)"),
     acceptance_policy: z.enum(["auto", "human_approval", "threshold"]).optional()
-      .describe("How to handle offers: auto (accept if within budget), human_approval (ask user), threshold"),
+      .describe("How to handle offers: auto (accept if within budget), human_approval (ask user), threshold (auto-accept up to threshold_amount, ask user above it)"),
+    threshold_amount: z.number().optional().describe("Auto-accept limit in USDC for the threshold policy"),
+    min_trust_score: z.number().min(0).max(1).optional().describe("Reject offers from providers below this trust score (0-1, default 0)"),
+    allowed_capabilities: z.array(z.string()).optional().describe("Reject offers unless task_type is in this list (default: any)"),
   },
-  async ({ provider_did, task_type, parameters, max_budget, deadline, acceptance_policy }) => {
+  async ({ provider_did, task_type, parameters, max_budget, deadline, acceptance_policy, threshold_amount, min_trust_score, allowed_capabilities }) => {
     try {
+      const policy: AcceptancePolicy = {
+        acceptance_policy: acceptance_policy || "auto",
+        threshold_amount,
+        min_trust_score: min_trust_score ?? 0,
+        max_budget_per_task: max_budget,
+        allowed_capabilities: allowed_capabilities ?? [],
+      };
       const messageId = await client.request(provider_did, {
         task_type,
         parameters: parameters || {},
         max_budget,
         currency: "USDC",
         deadline: deadline || 60,
-        acceptance_policy: acceptance_policy || "auto",
+        acceptance_policy: policy.acceptance_policy,
+        threshold_amount,
         idempotency_key: crypto.randomUUID(),
       });
+      requestPolicies.set(provider_did, { policy, capability: task_type });
       return {
         content: [{
           type: "text",
-          text: `Request sent! message_id: ${messageId}\n\nNow poll for the provider's offer using x811_poll.`,
+          text: `Request sent! message_id: ${messageId}\n\nNow poll for the provider's offer using x811_poll — it will be accepted, rejected or queued for approval under the "${policy.acceptance_policy}" policy.`,
         }],
       };
     } catch (err) {
@@ -366,10 +421,18 @@ server.tool(
           content: [{ type: "text", text: "No new messages." }],
         };
       }
+
+      // Apply the acceptance policy of x811_request to incoming offers
+      const decisions: string[] = [];
+      for (const msg of allMessages) {
+        const decision = await applyRequestPolicy(msg);
+        if (decision) decisions.push(decision);
+      }
+
       return {
         content: [{
           type: "text",
-          text: `${allMessages.length} message(s) received${buffered.length > 0 ? ` (${buffered.length} from buffer)` : ""}:\n\n${JSON.stringify(allMessages, null, 2)}`,
+          text: `${allMessages.length} message(s) received${buffered.length > 0 ? ` (${buffered.length} from buffer)` : ""}:\n\n${JSON.stringify(allMessages, null, 2)}${decisions.length > 0 ? `\n\nPolicy decisions:\n${decisions.map((d) => `- ${d}`).join("\n")}` : ""}`,
         }],
       };
     } catch (err) {
@@ -397,8 +460,9 @@ server.tool(
     terms: z.string().optional().describe("Additional terms or conditions"),
     expiry: z.number().optional().describe("Offer expiry in seconds (default 300)"),
     payment_address: z.string().optional().describe("Checksummed Ethereum address for receiving USDC payment (defaults to wallet address)"),
+    settlement: z.enum(["direct", "escrow"]).optional().describe("'direct' (initiator pays after verifying, default) or 'escrow' (initiator locks funds on accept, released on verify)"),
   },
-  async ({ initiator_did, request_id, price, estimated_time, deliverables, terms, expiry, payment_address }) => {
+  async ({ initiator_did, request_id, price, estimated_time, deliverables, terms, expiry, payment_address, settlement }) => {
     try {
       // Validate payment address — reject empty or zero address
       const resolvedAddress = payment_address || wallet?.address || "";
@@ -424,6 +488,7 @@ server.tool(
         terms,
         expiry: expiry || 300,
         payment_address: resolvedAddress,
+        settlement,
       });
       return {
         content: [{
@@ -451,12 +516,14 @@ server.tool(
     provider_did: z.string().describe("DID of the provider"),
     offer_id: z.string().describe("Interaction/offer ID"),
     offer_hash: z.string().describe("SHA-256 hash of the offer payload (from the offer message)"),
+    escrow_tx_hash: z.string().optional().describe("Escrow deposit tx hash — required when the offer's settlement is 'escrow'"),
   },
-  async ({ provider_did, offer_id, offer_hash }) => {
+  async ({ provider_did, offer_id, offer_hash, escrow_tx_hash }) => {
     try {
       const messageId = await client.accept(provider_did, {
         offer_id,
         offer_hash,
+        escrow_tx_hash,
       });
       return {
         content: [{
@@ -473,6 +540,49 @@ server.tool(
   },
 );
 
+// ---------------------------------------------------------------------------
+// Tool: x811_counter — Counter an offer (either party)
+// ---------------------------------------------------------------------------
+
+server.tool(
+  "x811_counter",
+  "Propose a different price or completion time instead of accepting or rejecting. As initiator, counter a provider's offer; as provider, answer the initiator's counter — your terms become the new offer. The number of rounds is limited.",
+  {
+    counterparty_did: z.string().describe("DID of the other party"),
+    request_id: z.string().describe("Interaction/request ID being negotiated"),
+    price: z.string().describe("Proposed price in USDC (e.g. '0.025'), before the protocol fee"),
+    estimated_time: z.number().optional().describe("Proposed completion time in seconds (defaults to the offer's)"),
+    message: z.string().optional().describe("Note to the other party"),
+  },
+  async ({ counterparty_did, request_id, price, estimated_time, message }) => {
+    try {
+      const priceNum = parseFloat(price);
+      const protocolFee = (priceNum * 0.025).toFixed(6);
+      const totalCost = (priceNum + parseFloat(protocolFee)).toFixed(6);
+
+      const messageId = await client.counter(counterparty_did, {
+        request_id,
+        price,
+        protocol_fee: protocolFee,
+        total_cost: totalCost,
+        estimated_time,
+        message,
+      });
+      return {
+        content: [{
+          type: "text",
+          text: `Counter-offer sent! message_id: ${messageId}\nPrice: $${price} USDC + $${protocolFee} protocol fee = $${totalCost} total\n\nPoll for the other party's answer.`,
+        }],
+      };
+    } catch (err) {
+      return {
+        content: [{ type: "text", text: `Counter failed: ${err instanceof Error ? err.message : String(err)}` }],
+        isError: true,
+      };
+    }
+  },
+);
+
 // ---------------------------------------------------------------------------
 // Tool: x811_reject — Reject a provider's offer
 // ---------------------------------------------------------------------------
@@ -508,6 +618,41 @@ server.tool(
   },
 );
 
+// ---------------------------------------------------------------------------
+// Tool: x811_cancel — Cancel an in-flight interaction (either party)
+// ---------------------------------------------------------------------------
+
+server.tool(
+  "x811_cancel",
+  "Cancel an interaction. As initiator, cancel freely until you accept an offer. After acceptance the cancellation takes effect once the other party also cancels; set force to cancel immediately, which counts as a failure on your trust score. Delivered work cannot be cancelled.",
+  {
+    counterparty_did: z.string().describe("DID of the other party"),
+    interaction_id: z.string().describe("Interaction/request ID to cancel"),
+    reason: z.string().optional().describe("Reason for cancelling"),
+    force: z.boolean().optional().describe("Cancel an accepted interaction without the other party's consent (trust penalty)"),
+  },
+  async ({ counterparty_did, interaction_id, reason, force }) => {
+    try {
+      const messageId = await client.cancel(counterparty_did, {
+        interaction_id,
+        reason,
+        force,
+      });
+      return {
+        content: [{
+          type: "text",
+          text: `Cancel sent. message_id: ${messageId}\n\nAn accepted interaction stays open until the other party also cancels, unless force was set.`,
+        }],
+      };
+    } catch (err) {
+      return {
+        content: [{ type: "text", text: `Cancel failed: ${err instanceof Error ? err.message : String(err)}` }],
+        isError: true,
+      };
+    }
+  },
+);
+
 // ---------------------------------------------------------------------------
 // Tool: x811_deliver_result — Deliver task result (as provider)
 // ---------------------------------------------------------------------------
@@ -586,7 +731,9 @@ server.tool(
       return {
         content: [{
           type: "text" as const,
-          text: `Verification sent! message_id: ${messageId}\nverified: ${isVerified}${!isVerified ? `\ndispute: ${dispute_code} — ${dispute_reason}` : ""}\n\nNow send payment with x811_pay.`,
+          text: isVerified
+            ? `Verification sent! message_id: ${messageId}\nverified: true\n\nNow send payment with x811_pay.`
+            : `Dispute opened! message_id: ${messageId}\ndispute: ${dispute_code} — ${dispute_reason}\n\nThe provider has 1 hour to respond with x811_dispute_response; unanswered disputes are decided in your favor. Do NOT pay until the dispute is resolved.`,
         }],
       };
     } catch (err) {
@@ -598,6 +745,41 @@ server.tool(
   },
 );
 
+// ---------------------------------------------------------------------------
+// Tool: x811_dispute_response — Answer a dispute as provider
+// ---------------------------------------------------------------------------
+
+server.tool(
+  "x811_dispute_response",
+  "Respond to an initiator's dispute of your result with evidence. The arbiter decides the dispute from the result, the dispute and your evidence.",
+  {
+    initiator_did: z.string().describe("DID of the initiator who opened the dispute"),
+    interaction_id: z.string().describe("Disputed interaction ID"),
+    evidence: z.string().describe("Why the delivered result satisfies the request"),
+    evidence_url: z.string().optional().describe("URL of supporting material (logs, full output)"),
+  },
+  async ({ initiator_did, interaction_id, evidence, evidence_url }) => {
+    try {
+      const messageId = await client.respondToDispute(initiator_did, {
+        request_id: interaction_id,
+        evidence,
+        ...(evidence_url ? { evidence_url } : {}),
+      });
+      return {
+        content: [{
+          type: "text" as const,
+          text: `Dispute response sent! message_id: ${messageId}\n\nThe server's arbiter decides the dispute from your evidence; anything it cannot check automatically is resolved by an admin. If you win, the initiator owes payment (or the escrow is released to you).`,
+        }],
+      };
+    } catch (err) {
+      return {
+        content: [{ type: "text" as const, text: `Dispute response failed: ${err instanceof Error ? err.message : String(err)}` }],
+        isError: true,
+      };
+    }
+  },
+);
+
 // ---------------------------------------------------------------------------
 // Tool: x811_pay — Send payment
 // ---------------------------------------------------------------------------
@@ -708,6 +890,33 @@ server.tool(
   },
 );
 
+// ---------------------------------------------------------------------------
+// Tool: x811_rotate_keys — Rotate signing and encryption keys
+// ---------------------------------------------------------------------------
+
+server.tool(
+  "x811_rotate_keys",
+  "Rotate your agent's signing and encryption keys. Your DID, trust score and history are kept; the new keys are saved locally and the old key stops working after a short grace window.",
+  {},
+  async () => {
+    try {
+      const newKeys = await client.rotateKeys();
+      saveKeys(newKeys);
+      return {
+        content: [{
+          type: "text",
+          text: `Keys rotated for ${newKeys.did}. New keys saved to ${KEYS_FILE}.`,
+        }],
+      };
+    } catch (err) {
+      return {
+        content: [{ type: "text", text: `Key rotation failed: ${err instanceof Error ? err.message : String(err)}` }],
+        isError: true,
+      };
+    }
+  },
+);
+
 // ---------------------------------------------------------------------------
 // Tool: x811_verify_onchain — Verify interaction on-chain
 // ---------------------------------------------------------------------------
@@ -764,6 +973,20 @@ server.tool(
   },
 );
 
+// ---------------------------------------------------------------------------
+// Internal: result formatting helper
+// ---------------------------------------------------------------------------
+
+/** Pretty-print a result's content when it is JSON, otherwise return it as-is. */
+function formatResultContent(content: unknown): string {
+  const text = content as string;
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text; // not JSON, use as-is
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Internal: polling helper
 // ---------------------------------------------------------------------------
@@ -820,6 +1043,263 @@ async function pollForMessage(
   return { message: null, all: collected };
 }
 
+// ---------------------------------------------------------------------------
+// Internal: acceptance policy + settlement helpers
+// ---------------------------------------------------------------------------
+
+type ToolResult = { content: { type: "text"; text: string }[]; isError?: boolean };
+
+/** Provider trust score from its agent card, or undefined if it cannot be fetched. */
+async function getTrustScore(did: string): Promise<number | undefined> {
+  try {
+    const card = await client.getAgentCard(did);
+    return card.x811.trust_score;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Apply the policy recorded by x811_request to an incoming offer:
+ * auto-accept, auto-reject, or queue it for approval. Returns a summary
+ * line, or null if the message is not an offer with a recorded policy.
+ */
+async function applyRequestPolicy(message: Record<string, unknown>): Promise<string | null> {
+  const providerDid = message.from as string;
+  const entry = requestPolicies.get(providerDid);
+  if (message.type !== "x811/offer" || !entry) return null;
+  requestPolicies.delete(providerDid);
+
+  const offer = message.payload as OfferPayload;
+  const evaluation = evaluateOffer(entry.policy, offer, {
+    capability: entry.capability,
+    provider_trust_score: entry.policy.min_trust_score > 0 ? await getTrustScore(providerDid) : undefined,
+  });
+  process.stderr.write(`[x811:policy] Offer ${offer.request_id}: ${evaluation.decision} (${evaluation.reason})\n`);
+
+  switch (evaluation.decision) {
+    case "accept":
+      try {
+        await acceptOffer(providerDid, offer, []);
+        return `Offer ${offer.request_id} auto-accepted: ${evaluation.reason}. Poll for the provider's result.`;
+      } catch (err) {
+        const reason = `Auto-accept failed: ${err instanceof Error ? err.message : String(err)}`;
+        approvals.add({ provider_did: providerDid, capability: entry.capability, offer, reason });
+        return `Offer ${offer.request_id} queued for approval — ${reason}`;
+      }
+    case "reject":
+      await client.reject(providerDid, {
+        offer_id: offer.request_id,
+        reason: evaluation.reason,
+        code: evaluation.reject_code ?? "POLICY_REJECTED",
+      });
+      return `Offer ${offer.request_id} rejected: ${evaluation.reason}`;
+    case "escalate":
+      approvals.add({ provider_did: providerDid, capability: entry.capability, offer, reason: evaluation.reason });
+      return `Offer ${offer.request_id} awaiting approval: ${evaluation.reason}. Ask the user, then call x811_approve_offer or x811_deny_offer.`;
+  }
+}
+
+/**
+ * Register as an initiator (no capabilities), reusing an existing
+ * registration of this DID.
+ */
+async function registerInitiator(name: string, description: string, log: string[]): Promise<void> {
+  try {
+    await client.register({ name, description, capabilities: [] });
+    log.push(`  ✓ Registered. DID: ${client.did}`);
+    process.stderr.write(`[x811:initiator] Registered. DID: ${client.did}\n`);
+  } catch (regErr) {
+    const msg = regErr instanceof Error ? regErr.message : String(regErr);
+    if (!msg.includes("already exists")) throw regErr;
+    log.push(`  ✓ Already registered. DID: ${client.did} (reusing existing identity)`);
+    process.stderr.write(`[x811:initiator] Reusing existing registration. DID: ${client.did}\n`);
+  }
+  registered = true;
+  agentName = name;
+}
+
+/**
+ * Accept an offer. Escrow-settled offers lock price + fee in the escrow
+ * contract first, which requires a wallet and a server-side escrow address.
+ * @throws If escrow is required but cannot be funded
+ */
+async function acceptOffer(providerDid: string, offer: OfferPayload, log: string[]): Promise<void> {
+  const { hashPayload } = await import("@x811/core");
+  const offerHash = hashPayload(offer);
+
+
+  let escrowTxHash: string | undefined;
+  if (offer.settlement === "escrow") {
+    if (!wallet) {
+      throw new Error("Offer requires escrow but no wallet is configured. Set CDP_API_KEY_* env vars for AgentKit or X811_PRIVATE_KEY for Ethers.");
+    }
+    const health = await fetch(`${SERVER_URL}/health`).then((r) => r.json()) as { escrow_contract_address?: string | null };
+    if (!health.escrow_contract_address) {
+      throw new Error("Offer requires escrow but the server has no escrow contract configured.");
+    }
+    const lock = await lockOfferInEscrow({
+      wallet,
+      escrowAddress: health.escrow_contract_address,
+      interactionId: offer.request_id,
+      offer: {
+        payment_address: offer.payment_address,
+        price: offer.price,
+        protocol_fee: offer.protocol_fee,
+      },
+    });
+    escrowTxHash = lock.tx_hash;
+    log.push(`  ✓ Locked $${offer.total_cost} USDC in escrow: ${escrowTxHash}`);
+    process.stderr.write(`[x811:initiator] Escrow funded: ${escrowTxHash}\n`);
+  }
+
+  await client.accept(providerDid, {
+    offer_id: offer.request_id,
+    offer_hash: offerHash,
+    escrow_tx_hash: escrowTxHash,
+  });
+  log.push(`  ✓ Offer accepted`);
+  process.stderr.write(`[x811:initiator] Offer accepted!\n`);
+}
+
+/**
+ * Finish an accepted interaction as the initiator: wait for the result,
+ * verify it, and pay (direct settlement) — steps 6-8 of the autonomous flow.
+ */
+async function completeInteraction(
+  providerDid: string,
+  providerName: string,
+  offer: OfferPayload,
+  timeout: number,
+  log: string[],
+): Promise<ToolResult> {
+  const totalCost = parseFloat(offer.total_cost || offer.price);
+
+  // Step 6: Wait for result
+  log.push(`[6/8] Waiting for provider to deliver result...`);
+  process.stderr.write(`[x811:initiator] Waiting for provider to deliver result...\n`);
+  const resultResult = await pollForMessage("x811/result", timeout);
+  if (!resultResult.message) {
+    log.push(`  ✗ No result received within timeout.`);
+    process.stderr.write(`[x811:initiator] TIMEOUT waiting for result\n`);
+    return { content: [{ type: "text" as const, text: log.join("\n") }] };
+  }
+  const resultPayload = resultResult.message.payload as Record<string, unknown>;
+  log.push(`  ✓ Result received! Hash: ${resultPayload.result_hash}`);
+  process.stderr.write(`[x811:initiator] Result received! hash=${resultPayload.result_hash}\n`);
+
+  // Step 7: Verify — send with correct payload format for negotiation service
+  log.push(`[7/8] Verifying result...`);
+  const interactionId = offer.request_id;
+  const autoVerifyPayload: VerifyPayload = {
+    request_id: interactionId,
+    offer_id: interactionId,
+    result_hash: resultPayload.result_hash as string,
+    verified: true,
+  };
+  await client.send(providerDid, "x811/verify", autoVerifyPayload);
+  log.push(`  ✓ Verification sent`);
+
+  // Step 8 (escrow): the server releases the escrow on verify — nothing to pay
+  if (offer.settlement === "escrow") {
+    log.push(`[8/8] Escrow released to provider by the server on verification`);
+    log.push(``);
+    log.push(`═══ NEGOTIATION COMPLETE ═══`);
+    log.push(`Provider: ${providerName} (${providerDid})`);
+    log.push(`Paid: $${totalCost} USDC (escrow)`);
+    log.push(`Result:`);
+    log.push(formatResultContent(resultPayload.content));
+    return { content: [{ type: "text" as const, text: log.join("\n") }] };
+  }
+
+  // Step 8: Pay — extract provider's payment address from offer, with fee split
+  if (!wallet) {
+    log.push(`  ✗ No wallet configured. Set CDP_API_KEY_* env vars for AgentKit or X811_PRIVATE_KEY for Ethers.`);
+    return { content: [{ type: "text" as const, text: log.join("\n") }], isError: true };
+  }
+  let payToAddress = offer.payment_address || "";
+  if (!payToAddress || payToAddress === "0x" + "0".repeat(40)) {
+    // Fallback: try to get from agent card
+    try {
+      const agentCard = await client.getAgentCard(providerDid);
+      const cardAddress = (agentCard as unknown as Record<string, unknown>)?.payment_address as string;
+      if (cardAddress && cardAddress !== "0x" + "0".repeat(40)) {
+        payToAddress = cardAddress;
+        log.push(`  -> Using payment address from agent card: ${cardAddress}`);
+      } else {
+        log.push(`  ✗ Provider has no payment address registered (X811-5002)`);
+        return { content: [{ type: "text" as const, text: log.join("\n") }], isError: true };
+      }
+    } catch {
+      log.push(`  ✗ Cannot resolve provider payment address (X811-5002). Provider must register with a payment_address.`);
+      return { content: [{ type: "text" as const, text: log.join("\n") }], isError: true };
+    }
+  }
+
+  // Fee split: provider payment + protocol fee
+  const providerPayment = offer.price || String(totalCost);
+  const protocolFeeStr = offer.protocol_fee || "0";
+  const protocolFee = parseFloat(protocolFeeStr);
+  const treasuryAddress = process.env.X811_TREASURY_ADDRESS;
+
+  log.push(`[8/8] Paying $${providerPayment} USDC to provider ${payToAddress}...`);
+
+  // Transfer 1: Pay provider
+  const paymentResult = await wallet.pay({
+    to_address: payToAddress,
+    amount: providerPayment,
+    providerDid,
+    requestId: interactionId,
+    offerId: interactionId,
+  });
+  log.push(`  ✓ Provider payment sent! tx: ${paymentResult.tx_hash}`);
+
+  // Transfer 2: Pay protocol fee to treasury (if configured and fee > 0)
+  let feeTxHash: string | undefined;
+  if (treasuryAddress && protocolFee > 0) {
+    try {
+      const feeResult = await wallet.pay({
+        to_address: treasuryAddress,
+        amount: protocolFeeStr,
+        providerDid: "x811-treasury",
+        requestId: interactionId,
+        offerId: interactionId,
+      });
+      feeTxHash = feeResult.tx_hash;
+      log.push(`  ✓ Protocol fee $${protocolFeeStr} sent to treasury: ${feeTxHash}`);
+      process.stderr.write(`[x811:initiator] Protocol fee $${protocolFeeStr} sent to treasury: ${feeTxHash}\n`);
+    } catch (feeErr) {
+      log.push(`  ! Protocol fee transfer failed (non-fatal): ${feeErr instanceof Error ? feeErr.message : String(feeErr)}`);
+      process.stderr.write(`[x811:initiator] Protocol fee transfer failed (non-fatal): ${feeErr instanceof Error ? feeErr.message : String(feeErr)}\n`);
+    }
+  } else if (!treasuryAddress && protocolFee > 0) {
+    log.push(`  ! Protocol fee $${protocolFeeStr} skipped (no X811_TREASURY_ADDRESS configured)`);
+  }
+
+  // Report total_cost (price + protocol fee) to server — server validates against offer's total_cost
+  await client.pay(providerDid, {
+    request_id: interactionId,
+    offer_id: interactionId,
+    tx_hash: paymentResult.tx_hash,
+    amount: String(totalCost),
+    currency: "USDC",
+    network: "base",
+    payer_address: paymentResult.payer_address,
+    payee_address: paymentResult.payee_address,
+    fee_tx_hash: feeTxHash,
+  });
+
+  // Summary
+  log.push(``);
+  log.push(`═══ NEGOTIATION COMPLETE ═══`);
+  log.push(`Provider: ${providerName} (${providerDid})`);
+  log.push(`Paid: $${totalCost} USDC`);
+  log.push(`Result:`);
+  log.push(formatResultContent(resultPayload.content));
+
+  return { content: [{ type: "text" as const, text: log.join("\n") }] };
+}
+
 // ---------------------------------------------------------------------------
 // Tool: x811_provide_service — AUTONOMOUS provider flow
 // ---------------------------------------------------------------------------
@@ -968,7 +1448,7 @@ server.tool(
 
 server.tool(
   "x811_request_and_pay",
-  `AUTONOMOUS initiator mode. Discovers a provider, sends a task request, waits for offer, auto-accepts if within budget, waits for the result, verifies it, and pays — all in one call. Zero human intervention. Returns the provider's delivered result.`,
+  `AUTONOMOUS initiator mode. Discovers a provider, sends a task request, waits for offer, applies the acceptance policy, waits for the result, verifies it, and pays — all in one call. Escrow-settled offers are funded on accept and released by the server on verify. With acceptance_policy "human_approval" or "threshold", offers that need a human stop the flow until x811_approve_offer resumes it. Returns the provider's delivered result.`,
   {
     name: z.string().describe("Your agent name (e.g. 'DataAnalyst-Alpha')"),
     capability: z.string().describe("Capability to request (e.g. 'code-review')"),
@@ -976,35 +1456,28 @@ server.tool(
     parameters: z.record(z.unknown()).optional().describe("Task parameters as key-value pairs"),
     max_budget: z.number().describe("Maximum budget in USDC (e.g. 0.05)"),
     timeout_seconds: z.number().optional().describe("How long to wait for each step (default 120)"),
+    acceptance_policy: z.enum(["auto", "human_approval", "threshold"]).optional()
+      .describe("How to handle the offer: auto (accept if within budget, default), human_approval (ask user), threshold (auto-accept up to threshold_amount, ask user above it)"),
+    threshold_amount: z.number().optional().describe("Auto-accept limit in USDC for the threshold policy"),
+    min_trust_score: z.number().min(0).max(1).optional().describe("Reject providers below this trust score (0-1, default 0)"),
   },
-  async ({ name, capability, task_description, parameters, max_budget, timeout_seconds }) => {
+  async ({ name, capability, task_description, parameters, max_budget, timeout_seconds, acceptance_policy, threshold_amount, min_trust_score }) => {
     const timeout = (timeout_seconds || 120) * 1000;
     const log: string[] = [];
+    const policy: AcceptancePolicy = {
+      acceptance_policy: acceptance_policy || "auto",
+      threshold_amount,
+      min_trust_score: min_trust_score ?? 0,
+      max_budget_per_task: max_budget,
+      allowed_capabilities: [capability],
+    };
 
     try {
       process.stderr.write(`[x811:initiator] Starting autonomous initiator flow: "${name}" seeking "${capability}"\n`);
 
       // Step 1: Register (handle "already exists" gracefully)
       log.push(`[1/8] Registering as "${name}"...`);
-      try {
-        await client.register({
-          name,
-          description: task_description || `Initiator seeking ${capability}`,
-          capabilities: [],
-        });
-        log.push(`  ✓ Registered. DID: ${client.did}`);
-        process.stderr.write(`[x811:initiator] Registered. DID: ${client.did}\n`);
-      } catch (regErr) {
-        const msg = regErr instanceof Error ? regErr.message : String(regErr);
-        if (msg.includes("already exists")) {
-          log.push(`  ✓ Already registered. DID: ${client.did} (reusing existing identity)`);
-          process.stderr.write(`[x811:initiator] Reusing existing registration. DID: ${client.did}\n`);
-        } else {
-          throw regErr;
-        }
-      }
-      registered = true;
-      agentName = name;
+      await registerInitiator(name, task_description || `Initiator seeking ${capability}`, log);
 
       // Step 2: Discover (with retry — provider may not be registered yet)
       log.push(`[2/8] Discovering providers with capability "${capability}"...`);
@@ -1039,7 +1512,8 @@ server.tool(
         max_budget,
         currency: "USDC",
         deadline: 60,
-        acceptance_policy: "auto",
+        acceptance_policy: policy.acceptance_policy,
+        threshold_amount,
         idempotency_key: idempotencyKey,
       });
       log.push(`  ✓ Request sent`);
@@ -1054,159 +1528,231 @@ server.tool(
         process.stderr.write(`[x811:initiator] TIMEOUT waiting for offer\n`);
         return { content: [{ type: "text" as const, text: log.join("\n") }] };
       }
-      const offerPayload = offerResult.message.payload as Record<string, unknown>;
-      const totalCost = parseFloat(offerPayload.total_cost as string || offerPayload.price as string);
+      const offerPayload = offerResult.message.payload as OfferPayload;
+      const totalCost = parseFloat(offerPayload.total_cost || offerPayload.price);
       log.push(`  ✓ Offer received: $${offerPayload.price} + $${offerPayload.protocol_fee} fee = $${totalCost} USDC`);
       process.stderr.write(`[x811:initiator] Offer received! price=${offerPayload.price} total=${totalCost}\n`);
 
-      // Step 5: Auto-accept (if within budget)
-      if (totalCost > max_budget) {
-        log.push(`  ✗ Total cost $${totalCost} exceeds budget $${max_budget}. Rejecting.`);
+      // Step 5: Apply the acceptance policy
+      const evaluation = evaluateOffer(policy, offerPayload, {
+        capability,
+        provider_trust_score: providerTrust,
+      });
+      if (evaluation.decision === "reject") {
+        log.push(`  ✗ ${evaluation.reason}. Rejecting.`);
         await client.reject(providerDid, {
-          offer_id: offerPayload.request_id as string,
-          reason: "PRICE_TOO_HIGH",
-          code: "PRICE_TOO_HIGH",
+          offer_id: offerPayload.request_id,
+          reason: evaluation.reason,
+          code: evaluation.reject_code ?? "POLICY_REJECTED",
         });
         return { content: [{ type: "text" as const, text: log.join("\n") }] };
       }
-
-      log.push(`[5/8] Auto-accepting offer ($${totalCost} <= $${max_budget} budget)...`);
-      process.stderr.write(`[x811:initiator] Auto-accepting offer ($${totalCost} <= $${max_budget} budget)\n`);
-      const { hashPayload } = await import("@x811/core");
-      const offerHash = hashPayload(offerPayload);
-      await client.accept(providerDid, {
-        offer_id: offerPayload.request_id as string,
-        offer_hash: offerHash,
-      });
-      log.push(`  ✓ Offer accepted`);
-      process.stderr.write(`[x811:initiator] Offer accepted!\n`);
-
-      // Step 6: Wait for result
-      log.push(`[6/8] Waiting for provider to deliver result...`);
-      process.stderr.write(`[x811:initiator] Waiting for provider to deliver result...\n`);
-      const resultResult = await pollForMessage("x811/result", timeout);
-      if (!resultResult.message) {
-        log.push(`  ✗ No result received within timeout.`);
-        process.stderr.write(`[x811:initiator] TIMEOUT waiting for result\n`);
+      if (evaluation.decision === "escalate") {
+        const pending = approvals.add({ provider_did: providerDid, capability, offer: offerPayload, reason: evaluation.reason });
+        autonomousApprovals.set(pending.id, { providerName });
+        log.push(`[5/8] ⏸ Awaiting approval: ${evaluation.reason}.`);
+        log.push(`  Ask the user, then call x811_approve_offer (request_id: ${pending.id}) to continue, or x811_deny_offer. The offer expires at ${pending.expires_at}.`);
+        process.stderr.write(`[x811:initiator] Offer escalated for approval: ${evaluation.reason}\n`);
         return { content: [{ type: "text" as const, text: log.join("\n") }] };
       }
-      const resultPayload = resultResult.message.payload as Record<string, unknown>;
-      log.push(`  ✓ Result received! Hash: ${resultPayload.result_hash}`);
-      process.stderr.write(`[x811:initiator] Result received! hash=${resultPayload.result_hash}\n`);
-
-      // Step 7: Verify — send with correct payload format for negotiation service
-      log.push(`[7/8] Verifying result...`);
-      const interactionId = offerPayload.request_id as string;
-      const autoVerifyPayload: VerifyPayload = {
-        request_id: interactionId,
-        offer_id: interactionId,
-        result_hash: resultPayload.result_hash as string,
-        verified: true,
-      };
-      await client.send(providerDid, "x811/verify", autoVerifyPayload);
-      log.push(`  ✓ Verification sent`);
 
-      // Step 8: Pay — extract provider's payment address from offer, with fee split
-      if (!wallet) {
-        log.push(`  ✗ No wallet configured. Set CDP_API_KEY_* env vars for AgentKit or X811_PRIVATE_KEY for Ethers.`);
-        return { content: [{ type: "text" as const, text: log.join("\n") }], isError: true };
-      }
-      let payToAddress = (offerPayload.payment_address as string) || "";
-      if (!payToAddress || payToAddress === "0x" + "0".repeat(40)) {
-        // Fallback: try to get from agent card
-        try {
-          const agentCard = await client.getAgentCard(providerDid);
-          const cardAddress = (agentCard as unknown as Record<string, unknown>)?.payment_address as string;
-          if (cardAddress && cardAddress !== "0x" + "0".repeat(40)) {
-            payToAddress = cardAddress;
-            log.push(`  -> Using payment address from agent card: ${cardAddress}`);
-          } else {
-            log.push(`  ✗ Provider has no payment address registered (X811-5002)`);
-            return { content: [{ type: "text" as const, text: log.join("\n") }], isError: true };
-          }
-        } catch {
-          log.push(`  ✗ Cannot resolve provider payment address (X811-5002). Provider must register with a payment_address.`);
-          return { content: [{ type: "text" as const, text: log.join("\n") }], isError: true };
-        }
-      }
+      log.push(`[5/8] Auto-accepting offer (${evaluation.reason})...`);
+      process.stderr.write(`[x811:initiator] Auto-accepting offer (${evaluation.reason})\n`);
+      await acceptOffer(providerDid, offerPayload, log);
 
-      // Fee split: provider payment + protocol fee
-      const providerPayment = offerPayload.price as string || String(totalCost);
-      const protocolFeeStr = offerPayload.protocol_fee as string || "0";
-      const protocolFee = parseFloat(protocolFeeStr);
-      const treasuryAddress = process.env.X811_TREASURY_ADDRESS;
+      return await completeInteraction(providerDid, providerName, offerPayload, timeout, log);
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      process.stderr.write(`[x811:initiator] ERROR: ${errMsg}\n`);
+      if (err instanceof Error && err.stack) process.stderr.write(`[x811:initiator] ${err.stack}\n`);
+      log.push(`ERROR: ${errMsg}`);
+      return { content: [{ type: "text" as const, text: log.join("\n") }], isError: true };
+    }
+  },
+);
 
-      log.push(`[8/8] Paying $${providerPayment} USDC to provider ${payToAddress}...`);
+// ---------------------------------------------------------------------------
+// Tool: x811_request_quotes — AUTONOMOUS multi-provider RFQ flow
+// ---------------------------------------------------------------------------
 
-      // Transfer 1: Pay provider
-      const paymentResult = await wallet.pay({
-        to_address: payToAddress,
-        amount: providerPayment,
-        providerDid,
-        requestId: interactionId,
-        offerId: interactionId,
-      });
-      log.push(`  ✓ Provider payment sent! tx: ${paymentResult.tx_hash}`);
+server.tool(
+  "x811_request_quotes",
+  `AUTONOMOUS request-for-quote. Sends the same task request to the top providers for a capability, collects their offers for a window, picks one with a strategy (cheapest, trust_weighted or fastest), rejects the rest, then accepts, waits for the result, verifies and pays like x811_request_and_pay. Returns the winning provider's delivered result.`,
+  {
+    name: z.string().describe("Your agent name (e.g. 'DataAnalyst-Alpha')"),
+    capability: z.string().describe("Capability to request (e.g. 'code-review')"),
+    task_description: z.string().optional().describe("Description of the task for the providers"),
+    parameters: z.record(z.unknown()).optional().describe("Task parameters as key-value pairs"),
+    max_budget: z.number().describe("Maximum budget in USDC (e.g. 0.05)"),
+    max_providers: z.number().int().min(1).max(20).optional().describe("How many providers to ask (default 3)"),
+    window_seconds: z.number().optional().describe("How long to collect offers (default 30)"),
+    strategy: z.enum(["cheapest", "trust_weighted", "fastest"]).optional()
+      .describe("cheapest (lowest total cost, default), trust_weighted (lowest cost per unit of trust), fastest (lowest estimated time)"),
+    timeout_seconds: z.number().optional().describe("How long to wait for the result (default 120)"),
+  },
+  async ({ name, capability, task_description, parameters, max_budget, max_providers, window_seconds, strategy, timeout_seconds }) => {
+    const timeout = (timeout_seconds || 120) * 1000;
+    const selection = strategy || "cheapest";
+    const log: string[] = [];
 
-      // Transfer 2: Pay protocol fee to treasury (if configured and fee > 0)
-      let feeTxHash: string | undefined;
-      if (treasuryAddress && protocolFee > 0) {
-        try {
-          const feeResult = await wallet.pay({
-            to_address: treasuryAddress,
-            amount: protocolFeeStr,
-            providerDid: "x811-treasury",
-            requestId: interactionId,
-            offerId: interactionId,
-          });
-          feeTxHash = feeResult.tx_hash;
-          log.push(`  ✓ Protocol fee $${protocolFeeStr} sent to treasury: ${feeTxHash}`);
-          process.stderr.write(`[x811:initiator] Protocol fee $${protocolFeeStr} sent to treasury: ${feeTxHash}\n`);
-        } catch (feeErr) {
-          log.push(`  ! Protocol fee transfer failed (non-fatal): ${feeErr instanceof Error ? feeErr.message : String(feeErr)}`);
-          process.stderr.write(`[x811:initiator] Protocol fee transfer failed (non-fatal): ${feeErr instanceof Error ? feeErr.message : String(feeErr)}\n`);
-        }
-      } else if (!treasuryAddress && protocolFee > 0) {
-        log.push(`  ! Protocol fee $${protocolFeeStr} skipped (no X811_TREASURY_ADDRESS configured)`);
+    try {
+      process.stderr.write(`[x811:rfq] Starting RFQ: "${name}" seeking "${capability}" (${selection})\n`);
+
+      log.push(`[1/8] Registering as "${name}"...`);
+      await registerInitiator(name, task_description || `Initiator seeking ${capability}`, log);
+
+      // Step 2: Discover the most trusted providers
+      log.push(`[2/8] Discovering providers with capability "${capability}"...`);
+      const discovery = await client.discover({ capability, availability: "online" });
+      const providers = (discovery.agents as unknown as Array<Record<string, unknown>>)
+        .filter((a) => a.did !== client.did)
+        .sort((a, b) => (b.trust_score as number) - (a.trust_score as number))
+        .slice(0, max_providers || 3)
+        .map((a) => ({ did: a.did as string, trust_score: a.trust_score as number, name: a.name as string }));
+      if (providers.length === 0) {
+        log.push(`  ✗ No online providers found. Make sure a provider is registered and online.`);
+        return { content: [{ type: "text" as const, text: log.join("\n") }] };
       }
+      for (const p of providers) log.push(`  ✓ ${p.name} (trust: ${p.trust_score}, DID: ${p.did})`);
 
-      // Report total_cost (price + protocol fee) to server — server validates against offer's total_cost
-      await client.pay(providerDid, {
-        request_id: interactionId,
-        offer_id: interactionId,
-        tx_hash: paymentResult.tx_hash,
-        amount: String(totalCost),
+      // Step 3: Fan out the request
+      log.push(`[3/8] Sending request for quote to ${providers.length} provider(s) (budget: $${max_budget} USDC)...`);
+      const rfq = await client.requestQuotes(providers, {
+        task_type: capability,
+        parameters: { ...parameters, description: task_description },
+        max_budget,
         currency: "USDC",
-        network: "base",
-        payer_address: paymentResult.payer_address,
-        payee_address: paymentResult.payee_address,
-        fee_tx_hash: feeTxHash,
+        deadline: 60,
+        acceptance_policy: "auto",
       });
+      log.push(`  ✓ RFQ ${rfq.rfq_id} reached ${rfq.requests.length} provider(s)`);
+
+      // Step 4: Collect offers
+      const windowMs = (window_seconds || 30) * 1000;
+      log.push(`[4/8] Collecting offers for up to ${windowMs / 1000}s...`);
+      const { offers, unmatched } = await client.collectOffers(rfq, windowMs, 5_000);
+      for (const m of unmatched) pushToBuffer(m as unknown as Record<string, unknown>);
+      for (const o of offers) {
+        log.push(`  ✓ ${o.provider_did}: $${o.offer.total_cost} USDC, ~${o.offer.estimated_time}s`);
+      }
 
-      // Summary
-      log.push(``);
-      log.push(`═══ NEGOTIATION COMPLETE ═══`);
-      log.push(`Provider: ${providerName} (${providerDid})`);
-      log.push(`Paid: $${totalCost} USDC`);
-      log.push(`Result:`);
-
-      let resultContent = resultPayload.content as string;
-      try {
-        resultContent = JSON.stringify(JSON.parse(resultContent), null, 2);
-      } catch { /* not JSON, use as-is */ }
-      log.push(resultContent);
+      // Step 5: Select the winner among in-budget offers, reject the rest
+      const eligible = offers.filter((o) => parseFloat(o.offer.total_cost) <= max_budget);
+      const winner = selectOffer(eligible, selection);
+      await client.rejectLosingOffers(offers, winner);
+      if (!winner) {
+        log.push(`  ✗ No offer within budget $${max_budget} (${offers.length} received).`);
+        return { content: [{ type: "text" as const, text: log.join("\n") }] };
+      }
+      const winnerName = providers.find((p) => p.did === winner.provider_did)?.name ?? winner.provider_did;
+      log.push(`[5/8] Selected ${winnerName} by ${selection}: $${winner.offer.total_cost} USDC; rejected ${offers.length - 1} other offer(s)`);
+      process.stderr.write(`[x811:rfq] Winner ${winner.provider_did} (${selection})\n`);
+      await acceptOffer(winner.provider_did, winner.offer, log);
 
-      return { content: [{ type: "text" as const, text: log.join("\n") }] };
+      return await completeInteraction(winner.provider_did, winnerName, winner.offer, timeout, log);
     } catch (err) {
       const errMsg = err instanceof Error ? err.message : String(err);
-      process.stderr.write(`[x811:initiator] ERROR: ${errMsg}\n`);
-      if (err instanceof Error && err.stack) process.stderr.write(`[x811:initiator] ${err.stack}\n`);
+      process.stderr.write(`[x811:rfq] ERROR: ${errMsg}\n`);
       log.push(`ERROR: ${errMsg}`);
       return { content: [{ type: "text" as const, text: log.join("\n") }], isError: true };
     }
   },
 );
 
+// ---------------------------------------------------------------------------
+// Tool: x811_list_approvals — Offers awaiting human approval
+// ---------------------------------------------------------------------------
+
+server.tool(
+  "x811_list_approvals",
+  "List offers an acceptance policy (human_approval or threshold) escalated for your approval. Approve with x811_approve_offer or deny with x811_deny_offer before they expire.",
+  {},
+  async () => {
+    const pending = approvals.list();
+    if (pending.length === 0) {
+      return { content: [{ type: "text" as const, text: "No offers awaiting approval." }] };
+    }
+    const lines = pending.map((p) =>
+      `- ${p.id}: ${p.capability} from ${p.provider_did} — $${p.offer.price} + $${p.offer.protocol_fee} fee = $${p.offer.total_cost} USDC` +
+      ` (${p.offer.settlement ?? "direct"}, expires ${p.expires_at})\n  Reason: ${p.reason}`,
+    );
+    return {
+      content: [{ type: "text" as const, text: `${pending.length} offer(s) awaiting approval:\n\n${lines.join("\n")}` }],
+    };
+  },
+);
+
+// ---------------------------------------------------------------------------
+// Tool: x811_approve_offer — Accept an escalated offer
+// ---------------------------------------------------------------------------
+
+server.tool(
+  "x811_approve_offer",
+  "Approve an offer waiting in the approval queue and accept it. Offers escalated by x811_request_and_pay then continue autonomously (wait for result, verify, pay) and return the result.",
+  {
+    request_id: z.string().describe("Interaction ID of the pending offer (from x811_list_approvals)"),
+    timeout_seconds: z.number().optional().describe("How long to wait for the result when resuming an autonomous flow (default 120)"),
+  },
+  async ({ request_id, timeout_seconds }) => {
+    const log: string[] = [];
+    try {
+      const pending = approvals.take(request_id);
+      const autonomous = autonomousApprovals.get(request_id);
+      autonomousApprovals.delete(request_id);
+
+      log.push(`Approved offer ${request_id}: $${pending.offer.total_cost} USDC to ${pending.provider_did}`);
+      await acceptOffer(pending.provider_did, pending.offer, log);
+
+      if (autonomous) {
+        return await completeInteraction(
+          pending.provider_did,
+          autonomous.providerName,
+          pending.offer,
+          (timeout_seconds || 120) * 1000,
+          log,
+        );
+      }
+      log.push(`Poll for the provider's result using x811_poll.`);
+      return { content: [{ type: "text" as const, text: log.join("\n") }] };
+    } catch (err) {
+      log.push(`Approve failed: ${err instanceof Error ? err.message : String(err)}`);
+      return { content: [{ type: "text" as const, text: log.join("\n") }], isError: true };
+    }
+  },
+);
+
+// ---------------------------------------------------------------------------
+// Tool: x811_deny_offer — Reject an escalated offer
+// ---------------------------------------------------------------------------
+
+server.tool(
+  "x811_deny_offer",
+  "Deny an offer waiting in the approval queue. Sends an x811/reject (POLICY_REJECTED) to the provider.",
+  {
+    request_id: z.string().describe("Interaction ID of the pending offer (from x811_list_approvals)"),
+    reason: z.string().optional().describe("Reason given to the provider"),
+  },
+  async ({ request_id, reason }) => {
+    try {
+      const pending = approvals.take(request_id);
+      autonomousApprovals.delete(request_id);
+      await client.reject(pending.provider_did, {
+        offer_id: request_id,
+        reason: reason || "Denied by user",
+        code: "POLICY_REJECTED",
+      });
+      return {
+        content: [{ type: "text" as const, text: `Offer ${request_id} from ${pending.provider_did} denied.` }],
+      };
+    } catch (err) {
+      return {
+        content: [{ type: "text" as const, text: `Deny failed: ${err instanceof Error ? err.message : String(err)}` }],
+        isError: true,
+      };
+    }
+  },
+);
+
 // ---------------------------------------------------------------------------
 // Tool: x811_setup_wallet — Wallet configuration diagnostics
 // ---------------------------------------------------------------------------
@@ -1,6 +1,6 @@
 import { describe, it, expect, afterEach } from "vitest";
 import http from "node:http";
-import { SSEClient } from "./sse-client.js";
+import { SSEClient, type WebSocketLike } from "./sse-client.js";
 
 describe("SSEClient", () => {
   let server: http.Server | undefined;
@@ -79,6 +79,56 @@ describe("SSEClient", () => {
     expect(client.getMode()).toBe("poll");
   }, 30000);
 
+  it("receives over WebSocket after answering the challenge", async () => {
+    const received: Record<string, unknown>[] = [];
+    const sent: Record<string, unknown>[] = [];
+    let socketUrl = "";
+    let socket: WebSocketLike | undefined;
+
+    client = new SSEClient({
+      transport: "websocket",
+      createWebSocket: (url) => {
+        socketUrl = url;
+        socket = {
+          send: (data) => {
+            sent.push(JSON.parse(data) as Record<string, unknown>);
+            setTimeout(() => {
+              socket!.onmessage?.({ data: JSON.stringify({ type: "ready", did: "did:x811:test-agent" }) });
+              socket!.onmessage?.({
+                data: JSON.stringify({ type: "message", envelope: { id: "msg-1", type: "x811/offer" } }),
+              });
+            }, 0);
+          },
+          close: (code = 1000) => socket!.onclose?.({ code, reason: "" }),
+          onmessage: null,
+          onclose: null,
+          onerror: null,
+        };
+        setTimeout(() => socket!.onmessage?.({ data: JSON.stringify({ type: "challenge", challenge: "c-1" }) }), 0);
+        return socket;
+      },
+    });
+
+    const gotMessage = new Promise<void>((resolve) => {
+      client!.connect(
+        "http://127.0.0.1:3811",
+        "did:x811:test-agent",
+        (path, nonce) => `${path} ${nonce}`,
+        (msg) => {
+          received.push(msg);
+          resolve();
+        },
+      ).catch(() => {});
+    });
+
+    await gotMessage;
+
+    expect(socketUrl).toBe("ws://127.0.0.1:3811/api/v1/messages/test-agent/ws");
+    expect(sent).toEqual([{ type: "auth", authorization: "/api/v1/messages/test-agent/ws c-1" }]);
+    expect(received).toEqual([{ id: "msg-1", type: "x811/offer" }]);
+    expect(client.getMode()).toBe("websocket");
+  });
+
   it("disconnect stops reconnecting", async () => {
     client = new SSEClient();
     client.disconnect();
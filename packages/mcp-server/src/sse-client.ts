@@ -2,9 +2,29 @@
  * x811 SSE Client — Connects to the x811 server's SSE push transport.
  * Uses Node 22 native fetch() + ReadableStream (no eventsource package).
  * Falls back to poll mode after 5 consecutive failures.
+ *
+ * With `transport: "websocket"` it receives over the WebSocket transport
+ * instead (Node 22 native WebSocket), answering the server's challenge with
+ * getAuthHeader(path, challenge).
  */
 
-type SSEMode = "sse" | "poll" | "connecting" | "backoff";
+type SSEMode = "sse" | "websocket" | "poll" | "connecting" | "backoff";
+
+/** The subset of the WHATWG WebSocket API the client uses. */
+export interface WebSocketLike {
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onclose: ((event: { code: number; reason: string }) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+}
+
+export interface SSEClientOptions {
+  /** Push transport: "sse" (default) or "websocket". */
+  transport?: "sse" | "websocket";
+  /** Opens the WebSocket; defaults to the global WebSocket. */
+  createWebSocket?: (url: string) => WebSocketLike;
+}
 
 export class SSEClient {
   private mode: SSEMode = "connecting";
@@ -16,19 +36,29 @@ export class SSEClient {
   private lastMessageAt: string | undefined;
   private pushFn: ((msg: Record<string, unknown>) => void) | undefined;
   private reconnectTimeout: NodeJS.Timeout | undefined;
+  private socket: WebSocketLike | undefined;
+  private readonly transport: "sse" | "websocket";
+  private readonly createWebSocket: (url: string) => WebSocketLike;
+
+  constructor(options: SSEClientOptions = {}) {
+    this.transport = options.transport ?? "sse";
+    this.createWebSocket = options.createWebSocket ?? ((url) => new WebSocket(url) as unknown as WebSocketLike);
+  }
 
   /**
    * Connect to the SSE stream. Non-blocking — call with .catch() and do NOT await.
    *
    * @param serverUrl Base URL of x811 server (e.g. "https://api.x811.org")
    * @param agentDid Full DID (e.g. "did:x811:abc-123")
-   * @param getAuthHeader Returns the auth token/header for the request
+   * @param getAuthHeader Returns the Authorization header for a request to
+   *   `path` (path plus query string), e.g. an X811-Signature from signRequest();
+   *   over WebSocket it must sign with `nonce`, the server's challenge
    * @param pushFn Called for each received message (e.g. pushToBuffer from buffer-utils)
    */
   async connect(
     serverUrl: string,
     agentDid: string,
-    getAuthHeader: () => string,
+    getAuthHeader: (path: string, nonce?: string) => string,
     pushFn: (msg: Record<string, unknown>) => void,
   ): Promise<void> {
     this.pushFn = pushFn;
@@ -38,7 +68,7 @@ export class SSEClient {
   private async _connect(
     serverUrl: string,
     agentDid: string,
-    getAuthHeader: () => string,
+    getAuthHeader: (path: string, nonce?: string) => string,
   ): Promise<void> {
     this.mode = "connecting";
     this.abortController = new AbortController();
@@ -48,6 +78,15 @@ export class SSEClient {
       ? agentDid.slice("did:x811:".length)
       : agentDid;
 
+    if (this.transport === "websocket") {
+      try {
+        await this._streamWebSocket(serverUrl, agentId, getAuthHeader);
+      } catch (err) {
+        await this._retry(err, serverUrl, agentDid, getAuthHeader);
+      }
+      return;
+    }
+
     const url = new URL(`${serverUrl}/api/v1/messages/${encodeURIComponent(agentId)}/stream`);
     url.searchParams.set("did", agentDid);
 
@@ -60,7 +99,7 @@ export class SSEClient {
     }
 
     try {
-      const auth = getAuthHeader();
+      const auth = getAuthHeader(url.pathname + url.search);
       if (auth) headers["Authorization"] = auth;
     } catch { /* no auth */ }
 
@@ -141,34 +180,101 @@ export class SSEClient {
       throw new Error("SSE stream ended");
 
     } catch (err) {
-      if (this.abortController?.signal.aborted) {
-        process.stderr.write(`[x811:sse] disconnected\n`);
-        return; // Intentional disconnect
-      }
+      await this._retry(err, serverUrl, agentDid, getAuthHeader);
+    }
+  }
 
-      this.backoffAttempts++;
-      if (this.backoffAttempts > this.MAX_BACKOFF_ATTEMPTS) {
-        this.mode = "poll";
-        process.stderr.write(`[x811:sse] fallback-to-poll (${this.MAX_BACKOFF_ATTEMPTS} failures)\n`);
-        return;
-      }
+  /**
+   * Receive over the WebSocket transport. Settles only when the socket
+   * closes, by rejecting.
+   */
+  private _streamWebSocket(
+    serverUrl: string,
+    agentId: string,
+    getAuthHeader: (path: string, nonce?: string) => string,
+  ): Promise<never> {
+    const path = `/api/v1/messages/${encodeURIComponent(agentId)}/ws`;
+    const url = serverUrl.replace(/^http/, "ws") + path;
+    process.stderr.write(`[x811:ws] connecting to ${url}\n`);
 
-      const delay = this.BACKOFF_DELAYS[Math.min(this.backoffAttempts - 1, this.BACKOFF_DELAYS.length - 1)];
-      this.mode = "backoff";
-      process.stderr.write(`[x811:sse] reconnecting (attempt ${this.backoffAttempts}) in ${delay}ms — ${err instanceof Error ? err.message : String(err)}\n`);
+    return new Promise<never>((_resolve, reject) => {
+      const socket = this.createWebSocket(url);
+      this.socket = socket;
 
-      await new Promise<void>((resolve) => {
-        this.reconnectTimeout = setTimeout(resolve, delay);
-      });
+      socket.onmessage = (event) => {
+        let frame: Record<string, unknown>;
+        try {
+          frame = JSON.parse(String(event.data)) as Record<string, unknown>;
+        } catch {
+          process.stderr.write(`[x811:ws] failed to parse frame\n`);
+          return;
+        }
+
+        if (frame.type === "challenge") {
+          socket.send(JSON.stringify({
+            type: "auth",
+            authorization: getAuthHeader(path, String(frame.challenge)),
+          }));
+        } else if (frame.type === "ready") {
+          this.mode = "websocket";
+          this.backoffAttempts = 0;
+          process.stderr.write(`[x811:ws] connected\n`);
+        } else if (frame.type === "message") {
+          const msg = frame.envelope as Record<string, unknown>;
+          this.lastMessageAt = new Date().toISOString();
+          this.pushFn?.(msg);
+          process.stderr.write(`[x811:ws] message received (type: ${msg.type ?? "unknown"})\n`);
+        } else if (frame.type === "error") {
+          process.stderr.write(`[x811:ws] server error: ${JSON.stringify(frame.error)}\n`);
+        }
+      };
+
+      socket.onclose = (event) => {
+        this.socket = undefined;
+        reject(new Error(`WebSocket closed (${event.code}${event.reason ? `: ${event.reason}` : ""})`));
+      };
+
+      socket.onerror = () => {
+        // Followed by onclose
+      };
+    });
+  }
+
+  /** Back off and reconnect after a failure, or fall back to poll mode. */
+  private async _retry(
+    err: unknown,
+    serverUrl: string,
+    agentDid: string,
+    getAuthHeader: (path: string, nonce?: string) => string,
+  ): Promise<void> {
+    if (this.abortController?.signal.aborted) {
+      process.stderr.write(`[x811:sse] disconnected\n`);
+      return; // Intentional disconnect
+    }
 
-      await this._connect(serverUrl, agentDid, getAuthHeader);
+    this.backoffAttempts++;
+    if (this.backoffAttempts > this.MAX_BACKOFF_ATTEMPTS) {
+      this.mode = "poll";
+      process.stderr.write(`[x811:sse] fallback-to-poll (${this.MAX_BACKOFF_ATTEMPTS} failures)\n`);
+      return;
     }
+
+    const delay = this.BACKOFF_DELAYS[Math.min(this.backoffAttempts - 1, this.BACKOFF_DELAYS.length - 1)];
+    this.mode = "backoff";
+    process.stderr.write(`[x811:sse] reconnecting (attempt ${this.backoffAttempts}) in ${delay}ms — ${err instanceof Error ? err.message : String(err)}\n`);
+
+    await new Promise<void>((resolve) => {
+      this.reconnectTimeout = setTimeout(resolve, delay);
+    });
+
+    await this._connect(serverUrl, agentDid, getAuthHeader);
   }
 
   /** Disconnect and stop reconnecting. */
   disconnect(): void {
     if (this.reconnectTimeout) clearTimeout(this.reconnectTimeout);
     this.abortController?.abort();
+    this.socket?.close(1000);
     this.mode = "poll"; // Fall back to poll after manual disconnect
   }
 
@@ -6,19 +6,32 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createHash } from "node:crypto";
 import { X811Client } from "../client.js";
+import { applyCounter } from "../counter.js";
 import {
   generateDID,
+  buildDIDDocument,
   signEnvelope,
   verifyEnvelope,
+  verifyKeyRotationProof,
+  extractPublicKey,
+  MESSAGE_LIMITS,
   type X811Envelope,
   type DIDKeyPair,
   type RequestPayload,
   type OfferPayload,
   type AcceptPayload,
+  type CancelPayload,
+  type CounterPayload,
   type RejectPayload,
   type ResultPayload,
+  type VerifyPayload,
+  type DisputeResponsePayload,
   type PaymentPayload,
+  type KeyRotationPayload,
+  type AckPayload,
+  type SealedPayload,
   X811Error,
 } from "@x811/core";
 
@@ -111,6 +124,12 @@ describe("X811Client", () => {
       expect(client.keyPair).toBe(kp);
     });
 
+    it("generates a did:web identity under didDomain", () => {
+      const client = new X811Client({ serverUrl: SERVER_URL, didDomain: "x811.org" });
+
+      expect(client.did).toMatch(/^did:web:x811\.org:agents:[0-9a-f-]{36}$/);
+    });
+
     it("generates unique DIDs on each instantiation", () => {
       const client1 = new X811Client({ serverUrl: SERVER_URL });
       const client2 = new X811Client({ serverUrl: SERVER_URL });
@@ -225,6 +244,68 @@ describe("X811Client", () => {
     });
   });
 
+  // -----------------------------------------------------------------------
+  // rotateKeys()
+  // -----------------------------------------------------------------------
+
+  describe("rotateKeys()", () => {
+    it("signs with the old key, proves the new key and switches to it", async () => {
+      const kp = createTestKeyPair();
+      const client = new X811Client({ serverUrl: SERVER_URL, keyPair: kp });
+      const agentId = kp.did.slice("did:x811:".length);
+
+      fetchMock.mockResolvedValueOnce(mockResponse({ id: agentId, did: kp.did, version: 2 }));
+
+      const newKeys = await client.rotateKeys();
+
+      expect(getLastFetchUrl()).toBe(`${SERVER_URL}/api/v1/agents/${agentId}/keys`);
+      const envelope = getLastFetchBody().envelope as X811Envelope<KeyRotationPayload>;
+      expect(verifyEnvelope(envelope, kp.signingKey.publicKey)).toBe(true);
+      expect(extractPublicKey(envelope.payload.did_document)).toEqual(newKeys.signingKey.publicKey);
+      expect(
+        verifyKeyRotationProof(envelope.nonce, envelope.payload.proof, newKeys.signingKey.publicKey),
+      ).toBe(true);
+
+      expect(newKeys.did).toBe(kp.did);
+      expect(client.keyPair).toBe(newKeys);
+    });
+
+    it("keeps the current keys when the server rejects the rotation", async () => {
+      const kp = createTestKeyPair();
+      const client = new X811Client({ serverUrl: SERVER_URL, keyPair: kp });
+
+      fetchMock.mockResolvedValueOnce(
+        mockResponse({ error: { code: "X811-2001", message: "Invalid proof" } }, 401, "Unauthorized"),
+      );
+
+      await expect(client.rotateKeys()).rejects.toThrow(X811Error);
+      expect(client.keyPair).toBe(kp);
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // revoke()
+  // -----------------------------------------------------------------------
+
+  describe("revoke()", () => {
+    it("posts a signed revocation for this agent", async () => {
+      const kp = createTestKeyPair();
+      const client = new X811Client({ serverUrl: SERVER_URL, keyPair: kp });
+      const agentId = kp.did.slice("did:x811:".length);
+
+      fetchMock.mockResolvedValueOnce(
+        mockResponse({ id: agentId, did: kp.did, status: "revoked", failed_interactions: 2, purged_messages: 0 }),
+      );
+
+      const result = await client.revoke();
+
+      expect(getLastFetchUrl()).toBe(`${SERVER_URL}/api/v1/agents/${agentId}/revoke`);
+      const envelope = getLastFetchBody().envelope as X811Envelope<unknown>;
+      expect(verifyEnvelope(envelope, kp.signingKey.publicKey)).toBe(true);
+      expect(result.failed_interactions).toBe(2);
+    });
+  });
+
   // -----------------------------------------------------------------------
   // discover()
   // -----------------------------------------------------------------------
@@ -239,6 +320,10 @@ describe("X811Client", () => {
 
       await client.discover({
         capability: "code-review",
+        q: "review typescript",
+        max_price: 0.02,
+        max_latency_ms: 60000,
+        sort: "price",
         trust_min: 0.7,
         status: "active",
         availability: "online",
@@ -248,6 +333,10 @@ describe("X811Client", () => {
 
       const url = getLastFetchUrl();
       expect(url).toContain("capability=code-review");
+      expect(url).toContain("q=review+typescript");
+      expect(url).toContain("max_price=0.02");
+      expect(url).toContain("max_latency_ms=60000");
+      expect(url).toContain("sort=price");
       expect(url).toContain("trust_min=0.7");
       expect(url).toContain("status=active");
       expect(url).toContain("availability=online");
@@ -310,6 +399,71 @@ describe("X811Client", () => {
     });
   });
 
+  // -----------------------------------------------------------------------
+  // getTrustAttestation()
+  // -----------------------------------------------------------------------
+
+  describe("getTrustAttestation()", () => {
+    it("fetches the server-signed attestation for an agent", async () => {
+      const client = new X811Client({ serverUrl: SERVER_URL });
+
+      fetchMock.mockResolvedValueOnce(mockResponse({
+        type: ["VerifiableCredential", "X811TrustAttestation"],
+        issuer: "did:web:x811.org",
+        credentialSubject: { id: "did:x811:agent-1", trust_score: 0.9 },
+      }));
+
+      const attestation = await client.getTrustAttestation("agent-1");
+
+      expect(getLastFetchUrl()).toBe(`${SERVER_URL}/api/v1/agents/agent-1/attestation`);
+      expect(attestation.credentialSubject.trust_score).toBe(0.9);
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // getCapabilitySchema()
+  // -----------------------------------------------------------------------
+
+  describe("getCapabilitySchema()", () => {
+    it("fetches the schemas for a capability version", async () => {
+      const client = new X811Client({ serverUrl: SERVER_URL });
+
+      fetchMock.mockResolvedValueOnce(mockResponse({
+        name: "summarize",
+        versions: ["2.0.0"],
+        schemas: [{ agent_did: "did:x811:provider", version: "2.0.0", input_schema: { type: "object" } }],
+      }));
+
+      const result = await client.getCapabilitySchema("summarize", "2.0.0");
+
+      expect(getLastFetchUrl()).toBe(`${SERVER_URL}/api/v1/capabilities/summarize/schema?version=2.0.0`);
+      expect(result.schemas[0].input_schema).toEqual({ type: "object" });
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // getReputation()
+  // -----------------------------------------------------------------------
+
+  describe("getReputation()", () => {
+    it("fetches windowed reputation for an agent", async () => {
+      const client = new X811Client({ serverUrl: SERVER_URL });
+
+      fetchMock.mockResolvedValueOnce(mockResponse({
+        agent_id: "agent-1",
+        window_days: 30,
+        bucket: "month",
+        capabilities: [{ capability: "translation", trust_score: 0.8 }],
+        history: [],
+      }));
+
+      const result = await client.getReputation("agent-1", { window: 30, bucket: "month" });
+
+      expect(getLastFetchUrl()).toBe(`${SERVER_URL}/api/v1/agents/agent-1/reputation?window=30&bucket=month`);
+      expect(result.capabilities[0].trust_score).toBe(0.8);
+    });
+  });
+
   // -----------------------------------------------------------------------
   // resolve()
   // -----------------------------------------------------------------------
@@ -332,6 +486,18 @@ describe("X811Client", () => {
       expect(result.document).toEqual(mockDoc);
     });
 
+    it("maps did:web agent DIDs to registry ids", async () => {
+      const client = new X811Client({ serverUrl: SERVER_URL });
+
+      fetchMock.mockResolvedValueOnce(
+        mockResponse({ id: "did:web:x811.org:agents:some-uuid", verificationMethod: [] }),
+      );
+
+      await client.resolve("did:web:x811.org:agents:some-uuid");
+
+      expect(getLastFetchUrl()).toBe(`${SERVER_URL}/api/v1/agents/some-uuid/did`);
+    });
+
     it("throws on invalid DID format", async () => {
       const client = new X811Client({ serverUrl: SERVER_URL });
 
@@ -432,13 +598,15 @@ describe("X811Client", () => {
         { id: "msg-2", type: "x811/result", from: "did:x811:provider", payload: {} },
       ];
 
-      fetchMock.mockResolvedValueOnce(
-        mockResponse({
-          agent_id: agentId,
-          messages: mockMessages,
-          count: 2,
-        }),
-      );
+      fetchMock
+        .mockResolvedValueOnce(
+          mockResponse({
+            agent_id: agentId,
+            messages: mockMessages,
+            count: 2,
+          }),
+        )
+        .mockResolvedValueOnce(mockResponse({ acknowledged: ["msg-1", "msg-2"], unknown: [] }));
 
       const messages = await client.poll();
 
@@ -447,9 +615,43 @@ describe("X811Client", () => {
       expect(messages[1].id).toBe("msg-2");
 
       // Verify correct URL with DID query param
-      const url = getLastFetchUrl();
+      const url = fetchMock.mock.calls[0][0] as string;
       expect(url).toContain(`/api/v1/messages/${agentId}`);
       expect(url).toContain(`did=${encodeURIComponent(kp.did)}`);
+
+      // Polled messages are acknowledged right away by default
+      expect(getLastFetchUrl()).toBe(`${SERVER_URL}/api/v1/messages/${agentId}/ack`);
+      const envelope = getLastFetchBody().envelope as X811Envelope<AckPayload>;
+      expect(envelope.type).toBe("x811/ack");
+      expect(envelope.payload.message_ids).toEqual(["msg-1", "msg-2"]);
+      expect(verifyEnvelope(envelope, kp.signingKey.publicKey)).toBe(true);
+    });
+
+    it("leaves messages unacknowledged with { ack: false }", async () => {
+      const kp = createTestKeyPair();
+      const client = new X811Client({ serverUrl: SERVER_URL, keyPair: kp });
+
+      fetchMock.mockResolvedValueOnce(
+        mockResponse({ agent_id: "x", messages: [{ id: "msg-1", type: "x811/offer", payload: {} }], count: 1 }),
+      );
+      const messages = await client.poll({ ack: false });
+
+      expect(messages).toHaveLength(1);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("signs the poll request with the agent's key", async () => {
+      const kp = createTestKeyPair();
+      const client = new X811Client({ serverUrl: SERVER_URL, keyPair: kp });
+
+      fetchMock.mockResolvedValueOnce(mockResponse({ agent_id: "x", messages: [], count: 0 }));
+      await client.poll();
+
+      const calls = vi.mocked(global.fetch).mock.calls;
+      const init = calls[calls.length - 1][1] as RequestInit;
+      const authorization = (init.headers as Record<string, string>).Authorization;
+      expect(authorization).toMatch(/^X811-Signature did="[^"]+",created="[^"]+",nonce="[^"]+",signature="[^"]+"$/);
+      expect(authorization).toContain(`did="${kp.did}"`);
     });
 
     it("returns an empty array when no messages are pending", async () => {
@@ -469,6 +671,79 @@ describe("X811Client", () => {
     });
   });
 
+  // -----------------------------------------------------------------------
+  // End-to-end encryption
+  // -----------------------------------------------------------------------
+
+  describe("end-to-end encryption", () => {
+    function didDocumentFor(kp: DIDKeyPair) {
+      return buildDIDDocument(kp.did, kp.signingKey.publicKey, kp.encryptionKey.publicKey);
+    }
+
+    it("seals request parameters for the recipient and caches its key", async () => {
+      const senderKp = createTestKeyPair();
+      const recipientKp = createTestKeyPair();
+      const client = new X811Client({ serverUrl: SERVER_URL, keyPair: senderKp, encrypt: true });
+
+      fetchMock
+        .mockResolvedValueOnce(mockResponse(didDocumentFor(recipientKp)))
+        .mockResolvedValueOnce(mockResponse({ message_id: "msg-1", status: "queued" }))
+        .mockResolvedValueOnce(mockResponse({ message_id: "msg-2", status: "queued" }));
+
+      await client.send(recipientKp.did, "x811/request", {
+        task_type: "analysis",
+        parameters: { ticker: "AAPL" },
+      });
+      const envelope = getLastFetchBody().envelope as X811Envelope<SealedPayload>;
+      expect(envelope.encrypted).toBe(true);
+      expect(envelope.payload.task_type).toBe("analysis");
+      expect(envelope.payload.parameters).toBeUndefined();
+      expect(JSON.stringify(envelope)).not.toContain("AAPL");
+      expect(verifyEnvelope(envelope, senderKp.signingKey.publicKey)).toBe(true);
+
+      await client.send(recipientKp.did, "x811/request", { task_type: "analysis", parameters: {} });
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it("does not encrypt message types without confidential fields", async () => {
+      const kp = createTestKeyPair();
+      const client = new X811Client({ serverUrl: SERVER_URL, keyPair: kp, encrypt: true });
+
+      fetchMock.mockResolvedValueOnce(mockResponse({ message_id: "msg-1", status: "queued" }));
+
+      await client.send("did:x811:target", "x811/offer", { price: "1" });
+      const envelope = getLastFetchBody().envelope as X811Envelope<unknown>;
+      expect(envelope.encrypted).toBeUndefined();
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("decrypts encrypted messages on poll", async () => {
+      const senderKp = createTestKeyPair();
+      const recipientKp = createTestKeyPair();
+      const sender = new X811Client({ serverUrl: SERVER_URL, keyPair: senderKp, encrypt: true });
+      const recipient = new X811Client({ serverUrl: SERVER_URL, keyPair: recipientKp });
+
+      fetchMock
+        .mockResolvedValueOnce(mockResponse(didDocumentFor(recipientKp)))
+        .mockResolvedValueOnce(mockResponse({ message_id: "msg-1", status: "queued" }));
+      await sender.send(recipientKp.did, "x811/result", {
+        request_id: "req-1",
+        content: "the answer",
+        content_type: "text/plain",
+        result_hash: "abc",
+      });
+      const sealed = getLastFetchBody().envelope;
+
+      fetchMock.mockResolvedValueOnce(
+        mockResponse({ agent_id: "x", messages: [sealed], count: 1 }),
+      );
+      const [message] = await recipient.poll({ ack: false });
+
+      expect(message.encrypted).toBeUndefined();
+      expect((message.payload as ResultPayload).content).toBe("the answer");
+    });
+  });
+
   // -----------------------------------------------------------------------
   // Negotiation shortcuts
   // -----------------------------------------------------------------------
@@ -562,6 +837,58 @@ describe("X811Client", () => {
     });
   });
 
+  describe("counter()", () => {
+    it("sends an x811/counter envelope and returns message_id", async () => {
+      const kp = createTestKeyPair();
+      const client = new X811Client({ serverUrl: SERVER_URL, keyPair: kp });
+
+      fetchMock.mockResolvedValueOnce(
+        mockResponse({ message_id: "msg-counter-001", status: "delivered" }),
+      );
+
+      const counterPayload: CounterPayload = {
+        request_id: "req-001",
+        price: "0.02",
+        protocol_fee: "0.0005",
+        total_cost: "0.0205",
+        message: "Can you do 0.02?",
+      };
+
+      const messageId = await client.counter("did:x811:provider-uuid", counterPayload);
+
+      expect(messageId).toBe("msg-counter-001");
+
+      const body = getLastFetchBody();
+      const envelope = body.envelope as X811Envelope<CounterPayload>;
+      expect(envelope.type).toBe("x811/counter");
+      expect(envelope.payload.price).toBe("0.02");
+    });
+
+    it("applyCounter() replaces the offer's terms and keeps the rest", () => {
+      const offer: OfferPayload = {
+        request_id: "req-001",
+        price: "0.03",
+        protocol_fee: "0.00075",
+        total_cost: "0.03075",
+        currency: "USDC",
+        estimated_time: 30,
+        deliverables: ["report"],
+        expiry: 300,
+        payment_address: "0x0000000000000000000000000000000000000001",
+      };
+
+      const countered = applyCounter(offer, {
+        request_id: "req-001",
+        price: "0.02",
+        protocol_fee: "0.0005",
+        total_cost: "0.0205",
+      });
+
+      expect(countered).toEqual({ ...offer, price: "0.02", protocol_fee: "0.0005", total_cost: "0.0205" });
+      expect(applyCounter(offer, { ...countered, estimated_time: 10 }).estimated_time).toBe(10);
+    });
+  });
+
   describe("reject()", () => {
     it("sends an x811/reject envelope and returns message_id", async () => {
       const kp = createTestKeyPair();
@@ -588,6 +915,32 @@ describe("X811Client", () => {
     });
   });
 
+  describe("cancel()", () => {
+    it("sends an x811/cancel envelope and returns message_id", async () => {
+      const kp = createTestKeyPair();
+      const client = new X811Client({ serverUrl: SERVER_URL, keyPair: kp });
+
+      fetchMock.mockResolvedValueOnce(
+        mockResponse({ message_id: "msg-cancel-001", status: "delivered" }),
+      );
+
+      const cancelPayload: CancelPayload = {
+        interaction_id: "req-001",
+        reason: "No longer needed",
+        force: true,
+      };
+
+      const messageId = await client.cancel("did:x811:provider-uuid", cancelPayload);
+
+      expect(messageId).toBe("msg-cancel-001");
+
+      const body = getLastFetchBody();
+      const envelope = body.envelope as X811Envelope<CancelPayload>;
+      expect(envelope.type).toBe("x811/cancel");
+      expect(envelope.payload.force).toBe(true);
+    });
+  });
+
   describe("deliverResult()", () => {
     it("sends an x811/result envelope and returns message_id", async () => {
       const kp = createTestKeyPair();
@@ -617,6 +970,105 @@ describe("X811Client", () => {
       expect(envelope.to).toBe("did:x811:initiator-uuid");
       expect(envelope.payload.result_hash).toBe("b".repeat(64));
     });
+
+    it("uploads content over the inline limit and delivers it by result_url", async () => {
+      const kp = createTestKeyPair();
+      const client = new X811Client({ serverUrl: SERVER_URL, keyPair: kp });
+      const content = "x".repeat(MESSAGE_LIMITS.MAX_INLINE_PAYLOAD + 1);
+      const hash = createHash("sha256").update(content).digest("hex");
+
+      fetchMock
+        .mockResolvedValueOnce(mockResponse({
+          hash,
+          interaction_id: "req-001",
+          size: content.length,
+          content_type: "text/plain",
+          url: `${SERVER_URL}/api/v1/blobs/${hash}`,
+        }, 201))
+        .mockResolvedValueOnce(mockResponse({ message_id: "msg-result-002", status: "queued" }));
+
+      await client.deliverResult("did:x811:initiator-uuid", {
+        request_id: "req-001",
+        offer_id: "req-001",
+        content,
+        content_type: "text/plain",
+        result_hash: "ignored",
+        execution_time_ms: 15000,
+      });
+
+      const [uploadUrl, uploadInit] = fetchMock.mock.calls[0] as [string, RequestInit];
+      expect(uploadUrl).toBe(`${SERVER_URL}/api/v1/blobs/${hash}?interaction_id=req-001`);
+      expect(uploadInit.method).toBe("PUT");
+      expect((uploadInit.headers as Record<string, string>).Authorization).toMatch(/^X811-Signature /);
+      expect(uploadInit.body).toEqual(new TextEncoder().encode(content));
+
+      const envelope = getLastFetchBody().envelope as X811Envelope<ResultPayload>;
+      expect(envelope.payload.content).toBeUndefined();
+      expect(envelope.payload).toMatchObject({
+        result_url: `${SERVER_URL}/api/v1/blobs/${hash}`,
+        result_size: content.length,
+        result_hash: hash,
+      });
+    });
+  });
+
+  describe("fetchResult()", () => {
+    it("downloads a result with a signed request and checks result_hash", async () => {
+      const kp = createTestKeyPair();
+      const client = new X811Client({ serverUrl: SERVER_URL, keyPair: kp });
+      const hash = createHash("sha256").update("the answer").digest("hex");
+      const result = { request_id: "req-1", result_url: `${SERVER_URL}/api/v1/blobs/${hash}`, result_hash: hash };
+
+      fetchMock.mockResolvedValueOnce(new Response("the answer", { headers: { "content-type": "text/plain" } }));
+      expect(await client.fetchResult(result)).toBe("the answer");
+      const init = fetchMock.mock.calls[0][1] as RequestInit;
+      expect((init.headers as Record<string, string>).Authorization).toMatch(/^X811-Signature /);
+
+      fetchMock.mockResolvedValueOnce(new Response("tampered"));
+      await expect(client.fetchResult(result)).rejects.toMatchObject({ code: "X811-6002" });
+    });
+
+    it("decrypts results sealed for the initiator", async () => {
+      const providerKp = createTestKeyPair();
+      const initiatorKp = createTestKeyPair();
+      const provider = new X811Client({ serverUrl: SERVER_URL, keyPair: providerKp, encrypt: true });
+      const initiator = new X811Client({ serverUrl: SERVER_URL, keyPair: initiatorKp });
+      const content = "y".repeat(MESSAGE_LIMITS.MAX_INLINE_PAYLOAD + 1);
+
+      let uploaded: Uint8Array | undefined;
+      fetchMock
+        .mockResolvedValueOnce(mockResponse(buildDIDDocument(
+          initiatorKp.did,
+          initiatorKp.signingKey.publicKey,
+          initiatorKp.encryptionKey.publicKey,
+        )))
+        .mockImplementationOnce(async (_url: string, init: RequestInit) => {
+          uploaded = init.body as Uint8Array;
+          const hash = createHash("sha256").update(uploaded).digest("hex");
+          return mockResponse({ hash, size: uploaded.length, url: `${SERVER_URL}/api/v1/blobs/${hash}` }, 201);
+        })
+        .mockResolvedValueOnce(mockResponse({ message_id: "msg-1", status: "queued" }));
+
+      await provider.deliverResult(initiatorKp.did, {
+        request_id: "req-1",
+        offer_id: "req-1",
+        content,
+        content_type: "text/plain",
+        result_hash: "ignored",
+        execution_time_ms: 10,
+      });
+      expect(new TextDecoder().decode(uploaded)).not.toContain("yyyy");
+
+      fetchMock.mockResolvedValueOnce(new Response(uploaded, {
+        headers: { "content-type": "application/x811-sealed+json" },
+      }));
+      const hash = createHash("sha256").update(uploaded!).digest("hex");
+      expect(await initiator.fetchResult({
+        request_id: "req-1",
+        result_url: `${SERVER_URL}/api/v1/blobs/${hash}`,
+        result_hash: hash,
+      })).toBe(content);
+    });
   });
 
   describe("sendVerify()", () => {
@@ -639,6 +1091,56 @@ describe("X811Client", () => {
     });
   });
 
+  describe("dispute()", () => {
+    it("sends an x811/verify envelope with verified: false", async () => {
+      const kp = createTestKeyPair();
+      const client = new X811Client({ serverUrl: SERVER_URL, keyPair: kp });
+
+      fetchMock.mockResolvedValueOnce(
+        mockResponse({ message_id: "msg-dispute-001", status: "delivered" }),
+      );
+
+      const messageId = await client.dispute("did:x811:provider-uuid", {
+        request_id: "req-001",
+        offer_id: "offer-001",
+        result_hash: "b".repeat(64),
+        dispute_code: "INCOMPLETE",
+        dispute_reason: "Only half the files were reviewed",
+      });
+
+      expect(messageId).toBe("msg-dispute-001");
+
+      const body = getLastFetchBody();
+      const envelope = body.envelope as X811Envelope<VerifyPayload>;
+      expect(envelope.type).toBe("x811/verify");
+      expect(envelope.payload.verified).toBe(false);
+      expect(envelope.payload.dispute_code).toBe("INCOMPLETE");
+    });
+  });
+
+  describe("respondToDispute()", () => {
+    it("sends an x811/dispute-response envelope", async () => {
+      const kp = createTestKeyPair();
+      const client = new X811Client({ serverUrl: SERVER_URL, keyPair: kp });
+
+      fetchMock.mockResolvedValueOnce(
+        mockResponse({ message_id: "msg-dispute-response-001", status: "delivered" }),
+      );
+
+      const messageId = await client.respondToDispute("did:x811:initiator-uuid", {
+        request_id: "req-001",
+        evidence: "All files listed in the request were reviewed",
+      });
+
+      expect(messageId).toBe("msg-dispute-response-001");
+
+      const body = getLastFetchBody();
+      const envelope = body.envelope as X811Envelope<DisputeResponsePayload>;
+      expect(envelope.type).toBe("x811/dispute-response");
+      expect(envelope.to).toBe("did:x811:initiator-uuid");
+    });
+  });
+
   describe("pay()", () => {
     it("sends an x811/payment envelope and returns message_id", async () => {
       const kp = createTestKeyPair();
@@ -670,6 +1172,109 @@ describe("X811Client", () => {
     });
   });
 
+  // -----------------------------------------------------------------------
+  // Request for quote
+  // -----------------------------------------------------------------------
+
+  describe("request for quote", () => {
+    const task = {
+      task_type: "financial-analysis",
+      parameters: {},
+      max_budget: 1,
+      currency: "USDC" as const,
+      deadline: 60,
+      acceptance_policy: "auto" as const,
+    };
+
+    function makeOffer(requestId: string, totalCost: string): OfferPayload {
+      return {
+        request_id: requestId,
+        price: totalCost,
+        protocol_fee: "0",
+        total_cost: totalCost,
+        currency: "USDC",
+        estimated_time: 30,
+        deliverables: ["report"],
+        expiry: 300,
+        payment_address: "0x" + "1".repeat(40),
+      };
+    }
+
+    it("requestQuotes() fans out requests sharing an rfq_id and skips unreachable providers", async () => {
+      const client = new X811Client({ serverUrl: SERVER_URL, keyPair: createTestKeyPair() });
+      fetchMock.mockImplementation(async (_url: string, init?: RequestInit) => {
+        const { envelope } = JSON.parse(init!.body as string);
+        if (envelope.to === "did:x811:offline") {
+          return mockResponse({ error: { code: "X811-3001", message: "Agent not found" } }, 404, "Not Found");
+        }
+        return mockResponse({ message_id: `msg-${envelope.to}`, status: "queued", interaction_id: `int-${envelope.to}` });
+      });
+
+      const rfq = await client.requestQuotes(
+        [{ did: "did:x811:a", trust_score: 0.9 }, { did: "did:x811:offline" }, { did: "did:x811:b" }],
+        task,
+      );
+
+      expect(rfq.requests.map((r) => r.did)).toEqual(["did:x811:a", "did:x811:b"]);
+      expect(rfq.requests[0]).toMatchObject({ trust_score: 0.9, interaction_id: "int-did:x811:a" });
+
+      const payloads = fetchMock.mock.calls.map(
+        ([, init]) => JSON.parse((init as RequestInit).body as string).envelope.payload as RequestPayload,
+      );
+      expect(new Set(payloads.map((p) => p.rfq_id))).toEqual(new Set([rfq.rfq_id]));
+      expect(new Set(payloads.map((p) => p.idempotency_key)).size).toBe(3);
+    });
+
+    it("collectOffers() keeps the first offer per provider and returns other messages", async () => {
+      const client = new X811Client({ serverUrl: SERVER_URL, keyPair: createTestKeyPair() });
+      const rfq = {
+        rfq_id: "rfq-1",
+        requests: [
+          { did: "did:x811:a", message_id: "m-a", trust_score: 0.8 },
+          { did: "did:x811:b", message_id: "m-b" },
+        ],
+      };
+      fetchMock
+        .mockResolvedValueOnce(mockResponse({
+          messages: [
+            { id: "1", type: "x811/offer", from: "did:x811:a", payload: makeOffer("int-a", "0.5") },
+            { id: "2", type: "x811/result", from: "did:x811:c", payload: {} },
+          ],
+        }))
+        .mockResolvedValueOnce(mockResponse({ acknowledged: ["1", "2"], unknown: [] }))
+        .mockResolvedValueOnce(mockResponse({
+          messages: [{ id: "3", type: "x811/offer", from: "did:x811:b", payload: makeOffer("int-b", "0.4") }],
+        }))
+        .mockResolvedValueOnce(mockResponse({ acknowledged: ["3"], unknown: [] }));
+
+      const { offers, unmatched } = await client.collectOffers(rfq, 1_000, 1);
+
+      expect(offers.map((o) => o.provider_did)).toEqual(["did:x811:a", "did:x811:b"]);
+      expect(offers[0].trust_score).toBe(0.8);
+      expect(unmatched.map((m) => m.id)).toEqual(["2"]);
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+    });
+
+    it("rejectLosingOffers() rejects every offer but the winner with PRICE_TOO_HIGH", async () => {
+      const client = new X811Client({ serverUrl: SERVER_URL, keyPair: createTestKeyPair() });
+      fetchMock.mockResolvedValue(mockResponse({ message_id: "msg-reject", status: "queued" }));
+      const offers = [
+        { provider_did: "did:x811:a", offer: makeOffer("int-a", "0.5") },
+        { provider_did: "did:x811:b", offer: makeOffer("int-b", "0.4") },
+        { provider_did: "did:x811:c", offer: makeOffer("int-c", "0.6") },
+      ];
+
+      await client.rejectLosingOffers(offers, offers[1]);
+
+      const rejects = fetchMock.mock.calls.map(
+        ([, init]) => JSON.parse((init as RequestInit).body as string).envelope as X811Envelope<RejectPayload>,
+      );
+      expect(rejects.map((e) => e.to)).toEqual(["did:x811:a", "did:x811:c"]);
+      expect(rejects.every((e) => e.type === "x811/reject" && e.payload.code === "PRICE_TOO_HIGH")).toBe(true);
+      expect(rejects[0].payload.offer_id).toBe("int-a");
+    });
+  });
+
   // -----------------------------------------------------------------------
   // heartbeat()
   // -----------------------------------------------------------------------
@@ -0,0 +1,141 @@
+/**
+ * x811 Protocol — Acceptance policy and approval queue tests.
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { AcceptancePolicy, OfferPayload } from "@x811/core";
+import { evaluateOffer, ApprovalQueue } from "../policy.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function makeOffer(totalCost: string, overrides: Partial<OfferPayload> = {}): OfferPayload {
+  return {
+    request_id: "req-1",
+    price: totalCost,
+    protocol_fee: "0",
+    total_cost: totalCost,
+    currency: "USDC",
+    estimated_time: 60,
+    deliverables: ["report"],
+    expiry: 300,
+    payment_address: "0x0000000000000000000000000000000000000001",
+    ...overrides,
+  };
+}
+
+function makePolicy(overrides: Partial<AcceptancePolicy> = {}): AcceptancePolicy {
+  return {
+    acceptance_policy: "auto",
+    min_trust_score: 0,
+    max_budget_per_task: 10,
+    allowed_capabilities: [],
+    ...overrides,
+  };
+}
+
+const context = { capability: "financial-analysis", provider_trust_score: 0.8 };
+
+// ---------------------------------------------------------------------------
+// evaluateOffer
+// ---------------------------------------------------------------------------
+
+describe("evaluateOffer", () => {
+  it("accepts offers within limits under the auto policy", () => {
+    expect(evaluateOffer(makePolicy(), makeOffer("5"), context).decision).toBe("accept");
+  });
+
+  it("rejects capabilities outside allowed_capabilities", () => {
+    const result = evaluateOffer(
+      makePolicy({ allowed_capabilities: ["code-review"] }),
+      makeOffer("5"),
+      context,
+    );
+    expect(result.decision).toBe("reject");
+    expect(result.reject_code).toBe("POLICY_REJECTED");
+  });
+
+  it("rejects providers below min_trust_score, including unknown scores", () => {
+    const policy = makePolicy({ min_trust_score: 0.9 });
+    expect(evaluateOffer(policy, makeOffer("5"), context).reject_code).toBe("TRUST_TOO_LOW");
+    expect(
+      evaluateOffer(policy, makeOffer("5"), { capability: "financial-analysis" }).reject_code,
+    ).toBe("TRUST_TOO_LOW");
+  });
+
+  it("rejects offers over max_budget_per_task regardless of policy", () => {
+    const result = evaluateOffer(
+      makePolicy({ acceptance_policy: "human_approval" }),
+      makeOffer("12"),
+      context,
+    );
+    expect(result.decision).toBe("reject");
+    expect(result.reject_code).toBe("PRICE_TOO_HIGH");
+  });
+
+  it("escalates every in-budget offer under human_approval", () => {
+    const result = evaluateOffer(
+      makePolicy({ acceptance_policy: "human_approval" }),
+      makeOffer("0.01"),
+      context,
+    );
+    expect(result.decision).toBe("escalate");
+  });
+
+  it("accepts at or below threshold_amount and escalates above it", () => {
+    const policy = makePolicy({ acceptance_policy: "threshold", threshold_amount: 2 });
+    expect(evaluateOffer(policy, makeOffer("1.5"), context).decision).toBe("accept");
+    expect(evaluateOffer(policy, makeOffer("2"), context).decision).toBe("accept");
+    expect(evaluateOffer(policy, makeOffer("2.01"), context).decision).toBe("escalate");
+  });
+
+  it("escalates under a threshold policy without threshold_amount", () => {
+    const policy = makePolicy({ acceptance_policy: "threshold" });
+    expect(evaluateOffer(policy, makeOffer("0.01"), context).decision).toBe("escalate");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// ApprovalQueue
+// ---------------------------------------------------------------------------
+
+describe("ApprovalQueue", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("queues, lists and takes pending offers", () => {
+    const queue = new ApprovalQueue();
+    const pending = queue.add({
+      provider_did: "did:x811:provider",
+      capability: "financial-analysis",
+      offer: makeOffer("5"),
+      reason: "Policy requires human approval",
+    });
+
+    expect(pending.id).toBe("req-1");
+    expect(queue.list()).toHaveLength(1);
+    expect(queue.take("req-1").provider_did).toBe("did:x811:provider");
+    expect(queue.size).toBe(0);
+    expect(() => queue.take("req-1")).toThrow(/No pending approval/);
+  });
+
+  it("drops offers once they expire", () => {
+    vi.useFakeTimers();
+    const queue = new ApprovalQueue();
+    queue.add({
+      provider_did: "did:x811:provider",
+      capability: "financial-analysis",
+      offer: makeOffer("5", { expiry: 60 }),
+      reason: "Above threshold",
+    });
+
+    vi.advanceTimersByTime(59_000);
+    expect(queue.get("req-1")).toBeDefined();
+
+    vi.advanceTimersByTime(1_000);
+    expect(queue.list()).toHaveLength(0);
+    expect(() => queue.take("req-1")).toThrow(/unknown or expired/);
+  });
+});
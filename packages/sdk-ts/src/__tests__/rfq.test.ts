@@ -0,0 +1,71 @@
+/**
+ * x811 Protocol — RFQ offer selection tests.
+ */
+
+import { describe, it, expect } from "vitest";
+import { selectOffer, type RfqOffer } from "../rfq.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function makeOffer(
+  providerDid: string,
+  totalCost: string,
+  estimatedTime: number,
+  trustScore?: number,
+): RfqOffer {
+  return {
+    provider_did: providerDid,
+    trust_score: trustScore,
+    offer: {
+      request_id: `int-${providerDid}`,
+      price: totalCost,
+      protocol_fee: "0",
+      total_cost: totalCost,
+      currency: "USDC",
+      estimated_time: estimatedTime,
+      deliverables: ["report"],
+      expiry: 300,
+      payment_address: "0x" + "1".repeat(40),
+    },
+  };
+}
+
+const offers = [
+  makeOffer("a", "0.50", 120, 0.9),
+  makeOffer("b", "0.40", 300, 0.3),
+  makeOffer("c", "0.45", 30, 0.9),
+];
+
+// ---------------------------------------------------------------------------
+// selectOffer
+// ---------------------------------------------------------------------------
+
+describe("selectOffer", () => {
+  it("picks the lowest total_cost for cheapest", () => {
+    expect(selectOffer(offers, "cheapest")?.provider_did).toBe("b");
+  });
+
+  it("picks the lowest cost per unit of trust for trust_weighted", () => {
+    // a: 0.50/0.9 = 0.56, b: 0.40/0.3 = 1.33, c: 0.45/0.9 = 0.50
+    expect(selectOffer(offers, "trust_weighted")?.provider_did).toBe("c");
+  });
+
+  it("treats unrated providers as barely trusted under trust_weighted", () => {
+    const unrated = makeOffer("d", "0.01", 60);
+    expect(selectOffer([...offers, unrated], "trust_weighted")?.provider_did).toBe("c");
+  });
+
+  it("picks the lowest estimated_time for fastest", () => {
+    expect(selectOffer(offers, "fastest")?.provider_did).toBe("c");
+  });
+
+  it("never picks an offer with an unparseable total_cost", () => {
+    expect(selectOffer([makeOffer("x", "free", 1), offers[0]], "fastest")?.provider_did).toBe("a");
+  });
+
+  it("returns undefined when there are no offers", () => {
+    expect(selectOffer([], "cheapest")).toBeUndefined();
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * x811 Protocol — WebSocket transport tests.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  generateDIDKeyPair,
+  verifyEnvelope,
+  X811Error,
+  type ClientFrame,
+  type ServerFrame,
+  type X811Envelope,
+} from "@x811/core";
+import { X811Client } from "../client.js";
+import type { WebSocketLike } from "../socket.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** An in-process stand-in for the server end of the socket. */
+class FakeSocket implements WebSocketLike {
+  readyState = 0;
+  onopen: WebSocketLike["onopen"] = null;
+  onmessage: WebSocketLike["onmessage"] = null;
+  onclose: WebSocketLike["onclose"] = null;
+  onerror: WebSocketLike["onerror"] = null;
+  readonly received: ClientFrame[] = [];
+
+  constructor(
+    readonly url: string,
+    private readonly handle: (frame: ClientFrame, socket: FakeSocket) => void,
+  ) {
+    queueMicrotask(() => {
+      this.readyState = 1;
+      this.push({ type: "challenge", challenge: "challenge-1" });
+    });
+  }
+
+  send(data: string): void {
+    const frame = JSON.parse(data) as ClientFrame;
+    this.received.push(frame);
+    queueMicrotask(() => this.handle(frame, this));
+  }
+
+  push(frame: ServerFrame): void {
+    this.onmessage?.({ data: JSON.stringify(frame) });
+  }
+
+  close(code = 1000): void {
+    this.readyState = 3;
+    this.onclose?.({ code, reason: "" });
+  }
+}
+
+/** A client on the websocket transport, against a fake server that accepts `handle`d frames. */
+function setup(handle: (frame: ClientFrame, socket: FakeSocket) => void = () => {}) {
+  const keyPair = generateDIDKeyPair();
+  const sockets: FakeSocket[] = [];
+  const client = new X811Client({
+    serverUrl: "https://api.x811.org",
+    keyPair,
+    transport: "websocket",
+    createWebSocket: (url) => {
+      const socket = new FakeSocket(url, (frame, s) => {
+        if (frame.type === "auth") s.push({ type: "ready", did: keyPair.did });
+        else handle(frame, s);
+      });
+      sockets.push(socket);
+      return socket;
+    },
+  });
+  return { client, keyPair, sockets };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("X811Client websocket transport", () => {
+  it("answers the challenge and sends envelopes over one socket", async () => {
+    const { client, keyPair, sockets } = setup((frame, socket) => {
+      if (frame.type !== "send") return;
+      socket.push({
+        type: "result",
+        id: frame.envelope.id,
+        result: {
+          message_id: frame.envelope.id,
+          status: "queued",
+          interaction_id: "interaction-1",
+          interaction_status: "pending",
+        },
+      });
+    });
+
+    const first = await client.send("did:x811:provider", "x811/heartbeat", { availability: "online" });
+    const second = await client.send("did:x811:provider", "x811/heartbeat", { availability: "busy" });
+    expect(first).toMatchObject({ status: "queued", interaction_id: "interaction-1" });
+    expect(second.message_id).not.toBe(first.message_id);
+
+    expect(sockets).toHaveLength(1);
+    const agentId = keyPair.did.slice("did:x811:".length);
+    const path = `/api/v1/messages/${agentId}/ws`;
+    expect(sockets[0].url).toBe(`wss://api.x811.org${path}`);
+
+    // Signed for the socket path with the challenge as nonce; send-only
+    const [auth, ...sends] = sockets[0].received;
+    expect(auth).toMatchObject({ type: "auth", subscribe: false });
+    expect((auth as { authorization: string }).authorization.startsWith("X811-Signature ")).toBe(true);
+    const fields = Object.fromEntries(
+      [...(auth as { authorization: string }).authorization.matchAll(/(\w+)="([^"]*)"/g)].map((m) => [m[1], m[2]]),
+    );
+    expect(fields).toMatchObject({ did: keyPair.did, nonce: "challenge-1" });
+    expect(fields.signature).toBeDefined();
+
+    expect(sends).toHaveLength(2);
+    for (const frame of sends) {
+      const { envelope } = frame as { envelope: X811Envelope<unknown> };
+      expect(verifyEnvelope(envelope, keyPair.signingKey.publicKey)).toBe(true);
+    }
+  });
+
+  it("rejects a send the server refuses and reconnects after the socket is lost", async () => {
+    const { client, sockets } = setup((frame, socket) => {
+      if (frame.type !== "send") return;
+      socket.push({
+        type: "error",
+        id: frame.envelope.id,
+        error: { code: "X811-2002", message: "Nonce has already been used" },
+      });
+    });
+
+    const refused = client.send("did:x811:provider", "x811/heartbeat", {});
+    await expect(refused).rejects.toBeInstanceOf(X811Error);
+    await expect(refused).rejects.toMatchObject({ code: "X811-2002" });
+
+    sockets[0].close(1006);
+    await expect(client.send("did:x811:provider", "x811/heartbeat", {})).rejects.toMatchObject({
+      code: "X811-2002",
+    });
+    expect(sockets).toHaveLength(2);
+  });
+
+  it("delivers pushed messages to connect() and acknowledges them once handled", async () => {
+    const { client, sockets } = setup((frame, socket) => {
+      if (frame.type === "ack") socket.push({ type: "acked", acknowledged: frame.message_ids, unknown: [] });
+    });
+    const handled: string[] = [];
+    await client.connect((envelope) => {
+      handled.push(envelope.id);
+      if (envelope.id === "msg-2") throw new Error("not processed");
+    });
+
+    expect(sockets[0].received[0]).toMatchObject({ type: "auth", subscribe: true });
+    for (const id of ["msg-1", "msg-2"]) {
+      sockets[0].push({
+        type: "message",
+        envelope: { id, type: "x811/offer", payload: {} } as unknown as X811Envelope<unknown>,
+      });
+    }
+
+    await vi.waitFor(() => expect(handled).toEqual(["msg-1", "msg-2"]));
+    await vi.waitFor(() => expect(sockets[0].received).toContainEqual({ type: "ack", message_ids: ["msg-1"] }));
+    expect(sockets[0].received).not.toContainEqual({ type: "ack", message_ids: ["msg-2"] });
+
+    client.disconnect();
+    await vi.waitFor(() => expect(sockets[0].readyState).toBe(3));
+  });
+});
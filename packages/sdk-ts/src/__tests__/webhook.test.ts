@@ -0,0 +1,81 @@
+/**
+ * x811 Protocol — Webhook verification tests.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  generateSigningKeyPair,
+  signEnvelope,
+  X811Error,
+  type WebhookPayload,
+  type X811Envelope,
+} from "@x811/core";
+import { verifyWebhookDelivery } from "../webhook.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const SERVER_DID = "did:web:api.x811.org";
+const AGENT_DID = "did:x811:agent";
+
+const inner = {
+  version: "0.1.0",
+  id: "msg-1",
+  type: "x811/request",
+  from: "did:x811:initiator",
+  to: AGENT_DID,
+  created: new Date().toISOString(),
+  payload: { task_type: "translation" },
+  signature: "agent-signature",
+  nonce: "n-1",
+} as X811Envelope<unknown>;
+
+function delivery(privateKey: Uint8Array, overrides: { to?: string; created?: string } = {}) {
+  return {
+    envelope: signEnvelope<WebhookPayload>(
+      {
+        version: "0.1.0",
+        id: "delivery-1",
+        type: "x811/webhook",
+        from: SERVER_DID,
+        to: overrides.to ?? AGENT_DID,
+        created: overrides.created ?? new Date().toISOString(),
+        payload: { envelope: inner, attempt: 1 },
+        nonce: "n-2",
+      },
+      privateKey,
+    ),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("verifyWebhookDelivery", () => {
+  const server = generateSigningKeyPair();
+
+  it("returns the agent envelope of a valid delivery", () => {
+    const envelope = verifyWebhookDelivery(delivery(server.privateKey), server.publicKey, {
+      agentDid: AGENT_DID,
+    });
+    expect(envelope).toEqual(inner);
+  });
+
+  it("rejects deliveries signed by another key, stale or for another agent", () => {
+    const forged = delivery(generateSigningKeyPair().privateKey);
+    expect(() => verifyWebhookDelivery(forged, server.publicKey)).toThrow(/signature is invalid/);
+
+    const stale = delivery(server.privateKey, {
+      created: new Date(Date.now() - 10 * 60 * 1000).toISOString(),
+    });
+    expect(() => verifyWebhookDelivery(stale, server.publicKey)).toThrow(/timestamp/);
+
+    const misaddressed = delivery(server.privateKey, { to: "did:x811:other" });
+    expect(() => verifyWebhookDelivery(misaddressed, server.publicKey, { agentDid: AGENT_DID }))
+      .toThrow(/another agent/);
+
+    expect(() => verifyWebhookDelivery({ envelope: inner }, server.publicKey)).toThrow(X811Error);
+  });
+});
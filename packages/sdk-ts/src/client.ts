@@ -7,37 +7,83 @@
  */
 
 import { v7 as uuidv7 } from "uuid";
-import { randomBytes } from "node:crypto";
+import { createHash, randomBytes, randomUUID } from "node:crypto";
 import {
   type DIDKeyPair,
   type DIDDocument,
   type X811Envelope,
   type X811MessageType,
   type AgentCard,
+  type TrustAttestation,
   type RequestPayload,
   type OfferPayload,
   type AcceptPayload,
+  type CancelPayload,
+  type CounterPayload,
   type RejectPayload,
   type ResultPayload,
+  type VerifyPayload,
+  type DisputeResponsePayload,
   type PaymentPayload,
+  type KeyRotationPayload,
   X811Error,
   X811ErrorCode,
   signEnvelope,
+  signKeyRotationProof,
+  signRequest,
   generateDID,
+  rotateDIDKeyPair,
   buildDIDDocument,
+  extractEncryptionKey,
+  extractPublicKey,
+  encryptEnvelope,
+  decryptEnvelope,
+  encryptPayload,
+  decryptPayload,
+  ENCRYPTED_FIELDS,
+  MESSAGE_LIMITS,
+  type EncryptedPayload,
   type ResolvedDID,
 } from "@x811/core";
+import type { RfqHandle, RfqOffer, RfqProvider } from "./rfq.js";
+import { verifyWebhookDelivery } from "./webhook.js";
+import { X811Socket, type WebSocketFactory } from "./socket.js";
 
 // ---------------------------------------------------------------------------
 // Configuration
 // ---------------------------------------------------------------------------
 
+/** Content-Type of result blobs sealed for the initiator (an EncryptedPayload as JSON). */
+const SEALED_BLOB_TYPE = "application/x811-sealed+json";
+
 /** Configuration options for the X811Client. */
 export interface X811ClientConfig {
   /** Base URL of the x811 registry/relay server (e.g., "http://localhost:3000"). */
   serverUrl: string;
   /** Optional pre-existing key pair. If omitted, a new DID is generated. */
   keyPair?: DIDKeyPair;
+  /**
+   * Encrypt confidential payload fields (request parameters, result
+   * content) end-to-end for the recipient's keyAgreement key, so the
+   * server only relays ciphertext. Incoming encrypted messages are always
+   * decrypted. Default: false.
+   */
+  encrypt?: boolean;
+  /**
+   * When generating a new identity, issue did:web:<didDomain>:agents:<uuid>
+   * (resolvable at https://<didDomain>/agents/<uuid>/did.json) instead of
+   * did:x811:<uuid>. Ignored when `keyPair` is given.
+   */
+  didDomain?: string;
+  /**
+   * How envelopes are sent: one signed POST each ("http", the default), or
+   * over a single authenticated WebSocket ("websocket"), opened on first
+   * use, which saves a round of connection setup and authentication per
+   * message in multi-round negotiations.
+   */
+  transport?: "http" | "websocket";
+  /** Opens the WebSocket; defaults to the global WebSocket (browsers, Node 22+). */
+  createWebSocket?: WebSocketFactory;
 }
 
 // ---------------------------------------------------------------------------
@@ -61,11 +107,25 @@ function randomNonce(): string {
 
 export class X811Client {
   private readonly _serverUrl: string;
-  private readonly _keyPair: DIDKeyPair;
-  private readonly _didDocument: DIDDocument;
+  private _keyPair: DIDKeyPair;
+  private _didDocument: DIDDocument;
+  private readonly _encrypt: boolean;
+  /** Recipients' X25519 keyAgreement keys, by DID. */
+  private readonly _encryptionKeys = new Map<string, Uint8Array>();
+  /** Signing key of the server DID, fetched on first use. */
+  private _serverPublicKey: Uint8Array | undefined;
+  private readonly _transport: "http" | "websocket";
+  private readonly _createWebSocket: WebSocketFactory | undefined;
+  /** The WebSocket, once connect() or a websocket-transport send opened it. */
+  private _socket: Promise<X811Socket> | undefined;
+  /** Handler for pushed messages, set by connect(). */
+  private _onPush: ((envelope: X811Envelope<unknown>) => void) | undefined;
 
   constructor(config: X811ClientConfig) {
     this._serverUrl = config.serverUrl.replace(/\/+$/, "");
+    this._encrypt = config.encrypt ?? false;
+    this._transport = config.transport ?? "http";
+    this._createWebSocket = config.createWebSocket;
 
     if (config.keyPair) {
       this._keyPair = config.keyPair;
@@ -75,13 +135,13 @@ export class X811Client {
         config.keyPair.encryptionKey.publicKey,
       );
     } else {
-      const generated = generateDID();
+      const generated = generateDID(undefined, config.didDomain);
       this._keyPair = generated.keyPair;
       this._didDocument = generated.document;
     }
   }
 
-  /** The client's DID string (e.g., "did:x811:<uuid>"). */
+  /** The client's DID string (e.g., "did:x811:<uuid>" or "did:web:<domain>:agents:<uuid>"). */
   get did(): string {
     return this._keyPair.did;
   }
@@ -106,6 +166,7 @@ export class X811Client {
     payment_address?: string;
     capabilities?: Array<{
       name: string;
+      version?: string;
       description?: string;
       input_schema?: Record<string, unknown>;
       output_schema?: Record<string, unknown>;
@@ -138,6 +199,63 @@ export class X811Client {
     return result;
   }
 
+  /**
+   * Rotate this agent's keys. The request is signed with the current key
+   * and carries a proof signed with the new one; once the registry accepts
+   * it the client switches to the new keys. Persist the returned key pair —
+   * the old key stops working after the server's grace window.
+   */
+  async rotateKeys(): Promise<DIDKeyPair> {
+    const agentId = this.extractAgentId(this.did);
+    const newKeyPair = rotateDIDKeyPair(this.did);
+    const newDocument = buildDIDDocument(
+      this.did,
+      newKeyPair.signingKey.publicKey,
+      newKeyPair.encryptionKey.publicKey,
+    );
+
+    const unsigned = this.buildEnvelope<KeyRotationPayload>(this.did, "x811/request", {
+      did_document: newDocument,
+      public_key: toBase64Url(newKeyPair.signingKey.publicKey),
+      proof: "",
+    });
+    unsigned.payload.proof = signKeyRotationProof(unsigned.nonce, newKeyPair.signingKey.privateKey);
+    const signed = signEnvelope(unsigned, this._keyPair.signingKey.privateKey);
+
+    await this.fetchJSON(
+      `/api/v1/agents/${encodeURIComponent(agentId)}/keys`,
+      {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ envelope: signed }),
+      },
+    );
+
+    this._keyPair = newKeyPair;
+    this._didDocument = newDocument;
+    return newKeyPair;
+  }
+
+  /**
+   * Permanently revoke this agent's DID. Open interactions fail, queued
+   * messages are dropped and the DID can no longer authenticate. Use this
+   * when the signing key is compromised and rotation is not enough.
+   */
+  async revoke(): Promise<{ failed_interactions: number; purged_messages: number }> {
+    const agentId = this.extractAgentId(this.did);
+    const envelope = this.buildEnvelope(this.did, "x811/request", {});
+    const signed = signEnvelope(envelope, this._keyPair.signingKey.privateKey);
+
+    return this.fetchJSON<{ failed_interactions: number; purged_messages: number }>(
+      `/api/v1/agents/${encodeURIComponent(agentId)}/revoke`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ envelope: signed }),
+      },
+    );
+  }
+
   // -----------------------------------------------------------------------
   // DID resolution
   // -----------------------------------------------------------------------
@@ -166,9 +284,17 @@ export class X811Client {
 
   /**
    * Discover agents matching the given query parameters.
+   * `capability` matches a taxonomy path and everything below it;
+   * `q` is a free-text search ranked by relevance and trust.
+   * `max_price` (USDC) and `max_latency_ms` (median completion time)
+   * shortlist providers before any request is sent.
    */
   async discover(params: {
     capability?: string;
+    q?: string;
+    max_price?: number;
+    max_latency_ms?: number;
+    sort?: "price" | "trust" | "latency";
     trust_min?: number;
     status?: string;
     availability?: string;
@@ -177,6 +303,10 @@ export class X811Client {
   } = {}): Promise<{ agents: AgentCard[]; total: number }> {
     const query = new URLSearchParams();
     if (params.capability !== undefined) query.set("capability", params.capability);
+    if (params.q !== undefined) query.set("q", params.q);
+    if (params.max_price !== undefined) query.set("max_price", String(params.max_price));
+    if (params.max_latency_ms !== undefined) query.set("max_latency_ms", String(params.max_latency_ms));
+    if (params.sort !== undefined) query.set("sort", params.sort);
     if (params.trust_min !== undefined) query.set("trust_min", String(params.trust_min));
     if (params.status !== undefined) query.set("status", params.status);
     if (params.availability !== undefined) query.set("availability", params.availability);
@@ -201,20 +331,83 @@ export class X811Client {
     );
   }
 
+  /**
+   * Fetch an agent's reputation, per capability and over time.
+   * @param options.window - Only count interactions from the last `window` days.
+   * @param options.bucket - History granularity (default "week").
+   */
+  async getReputation(
+    agentId: string,
+    options: { window?: number; bucket?: "day" | "week" | "month" } = {},
+  ): Promise<{
+    agent_id: string;
+    did: string;
+    trust_score: number;
+    window_days: number | null;
+    bucket: string;
+    summary: Record<string, number | null>;
+    capabilities: Array<Record<string, unknown> & { capability: string; trust_score: number }>;
+    history: Array<Record<string, unknown> & { period_start: string }>;
+  }> {
+    const params = new URLSearchParams();
+    if (options.window !== undefined) params.set("window", String(options.window));
+    if (options.bucket) params.set("bucket", options.bucket);
+    const qs = params.toString();
+    return this.fetchJSON(
+      `/api/v1/agents/${encodeURIComponent(agentId)}/reputation${qs ? `?${qs}` : ""}`,
+    );
+  }
+
+  /**
+   * Fetch a trust attestation for an agent, signed by the server's DID key.
+   * Providers can attach it to offers as `trust_attestation`; counterparties
+   * check it with verifyTrustAttestation() from @x811/core.
+   */
+  async getTrustAttestation(agentId: string): Promise<TrustAttestation> {
+    return this.fetchJSON<TrustAttestation>(
+      `/api/v1/agents/${encodeURIComponent(agentId)}/attestation`,
+    );
+  }
+
+  /**
+   * Fetch the input/output schemas providers publish for a capability,
+   * optionally limited to one schema version.
+   */
+  async getCapabilitySchema(name: string, version?: string): Promise<{
+    name: string;
+    versions: string[];
+    schemas: Array<{
+      agent_did: string;
+      version: string;
+      description: string | null;
+      input_schema: Record<string, unknown> | null;
+      output_schema: Record<string, unknown> | null;
+      pricing: Record<string, unknown> | null;
+    }>;
+  }> {
+    const qs = version !== undefined ? `?version=${encodeURIComponent(version)}` : "";
+    return this.fetchJSON(`/api/v1/capabilities/${encodeURIComponent(name)}/schema${qs}`);
+  }
+
   // -----------------------------------------------------------------------
   // Generic message sending
   // -----------------------------------------------------------------------
 
   /**
    * Build, sign, and send an envelope to the given recipient.
+   * With `encrypt` enabled, confidential fields are sealed for the
+   * recipient first.
    * Returns the message_id and status from the server.
    */
   async send<T>(
     to: string,
     type: X811MessageType,
     payload: T,
-  ): Promise<{ message_id: string; status: string }> {
+  ): Promise<{ message_id: string; status: string; interaction_id?: string }> {
     const envelope = this.buildEnvelope(to, type, payload);
+    if (this._encrypt && ENCRYPTED_FIELDS[type]) {
+      return this.signAndSend(encryptEnvelope(envelope, await this.getEncryptionKey(to)));
+    }
     return this.signAndSend(envelope);
   }
 
@@ -224,17 +417,103 @@ export class X811Client {
 
   /**
    * Poll for messages addressed to this agent.
-   * Uses the agent's DID as a query parameter for simple auth.
+   * The request is signed with the agent's key (X811-Signature header).
+   * End-to-end encrypted messages are returned decrypted.
+   *
+   * The server leases polled messages and redelivers them unless they are
+   * acknowledged. By default they are acknowledged right away; pass
+   * `{ ack: false }` and call ack() once they are processed for
+   * at-least-once delivery.
    */
-  async poll(): Promise<X811Envelope<unknown>[]> {
+  async poll(options: { ack?: boolean } = {}): Promise<X811Envelope<unknown>[]> {
     const agentId = this.extractAgentId(this.did);
+    const path = `/api/v1/messages/${encodeURIComponent(agentId)}?did=${encodeURIComponent(this.did)}`;
     const result = await this.fetchJSON<{
       agent_id: string;
       messages: X811Envelope<unknown>[];
       count: number;
-    }>(`/api/v1/messages/${encodeURIComponent(agentId)}?did=${encodeURIComponent(this.did)}`);
+    }>(path, {
+      headers: { Authorization: signRequest("GET", path, this.did, this._keyPair.signingKey.privateKey) },
+    });
+
+    const messages = result.messages.map((envelope) => this.decrypt(envelope));
+    if (options.ack !== false && messages.length > 0) {
+      await this.ack(messages.map((message) => message.id));
+    }
+    return messages;
+  }
+
+  /**
+   * Acknowledge polled or SSE-pushed messages, so the server stops
+   * redelivering them.
+   * @returns The acknowledged IDs, and those the server did not hold for
+   *   this agent (unknown or already acknowledged).
+   */
+  async ack(messageIds: string[]): Promise<{ acknowledged: string[]; unknown: string[] }> {
+    if (this._transport === "websocket") {
+      return (await this.openSocket()).ack(messageIds);
+    }
+
+    const agentId = this.extractAgentId(this.did);
+    const envelope = this.buildEnvelope(this.did, "x811/ack", { message_ids: messageIds });
+    const signed = signEnvelope(envelope, this._keyPair.signingKey.privateKey);
+
+    return this.fetchJSON(`/api/v1/messages/${encodeURIComponent(agentId)}/ack`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ envelope: signed }),
+    });
+  }
+
+  /**
+   * Verify a webhook delivery from the server (the parsed body of its
+   * POST to this agent's endpoint) and return the message it carries,
+   * decrypted if it was end-to-end encrypted. The server's key is fetched
+   * from its /.well-known/did.json once and cached. Answer 2xx after
+   * handling the message to acknowledge it.
+   * @throws X811Error if the delivery is forged, stale or for another agent.
+   */
+  async verifyWebhook(body: unknown): Promise<X811Envelope<unknown>> {
+    if (!this._serverPublicKey) {
+      const document = await this.fetchJSON<DIDDocument>("/.well-known/did.json");
+      this._serverPublicKey = extractPublicKey(document);
+    }
+    return this.decrypt(verifyWebhookDelivery(body, this._serverPublicKey, { agentDid: this.did }));
+  }
+
+  // -----------------------------------------------------------------------
+  // WebSocket transport
+  // -----------------------------------------------------------------------
 
-    return result.messages;
+  /**
+   * Open the WebSocket and have messages for this agent pushed to
+   * `onMessage` as they arrive (decrypted), instead of polling. Each is
+   * acknowledged once `onMessage` returns or its promise resolves; if it
+   * throws, the server redelivers the message later. Sends use the same
+   * socket when `transport` is "websocket".
+   */
+  async connect(
+    onMessage: (envelope: X811Envelope<unknown>) => void | Promise<void>,
+  ): Promise<void> {
+    this.disconnect();
+    this._onPush = (envelope) => {
+      Promise.resolve()
+        .then(() => onMessage(this.decrypt(envelope)))
+        .then(() => this.openSocket())
+        .then((socket) => socket.ack([envelope.id]))
+        .catch(() => {
+          // Not acknowledged: redelivered once its lease runs out
+        });
+    };
+    await this.openSocket();
+  }
+
+  /** Close the WebSocket, if open, and stop pushes. */
+  disconnect(): void {
+    const socket = this._socket;
+    this._socket = undefined;
+    this._onPush = undefined;
+    socket?.then((open) => open.close()).catch(() => {});
   }
 
   // -----------------------------------------------------------------------
@@ -268,6 +547,16 @@ export class X811Client {
     return result.message_id;
   }
 
+  /**
+   * Counter the current terms instead of accepting or rejecting them.
+   * The initiator counters an offer; the provider answers a counter.
+   * @returns The message_id from the server.
+   */
+  async counter(counterpartyDid: string, counter: CounterPayload): Promise<string> {
+    const result = await this.send(counterpartyDid, "x811/counter", counter);
+    return result.message_id;
+  }
+
   /**
    * Reject a provider's offer.
    * @returns The message_id from the server.
@@ -278,11 +567,24 @@ export class X811Client {
   }
 
   /**
-   * Deliver a task result to the initiator.
+   * Cancel an interaction. Before acceptance only the initiator can cancel.
+   * Afterwards the cancellation waits for the counterparty's own cancel,
+   * unless `force` is set — which counts against this agent's trust score.
+   * @returns The message_id from the server.
+   */
+  async cancel(counterpartyDid: string, cancel: CancelPayload): Promise<string> {
+    const result = await this.send(counterpartyDid, "x811/cancel", cancel);
+    return result.message_id;
+  }
+
+  /**
+   * Deliver a task result to the initiator. Content larger than
+   * MESSAGE_LIMITS.MAX_INLINE_PAYLOAD is uploaded to the server's blob
+   * store first and delivered by result_url.
    * @returns The message_id from the server.
    */
   async deliverResult(initiatorDid: string, result: ResultPayload): Promise<string> {
-    const res = await this.send(initiatorDid, "x811/result", result);
+    const res = await this.send(initiatorDid, "x811/result", await this.offloadResult(initiatorDid, result));
     return res.message_id;
   }
 
@@ -297,6 +599,34 @@ export class X811Client {
     return result.message_id;
   }
 
+  /**
+   * Dispute a delivered result (an x811/verify with `verified: false`).
+   * The provider then has an hour to respond before the initiator wins.
+   * @returns The message_id from the server.
+   */
+  async dispute(
+    providerDid: string,
+    dispute: Omit<VerifyPayload, "verified">,
+  ): Promise<string> {
+    const result = await this.send(providerDid, "x811/verify", {
+      ...dispute,
+      verified: false,
+    });
+    return result.message_id;
+  }
+
+  /**
+   * Respond to the initiator's dispute with evidence for the arbiter.
+   * @returns The message_id from the server.
+   */
+  async respondToDispute(
+    initiatorDid: string,
+    response: DisputeResponsePayload,
+  ): Promise<string> {
+    const result = await this.send(initiatorDid, "x811/dispute-response", response);
+    return result.message_id;
+  }
+
   /**
    * Send a payment message.
    * @returns The message_id from the server.
@@ -306,6 +636,171 @@ export class X811Client {
     return result.message_id;
   }
 
+  // -----------------------------------------------------------------------
+  // Result blobs
+  // -----------------------------------------------------------------------
+
+  /**
+   * Upload a result to the server's blob store for an interaction this
+   * agent provides. The blob is addressed by the SHA-256 of `content`.
+   * @returns The blob's hash, size and download URL.
+   */
+  async uploadBlob(
+    interactionId: string,
+    content: Uint8Array,
+    contentType: string,
+  ): Promise<{ hash: string; interaction_id: string; size: number; content_type: string; url: string }> {
+    const hash = createHash("sha256").update(content).digest("hex");
+    const path = `/api/v1/blobs/${hash}?interaction_id=${encodeURIComponent(interactionId)}`;
+    return this.fetchJSON(path, {
+      method: "PUT",
+      headers: {
+        Authorization: signRequest("PUT", path, this.did, this._keyPair.signingKey.privateKey),
+        "Content-Type": contentType,
+      },
+      body: content,
+    });
+  }
+
+  /**
+   * Download a result delivered by `result_url` and check it against
+   * `result_hash`. URLs on this client's server are fetched with a signed
+   * request; blobs sealed for this agent are decrypted.
+   * @returns The result content.
+   * @throws X811Error(RESULT_HASH_MISMATCH) if the content does not match.
+   */
+  async fetchResult(result: Pick<ResultPayload, "request_id" | "result_url" | "result_hash">): Promise<string> {
+    if (!result.result_url) {
+      throw new X811Error(X811ErrorCode.INTERNAL_ERROR, "Result has no result_url");
+    }
+
+    const url = new URL(result.result_url);
+    const init: RequestInit = {};
+    if (url.origin === new URL(this._serverUrl).origin) {
+      init.headers = {
+        Authorization: signRequest("GET", url.pathname + url.search, this.did, this._keyPair.signingKey.privateKey),
+      };
+    }
+    const response = await this.fetchResponse(result.result_url, init);
+    const bytes = new Uint8Array(await response.arrayBuffer());
+
+    const actual = createHash("sha256").update(bytes).digest("hex");
+    if (actual !== result.result_hash) {
+      throw new X811Error(X811ErrorCode.RESULT_HASH_MISMATCH, "Result content does not match result_hash", {
+        expected: result.result_hash,
+        actual,
+      });
+    }
+
+    const text = new TextDecoder().decode(bytes);
+    if (response.headers.get("content-type")?.startsWith(SEALED_BLOB_TYPE)) {
+      return decryptPayload<string>(
+        JSON.parse(text) as EncryptedPayload,
+        this._keyPair.encryptionKey.privateKey,
+        result.request_id,
+      );
+    }
+    return text;
+  }
+
+  // -----------------------------------------------------------------------
+  // Request for quote
+  // -----------------------------------------------------------------------
+
+  /**
+   * Fan one task out to several providers as a request-for-quote. Each
+   * request gets its own idempotency key and a shared rfq_id; providers
+   * the request could not reach are left out of the handle.
+   * @throws The first send error if no provider could be reached
+   */
+  async requestQuotes(
+    providers: RfqProvider[],
+    task: Omit<RequestPayload, "idempotency_key" | "rfq_id">,
+  ): Promise<RfqHandle> {
+    const rfqId = randomUUID();
+    const sent = await Promise.allSettled(
+      providers.map((provider) =>
+        this.send(provider.did, "x811/request", {
+          ...task,
+          idempotency_key: randomUUID(),
+          rfq_id: rfqId,
+        }),
+      ),
+    );
+
+    const requests: RfqHandle["requests"] = [];
+    sent.forEach((outcome, i) => {
+      if (outcome.status === "fulfilled") {
+        requests.push({
+          ...providers[i],
+          message_id: outcome.value.message_id,
+          interaction_id: outcome.value.interaction_id,
+        });
+      }
+    });
+    if (requests.length === 0 && sent.length > 0) {
+      throw (sent[0] as PromiseRejectedResult).reason;
+    }
+    return { rfq_id: rfqId, requests };
+  }
+
+  /**
+   * Poll for offers to an RFQ until every provider has answered or the
+   * window closes. Only the first offer per provider counts.
+   * @returns The offers, plus every other polled message (which poll()
+   *   has consumed, so the caller must handle or buffer them)
+   */
+  async collectOffers(
+    rfq: RfqHandle,
+    windowMs: number,
+    intervalMs: number = 2_000,
+  ): Promise<{ offers: RfqOffer[]; unmatched: X811Envelope<unknown>[] }> {
+    const deadline = Date.now() + windowMs;
+    const awaiting = new Map(rfq.requests.map((r) => [r.did, r]));
+    const offers: RfqOffer[] = [];
+    const unmatched: X811Envelope<unknown>[] = [];
+
+    while (awaiting.size > 0) {
+      for (const envelope of await this.poll()) {
+        const request = envelope.type === "x811/offer" ? awaiting.get(envelope.from) : undefined;
+        if (request) {
+          awaiting.delete(envelope.from);
+          offers.push({
+            provider_did: envelope.from,
+            trust_score: request.trust_score,
+            offer: envelope.payload as OfferPayload,
+          });
+        } else {
+          unmatched.push(envelope);
+        }
+      }
+
+      const remaining = deadline - Date.now();
+      if (awaiting.size === 0 || remaining <= 0) break;
+      await new Promise((r) => setTimeout(r, Math.min(intervalMs, remaining)));
+    }
+
+    return { offers, unmatched };
+  }
+
+  /**
+   * Reject every RFQ offer except the winner with PRICE_TOO_HIGH — all of
+   * them if there is no winner.
+   */
+  async rejectLosingOffers(offers: RfqOffer[], winner?: RfqOffer): Promise<void> {
+    await Promise.all(
+      offers
+        .filter((o) => o !== winner)
+        .map((o) =>
+          this.reject(o.provider_did, {
+            offer_id: o.offer.request_id,
+            reason: "Another offer was selected",
+            code: "PRICE_TOO_HIGH",
+          }),
+        ),
+    );
+  }
+
   // -----------------------------------------------------------------------
   // Heartbeat
   // -----------------------------------------------------------------------
@@ -396,14 +891,53 @@ export class X811Client {
   }
 
   /**
-   * Sign an envelope and POST it to the messages endpoint.
+   * Move content too large to send inline into the blob store, leaving
+   * result_url, result_size and result_hash (the SHA-256 of the uploaded
+   * bytes, per the spec for result_url deliveries). With `encrypt`
+   * enabled the content is sealed for the initiator before upload.
+   */
+  private async offloadResult(initiatorDid: string, result: ResultPayload): Promise<ResultPayload> {
+    if (
+      typeof result.content !== "string" ||
+      Buffer.byteLength(result.content, "utf8") <= MESSAGE_LIMITS.MAX_INLINE_PAYLOAD
+    ) {
+      return result;
+    }
+
+    const sealed = this._encrypt
+      ? JSON.stringify(encryptPayload(result.content, await this.getEncryptionKey(initiatorDid), result.request_id))
+      : undefined;
+    const bytes = new TextEncoder().encode(sealed ?? result.content);
+    if (bytes.length > MESSAGE_LIMITS.MAX_RESULT_URL_FILE) {
+      throw new X811Error(X811ErrorCode.SANITY_CHECK_FAILED, "Result exceeds the maximum result file size", {
+        size: bytes.length,
+        max: MESSAGE_LIMITS.MAX_RESULT_URL_FILE,
+      });
+    }
+
+    const blob = await this.uploadBlob(
+      result.request_id,
+      bytes,
+      sealed !== undefined ? SEALED_BLOB_TYPE : result.content_type,
+    );
+    const { content: _inline, ...rest } = result;
+    return { ...rest, result_url: blob.url, result_size: blob.size, result_hash: blob.hash };
+  }
+
+  /**
+   * Sign an envelope and POST it to the messages endpoint, or send it over
+   * the WebSocket with the websocket transport.
    */
   private async signAndSend<T>(
     envelope: Omit<X811Envelope<T>, "signature">,
-  ): Promise<{ message_id: string; status: string }> {
+  ): Promise<{ message_id: string; status: string; interaction_id?: string }> {
     const signed = signEnvelope(envelope, this._keyPair.signingKey.privateKey);
 
-    return this.fetchJSON<{ message_id: string; status: string }>(
+    if (this._transport === "websocket") {
+      return (await this.openSocket()).send(signed);
+    }
+
+    return this.fetchJSON<{ message_id: string; status: string; interaction_id?: string }>(
       "/api/v1/messages",
       {
         method: "POST",
@@ -414,26 +948,98 @@ export class X811Client {
   }
 
   /**
-   * Extract the agent UUID from a DID string.
+   * The open WebSocket, connecting first if needed (or again after it was
+   * lost). Until connect() sets a push handler it is send-only: the server
+   * pushes nothing to it.
+   */
+  private openSocket(): Promise<X811Socket> {
+    const current = this._socket;
+    if (current) {
+      return current.then(
+        (socket) => (socket.isOpen ? socket : this.replaceSocket(current)),
+        () => this.replaceSocket(current),
+      );
+    }
+
+    const socket = new X811Socket({
+      serverUrl: this._serverUrl,
+      agentId: this.extractAgentId(this.did),
+      did: this.did,
+      privateKey: this._keyPair.signingKey.privateKey,
+      onMessage: this._onPush,
+      createWebSocket: this._createWebSocket,
+    });
+    const opened = socket.connect().then(() => socket);
+    this._socket = opened;
+    return opened;
+  }
+
+  /** Forget a lost socket, unless another call already replaced it, and reconnect. */
+  private replaceSocket(lost: Promise<X811Socket>): Promise<X811Socket> {
+    if (this._socket === lost) this._socket = undefined;
+    return this.openSocket();
+  }
+
+  /**
+   * Resolve (and cache) a recipient's X25519 keyAgreement key.
+   */
+  private async getEncryptionKey(did: string): Promise<Uint8Array> {
+    let key = this._encryptionKeys.get(did);
+    if (!key) {
+      const { document } = await this.resolve(did);
+      key = extractEncryptionKey(document);
+      this._encryptionKeys.set(did, key);
+    }
+    return key;
+  }
+
+  /**
+   * Decrypt an incoming envelope if it is encrypted. Envelopes that fail
+   * to decrypt are returned as received (still `encrypted: true`).
+   */
+  private decrypt(envelope: X811Envelope<unknown>): X811Envelope<unknown> {
+    if (!envelope.encrypted) return envelope;
+    try {
+      return decryptEnvelope(envelope, this._keyPair.encryptionKey.privateKey);
+    } catch {
+      return envelope;
+    }
+  }
+
+  /**
+   * Extract the agent UUID from a registry DID string.
    * "did:x811:<uuid>" -> "<uuid>"
+   * "did:web:<domain>:agents:<uuid>" -> "<uuid>"
    */
   private extractAgentId(did: string): string {
     const prefix = "did:x811:";
-    if (!did.startsWith(prefix)) {
-      throw new X811Error(
-        X811ErrorCode.INVALID_DID_FORMAT,
-        `Invalid DID format: expected "did:x811:<id>", got "${did}"`,
-      );
+    if (did.startsWith(prefix)) {
+      return did.slice(prefix.length);
     }
-    return did.slice(prefix.length);
+
+    const webAgent = /^did:web:[^:]+:agents:([^:]+)$/.exec(did);
+    if (webAgent) {
+      return webAgent[1];
+    }
+
+    throw new X811Error(
+      X811ErrorCode.INVALID_DID_FORMAT,
+      `Invalid DID format: expected "did:x811:<id>" or "did:web:<domain>:agents:<id>", got "${did}"`,
+    );
   }
 
   /**
    * Fetch wrapper that throws X811Error on non-2xx responses.
    */
   private async fetchJSON<T>(path: string, init?: RequestInit): Promise<T> {
-    const url = `${this._serverUrl}${path}`;
+    const response = await this.fetchResponse(`${this._serverUrl}${path}`, init);
+    return (await response.json()) as T;
+  }
 
+  /**
+   * Fetch a URL, throwing X811Error on network errors and non-2xx responses.
+   */
+  private async fetchResponse(url: string, init?: RequestInit): Promise<Response> {
     let response: Response;
     try {
       response = await fetch(url, init);
@@ -465,6 +1071,6 @@ export class X811Client {
       );
     }
 
-    return (await response.json()) as T;
+    return response;
   }
 }
@@ -0,0 +1,24 @@
+/**
+ * x811 Protocol — Counter-offer helpers.
+ *
+ * Either party can answer with an x811/counter instead of accepting or
+ * rejecting: the initiator counters an offer, the provider answers with
+ * new terms that replace the offer, and the rounds alternate until one
+ * side accepts or rejects (the server caps the number of rounds).
+ */
+
+import type { CounterPayload, OfferPayload } from "@x811/core";
+
+/**
+ * Apply a provider's counter to the offer it replaces, the same way the
+ * server does. Hash the result to accept the countered terms.
+ */
+export function applyCounter(offer: OfferPayload, counter: CounterPayload): OfferPayload {
+  return {
+    ...offer,
+    price: counter.price,
+    protocol_fee: counter.protocol_fee,
+    total_cost: counter.total_cost,
+    estimated_time: counter.estimated_time ?? offer.estimated_time,
+  };
+}
@@ -9,7 +9,12 @@ export { X811Client, type X811ClientConfig } from "./client.js";
 export { WalletService, MockWalletService } from "./wallet.js";
 
 // Wallet adapter system
-export type { WalletAdapter, WalletPayParams } from "./wallet-adapter.js";
+export type {
+  WalletAdapter,
+  WalletPayParams,
+  WalletEscrowParams,
+  EscrowLockResult,
+} from "./wallet-adapter.js";
 export {
   EthersWalletAdapter,
   MockWalletAdapter,
@@ -19,14 +24,47 @@ export {
 export { createWalletAdapter } from "./wallet-factory.js";
 
 // Payment utilities
-export type { FeePaymentParams } from "./payment-utils.js";
-export { preflightBalanceCheck, executePaymentWithFee } from "./payment-utils.js";
+export type { FeePaymentParams, EscrowLockParams } from "./payment-utils.js";
+export {
+  preflightBalanceCheck,
+  executePaymentWithFee,
+  lockOfferInEscrow,
+} from "./payment-utils.js";
+
+// Acceptance policies
+export type {
+  PolicyDecision,
+  PolicyEvaluation,
+  OfferContext,
+  PendingApproval,
+} from "./policy.js";
+export { evaluateOffer, ApprovalQueue } from "./policy.js";
+
+// Request for quote
+export type {
+  OfferSelectionStrategy,
+  RfqProvider,
+  RfqHandle,
+  RfqOffer,
+} from "./rfq.js";
+export { selectOffer } from "./rfq.js";
+
+// Counter-offers
+export { applyCounter } from "./counter.js";
+
+// Webhooks
+export { verifyWebhookDelivery } from "./webhook.js";
+
+// WebSocket transport
+export type { WebSocketLike, WebSocketFactory, X811SocketOptions } from "./socket.js";
+export { X811Socket } from "./socket.js";
 
 // Re-export commonly used types from @x811/core
 export type {
   // DID types
   DIDKeyPair,
   DIDDocument,
+  KeyRotationPayload,
   DIDStatus,
   AgentAvailability,
   ResolvedDID,
@@ -34,17 +72,31 @@ export type {
   X811Envelope,
   X811MessageType,
   NegotiationStatus,
+  EncryptedPayload,
+  SealedPayload,
+  AckPayload,
+  WebhookPayload,
+  SendResult,
+  ClientFrame,
+  ServerFrame,
   // Negotiation payloads
   RequestPayload,
   OfferPayload,
   AcceptPayload,
+  CancelPayload,
+  CounterPayload,
+  OfferRound,
   RejectPayload,
   RejectReasonCode,
   ResultPayload,
   VerifyPayload,
+  DisputeResponsePayload,
+  DisputeOutcome,
+  DisputeResolution,
   PaymentPayload,
   ErrorPayload,
   AcceptancePolicy,
+  SettlementMode,
   // Agent card types
   AgentCard,
   Capability,
@@ -56,7 +108,18 @@ export type {
 export { X811Error, X811ErrorCode } from "@x811/core";
 
 // Re-export crypto utilities (useful for advanced usage)
-export { signEnvelope, verifyEnvelope, hashPayload, canonicalize } from "@x811/core";
+export { signEnvelope, verifyEnvelope, hashPayload, canonicalize, computeEscrowId } from "@x811/core";
+export { encryptPayload, decryptPayload, encryptEnvelope, decryptEnvelope } from "@x811/core";
 
 // Re-export DID utilities
-export { generateDID } from "@x811/core";
+export {
+  generateDID,
+  resolveDID,
+  DIDResolverRegistry,
+  createDefaultResolverRegistry,
+  resolveDIDWeb,
+  resolveDIDKey,
+  didWebToUrl,
+  didKeyFromPublicKey,
+} from "@x811/core";
+export type { DIDResolver } from "@x811/core";
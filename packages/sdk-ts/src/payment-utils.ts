@@ -4,10 +4,11 @@
  * Provides:
  *   - preflightBalanceCheck() — verify sufficient USDC before attempting payment
  *   - executePaymentWithFee() — two-transfer flow: provider payment + protocol fee
+ *   - lockOfferInEscrow() — lock an escrow-settled offer's total cost before accepting
  */
 
-import type { PaymentPayload } from "@x811/core";
-import type { WalletAdapter, WalletPayParams } from "./wallet-adapter.js";
+import { computeEscrowId, type OfferPayload, type PaymentPayload } from "@x811/core";
+import type { EscrowLockResult, WalletAdapter, WalletPayParams } from "./wallet-adapter.js";
 import { isValidPaymentAddress } from "./wallet-adapter.js";
 
 // ---------------------------------------------------------------------------
@@ -147,3 +148,66 @@ export async function executePaymentWithFee(
     fee_tx_hash: feeTxHash,
   };
 }
+
+// ---------------------------------------------------------------------------
+// Escrow deposit
+// ---------------------------------------------------------------------------
+
+/** Default time a deposit stays locked before the payer may reclaim it. */
+const DEFAULT_ESCROW_LOCK_SECONDS = 7200;
+
+export interface EscrowLockParams {
+  /** Wallet adapter to deposit from. */
+  wallet: WalletAdapter;
+  /** X811Escrow contract address (advertised by the server's /health). */
+  escrowAddress: string;
+  /** Server-assigned interaction ID the offer belongs to. */
+  interactionId: string;
+  /** The provider's offer (must use settlement "escrow"). */
+  offer: Pick<OfferPayload, "payment_address" | "price" | "protocol_fee">;
+  /** Seconds until the payer may reclaim an unreleased deposit (default 2 hours). */
+  lockSeconds?: number;
+}
+
+/**
+ * Lock an escrow-settled offer's total cost (price + protocol fee) in the
+ * X811Escrow contract. Send the returned tx_hash as
+ * AcceptPayload.escrow_tx_hash; the server releases the deposit to the
+ * provider on verify and refunds it if the interaction times out.
+ *
+ * @throws {Error} X811-5001 if the escrow or provider address is invalid.
+ * @throws {Error} X811-5010 if balance is insufficient.
+ * @throws {Error} X811-5020 if the deposit fails.
+ */
+export async function lockOfferInEscrow(
+  params: EscrowLockParams,
+): Promise<EscrowLockResult> {
+  const { wallet, escrowAddress, interactionId, offer } = params;
+
+  if (!isValidPaymentAddress(escrowAddress)) {
+    throw new Error(`X811-5001: Invalid escrow contract address: ${escrowAddress}`);
+  }
+  if (!isValidPaymentAddress(offer.payment_address)) {
+    throw new Error(`X811-5001: Invalid provider payment address: ${offer.payment_address}`);
+  }
+
+  await preflightBalanceCheck(
+    wallet,
+    parseFloat(offer.price) + parseFloat(offer.protocol_fee),
+  );
+
+  const lockSeconds = params.lockSeconds ?? DEFAULT_ESCROW_LOCK_SECONDS;
+  try {
+    return await wallet.lockEscrow({
+      escrow_address: escrowAddress,
+      escrow_id: computeEscrowId(interactionId),
+      payee_address: offer.payment_address,
+      amount: offer.price,
+      fee: offer.protocol_fee,
+      deadline: Math.floor(Date.now() / 1000) + lockSeconds,
+    });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    throw new Error(`X811-5020: Escrow deposit failed: ${msg}`);
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * x811 Protocol — Offer acceptance policies.
+ *
+ * Evaluates incoming offers against an initiator's AcceptancePolicy:
+ * - hard limits (allowed capabilities, provider trust, budget per task)
+ *   reject the offer outright;
+ * - "auto" accepts everything within those limits;
+ * - "human_approval" escalates every offer to a human;
+ * - "threshold" accepts offers up to threshold_amount and escalates the rest.
+ *
+ * Escalated offers wait in an ApprovalQueue until approved, denied, or
+ * the offer expires.
+ */
+
+import type {
+  AcceptancePolicy,
+  OfferPayload,
+  RejectReasonCode,
+} from "@x811/core";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** What to do with an offer. */
+export type PolicyDecision = "accept" | "reject" | "escalate";
+
+/** Outcome of evaluating an offer against a policy. */
+export interface PolicyEvaluation {
+  decision: PolicyDecision;
+  /** Human-readable explanation. */
+  reason: string;
+  /** Code to send in the x811/reject when decision = "reject". */
+  reject_code?: RejectReasonCode;
+}
+
+/** Facts about an offer that are not in its payload. */
+export interface OfferContext {
+  /** Capability (task_type) the offer is for. */
+  capability: string;
+  /** Provider's trust score, if known. Unknown scores fail min_trust_score > 0. */
+  provider_trust_score?: number;
+}
+
+/** An escalated offer waiting for a human decision. */
+export interface PendingApproval {
+  /** Interaction ID (the offer's request_id). */
+  id: string;
+  provider_did: string;
+  capability: string;
+  offer: OfferPayload;
+  /** Why the policy escalated the offer. */
+  reason: string;
+  /** ISO 8601 time the offer was queued. */
+  received_at: string;
+  /** ISO 8601 time the offer expires (received_at + offer.expiry). */
+  expires_at: string;
+}
+
+// ---------------------------------------------------------------------------
+// Policy evaluation
+// ---------------------------------------------------------------------------
+
+/**
+ * Evaluate an incoming offer against an acceptance policy.
+ */
+export function evaluateOffer(
+  policy: AcceptancePolicy,
+  offer: OfferPayload,
+  context: OfferContext,
+): PolicyEvaluation {
+  const totalCost = parseFloat(offer.total_cost);
+
+  if (
+    policy.allowed_capabilities.length > 0 &&
+    !policy.allowed_capabilities.includes(context.capability)
+  ) {
+    return {
+      decision: "reject",
+      reason: `Capability "${context.capability}" is not allowed by the policy`,
+      reject_code: "POLICY_REJECTED",
+    };
+  }
+
+  if (
+    policy.min_trust_score > 0 &&
+    (context.provider_trust_score ?? 0) < policy.min_trust_score
+  ) {
+    return {
+      decision: "reject",
+      reason: `Provider trust ${context.provider_trust_score ?? "unknown"} is below the minimum ${policy.min_trust_score}`,
+      reject_code: "TRUST_TOO_LOW",
+    };
+  }
+
+  if (isNaN(totalCost) || totalCost > policy.max_budget_per_task) {
+    return {
+      decision: "reject",
+      reason: `Total cost $${offer.total_cost} exceeds the budget of $${policy.max_budget_per_task}`,
+      reject_code: "PRICE_TOO_HIGH",
+    };
+  }
+
+  switch (policy.acceptance_policy) {
+    case "auto":
+      return { decision: "accept", reason: "Within policy limits" };
+    case "human_approval":
+      return { decision: "escalate", reason: "Policy requires human approval" };
+    case "threshold":
+      if (policy.threshold_amount === undefined) {
+        return { decision: "escalate", reason: "Threshold policy has no threshold_amount" };
+      }
+      return totalCost <= policy.threshold_amount
+        ? { decision: "accept", reason: `Total cost $${offer.total_cost} is within the $${policy.threshold_amount} threshold` }
+        : { decision: "escalate", reason: `Total cost $${offer.total_cost} is above the $${policy.threshold_amount} threshold` };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Approval queue
+// ---------------------------------------------------------------------------
+
+/**
+ * In-memory queue of escalated offers. Expired offers are dropped on
+ * access — the provider's offer is no longer valid once it expires.
+ */
+export class ApprovalQueue {
+  private entries = new Map<string, PendingApproval>();
+
+  /**
+   * Queue an escalated offer. Re-queuing the same interaction replaces
+   * the earlier entry.
+   */
+  add(entry: {
+    provider_did: string;
+    capability: string;
+    offer: OfferPayload;
+    reason: string;
+  }): PendingApproval {
+    const now = Date.now();
+    const pending: PendingApproval = {
+      id: entry.offer.request_id,
+      ...entry,
+      received_at: new Date(now).toISOString(),
+      expires_at: new Date(now + entry.offer.expiry * 1000).toISOString(),
+    };
+    this.entries.set(pending.id, pending);
+    return pending;
+  }
+
+  /** List offers still awaiting a decision, oldest first. */
+  list(): PendingApproval[] {
+    this.pruneExpired();
+    return [...this.entries.values()];
+  }
+
+  /** Look up a pending offer. */
+  get(id: string): PendingApproval | undefined {
+    this.pruneExpired();
+    return this.entries.get(id);
+  }
+
+  /**
+   * Remove a pending offer to act on it (approve or deny).
+   * @throws If the offer is unknown or has expired
+   */
+  take(id: string): PendingApproval {
+    const pending = this.get(id);
+    if (!pending) {
+      throw new Error(`No pending approval for interaction ${id} (unknown or expired)`);
+    }
+    this.entries.delete(id);
+    return pending;
+  }
+
+  /** Number of offers awaiting a decision. */
+  get size(): number {
+    this.pruneExpired();
+    return this.entries.size;
+  }
+
+  private pruneExpired(): void {
+    const now = Date.now();
+    for (const [id, entry] of this.entries) {
+      if (new Date(entry.expires_at).getTime() <= now) {
+        this.entries.delete(id);
+      }
+    }
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * x811 Protocol — Request-for-quote offer selection.
+ *
+ * An RFQ fans one task out to several providers under a shared rfq_id
+ * (see X811Client.requestQuotes), collects their offers within a window
+ * (X811Client.collectOffers), and picks one with a selection strategy.
+ * The losing offers are rejected; the server closes out whatever is left
+ * once the winner is accepted.
+ */
+
+import type { OfferPayload } from "@x811/core";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * How to pick the winning offer:
+ * - "cheapest": lowest total_cost
+ * - "trust_weighted": lowest total_cost divided by the provider's trust score
+ * - "fastest": lowest estimated_time
+ */
+export type OfferSelectionStrategy = "cheapest" | "trust_weighted" | "fastest";
+
+/** A provider to include in an RFQ. */
+export interface RfqProvider {
+  did: string;
+  /** Trust score from discovery, used by the "trust_weighted" strategy. */
+  trust_score?: number;
+}
+
+/** An RFQ that has been fanned out. */
+export interface RfqHandle {
+  rfq_id: string;
+  /** One entry per provider the request reached. */
+  requests: Array<RfqProvider & { message_id: string; interaction_id?: string }>;
+}
+
+/** An offer received in response to an RFQ. */
+export interface RfqOffer {
+  provider_did: string;
+  trust_score?: number;
+  offer: OfferPayload;
+}
+
+// ---------------------------------------------------------------------------
+// Selection
+// ---------------------------------------------------------------------------
+
+/** Trust floor for "trust_weighted", so unrated providers are not free. */
+const MIN_TRUST_WEIGHT = 0.01;
+
+/**
+ * Pick the winning offer. Ties go to the earlier offer.
+ * @returns The winner, or undefined if there are no offers
+ */
+export function selectOffer(
+  offers: RfqOffer[],
+  strategy: OfferSelectionStrategy,
+): RfqOffer | undefined {
+  let best: RfqOffer | undefined;
+  let bestScore = Infinity;
+  for (const candidate of offers) {
+    const score = scoreOffer(candidate, strategy);
+    if (score < bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/** Lower is better. Unparseable costs never win. */
+function scoreOffer(candidate: RfqOffer, strategy: OfferSelectionStrategy): number {
+  const totalCost = parseFloat(candidate.offer.total_cost);
+  if (isNaN(totalCost)) return Infinity;
+
+  switch (strategy) {
+    case "cheapest":
+      return totalCost;
+    case "trust_weighted":
+      return totalCost / Math.max(candidate.trust_score ?? 0, MIN_TRUST_WEIGHT);
+    case "fastest":
+      return candidate.offer.estimated_time;
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * x811 Protocol — WebSocket transport.
+ *
+ * One connection to `/api/v1/messages/{agentId}/ws` that carries signed
+ * envelopes both ways. The server opens with a challenge, answered once
+ * with a signed request whose nonce is the challenge; after that every
+ * envelope sent is answered with its own result frame (message_id,
+ * interaction_id, status), and messages for the agent are pushed as they
+ * arrive instead of being polled.
+ */
+
+import {
+  signRequest,
+  X811Error,
+  X811ErrorCode,
+  type ClientFrame,
+  type SendResult,
+  type ServerFrame,
+  type X811Envelope,
+} from "@x811/core";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** The subset of the WHATWG WebSocket API the transport uses. */
+export interface WebSocketLike {
+  readonly readyState: number;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  onopen: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onclose: ((event: { code: number; reason: string }) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+}
+
+/** Opens a WebSocket, e.g. `(url) => new WebSocket(url)`. */
+export type WebSocketFactory = (url: string) => WebSocketLike;
+
+export interface X811SocketOptions {
+  /** Base URL of the x811 server (http(s); the ws(s) URL is derived). */
+  serverUrl: string;
+  agentId: string;
+  did: string;
+  privateKey: Uint8Array;
+  /** Called for each message pushed to the agent. Omit for a send-only socket. */
+  onMessage?: (envelope: X811Envelope<unknown>) => void;
+  /** Called once when the connection is lost. */
+  onClose?: (error: X811Error) => void;
+  /** Defaults to the global WebSocket (browsers, Node 22+). */
+  createWebSocket?: WebSocketFactory;
+}
+
+/** WebSocket readyState of an open socket. */
+const OPEN = 1;
+
+// ---------------------------------------------------------------------------
+// Socket
+// ---------------------------------------------------------------------------
+
+export class X811Socket {
+  private _ws: WebSocketLike | undefined;
+  private readonly _pendingSends = new Map<string, {
+    resolve: (result: SendResult) => void;
+    reject: (error: X811Error) => void;
+  }>();
+  /** Acks are answered in order, without an id. */
+  private readonly _pendingAcks: Array<{
+    resolve: (result: { acknowledged: string[]; unknown: string[] }) => void;
+    reject: (error: X811Error) => void;
+  }> = [];
+  private _closed = false;
+
+  constructor(private readonly options: X811SocketOptions) {}
+
+  /**
+   * Open the connection and authenticate.
+   * @throws X811Error if the server refuses the agent or the connection fails.
+   */
+  connect(): Promise<void> {
+    const path = `/api/v1/messages/${encodeURIComponent(this.options.agentId)}/ws`;
+    const url = this.options.serverUrl.replace(/^http/, "ws") + path;
+    const createWebSocket =
+      this.options.createWebSocket ??
+      ((socketUrl: string) => new (globalThis as unknown as {
+        WebSocket: new (url: string) => WebSocketLike;
+      }).WebSocket(socketUrl));
+
+    return new Promise<void>((resolve, reject) => {
+      let ready = false;
+      const ws = createWebSocket(url);
+      this._ws = ws;
+
+      ws.onmessage = (event) => {
+        let frame: ServerFrame;
+        try {
+          frame = JSON.parse(String(event.data)) as ServerFrame;
+        } catch {
+          return;
+        }
+
+        switch (frame.type) {
+          case "challenge":
+            this.sendFrame({
+              type: "auth",
+              authorization: signRequest("GET", path, this.options.did, this.options.privateKey, frame.challenge),
+              subscribe: this.options.onMessage !== undefined,
+            });
+            return;
+          case "ready":
+            ready = true;
+            resolve();
+            return;
+          case "message":
+            this.options.onMessage?.(frame.envelope);
+            return;
+          case "result":
+            this.settleSend(frame.id, (pending) => pending.resolve(frame.result));
+            return;
+          case "acked":
+            this._pendingAcks.shift()?.resolve({ acknowledged: frame.acknowledged, unknown: frame.unknown });
+            return;
+          case "error": {
+            const error = toX811Error(frame.error);
+            if (!ready) {
+              reject(error);
+            } else if (frame.id && this._pendingSends.has(frame.id)) {
+              this.settleSend(frame.id, (pending) => pending.reject(error));
+            } else {
+              // Errors without an envelope id answer the oldest ack
+              this._pendingAcks.shift()?.reject(error);
+            }
+            return;
+          }
+        }
+      };
+
+      ws.onclose = (event) => {
+        const error = new X811Error(
+          X811ErrorCode.INTERNAL_ERROR,
+          `WebSocket closed (${event.code}${event.reason ? `: ${event.reason}` : ""})`,
+        );
+        if (!ready) reject(error);
+        this.fail(error);
+      };
+
+      ws.onerror = () => {
+        // Followed by onclose, which reports the failure
+      };
+    });
+  }
+
+  /**
+   * Send a signed envelope.
+   * @returns The server's result for this envelope.
+   * @throws X811Error if the server rejects it or the connection is lost.
+   */
+  send(envelope: X811Envelope<unknown>): Promise<SendResult> {
+    return new Promise<SendResult>((resolve, reject) => {
+      if (this._closed || this._ws?.readyState !== OPEN) {
+        reject(new X811Error(X811ErrorCode.INTERNAL_ERROR, "WebSocket is not open"));
+        return;
+      }
+      this._pendingSends.set(envelope.id, { resolve, reject });
+      this.sendFrame({ type: "send", envelope });
+    });
+  }
+
+  /** Acknowledge pushed or polled messages over the socket. */
+  ack(messageIds: string[]): Promise<{ acknowledged: string[]; unknown: string[] }> {
+    return new Promise((resolve, reject) => {
+      if (this._closed || this._ws?.readyState !== OPEN) {
+        reject(new X811Error(X811ErrorCode.INTERNAL_ERROR, "WebSocket is not open"));
+        return;
+      }
+      this._pendingAcks.push({ resolve, reject });
+      this.sendFrame({ type: "ack", message_ids: messageIds });
+    });
+  }
+
+  /** Whether the socket is open and authenticated. */
+  get isOpen(): boolean {
+    return !this._closed && this._ws?.readyState === OPEN;
+  }
+
+  /** Close the connection; pending sends are rejected. */
+  close(): void {
+    this.fail(new X811Error(X811ErrorCode.INTERNAL_ERROR, "WebSocket closed by client"));
+    this._ws?.close(1000);
+  }
+
+  private sendFrame(frame: ClientFrame): void {
+    this._ws!.send(JSON.stringify(frame));
+  }
+
+  private settleSend(
+    id: string,
+    settle: (pending: { resolve: (result: SendResult) => void; reject: (error: X811Error) => void }) => void,
+  ): void {
+    const pending = this._pendingSends.get(id);
+    if (!pending) return;
+    this._pendingSends.delete(id);
+    settle(pending);
+  }
+
+  /** Reject everything in flight, once. */
+  private fail(error: X811Error): void {
+    if (this._closed) return;
+    this._closed = true;
+    for (const pending of this._pendingSends.values()) pending.reject(error);
+    this._pendingSends.clear();
+    for (const pending of this._pendingAcks.splice(0)) pending.reject(error);
+    this.options.onClose?.(error);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function toX811Error(error: { code: string; message: string; details?: Record<string, unknown> }): X811Error {
+  const knownCode = Object.values(X811ErrorCode).find((c) => c === error.code);
+  return new X811Error(knownCode ?? X811ErrorCode.INTERNAL_ERROR, error.message, error.details);
+}
@@ -44,6 +44,34 @@ export interface WalletPayParams {
   offerId: string;
 }
 
+// ---------------------------------------------------------------------------
+// WalletEscrowParams
+// ---------------------------------------------------------------------------
+
+export interface WalletEscrowParams {
+  /** X811Escrow contract address. */
+  escrow_address: string;
+  /** bytes32 escrow key for the interaction (see computeEscrowId). */
+  escrow_id: string;
+  /** Provider's payment address — receives `amount` on release. */
+  payee_address: string;
+  /** Offer price in USDC whole units (e.g., "0.03"). */
+  amount: string;
+  /** Protocol fee in USDC whole units (e.g., "0.00075"). */
+  fee: string;
+  /** Unix timestamp (seconds) after which the payer may reclaim the deposit. */
+  deadline: number;
+}
+
+export interface EscrowLockResult {
+  /** bytes32 escrow key the deposit was made under. */
+  escrow_id: string;
+  /** Hash of the deposit transaction (sent as AcceptPayload.escrow_tx_hash). */
+  tx_hash: string;
+  /** Address the deposit was made from (refunds go back here). */
+  payer_address: string;
+}
+
 // ---------------------------------------------------------------------------
 // WalletAdapter interface
 // ---------------------------------------------------------------------------
@@ -51,6 +79,8 @@ export interface WalletPayParams {
 export interface WalletAdapter {
   /** Execute a USDC transfer and return a PaymentPayload. */
   pay(params: WalletPayParams): Promise<PaymentPayload>;
+  /** Approve and lock `amount + fee` USDC in the X811Escrow contract. */
+  lockEscrow(params: WalletEscrowParams): Promise<EscrowLockResult>;
   /** Get the current USDC balance (6-decimal precision). */
   getBalance(): Promise<number>;
   /** The wallet's checksummed Ethereum address. */
@@ -66,12 +96,14 @@ export interface WalletAdapter {
 export class EthersWalletAdapter implements WalletAdapter {
   private readonly _walletService: {
     pay(params: { to_address: string; amount: number; providerDid: string; requestId: string; offerId: string }): Promise<PaymentPayload>;
+    lockEscrow(params: WalletEscrowParams): Promise<EscrowLockResult>;
     getBalance(): Promise<number>;
     address: string;
   };
 
   constructor(walletService: {
     pay(params: { to_address: string; amount: number; providerDid: string; requestId: string; offerId: string }): Promise<PaymentPayload>;
+    lockEscrow(params: WalletEscrowParams): Promise<EscrowLockResult>;
     getBalance(): Promise<number>;
     address: string;
   }) {
@@ -99,6 +131,13 @@ export class EthersWalletAdapter implements WalletAdapter {
     });
   }
 
+  async lockEscrow(params: WalletEscrowParams): Promise<EscrowLockResult> {
+    if (!isValidPaymentAddress(params.payee_address)) {
+      throw new Error(`X811-5001: Invalid payment address: ${params.payee_address}`);
+    }
+    return this._walletService.lockEscrow(params);
+  }
+
   async getBalance(): Promise<number> {
     return this._walletService.getBalance();
   }
@@ -111,12 +150,14 @@ export class EthersWalletAdapter implements WalletAdapter {
 export class MockWalletAdapter implements WalletAdapter {
   private readonly _mockService: {
     pay(params: { to_address: string; amount: number; providerDid: string; requestId: string; offerId: string }): Promise<PaymentPayload>;
+    lockEscrow(params: WalletEscrowParams): Promise<EscrowLockResult>;
     getBalance(): Promise<number>;
     address: string;
   };
 
   constructor(mockService: {
     pay(params: { to_address: string; amount: number; providerDid: string; requestId: string; offerId: string }): Promise<PaymentPayload>;
+    lockEscrow(params: WalletEscrowParams): Promise<EscrowLockResult>;
     getBalance(): Promise<number>;
     address: string;
   }) {
@@ -144,6 +185,10 @@ export class MockWalletAdapter implements WalletAdapter {
     });
   }
 
+  async lockEscrow(params: WalletEscrowParams): Promise<EscrowLockResult> {
+    return this._mockService.lockEscrow(params);
+  }
+
   async getBalance(): Promise<number> {
     return this._mockService.getBalance();
   }
@@ -203,6 +248,52 @@ export class AgentKitWalletAdapter implements WalletAdapter {
     };
   }
 
+  async lockEscrow(params: WalletEscrowParams): Promise<EscrowLockResult> {
+    if (!isValidPaymentAddress(params.payee_address)) {
+      throw new Error(`X811-5001: Invalid payment address: ${params.payee_address}`);
+    }
+
+    const provider = this._walletProvider as {
+      sendTransaction(tx: { to: string; data: string }): Promise<string>;
+      waitForTransactionReceipt?(txHash: string): Promise<unknown>;
+    };
+
+    const { ethers } = await import("ethers");
+    const USDC_ADDRESS = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+    const amountWei = ethers.parseUnits(params.amount, 6);
+    const feeWei = ethers.parseUnits(params.fee, 6);
+
+    // 1. Allow the escrow contract to pull amount + fee
+    const erc20 = new ethers.Interface(["function approve(address spender, uint256 amount) returns (bool)"]);
+    const approveTx = await provider.sendTransaction({
+      to: USDC_ADDRESS,
+      data: erc20.encodeFunctionData("approve", [params.escrow_address, amountWei + feeWei]),
+    });
+    await provider.waitForTransactionReceipt?.(approveTx);
+
+    // 2. Deposit into the escrow
+    const escrow = new ethers.Interface([
+      "function deposit(bytes32 escrowId, address payee, uint256 amount, uint256 fee, uint64 deadline)",
+    ]);
+    const txHash = await provider.sendTransaction({
+      to: params.escrow_address,
+      data: escrow.encodeFunctionData("deposit", [
+        params.escrow_id,
+        params.payee_address,
+        amountWei,
+        feeWei,
+        params.deadline,
+      ]),
+    });
+    await provider.waitForTransactionReceipt?.(txHash);
+
+    return {
+      escrow_id: params.escrow_id,
+      tx_hash: txHash,
+      payer_address: this._address,
+    };
+  }
+
   async getBalance(): Promise<number> {
     const { ethers } = await import("ethers");
     const provider = this._walletProvider as {
@@ -8,6 +8,7 @@
 import { ethers } from "ethers";
 import { randomBytes } from "node:crypto";
 import type { PaymentPayload } from "@x811/core";
+import type { EscrowLockResult, WalletEscrowParams } from "./wallet-adapter.js";
 
 // ---------------------------------------------------------------------------
 // Constants — USDC on Base L2
@@ -19,13 +20,19 @@ const BASE_USDC_ADDRESS = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
 /** Base mainnet RPC URL (public). */
 const BASE_RPC_URL = "https://mainnet.base.org";
 
-/** Minimal ERC-20 ABI for transfer and balanceOf. */
+/** Minimal ERC-20 ABI for transfer, approve and balanceOf. */
 const ERC20_ABI = [
   "function transfer(address to, uint256 amount) returns (bool)",
+  "function approve(address spender, uint256 amount) returns (bool)",
   "function balanceOf(address owner) view returns (uint256)",
   "function decimals() view returns (uint8)",
 ];
 
+/** Minimal X811Escrow ABI for deposits. */
+const ESCROW_ABI = [
+  "function deposit(bytes32 escrowId, address payee, uint256 amount, uint256 fee, uint64 deadline)",
+];
+
 // ---------------------------------------------------------------------------
 // WalletService — Real on-chain USDC payments
 // ---------------------------------------------------------------------------
@@ -91,6 +98,44 @@ export class WalletService {
     };
   }
 
+  /**
+   * Approve the X811Escrow contract for `amount + fee` USDC and deposit it
+   * under the interaction's escrow ID.
+   *
+   * @param params - Escrow parameters (see WalletEscrowParams).
+   * @returns The deposit transaction hash, for AcceptPayload.escrow_tx_hash.
+   */
+  async lockEscrow(params: WalletEscrowParams): Promise<EscrowLockResult> {
+    const amountWei = ethers.parseUnits(params.amount, 6);
+    const feeWei = ethers.parseUnits(params.fee, 6);
+
+    const approveTx = await this._usdc.approve(
+      params.escrow_address,
+      amountWei + feeWei,
+    ) as ethers.ContractTransactionResponse;
+    await approveTx.wait();
+
+    const escrow = new ethers.Contract(params.escrow_address, ESCROW_ABI, this._wallet);
+    const tx = await escrow.deposit(
+      params.escrow_id,
+      params.payee_address,
+      amountWei,
+      feeWei,
+      params.deadline,
+    ) as ethers.ContractTransactionResponse;
+    const receipt = await tx.wait();
+
+    if (!receipt) {
+      throw new Error("Transaction receipt is null — transaction may have been dropped");
+    }
+
+    return {
+      escrow_id: params.escrow_id,
+      tx_hash: receipt.hash,
+      payer_address: this._wallet.address,
+    };
+  }
+
   /**
    * Get the USDC balance for this wallet on Base L2.
    * @returns Balance in human-readable USDC (e.g., 100.50).
@@ -158,6 +203,27 @@ export class MockWalletService {
     };
   }
 
+  /**
+   * Simulate an escrow deposit. Returns a mock deposit tx hash and
+   * deducts `amount + fee` from the mock balance.
+   */
+  async lockEscrow(params: WalletEscrowParams): Promise<EscrowLockResult> {
+    const total = parseFloat(params.amount) + parseFloat(params.fee);
+    if (total > this._balance) {
+      throw new Error(
+        `Insufficient mock balance: have ${this._balance} USDC, need ${total} USDC`,
+      );
+    }
+
+    this._balance -= total;
+
+    return {
+      escrow_id: params.escrow_id,
+      tx_hash: `0x${randomBytes(32).toString("hex")}`,
+      payer_address: this._address,
+    };
+  }
+
   /**
    * Get the mock USDC balance.
    */
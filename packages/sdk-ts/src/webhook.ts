@@ -0,0 +1,65 @@
+/**
+ * x811 Protocol — Webhook verification.
+ *
+ * A server with webhooks enabled POSTs each message for an agent to the
+ * agent's registered endpoint (or the request's callback_url) as
+ * `{ envelope }`, where the envelope is an `x811/webhook` envelope signed
+ * with the server DID's key. Check it here before trusting the agent
+ * envelope it carries, then answer 2xx to acknowledge the message; any
+ * other answer makes the server retry.
+ */
+
+import {
+  verifyEnvelope,
+  X811Error,
+  X811ErrorCode,
+  type WebhookPayload,
+  type X811Envelope,
+} from "@x811/core";
+
+/** Maximum allowed clock skew for a delivery (5 minutes). */
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+/**
+ * Verify a webhook delivery and return the agent envelope it carries.
+ * Deliveries can be retried, so receivers should process envelopes
+ * idempotently by `id`.
+ *
+ * @param body - The parsed JSON request body.
+ * @param serverPublicKey - Ed25519 key of the server DID (from its /.well-known/did.json).
+ * @param options.agentDid - If given, the delivery must be addressed to this DID.
+ * @throws X811Error if the body is not a validly signed, current delivery.
+ */
+export function verifyWebhookDelivery(
+  body: unknown,
+  serverPublicKey: Uint8Array,
+  options: { agentDid?: string; now?: Date } = {},
+): X811Envelope<unknown> {
+  const envelope = (body as { envelope?: X811Envelope<WebhookPayload> } | null)?.envelope;
+  if (envelope?.type !== "x811/webhook" || typeof envelope.payload?.envelope !== "object") {
+    throw new X811Error(X811ErrorCode.INVALID_SIGNATURE, "Body is not an x811/webhook delivery");
+  }
+
+  if (!verifyEnvelope(envelope, serverPublicKey)) {
+    throw new X811Error(X811ErrorCode.INVALID_SIGNATURE, "Webhook signature is invalid", {
+      from: envelope.from,
+    });
+  }
+
+  const now = (options.now ?? new Date()).getTime();
+  const skew = Math.abs(now - new Date(envelope.created).getTime());
+  if (!(skew <= MAX_CLOCK_SKEW_MS)) {
+    throw new X811Error(X811ErrorCode.TIMESTAMP_EXPIRED, "Webhook timestamp outside acceptable range (±5 minutes)", {
+      created: envelope.created,
+    });
+  }
+
+  if (options.agentDid && envelope.to !== options.agentDid) {
+    throw new X811Error(X811ErrorCode.UNAUTHORIZED, "Webhook is addressed to another agent", {
+      expected: options.agentDid,
+      actual: envelope.to,
+    });
+  }
+
+  return envelope.payload.envelope;
+}
@@ -7,6 +7,7 @@
 
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import { randomUUID } from "node:crypto";
+import BetterSqlite3 from "better-sqlite3";
 import { Database } from "../db/schema.js";
 import { mkdirSync, rmSync } from "node:fs";
 import { join } from "node:path";
@@ -393,6 +394,35 @@ describe("Interaction", () => {
     expect(unbatched).toHaveLength(1);
     expect(unbatched[0].status).toBe("completed");
   });
+
+  it("should refuse to open a database that records one payment on two interactions", () => {
+    const agent1 = createTestAgent();
+    const agent2 = createTestAgent();
+    const ids = [randomUUID(), randomUUID()];
+    db.close();
+
+    // A database written before tx hashes were unique
+    const raw = new BetterSqlite3(join(testDir, "test.db"));
+    raw.exec("DROP INDEX idx_interactions_payment_tx");
+    const insert = raw.prepare(`
+      INSERT INTO interactions (id, interaction_hash, initiator_did, provider_did, capability, status, payment_tx, created_at, updated_at)
+      VALUES (?, ?, ?, ?, 'test', 'completed', ?, datetime('now'), datetime('now'))
+    `);
+    insert.run(ids[0], `hash-${randomUUID()}`, agent1.did, agent2.did, "0xABC123");
+    insert.run(ids[1], `hash-${randomUUID()}`, agent1.did, agent2.did, "0xabc123");
+    raw.close();
+
+    expect(() => new Database(join(testDir, "test.db"))).toThrow(
+      new RegExp(`0x(ABC|abc)123 \\(interactions (${ids[0]}, ${ids[1]}|${ids[1]}, ${ids[0]})\\)`),
+    );
+
+    // Once the operator clears the wrong row, the server starts again
+    const fix = new BetterSqlite3(join(testDir, "test.db"));
+    fix.prepare("UPDATE interactions SET payment_tx = NULL WHERE id = ?").run(ids[1]);
+    fix.close();
+    db = new Database(join(testDir, "test.db"));
+    expect(db.getInteraction(ids[0])!.payment_tx).toBe("0xABC123");
+  });
 });
 
 // ---------------------------------------------------------------------------
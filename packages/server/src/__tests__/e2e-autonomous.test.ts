@@ -14,6 +14,8 @@ import { mkdirSync, rmSync } from "node:fs";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
 import type { FastifyInstance } from "fastify";
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex } from "@noble/hashes/utils";
 
 import { buildApp } from "../app.js";
 import {
@@ -38,6 +40,8 @@ beforeEach(async () => {
   app = await buildApp({
     databaseUrl: join(testDir, "test.db"),
     skipRateLimit: true,
+    // The MCP flow pays with a made-up tx hash
+    mockPaymentAutoConfirm: true,
   });
 
   // Start server on random port
@@ -58,9 +62,9 @@ afterEach(async () => {
 // Helper: create X811Client with fresh DID
 // ---------------------------------------------------------------------------
 
-function createClient(): X811Client {
+function createClient(options: { encrypt?: boolean } = {}): X811Client {
   const { keyPair } = generateDID();
-  return new X811Client({ serverUrl, keyPair });
+  return new X811Client({ serverUrl, keyPair, ...options });
 }
 
 // ===========================================================================
@@ -597,6 +601,70 @@ describe("Autonomous Flow E2E", () => {
     expect(provMsgs3.length).toBeGreaterThanOrEqual(0); // relaxed — may or may not have messages
   });
 
+  it("Encrypted flow: server relays request parameters and result content as ciphertext", async () => {
+    const provider = createClient({ encrypt: true });
+    const initiator = createClient({ encrypt: true });
+    await provider.register({ name: "SecretProvider", capabilities: [{ name: "analysis" }] });
+    await initiator.register({ name: "SecretInitiator", capabilities: [] });
+
+    const interactionId = randomUUID();
+    await initiator.request(provider.did, {
+      task_type: "analysis",
+      parameters: { ticker: "SECRET-TICKER" },
+      max_budget: 0.05,
+      currency: "USDC",
+      deadline: 60,
+      acceptance_policy: "auto",
+      idempotency_key: interactionId,
+    });
+
+    const [requestMsg] = await provider.poll();
+    expect((requestMsg.payload as Record<string, unknown>).parameters).toEqual({
+      ticker: "SECRET-TICKER",
+    });
+
+    await provider.offer(initiator.did, {
+      request_id: interactionId,
+      price: "0.04",
+      protocol_fee: "0.001",
+      total_cost: "0.041",
+      currency: "USDC",
+      estimated_time: 30,
+      deliverables: ["analysis"],
+      expiry: 300,
+    });
+    const [offerMsg] = await initiator.poll();
+    await initiator.accept(provider.did, {
+      offer_id: interactionId,
+      // The server hashes the offer exactly as it stored it
+      offer_hash: bytesToHex(sha256(new TextEncoder().encode(JSON.stringify(offerMsg.payload)))),
+    });
+
+    const content = "SECRET-ANALYSIS";
+    await provider.deliverResult(initiator.did, {
+      request_id: interactionId,
+      offer_id: interactionId,
+      content,
+      content_type: "text/plain",
+      result_hash: hashPayload(content),
+      execution_time_ms: 10,
+    });
+
+    const messages = await initiator.poll();
+    const resultMsg = messages.find((m) => m.type === "x811/result")!;
+    expect((resultMsg.payload as Record<string, unknown>).content).toBe(content);
+
+    // The server negotiated the whole flow without ever storing plaintext
+    const interaction = app.db.getInteractionByIdempotencyKey(interactionId)!;
+    expect(interaction.status).toBe("delivered");
+    const stored = app.db.raw
+      .prepare("SELECT envelope FROM messages")
+      .all() as Array<{ envelope: string }>;
+    const everything = JSON.stringify([stored, interaction]);
+    expect(everything).not.toContain("SECRET-TICKER");
+    expect(everything).not.toContain("SECRET-ANALYSIS");
+  });
+
   it("Message consumption: second poll returns empty after first poll", async () => {
     const provider = createClient();
     await provider.register({
@@ -0,0 +1,378 @@
+/**
+ * x811 Protocol — Federation tests.
+ *
+ * Runs two servers in one process and connects them with a transport that
+ * dispatches peer requests to the right app via inject().
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { randomUUID } from "node:crypto";
+import { mkdirSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import type { FastifyInstance } from "fastify";
+
+import {
+  buildDIDDocument,
+  generateDIDKeyPair,
+  generateSigningKeyPair,
+  signEnvelope,
+  signRequest,
+  type DIDKeyPair,
+  type X811MessageType,
+} from "@x811/core";
+import { buildApp } from "../app.js";
+import type { IFederationTransport } from "../services/federation.js";
+
+// ---------------------------------------------------------------------------
+// Test setup
+// ---------------------------------------------------------------------------
+
+const A_URL = "https://api.a.test";
+const B_URL = "https://api.b.test";
+const A_DID = "did:web:a.test";
+const B_DID = "did:web:b.test";
+
+/** Reachable servers by host; deleting an entry takes that server offline. */
+const servers = new Map<string, FastifyInstance>();
+
+const transport: IFederationTransport = {
+  async get(url) {
+    const { app, path } = route(url);
+    const response = await app.inject({ method: "GET", url: path });
+    return { status: response.statusCode, body: response.json() };
+  },
+  async post(url, body) {
+    const { app, path } = route(url);
+    const response = await app.inject({ method: "POST", url: path, payload: body as object });
+    return { status: response.statusCode, body: response.json() };
+  },
+};
+
+/** Every test host resolves to a public address but *.internal.test, which is private. */
+async function lookup(hostname: string) {
+  return hostname.endsWith(".internal.test") ? ["10.0.0.7"] : ["93.184.215.14"];
+}
+
+function route(url: string): { app: FastifyInstance; path: string } {
+  const parsed = new URL(url);
+  const app = servers.get(parsed.host);
+  if (!app) throw new Error(`connect ECONNREFUSED ${parsed.host}`);
+  return { app, path: parsed.pathname + parsed.search };
+}
+
+let appA: FastifyInstance;
+let appB: FastifyInstance;
+let testDir: string;
+
+beforeEach(async () => {
+  testDir = join(tmpdir(), `x811-federation-test-${randomUUID()}`);
+  mkdirSync(testDir, { recursive: true });
+
+  appA = await buildApp({
+    databaseUrl: join(testDir, "a.db"),
+    skipRateLimit: true,
+    federation: { didDomain: "a.test", url: A_URL, transport, allowedPeers: [B_URL], lookup },
+  });
+  appB = await buildApp({
+    databaseUrl: join(testDir, "b.db"),
+    skipRateLimit: true,
+    federation: { didDomain: "b.test", url: B_URL, transport, allowedPeers: [A_URL], lookup },
+  });
+  servers.set("api.a.test", appA);
+  servers.set("api.b.test", appB);
+});
+
+afterEach(async () => {
+  servers.clear();
+  await appA.close();
+  await appB.close();
+  try {
+    rmSync(testDir, { recursive: true, force: true });
+  } catch {
+    // cleanup best-effort
+  }
+});
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Register an agent with real keys directly in a server's database. */
+function registerAgent(app: FastifyInstance, name: string, capabilities: string[] = []) {
+  const id = randomUUID();
+  const keys = generateDIDKeyPair(id);
+  const didDocument = buildDIDDocument(keys.did, keys.signingKey.publicKey, keys.encryptionKey.publicKey);
+  const agent = app.db.insertAgent({
+    id,
+    did: keys.did,
+    status: "active",
+    availability: "online",
+    last_seen_at: new Date().toISOString(),
+    name,
+    description: "Federation test agent",
+    endpoint: null,
+    payment_address: "0xtest123",
+    trust_score: 0.5,
+    interaction_count: 0,
+    successful_count: 0,
+    failed_count: 0,
+    did_document: JSON.stringify(didDocument),
+    agent_card: JSON.stringify({ name }),
+  });
+  for (const capability of capabilities) {
+    app.db.insertCapability({ id: randomUUID(), agent_id: id, name: capability, metadata: null });
+  }
+  return { agent, keys };
+}
+
+function signedBody(keys: DIDKeyPair, type: X811MessageType, payload: unknown, to: string) {
+  return {
+    envelope: signEnvelope(
+      {
+        version: "0.1.0",
+        id: randomUUID(),
+        type,
+        from: keys.did,
+        to,
+        created: new Date().toISOString(),
+        payload,
+        nonce: randomUUID(),
+      },
+      keys.signingKey.privateKey,
+    ),
+  };
+}
+
+function requestPayload() {
+  return {
+    task_type: "code-review",
+    parameters: { description: "Review this code" },
+    max_budget: 0.05,
+    currency: "USDC",
+    deadline: 60,
+    acceptance_policy: "auto",
+    idempotency_key: randomUUID(),
+  };
+}
+
+/** Peer A with B and let A learn B's agents through federated discovery. */
+async function federate(): Promise<void> {
+  await appA.federation.connectPeers([B_URL]);
+  await appA.inject({ method: "GET", url: "/api/v1/agents?federated=true" });
+}
+
+// ===========================================================================
+// Peering
+// ===========================================================================
+
+describe("Federation peering", () => {
+  it("serves the server DID with its signing key", async () => {
+    const response = await appA.inject({ method: "GET", url: "/.well-known/did.json" });
+
+    expect(response.statusCode).toBe(200);
+    const body = response.json();
+    expect(body.id).toBe(A_DID);
+    expect(body.verificationMethod[0].publicKeyMultibase).toBe(appA.federation.publicKeyMultibase);
+    expect(body.service).toContainEqual(
+      expect.objectContaining({ type: "X811Federation", serviceEndpoint: `${A_URL}/api/v1/federation` }),
+    );
+  });
+
+  it("peers both servers from a signed announcement", async () => {
+    const { connected, failed } = await appA.federation.connectPeers([B_URL, "https://api.down.test"]);
+
+    expect(connected.map((p) => p.did)).toEqual([B_DID]);
+    expect(failed).toEqual(["https://api.down.test"]);
+
+    const peersOfA = (await appA.inject({ method: "GET", url: "/api/v1/federation/peers" })).json();
+    const peersOfB = (await appB.inject({ method: "GET", url: "/api/v1/federation/peers" })).json();
+    expect(peersOfA.peers).toEqual([expect.objectContaining({ did: B_DID, url: B_URL, status: "active" })]);
+    expect(peersOfB.peers).toEqual([expect.objectContaining({ did: A_DID, url: A_URL, status: "active" })]);
+  });
+
+  it("only accepts announcements from allowed servers at public https URLs", async () => {
+    const appC = await buildApp({
+      databaseUrl: join(testDir, "c.db"),
+      skipRateLimit: true,
+      federation: { didDomain: "c.test", url: "https://api.c.test", transport, allowedPeers: [A_URL], lookup },
+    });
+    servers.set("api.c.test", appC);
+    try {
+      // C can fetch B's identity, but B does not accept C's announcement
+      const { connected, failed } = await appC.federation.connectPeers([B_URL]);
+      expect(connected).toEqual([]);
+      expect(failed).toEqual([B_URL]);
+      expect((await appB.inject({ method: "GET", url: "/api/v1/federation/peers" })).json().peers).toEqual([]);
+
+      await expect(appC.federation.addPeer("http://api.a.test")).rejects.toThrow("must be https");
+      await expect(appC.federation.addPeer("https://db.internal.test")).rejects.toThrow("non-public address");
+    } finally {
+      servers.delete("api.c.test");
+      await appC.close();
+    }
+  });
+
+  it("leaves the federation routes off when no peers are configured", async () => {
+    const standalone = await buildApp({
+      databaseUrl: join(testDir, "standalone.db"),
+      skipRateLimit: true,
+      federation: { didDomain: "solo.test", url: "https://api.solo.test", transport, allowedPeers: [] },
+    });
+    try {
+      const response = await standalone.inject({ method: "GET", url: "/api/v1/federation/peers" });
+      expect(response.statusCode).toBe(404);
+    } finally {
+      await standalone.close();
+    }
+  });
+
+  it("rejects server envelopes from unknown peers or with a bad signature", async () => {
+    await appA.federation.connectPeers([B_URL]);
+    const { keys: sender } = registerAgent(appA, "Sender");
+    const { agent: recipient } = registerAgent(appB, "Recipient");
+    const inner = signedBody(sender, "x811/heartbeat", {}, recipient.did).envelope;
+
+    const forwardFrom = (from: string) => signEnvelope(
+      {
+        version: "0.1.0",
+        id: randomUUID(),
+        type: "x811/forward",
+        from,
+        to: B_DID,
+        created: new Date().toISOString(),
+        payload: { envelope: inner },
+        nonce: randomUUID(),
+      },
+      generateSigningKeyPair().privateKey,
+    );
+
+    const unknown = await appB.inject({
+      method: "POST",
+      url: "/api/v1/federation/messages",
+      payload: { envelope: forwardFrom("did:web:c.test") },
+    });
+    expect(unknown.statusCode).toBe(403);
+    expect(unknown.json().error.code).toBe("X811-2004");
+
+    const forged = await appB.inject({
+      method: "POST",
+      url: "/api/v1/federation/messages",
+      payload: { envelope: forwardFrom(A_DID) },
+    });
+    expect(forged.statusCode).toBe(401);
+    expect(forged.json().error.code).toBe("X811-2001");
+    expect(appB.db.getMessagesByRecipient(recipient.did)).toHaveLength(0);
+  });
+});
+
+// ===========================================================================
+// Discovery and relay
+// ===========================================================================
+
+describe("Federated discovery and message relay", () => {
+  it("fans discovery out to peers when federated=true", async () => {
+    registerAgent(appA, "Local", ["translation"]);
+    const { agent: remote } = registerAgent(appB, "Remote", ["translation"]);
+    await appA.federation.connectPeers([B_URL]);
+
+    const local = (await appA.inject({ method: "GET", url: "/api/v1/agents?capability=translation" })).json();
+    expect(local.agents).toHaveLength(1);
+
+    const response = await appA.inject({
+      method: "GET",
+      url: "/api/v1/agents?capability=translation&federated=true",
+    });
+    expect(response.statusCode).toBe(200);
+    const body = response.json();
+    expect(body.total).toBe(2);
+    expect(body.peers_failed).toEqual([]);
+    expect(body.agents).toContainEqual(expect.objectContaining({ did: remote.did, home_server: B_DID }));
+    expect(body.agents).toContainEqual(expect.objectContaining({ name: "Local", home_server: A_DID }));
+  });
+
+  it("forwards a request to the provider's home server, which hosts the negotiation", async () => {
+    const { keys: initiator } = registerAgent(appA, "Initiator");
+    const { agent: provider, keys: providerKeys } = registerAgent(appB, "Provider", ["code-review"]);
+    await federate();
+
+    const response = await appA.inject({
+      method: "POST",
+      url: "/api/v1/messages",
+      payload: signedBody(initiator, "x811/request", requestPayload(), provider.did),
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = response.json();
+    expect(body.status).toBe("forwarded");
+    expect(body.peer_did).toBe(B_DID);
+    expect(body.interaction_status).toBe("pending");
+    expect(appB.db.getInteraction(body.interaction_id)!.initiator_did).toBe(initiator.did);
+    expect(appA.db.getInteraction(body.interaction_id)).toBeUndefined();
+
+    const pollUrl = `/api/v1/messages/${provider.id}`;
+    const poll = await appB.inject({
+      method: "GET",
+      url: pollUrl,
+      headers: { authorization: signRequest("GET", pollUrl, provider.did, providerKeys.signingKey.privateKey) },
+    });
+    expect(poll.json().messages).toEqual([expect.objectContaining({ id: body.message_id, from: initiator.did })]);
+
+    const status = await appA.inject({ method: "GET", url: `/api/v1/federation/messages/${body.message_id}` });
+    expect(status.json()).toMatchObject({ status: "forwarded", peer_did: B_DID, retry_count: 0 });
+  });
+
+  it("refuses a validly forwarded envelope that its sender did not sign", async () => {
+    const { agent: sender } = registerAgent(appA, "Sender");
+    const { agent: recipient } = registerAgent(appB, "Recipient");
+    await federate();
+    const attacker = generateDIDKeyPair(randomUUID());
+
+    // The relaying server signs the forward, but the agent envelope inside is forged
+    const forge = async (from: string) => {
+      const { envelope } = signedBody(
+        { ...attacker, did: from },
+        "x811/cancel",
+        { interaction_id: randomUUID(), reason: "forged" },
+        recipient.did,
+      );
+      const { message_id } = appA.messageRouter.sendMessage(envelope);
+      await appA.federation.forward(message_id);
+      return appA.federation.getForwardStatus(message_id);
+    };
+
+    expect(await forge(sender.did)).toMatchObject({ status: "failed", last_error: "Invalid sender signature" });
+
+    const stranger = `did:x811:${randomUUID()}`;
+    expect(await forge(stranger)).toMatchObject({
+      status: "failed",
+      last_error: "Sender DID is not registered on the relaying server",
+    });
+    expect(appB.db.getRemoteAgent(stranger)).toBeUndefined();
+    expect(appB.db.getMessagesByRecipient(recipient.did)).toHaveLength(0);
+  });
+
+  it("retries forwards while the peer is unreachable", async () => {
+    const { keys: sender } = registerAgent(appA, "Sender");
+    const { agent: recipient } = registerAgent(appB, "Recipient");
+    await federate();
+    servers.delete("api.b.test");
+
+    const response = await appA.inject({
+      method: "POST",
+      url: "/api/v1/messages",
+      payload: signedBody(sender, "x811/heartbeat", {}, recipient.did),
+    });
+    expect(response.json().status).toBe("forwarding");
+    const messageId = response.json().message_id;
+
+    const pending = await appA.inject({ method: "GET", url: `/api/v1/federation/messages/${messageId}` });
+    expect(pending.json()).toMatchObject({ status: "forwarding", retry_count: 1 });
+    expect(pending.json().last_error).toContain("ECONNREFUSED");
+
+    servers.set("api.b.test", appB);
+    expect(await appA.federation.retryPendingForwards()).toBe(1);
+    expect(appA.federation.getForwardStatus(messageId).status).toBe("forwarded");
+    expect(appB.db.getMessagesByRecipient(recipient.did)).toHaveLength(1);
+  });
+});
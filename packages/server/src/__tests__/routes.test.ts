@@ -5,14 +5,31 @@
  * without starting a real HTTP server.
  */
 
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
-import { randomUUID } from "node:crypto";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createHash, randomUUID } from "node:crypto";
 import { mkdirSync, rmSync } from "node:fs";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
 import type { FastifyInstance } from "fastify";
-
+import type { WebSocket } from "@fastify/websocket";
+
+import {
+  buildDIDDocument,
+  didKeyFromPublicKey,
+  extractPublicKey,
+  generateDIDKeyPair,
+  rotateDIDKeyPair,
+  signEnvelope,
+  signKeyRotationProof,
+  signRequest,
+  verifyTrustAttestation,
+  type DIDKeyPair,
+  type KeyRotationPayload,
+  type ServerFrame,
+  type X811MessageType,
+} from "@x811/core";
 import { buildApp } from "../app.js";
+import { config } from "../config.js";
 
 // ---------------------------------------------------------------------------
 // Test setup
@@ -28,6 +45,7 @@ beforeEach(async () => {
   app = await buildApp({
     databaseUrl: join(testDir, "test.db"),
     skipRateLimit: true,
+    blobDir: join(testDir, "blobs"),
   });
 });
 
@@ -107,6 +125,51 @@ function registerTestAgentDirectly(
   });
 }
 
+/**
+ * Register an agent with real keys so it can sign authenticated requests.
+ */
+function registerSignedAgent() {
+  const id = randomUUID();
+  const keys = generateDIDKeyPair(id);
+  const didDocument = buildDIDDocument(keys.did, keys.signingKey.publicKey, keys.encryptionKey.publicKey);
+  const agent = registerTestAgentDirectly({ id, did: keys.did });
+  app.db.updateAgent(agent.id, { did_document: JSON.stringify(didDocument) });
+  return { agent, keys };
+}
+
+/** Build a request body with an envelope signed by `keys`. */
+function signedBody(
+  keys: DIDKeyPair,
+  type: X811MessageType,
+  payload: unknown,
+  to = "did:web:x811.org",
+) {
+  return {
+    envelope: signEnvelope(
+      {
+        version: "0.1.0",
+        id: randomUUID(),
+        type,
+        from: keys.did,
+        to,
+        created: new Date().toISOString(),
+        payload,
+        nonce: randomUUID(),
+      },
+      keys.signingKey.privateKey,
+    ),
+  };
+}
+
+/** Inject options for a GET signed by `keys` (polling, SSE). */
+function signedGet(keys: DIDKeyPair, url: string) {
+  return {
+    method: "GET" as const,
+    url,
+    headers: { authorization: signRequest("GET", url, keys.did, keys.signingKey.privateKey) },
+  };
+}
+
 // ===========================================================================
 // Health endpoint
 // ===========================================================================
@@ -200,6 +263,63 @@ describe("GET /.well-known/did.json", () => {
   });
 });
 
+describe("did:web and external DIDs", () => {
+  it("GET /agents/:id/did.json — should serve did:web documents for this domain", async () => {
+    const agent = registerTestAgentDirectly();
+
+    const response = await app.inject({ method: "GET", url: `/agents/${agent.id}/did.json` });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().id).toBe(`did:web:${config.didDomain}:agents:${agent.id}`);
+  });
+
+  it("GET /agents/:id/did.json — should 404 for agents with another DID method", async () => {
+    const { agent } = registerSignedAgent();
+
+    const response = await app.inject({ method: "GET", url: `/agents/${agent.id}/did.json` });
+
+    expect(response.statusCode).toBe(404);
+  });
+
+  it("should accept envelopes from an unregistered did:key sender", async () => {
+    const recipient = registerTestAgentDirectly();
+    const keys = generateDIDKeyPair("external");
+    keys.did = didKeyFromPublicKey(keys.signingKey.publicKey);
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/api/v1/messages",
+      payload: signedBody(keys, "x811/error", { code: "X811-9002", message: "hello" }, recipient.did),
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(app.db.getMessagesByRecipient(recipient.did)[0].from_did).toBe(keys.did);
+  });
+
+  it("should verify did:web senders hosted elsewhere against the resolved document", async () => {
+    const recipient = registerTestAgentDirectly();
+    const keys = generateDIDKeyPair("external");
+    keys.did = "did:web:agents.example.com:bob";
+    const document = buildDIDDocument(keys.did, keys.signingKey.publicKey, keys.encryptionKey.publicKey);
+    app.didResolver.register("web", async () => ({
+      document,
+      status: "active",
+      publicKey: keys.signingKey.publicKey,
+      encryptionKey: keys.encryptionKey.publicKey,
+    }));
+
+    const impostor = { ...generateDIDKeyPair("impostor"), did: keys.did };
+    const send = (signer: DIDKeyPair) => app.inject({
+      method: "POST",
+      url: "/api/v1/messages",
+      payload: signedBody(signer, "x811/error", {}, recipient.did),
+    });
+
+    expect((await send(keys)).statusCode).toBe(200);
+    expect((await send(impostor)).statusCode).toBe(401);
+  });
+});
+
 // ===========================================================================
 // Agent routes
 // ===========================================================================
@@ -301,6 +421,142 @@ describe("Agent Discovery", () => {
     expect(body2.agents).toHaveLength(2);
     expect(body2.agents[0].id).not.toBe(body1.agents[0].id);
   });
+
+  it("GET /api/v1/agents — should match taxonomy paths, their descendants and aliases", async () => {
+    const reviewer = registerTestAgentDirectly({ name: "Reviewer" });
+    const tsReviewer = registerTestAgentDirectly({ name: "TS Reviewer" });
+    const translator = registerTestAgentDirectly({ name: "Translator" });
+    app.capabilities.setCapabilities(reviewer.id, [{ name: "Code_Review" }]);
+    app.capabilities.setCapabilities(tsReviewer.id, [{ name: "code/review/typescript" }]);
+    app.capabilities.setCapabilities(translator.id, [{ name: "translation" }]);
+
+    const names = async (capability: string) => {
+      const response = await app.inject({
+        method: "GET",
+        url: `/api/v1/agents?capability=${encodeURIComponent(capability)}`,
+      });
+      return response.json().agents.map((a: { name: string }) => a.name).sort();
+    };
+
+    expect(await names("code-review")).toEqual(["Reviewer", "TS Reviewer"]);
+    expect(await names("code")).toEqual(["Reviewer", "TS Reviewer"]);
+    expect(await names("code_review/typescript")).toEqual(["TS Reviewer"]);
+    expect(await names("language")).toEqual(["Translator"]);
+    expect(await names("cod")).toEqual([]);
+  });
+
+  it("GET /api/v1/agents — should filter by max_price and sort by price", async () => {
+    const fixed = registerTestAgentDirectly({ name: "Fixed" });
+    const range = registerTestAgentDirectly({ name: "Range" });
+    const perUnit = registerTestAgentDirectly({ name: "PerUnit" });
+    const unpriced = registerTestAgentDirectly({ name: "Unpriced" });
+    app.capabilities.setCapabilities(fixed.id, [
+      { name: "code-review", pricing: { model: "fixed", amount: "0.05", currency: "USDC" } },
+    ]);
+    app.capabilities.setCapabilities(range.id, [
+      { name: "translation", pricing: { model: "fixed", amount: "0.001", currency: "USDC" } },
+      { name: "code-review", pricing: { model: "range", range: { min: "0.01", max: "0.03" }, currency: "USDC" } },
+    ]);
+    app.capabilities.setCapabilities(perUnit.id, [
+      { name: "code-review", pricing: { model: "per-unit", amount: 0.002, unit: "file", currency: "USDC" } },
+    ]);
+    app.capabilities.setCapabilities(unpriced.id, [{ name: "code-review" }]);
+
+    const shortlist = await app.inject({
+      method: "GET",
+      url: "/api/v1/agents?capability=code-review&max_price=0.02&sort=price",
+    });
+    const body = shortlist.json();
+    expect(body.agents.map((a: { name: string }) => a.name)).toEqual(["PerUnit", "Range"]);
+    expect(body.agents[1].min_price).toBe(0.01);
+    expect(body.agents[1].pricing_hint.model).toBe("range");
+
+    const all = await app.inject({ method: "GET", url: "/api/v1/agents?capability=code-review&sort=price" });
+    expect(all.json().agents.map((a: { name: string }) => a.name)).toEqual(["PerUnit", "Range", "Fixed", "Unpriced"]);
+
+    const invalidSort = await app.inject({ method: "GET", url: "/api/v1/agents?sort=cheapest" });
+    expect(invalidSort.statusCode).toBe(400);
+    expect(() => app.capabilities.setCapabilities(fixed.id, [
+      { name: "code-review", pricing: { model: "range", range: { min: "2", max: "1" } } },
+    ])).toThrow("Invalid pricing");
+  });
+
+  it("GET /api/v1/agents — should filter and sort by median completion time", async () => {
+    const initiator = registerTestAgentDirectly();
+    const fast = registerTestAgentDirectly({ name: "Fast" });
+    const slow = registerTestAgentDirectly({ name: "Slow" });
+    registerTestAgentDirectly({ name: "New" });
+    const deliver = (providerDid: string, ms: number) => {
+      const interaction = app.db.insertInteraction({
+        id: randomUUID(),
+        interaction_hash: `hash-${randomUUID()}`,
+        initiator_did: initiator.did,
+        provider_did: providerDid,
+        capability: "analysis",
+        status: "delivered",
+        outcome: null,
+        payment_tx: null,
+        payment_amount: null,
+        batch_id: null,
+        request_payload: null,
+        offer_payload: null,
+        result_payload: null,
+        idempotency_key: randomUUID(),
+      });
+      app.db.updateInteraction(interaction.id, {
+        accepted_at: new Date(Date.now() - ms).toISOString(),
+        delivered_at: new Date().toISOString(),
+      });
+    };
+    deliver(fast.did, 1_000);
+    deliver(fast.did, 3_000);
+    deliver(fast.did, 600_000);
+    deliver(slow.did, 60_000);
+    app.db.refreshMedianCompletion(fast.did);
+    app.db.refreshMedianCompletion(slow.did);
+
+    const sorted = await app.inject({ method: "GET", url: "/api/v1/agents?sort=latency" });
+    const names = sorted.json().agents.map((a: { name: string }) => a.name);
+    expect(names.slice(0, 2)).toEqual(["Fast", "Slow"]);
+    expect(sorted.json().agents[0].median_completion_ms).toBeCloseTo(3_000, -2);
+
+    const quick = await app.inject({ method: "GET", url: "/api/v1/agents?max_latency_ms=10000" });
+    expect(quick.json().agents.map((a: { name: string }) => a.name)).toEqual(["Fast"]);
+  });
+
+  it("GET /api/v1/agents?q= — should rank full-text matches by relevance and trust", async () => {
+    const linter = registerTestAgentDirectly({ name: "Lint Bot" });
+    const pro = registerTestAgentDirectly({ name: "Review Pro" });
+    const polyglot = registerTestAgentDirectly({ name: "Polyglot" });
+    app.db.updateAgent(pro.id, { trust_score: 0.9 });
+    app.capabilities.setCapabilities(linter.id, [
+      { name: "code/lint", description: "Flags style issues in TypeScript" },
+    ]);
+    app.capabilities.setCapabilities(pro.id, [
+      { name: "code-review", description: "Reviews TypeScript pull requests" },
+    ]);
+    app.capabilities.setCapabilities(polyglot.id, [
+      { name: "translation", description: "Translates documents" },
+    ]);
+
+    const response = await app.inject({
+      method: "GET",
+      url: `/api/v1/agents?q=${encodeURIComponent("review my typescript")}`,
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = response.json();
+    expect(body.total).toBe(2);
+    expect(body.agents.map((a: { name: string }) => a.name)).toEqual(["Review Pro", "Lint Bot"]);
+    expect(body.agents[0].search_score).toBeGreaterThan(body.agents[1].search_score);
+
+    // Updates are reindexed; queries without searchable words list everyone
+    app.db.updateAgent(polyglot.id, { description: "Also reviews code" });
+    const updated = await app.inject({ method: "GET", url: "/api/v1/agents?q=reviews" });
+    expect(updated.json().agents.map((a: { name: string }) => a.name)).toContain("Polyglot");
+    const blank = await app.inject({ method: "GET", url: "/api/v1/agents?q=%21%21" });
+    expect(blank.json().total).toBe(3);
+  });
 });
 
 describe("Agent Details", () => {
@@ -379,6 +635,212 @@ describe("DID Document", () => {
   });
 });
 
+describe("Key Rotation", () => {
+  function rotationBody(signer: DIDKeyPair, newKeys: DIDKeyPair) {
+    const unsigned = signedBody(signer, "x811/request", {});
+    const payload: KeyRotationPayload = {
+      did_document: buildDIDDocument(newKeys.did, newKeys.signingKey.publicKey, newKeys.encryptionKey.publicKey),
+      public_key: Buffer.from(newKeys.signingKey.publicKey).toString("base64url"),
+      proof: signKeyRotationProof(unsigned.envelope.nonce, newKeys.signingKey.privateKey),
+    };
+    const { signature: _signature, ...envelope } = unsigned.envelope;
+    return { envelope: signEnvelope({ ...envelope, payload }, signer.signingKey.privateKey) };
+  }
+
+  it("PUT /api/v1/agents/:id/keys — should rotate keys and record history", async () => {
+    const { agent, keys } = registerSignedAgent();
+    const newKeys = rotateDIDKeyPair(keys.did);
+
+    const response = await app.inject({
+      method: "PUT",
+      url: `/api/v1/agents/${agent.id}/keys`,
+      payload: rotationBody(keys, newKeys),
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().version).toBe(2);
+
+    const didDoc = (await app.inject({ method: "GET", url: `/api/v1/agents/${agent.id}/did` })).json();
+    expect(extractPublicKey(didDoc)).toEqual(newKeys.signingKey.publicKey);
+
+    const history = (await app.inject({
+      method: "GET",
+      url: `/api/v1/agents/${agent.id}/did/history`,
+    })).json();
+    expect(history.versions).toHaveLength(2);
+    expect(history.versions[0].superseded_at).not.toBeNull();
+    expect(history.versions[1].superseded_at).toBeNull();
+  });
+
+  it("PUT /api/v1/agents/:id/keys — should reject a proof not signed by the new key", async () => {
+    const { agent, keys } = registerSignedAgent();
+    const newKeys = rotateDIDKeyPair(keys.did);
+    const body = rotationBody(keys, newKeys);
+    const { signature: _signature, ...envelope } = body.envelope;
+    const forged = signEnvelope(
+      { ...envelope, payload: { ...envelope.payload, proof: Buffer.alloc(64).toString("base64url") } },
+      keys.signingKey.privateKey,
+    );
+
+    const response = await app.inject({
+      method: "PUT",
+      url: `/api/v1/agents/${agent.id}/keys`,
+      payload: { envelope: forged },
+    });
+
+    expect(response.statusCode).toBe(401);
+    expect(response.json().error.code).toBe("X811-2001");
+  });
+
+  it("should accept the previous key for messaging only during the grace window", async () => {
+    const { agent, keys } = registerSignedAgent();
+    const newKeys = rotateDIDKeyPair(keys.did);
+    await app.inject({
+      method: "PUT",
+      url: `/api/v1/agents/${agent.id}/keys`,
+      payload: rotationBody(keys, newKeys),
+    });
+
+    const heartbeat = await app.inject({
+      method: "POST",
+      url: `/api/v1/agents/${agent.id}/heartbeat`,
+      payload: signedBody(keys, "x811/heartbeat", { availability: "online" }),
+    });
+    expect(heartbeat.statusCode).toBe(200);
+
+    // The previous key cannot rotate again or change the agent record
+    const rotateAgain = await app.inject({
+      method: "PUT",
+      url: `/api/v1/agents/${agent.id}/keys`,
+      payload: rotationBody(keys, rotateDIDKeyPair(keys.did)),
+    });
+    expect(rotateAgain.statusCode).toBe(401);
+
+    // Past the grace window the previous key is refused
+    app.db.raw
+      .prepare("UPDATE did_documents SET superseded_at = ? WHERE agent_id = ? AND version = 1")
+      .run(new Date(Date.now() - (config.keyRotationGraceSeconds + 1) * 1000).toISOString(), agent.id);
+    const late = await app.inject({
+      method: "POST",
+      url: `/api/v1/agents/${agent.id}/heartbeat`,
+      payload: signedBody(keys, "x811/heartbeat", { availability: "online" }),
+    });
+    expect(late.statusCode).toBe(401);
+
+    const current = await app.inject({
+      method: "POST",
+      url: `/api/v1/agents/${agent.id}/heartbeat`,
+      payload: signedBody(newKeys, "x811/heartbeat", { availability: "online" }),
+    });
+    expect(current.statusCode).toBe(200);
+  });
+});
+
+describe("DID Revocation", () => {
+  function insertInteraction(initiatorDid: string, providerDid: string, status: string) {
+    return app.db.insertInteraction({
+      id: randomUUID(),
+      interaction_hash: `hash-${randomUUID()}`,
+      initiator_did: initiatorDid,
+      provider_did: providerDid,
+      capability: "analysis",
+      status,
+      outcome: null,
+      payment_tx: null,
+      payment_amount: null,
+      batch_id: null,
+      request_payload: JSON.stringify({ task_type: "analysis", max_budget: 1 }),
+      offer_payload: null,
+      result_payload: null,
+      idempotency_key: randomUUID(),
+    });
+  }
+
+  it("POST /api/v1/agents/:id/revoke — should fail open interactions and purge queued messages", async () => {
+    const { agent, keys } = registerSignedAgent();
+    const other = registerTestAgentDirectly();
+    const open = insertInteraction(other.did, agent.did, "accepted");
+    const done = insertInteraction(other.did, agent.did, "completed");
+    const delivered = insertInteraction(agent.did, other.did, "delivered");
+    const disputed = insertInteraction(agent.did, other.did, "disputed");
+    app.db.insertMessage({
+      id: randomUUID(),
+      type: "x811/request",
+      from_did: other.did,
+      to_did: agent.did,
+      envelope: "{}",
+      created_at: new Date().toISOString(),
+      expires_at: null,
+    });
+
+    const response = await app.inject({
+      method: "POST",
+      url: `/api/v1/agents/${agent.id}/revoke`,
+      payload: signedBody(keys, "x811/request", {}),
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toMatchObject({
+      status: "revoked",
+      failed_interactions: 1,
+      purged_messages: 1,
+    });
+    expect(app.db.getInteraction(open.id)!.status).toBe("failed");
+    expect(app.db.getInteraction(open.id)!.outcome).toBe("did_revoked");
+    expect(app.db.getInteraction(done.id)!.status).toBe("completed");
+    // Delivered work still settles or goes to the arbiter
+    expect(app.db.getInteraction(delivered.id)!.status).toBe("delivered");
+    expect(app.db.getInteraction(disputed.id)!.status).toBe("disputed");
+    expect(app.db.getMessagesByRecipient(agent.did)).toHaveLength(0);
+
+    const resolve = await app.inject({ method: "GET", url: `/api/v1/agents/${agent.id}/did` });
+    expect(resolve.statusCode).toBe(410);
+    expect(resolve.json().error.code).toBe("X811-1002");
+
+    // The revoked key can no longer authenticate
+    const heartbeat = await app.inject({
+      method: "POST",
+      url: `/api/v1/agents/${agent.id}/heartbeat`,
+      payload: signedBody(keys, "x811/heartbeat", { availability: "online" }),
+    });
+    expect(heartbeat.statusCode).toBe(403);
+    expect(heartbeat.json().error.code).toBe("X811-1002");
+  });
+
+  it("POST /api/v1/admin/agents/:id/revoke — should revoke and close SSE streams", async () => {
+    config.adminToken = "test-admin-token";
+    try {
+      const agent = registerTestAgentDirectly();
+      const evicted: string[] = [];
+      const evictAgent = app.sseManager.evictAgent.bind(app.sseManager);
+      app.sseManager.evictAgent = (agentId: string) => {
+        evicted.push(agentId);
+        evictAgent(agentId);
+      };
+
+      const response = await app.inject({
+        method: "POST",
+        url: `/api/v1/admin/agents/${agent.id}/revoke`,
+        headers: { authorization: "Bearer test-admin-token" },
+        payload: { reason: "key compromised" },
+      });
+      expect(response.statusCode).toBe(200);
+      expect(app.db.getAgent(agent.id)!.status).toBe("revoked");
+      expect(evicted).toEqual([agent.id]);
+
+      const again = await app.inject({
+        method: "POST",
+        url: `/api/v1/admin/agents/${agent.id}/revoke`,
+        headers: { authorization: "Bearer test-admin-token" },
+        payload: {},
+      });
+      expect(again.statusCode).toBe(410);
+    } finally {
+      config.adminToken = "";
+    }
+  });
+});
+
 describe("Agent Status", () => {
   it("GET /api/v1/agents/:id/status — should return status and availability", async () => {
     const agent = registerTestAgentDirectly({ availability: "online" });
@@ -396,18 +858,100 @@ describe("Agent Status", () => {
   });
 });
 
+describe("Trust Attestations", () => {
+  it("GET /api/v1/agents/:id/attestation — should return a credential signed by the server DID", async () => {
+    const agent = registerTestAgentDirectly();
+    app.db.updateAgent(agent.id, { trust_score: 0.8, interaction_count: 5, successful_count: 5 });
+
+    const response = await app.inject({ method: "GET", url: `/api/v1/agents/${agent.id}/attestation` });
+
+    expect(response.statusCode).toBe(200);
+    const attestation = response.json();
+    expect(attestation.credentialSubject).toMatchObject({ id: agent.did, trust_score: 0.8, anchored_batch: null });
+
+    // Verifiable with nothing but the server's DID document
+    const serverDoc = (await app.inject({ method: "GET", url: "/.well-known/did.json" })).json();
+    expect(attestation.issuer).toBe(serverDoc.id);
+    expect(serverDoc.assertionMethod).toContain(attestation.proof.verificationMethod);
+    expect(verifyTrustAttestation(attestation, extractPublicKey(serverDoc))).toBe(true);
+
+    const missing = await app.inject({ method: "GET", url: "/api/v1/agents/non-existent/attestation" });
+    expect(missing.statusCode).toBe(404);
+  });
+});
+
+describe("Agent Reputation", () => {
+  it("GET /api/v1/agents/:id/reputation — should report per-capability reputation", async () => {
+    const initiator = registerTestAgentDirectly();
+    const provider = registerTestAgentDirectly({ name: "Reputable" });
+    for (const [capability, status] of [["translation", "completed"], ["translation", "completed"], ["analysis", "expired"]]) {
+      const interaction = app.db.insertInteraction({
+        id: randomUUID(),
+        interaction_hash: `hash-${randomUUID()}`,
+        initiator_did: initiator.did,
+        provider_did: provider.did,
+        capability,
+        status,
+        outcome: null,
+        payment_tx: null,
+        payment_amount: status === "completed" ? 0.25 : null,
+        batch_id: null,
+        request_payload: null,
+        offer_payload: null,
+        result_payload: status === "completed" ? JSON.stringify({ result_hash: "h" }) : null,
+        idempotency_key: randomUUID(),
+      });
+      app.db.updateInteraction(interaction.id, {
+        accepted_at: new Date(Date.now() - 5_000).toISOString(),
+        delivered_at: status === "completed" ? new Date().toISOString() : null,
+      });
+    }
+
+    const response = await app.inject({
+      method: "GET",
+      url: `/api/v1/agents/${provider.id}/reputation?window=30&bucket=week`,
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = response.json();
+    expect(body.agent_id).toBe(provider.id);
+    expect(body.window_days).toBe(30);
+    expect(body.bucket).toBe("week");
+    expect(body.summary).toMatchObject({ successful: 2, failed: 1, volume_usdc: 0.5 });
+    expect(body.capabilities.map((c: { capability: string }) => c.capability)).toEqual(["translation", "analysis"]);
+    expect(body.history).toHaveLength(1);
+
+    const card = await app.inject({ method: "GET", url: `/api/v1/agents/${provider.id}/card` });
+    expect(card.json().x811.reputation).toMatchObject({ success_rate: 0.6667, volume_usdc: 0.5 });
+    expect(card.json().x811.reputation.capabilities.translation).toBeGreaterThan(
+      card.json().x811.reputation.capabilities.analysis,
+    );
+  });
+
+  it("GET /api/v1/agents/:id/reputation — should reject invalid query parameters", async () => {
+    const agent = registerTestAgentDirectly();
+
+    const badBucket = await app.inject({ method: "GET", url: `/api/v1/agents/${agent.id}/reputation?bucket=year` });
+    expect(badBucket.statusCode).toBe(400);
+    expect(badBucket.json().error.code).toBe("X811-4006");
+
+    const badWindow = await app.inject({ method: "GET", url: `/api/v1/agents/${agent.id}/reputation?window=-1` });
+    expect(badWindow.statusCode).toBe(400);
+
+    const missing = await app.inject({ method: "GET", url: "/api/v1/agents/non-existent/reputation" });
+    expect(missing.statusCode).toBe(404);
+  });
+});
+
 // ===========================================================================
-// Message routes (basic — no auth for tests)
+// Message routes
 // ===========================================================================
 
 describe("Message Polling", () => {
   it("GET /api/v1/messages/:agentId — should return empty messages", async () => {
-    const agent = registerTestAgentDirectly();
+    const { agent, keys } = registerSignedAgent();
 
-    const response = await app.inject({
-      method: "GET",
-      url: `/api/v1/messages/${agent.id}?did=${agent.did}`,
-    });
+    const response = await app.inject(signedGet(keys, `/api/v1/messages/${agent.id}?did=${agent.did}`));
 
     expect(response.statusCode).toBe(200);
     const body = response.json();
@@ -418,7 +962,7 @@ describe("Message Polling", () => {
 
   it("GET /api/v1/messages/:agentId — should return stored messages", async () => {
     const sender = registerTestAgentDirectly({ name: "Sender" });
-    const receiver = registerTestAgentDirectly({ name: "Receiver" });
+    const { agent: receiver, keys } = registerSignedAgent();
 
     // Insert a message directly
     app.db.insertMessage({
@@ -437,10 +981,7 @@ describe("Message Polling", () => {
       expires_at: null,
     });
 
-    const response = await app.inject({
-      method: "GET",
-      url: `/api/v1/messages/${receiver.id}?did=${receiver.did}`,
-    });
+    const response = await app.inject(signedGet(keys, `/api/v1/messages/${receiver.id}?did=${receiver.did}`));
 
     expect(response.statusCode).toBe(200);
     const body = response.json();
@@ -457,6 +998,342 @@ describe("Message Polling", () => {
 
     expect(response.statusCode).toBe(404);
   });
+
+  it("GET /api/v1/messages/:agentId — should reject unsigned, forged and replayed polls", async () => {
+    const { agent, keys } = registerSignedAgent();
+    const { keys: otherKeys } = registerSignedAgent();
+    const url = `/api/v1/messages/${agent.id}`;
+
+    const unsigned = await app.inject({ method: "GET", url: `${url}?did=${agent.did}` });
+    expect(unsigned.statusCode).toBe(401);
+    expect(unsigned.json().error.code).toBe("X811-2004");
+
+    const otherAgent = await app.inject(signedGet(otherKeys, url));
+    expect(otherAgent.statusCode).toBe(403);
+
+    const forged = await app.inject({
+      method: "GET",
+      url,
+      headers: { authorization: signRequest("GET", url, keys.did, otherKeys.signingKey.privateKey) },
+    });
+    expect(forged.statusCode).toBe(401);
+    expect(forged.json().error.code).toBe("X811-2001");
+
+    const wrongPath = await app.inject({
+      method: "GET",
+      url: `${url}/stream`,
+      headers: { authorization: signRequest("GET", url, keys.did, keys.signingKey.privateKey) },
+    });
+    expect(wrongPath.statusCode).toBe(401);
+
+    const request = signedGet(keys, url);
+    expect((await app.inject(request)).statusCode).toBe(200);
+    const replayed = await app.inject(request);
+    expect(replayed.statusCode).toBe(401);
+    expect(replayed.json().error.code).toBe("X811-2002");
+  });
+
+  it("POST /api/v1/messages/:agentId/ack — should acknowledge leased messages", async () => {
+    const sender = registerTestAgentDirectly({ name: "Sender" });
+    const { agent: receiver, keys } = registerSignedAgent();
+    const { keys: otherKeys } = registerSignedAgent();
+    const messageId = randomUUID();
+    app.db.insertMessage({
+      id: messageId,
+      type: "x811/request",
+      from_did: sender.did,
+      to_did: receiver.did,
+      envelope: JSON.stringify({ id: messageId, type: "x811/request", from: sender.did, to: receiver.did }),
+      created_at: new Date().toISOString(),
+      expires_at: null,
+    });
+
+    const poll = await app.inject(signedGet(keys, `/api/v1/messages/${receiver.id}`));
+    expect(poll.json().count).toBe(1);
+    expect(app.db.getMessage(messageId)!.status).toBe("leased");
+
+    const url = `/api/v1/messages/${receiver.id}/ack`;
+    const foreign = await app.inject({
+      method: "POST",
+      url,
+      payload: signedBody(otherKeys, "x811/ack", { message_ids: [messageId] }, receiver.did),
+    });
+    expect(foreign.statusCode).toBe(403);
+
+    const wrongType = await app.inject({
+      method: "POST",
+      url,
+      payload: signedBody(keys, "x811/heartbeat", { message_ids: [messageId] }, receiver.did),
+    });
+    expect(wrongType.statusCode).toBe(400);
+    expect(wrongType.json().error.code).toBe("X811-4006");
+
+    const ack = await app.inject({
+      method: "POST",
+      url,
+      payload: signedBody(keys, "x811/ack", { message_ids: [messageId] }, receiver.did),
+    });
+    expect(ack.statusCode).toBe(200);
+    expect(ack.json()).toEqual({ acknowledged: [messageId], unknown: [] });
+    expect(app.db.getMessage(messageId)!.status).toBe("delivered");
+  });
+});
+
+// ===========================================================================
+// WebSocket transport
+// ===========================================================================
+
+describe("WebSocket Transport", () => {
+  /** Open an agent's socket and read its frames in order. */
+  async function openSocket(agentId: string) {
+    const url = `/api/v1/messages/${agentId}/ws`;
+    const frames: ServerFrame[] = [];
+    const waiters: Array<() => void> = [];
+    await app.ready();
+    const socket = await app.injectWS(url, {}, {
+      onInit: (ws: WebSocket) => {
+        ws.on("message", (data) => {
+          frames.push(JSON.parse(String(data)) as ServerFrame);
+          waiters.shift()?.();
+        });
+      },
+    });
+    const next = async (): Promise<ServerFrame> => {
+      if (frames.length === 0) await new Promise<void>((resolve) => waiters.push(resolve));
+      return frames.shift()!;
+    };
+    const sendFrame = (frame: unknown) => socket.send(JSON.stringify(frame));
+    return { url, socket, next, sendFrame };
+  }
+
+  /** Open a socket and answer its challenge with `keys`. */
+  async function connect(agentId: string, keys: DIDKeyPair, subscribe?: boolean) {
+    const conn = await openSocket(agentId);
+    const challenge = await conn.next();
+    expect(challenge.type).toBe("challenge");
+    conn.sendFrame({
+      type: "auth",
+      authorization: signRequest(
+        "GET",
+        conn.url,
+        keys.did,
+        keys.signingKey.privateKey,
+        (challenge as { challenge: string }).challenge,
+      ),
+      ...(subscribe === undefined ? {} : { subscribe }),
+    });
+    expect(await conn.next()).toEqual({ type: "ready", did: keys.did });
+    return conn;
+  }
+
+  it("carries signed envelopes both ways with per-message results and acks", async () => {
+    const { agent: initiator, keys: initiatorKeys } = registerSignedAgent();
+    const { agent: provider, keys: providerKeys } = registerSignedAgent();
+    const sender = await connect(initiator.id, initiatorKeys, false);
+    const receiver = await connect(provider.id, providerKeys);
+
+    const { envelope } = signedBody(initiatorKeys, "x811/request", {
+      task_type: "code-review",
+      parameters: { description: "Review this code" },
+      max_budget: 0.05,
+      currency: "USDC",
+      deadline: 60,
+      acceptance_policy: "auto",
+      idempotency_key: randomUUID(),
+    }, provider.did);
+    sender.sendFrame({ type: "send", envelope });
+
+    const result = await sender.next();
+    expect(result).toMatchObject({ type: "result", id: envelope.id, result: { message_id: envelope.id } });
+    const sent = (result as { result: { interaction_id?: string; interaction_status?: string } }).result;
+    expect(sent.interaction_id).toBeDefined();
+    expect(sent.interaction_status).toBe("pending");
+
+    const pushed = await receiver.next();
+    expect(pushed).toMatchObject({ type: "message", envelope: { id: envelope.id, type: "x811/request" } });
+    expect(app.db.getMessage(envelope.id)!.status).toBe("leased");
+
+    receiver.sendFrame({ type: "ack", message_ids: [envelope.id] });
+    expect(await receiver.next()).toEqual({ type: "acked", acknowledged: [envelope.id], unknown: [] });
+    expect(app.db.getMessage(envelope.id)!.status).toBe("delivered");
+
+    // The same checks as POST /api/v1/messages: no replays, no sending as another agent
+    sender.sendFrame({ type: "send", envelope });
+    expect(await sender.next()).toMatchObject({ type: "error", id: envelope.id, error: { code: "X811-2002" } });
+    const foreign = signedBody(providerKeys, "x811/heartbeat", {}, initiator.did).envelope;
+    sender.sendFrame({ type: "send", envelope: foreign });
+    expect(await sender.next()).toMatchObject({ type: "error", id: foreign.id, error: { code: "X811-2004" } });
+
+    sender.socket.terminate();
+    receiver.socket.terminate();
+  });
+
+  it("limits sends per DID across all of an agent's sockets", async () => {
+    // This one needs a server with rate limiting on
+    await app.close();
+    app = await buildApp({ databaseUrl: join(testDir, "limited.db"), blobDir: join(testDir, "blobs") });
+    const { agent, keys } = registerSignedAgent();
+    const recipient = registerTestAgentDirectly();
+    const sockets = [await connect(agent.id, keys, false), await connect(agent.id, keys, false)];
+
+    for (let i = 0; i < config.rateLimitWrite; i++) {
+      const conn = sockets[i % 2];
+      const { envelope } = signedBody(keys, "x811/heartbeat", {}, recipient.did);
+      conn.sendFrame({ type: "send", envelope });
+      expect(await conn.next()).toMatchObject({ type: "result", id: envelope.id });
+    }
+
+    // Another socket does not bring a fresh budget
+    const extra = await connect(agent.id, keys, false);
+    const { envelope } = signedBody(keys, "x811/heartbeat", {}, recipient.did);
+    extra.sendFrame({ type: "send", envelope });
+    expect(await extra.next()).toMatchObject({ type: "error", id: envelope.id, error: { code: "X811-9001" } });
+
+    for (const conn of [...sockets, extra]) conn.socket.terminate();
+  });
+
+  it("replays deliverable messages once authenticated", async () => {
+    const sender = registerTestAgentDirectly({ name: "Sender" });
+    const { agent: receiver, keys } = registerSignedAgent();
+    const messageId = randomUUID();
+    app.db.insertMessage({
+      id: messageId,
+      type: "x811/request",
+      from_did: sender.did,
+      to_did: receiver.did,
+      envelope: JSON.stringify({ id: messageId, type: "x811/request", from: sender.did, to: receiver.did }),
+      created_at: new Date().toISOString(),
+      expires_at: null,
+    });
+
+    const conn = await connect(receiver.id, keys);
+    expect(await conn.next()).toMatchObject({ type: "message", envelope: { id: messageId } });
+    expect(app.db.getMessage(messageId)!.status).toBe("leased");
+    conn.socket.terminate();
+  });
+
+  it("closes sockets that do not answer the challenge with the agent's signature", async () => {
+    const { agent, keys } = registerSignedAgent();
+    const { keys: otherKeys } = registerSignedAgent();
+
+    // The server closes the socket (injected sockets stop at CLOSING)
+    const expectClosed = (socket: { readyState: number }) =>
+      vi.waitFor(() => expect(socket.readyState).toBeGreaterThanOrEqual(2));
+
+    // Frames before authentication
+    const early = await openSocket(agent.id);
+    await early.next();
+    early.sendFrame({ type: "send", envelope: signedBody(keys, "x811/heartbeat", {}).envelope });
+    expect(await early.next()).toMatchObject({ type: "error", error: { code: "X811-2004" } });
+    await expectClosed(early.socket);
+
+    // A signature with a nonce of its own instead of the challenge
+    const unchallenged = await openSocket(agent.id);
+    await unchallenged.next();
+    unchallenged.sendFrame({
+      type: "auth",
+      authorization: signRequest("GET", unchallenged.url, keys.did, keys.signingKey.privateKey),
+    });
+    expect(await unchallenged.next()).toMatchObject({ type: "error", error: { code: "X811-2002" } });
+    await expectClosed(unchallenged.socket);
+
+    // Another agent's key
+    const forged = await openSocket(agent.id);
+    const { challenge } = (await forged.next()) as { challenge: string };
+    forged.sendFrame({
+      type: "auth",
+      authorization: signRequest("GET", forged.url, agent.did, otherKeys.signingKey.privateKey, challenge),
+    });
+    expect(await forged.next()).toMatchObject({ type: "error", error: { code: "X811-2001" } });
+    await expectClosed(forged.socket);
+  });
+});
+
+// ===========================================================================
+// Result blobs
+// ===========================================================================
+
+describe("Result Blobs", () => {
+  const content = Buffer.from(JSON.stringify({ rows: "x".repeat(2048) }));
+  const hash = createHash("sha256").update(content).digest("hex");
+
+  function acceptedInteraction() {
+    const initiator = registerSignedAgent();
+    const provider = registerSignedAgent();
+    const interaction = app.db.insertInteraction({
+      id: randomUUID(),
+      interaction_hash: `hash-${randomUUID()}`,
+      initiator_did: initiator.keys.did,
+      provider_did: provider.keys.did,
+      capability: "analysis",
+      status: "accepted",
+      outcome: null,
+      payment_tx: null,
+      payment_amount: null,
+      batch_id: null,
+      request_payload: null,
+      offer_payload: null,
+      result_payload: null,
+      idempotency_key: randomUUID(),
+    });
+    return { initiator, provider, interaction };
+  }
+
+  function signedPut(keys: DIDKeyPair, url: string, body: Buffer) {
+    return {
+      method: "PUT" as const,
+      url,
+      headers: {
+        authorization: signRequest("PUT", url, keys.did, keys.signingKey.privateKey),
+        "content-type": "application/json",
+      },
+      payload: body,
+    };
+  }
+
+  it("uploads a result for the provider and serves it to both parties only", async () => {
+    const { initiator, provider, interaction } = acceptedInteraction();
+    const url = `/api/v1/blobs/${hash}?interaction_id=${interaction.id}`;
+
+    const upload = await app.inject(signedPut(provider.keys, url, content));
+    expect(upload.statusCode).toBe(201);
+    expect(upload.json()).toMatchObject({
+      hash,
+      interaction_id: interaction.id,
+      size: content.length,
+      content_type: "application/json",
+      url: `https://api.x811.org/api/v1/blobs/${hash}`,
+    });
+
+    for (const party of [initiator, provider]) {
+      const res = await app.inject(signedGet(party.keys, `/api/v1/blobs/${hash}`));
+      expect(res.statusCode).toBe(200);
+      expect(res.headers["content-type"]).toBe("application/json");
+      expect(res.rawPayload.equals(content)).toBe(true);
+    }
+
+    const outsider = registerSignedAgent();
+    const denied = await app.inject(signedGet(outsider.keys, `/api/v1/blobs/${hash}`));
+    expect(denied.statusCode).toBe(404);
+
+    const unsigned = await app.inject({ method: "GET", url: `/api/v1/blobs/${hash}` });
+    expect(unsigned.statusCode).toBe(401);
+  });
+
+  it("rejects content that does not match its address and uploads by others", async () => {
+    const { initiator, provider, interaction } = acceptedInteraction();
+    const url = `/api/v1/blobs/${hash}?interaction_id=${interaction.id}`;
+
+    const tampered = await app.inject(signedPut(provider.keys, url, Buffer.from("tampered")));
+    expect(tampered.statusCode).toBe(400);
+    expect(tampered.json().error.code).toBe("X811-6002");
+
+    const byInitiator = await app.inject(signedPut(initiator.keys, url, content));
+    expect(byInitiator.statusCode).toBe(403);
+
+    const noInteraction = await app.inject(signedPut(provider.keys, `/api/v1/blobs/${hash}`, content));
+    expect(noInteraction.statusCode).toBe(400);
+  });
 });
 
 // ===========================================================================
@@ -594,6 +1471,340 @@ describe("Verification Routes", () => {
   });
 });
 
+// ===========================================================================
+// Admin routes
+// ===========================================================================
+
+describe("Admin Routes", () => {
+  const ADMIN_TOKEN = "test-admin-token";
+
+  beforeEach(() => {
+    config.adminToken = ADMIN_TOKEN;
+  });
+
+  afterEach(() => {
+    config.adminToken = "";
+  });
+
+  /** Insert a disputed interaction with a 0.03 USDC offer. */
+  function insertDisputedInteraction() {
+    const initiator = registerTestAgentDirectly();
+    const provider = registerTestAgentDirectly();
+    const interaction = app.db.insertInteraction({
+      id: randomUUID(),
+      interaction_hash: `hash-${randomUUID()}`,
+      initiator_did: initiator.did,
+      provider_did: provider.did,
+      capability: "analysis",
+      status: "disputed",
+      outcome: "dispute",
+      payment_tx: null,
+      payment_amount: null,
+      batch_id: null,
+      request_payload: JSON.stringify({ task_type: "analysis", max_budget: 1 }),
+      offer_payload: JSON.stringify({ price: "0.03", protocol_fee: "0.00075", total_cost: "0.03075" }),
+      result_payload: JSON.stringify({ content: "done", content_type: "text/plain", result_hash: "abc" }),
+      idempotency_key: randomUUID(),
+    });
+    app.db.updateInteraction(interaction.id, {
+      dispute_payload: JSON.stringify({ dispute_code: "QUALITY", dispute_reason: "Too short" }),
+    });
+    return interaction;
+  }
+
+  it("GET /api/v1/admin/disputes — should reject a missing or wrong token", async () => {
+    const missing = await app.inject({ method: "GET", url: "/api/v1/admin/disputes" });
+    expect(missing.statusCode).toBe(401);
+
+    const wrong = await app.inject({
+      method: "GET",
+      url: "/api/v1/admin/disputes",
+      headers: { authorization: "Bearer not-the-token" },
+    });
+    expect(wrong.statusCode).toBe(401);
+  });
+
+  it("GET /api/v1/admin/disputes — should be disabled without ADMIN_TOKEN", async () => {
+    config.adminToken = "";
+    const response = await app.inject({
+      method: "GET",
+      url: "/api/v1/admin/disputes",
+      headers: { authorization: `Bearer ${ADMIN_TOKEN}` },
+    });
+    expect(response.statusCode).toBe(403);
+  });
+
+  it("GET /api/v1/admin/disputes — should list open disputes", async () => {
+    const interaction = insertDisputedInteraction();
+
+    const response = await app.inject({
+      method: "GET",
+      url: "/api/v1/admin/disputes",
+      headers: { authorization: `Bearer ${ADMIN_TOKEN}` },
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = response.json();
+    expect(body.count).toBe(1);
+    expect(body.disputes[0].interaction_id).toBe(interaction.id);
+    expect(body.disputes[0].dispute.dispute_code).toBe("QUALITY");
+    expect(body.disputes[0].response).toBeNull();
+  });
+
+  it("POST /api/v1/admin/disputes/:id/resolve — should resolve a dispute", async () => {
+    const interaction = insertDisputedInteraction();
+
+    const response = await app.inject({
+      method: "POST",
+      url: `/api/v1/admin/disputes/${interaction.id}/resolve`,
+      headers: { authorization: `Bearer ${ADMIN_TOKEN}` },
+      payload: { outcome: "initiator_wins", reason: "Result is incomplete" },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().status).toBe("failed");
+    const resolved = app.db.getInteraction(interaction.id)!;
+    expect(resolved.dispute_outcome).toBe("initiator_wins");
+    expect(JSON.parse(resolved.dispute_resolution!).resolved_by).toBe("admin");
+
+    // Already resolved
+    const again = await app.inject({
+      method: "POST",
+      url: `/api/v1/admin/disputes/${interaction.id}/resolve`,
+      headers: { authorization: `Bearer ${ADMIN_TOKEN}` },
+      payload: { outcome: "provider_wins", reason: "Changed my mind" },
+    });
+    expect(again.statusCode).toBe(409);
+  });
+
+  it("POST /api/v1/admin/disputes/:id/resolve — should validate the outcome", async () => {
+    const interaction = insertDisputedInteraction();
+
+    const response = await app.inject({
+      method: "POST",
+      url: `/api/v1/admin/disputes/${interaction.id}/resolve`,
+      headers: { authorization: `Bearer ${ADMIN_TOKEN}` },
+      payload: { outcome: "nobody_wins", reason: "?" },
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(app.db.getInteraction(interaction.id)!.status).toBe("disputed");
+  });
+});
+
+// ===========================================================================
+// RFQ routes
+// ===========================================================================
+
+describe("RFQ Routes", () => {
+  /** Insert an RFQ member in the given status. */
+  function insertRfqMember(rfqId: string, initiatorDid: string, status: string) {
+    const provider = registerTestAgentDirectly();
+    return app.db.insertInteraction({
+      id: randomUUID(),
+      interaction_hash: `hash-${randomUUID()}`,
+      initiator_did: initiatorDid,
+      provider_did: provider.did,
+      capability: "analysis",
+      status,
+      outcome: null,
+      payment_tx: null,
+      payment_amount: null,
+      batch_id: null,
+      request_payload: JSON.stringify({ task_type: "analysis", max_budget: 1 }),
+      offer_payload: status === "pending" ? null : JSON.stringify({ price: "0.03", total_cost: "0.03075" }),
+      result_payload: null,
+      idempotency_key: randomUUID(),
+      rfq_id: rfqId,
+    });
+  }
+
+  it("GET /api/v1/rfqs/:rfqId — should list the RFQ's interactions for its initiator", async () => {
+    const initiator = registerTestAgentDirectly();
+    const rfqId = randomUUID();
+    const winner = insertRfqMember(rfqId, initiator.did, "accepted");
+    insertRfqMember(rfqId, initiator.did, "rejected");
+
+    const response = await app.inject({
+      method: "GET",
+      url: `/api/v1/rfqs/${rfqId}?did=${encodeURIComponent(initiator.did)}`,
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = response.json();
+    expect(body.status).toBe("awarded");
+    expect(body.awarded_interaction_id).toBe(winner.id);
+    expect(body.count).toBe(2);
+    expect(body.interactions[0].offer.total_cost).toBe("0.03075");
+  });
+
+  it("GET /api/v1/rfqs/:rfqId — should hide the RFQ from other agents", async () => {
+    const rfqId = randomUUID();
+    insertRfqMember(rfqId, registerTestAgentDirectly().did, "pending");
+
+    const response = await app.inject({
+      method: "GET",
+      url: `/api/v1/rfqs/${rfqId}?did=${encodeURIComponent(registerTestAgentDirectly().did)}`,
+    });
+    expect(response.statusCode).toBe(403);
+
+    const missing = await app.inject({
+      method: "GET",
+      url: `/api/v1/rfqs/${randomUUID()}?did=did:x811:nobody`,
+    });
+    expect(missing.statusCode).toBe(404);
+  });
+});
+
+// ===========================================================================
+// Capability schemas
+// ===========================================================================
+
+describe("Capability Schemas", () => {
+  const summarize = {
+    name: "summarize",
+    version: "2.0.0",
+    description: "Summarize a document",
+    input_schema: {
+      type: "object",
+      properties: { url: { type: "string" }, max_words: { type: "integer" } },
+      required: ["url"],
+    },
+    output_schema: {
+      type: "object",
+      properties: { summary: { type: "string" } },
+      required: ["summary"],
+    },
+    pricing: { model: "fixed", amount: 0.01, currency: "USDC" },
+  };
+
+  function requestPayload(parameters: Record<string, unknown>) {
+    return {
+      task_type: "summarize",
+      parameters,
+      max_budget: 0.05,
+      currency: "USDC",
+      deadline: 60,
+      acceptance_policy: "auto",
+      idempotency_key: randomUUID(),
+    };
+  }
+
+  it("PUT /api/v1/agents/:id — should store schemas served by GET /api/v1/capabilities/:name/schema", async () => {
+    const { agent, keys } = registerSignedAgent();
+
+    const update = await app.inject({
+      method: "PUT",
+      url: `/api/v1/agents/${agent.id}`,
+      payload: signedBody(keys, "x811/request", { capabilities: [summarize] }),
+    });
+    expect(update.statusCode).toBe(200);
+
+    const response = await app.inject({ method: "GET", url: "/api/v1/capabilities/summarize/schema" });
+    expect(response.statusCode).toBe(200);
+    const body = response.json();
+    expect(body.versions).toEqual(["2.0.0"]);
+    expect(body.schemas).toEqual([
+      expect.objectContaining({
+        agent_did: agent.did,
+        version: "2.0.0",
+        input_schema: summarize.input_schema,
+        output_schema: summarize.output_schema,
+        pricing: summarize.pricing,
+      }),
+    ]);
+
+    const otherVersion = await app.inject({
+      method: "GET",
+      url: "/api/v1/capabilities/summarize/schema?version=1.0.0",
+    });
+    expect(otherVersion.statusCode).toBe(404);
+  });
+
+  it("PUT /api/v1/agents/:id — should reject an invalid JSON Schema", async () => {
+    const { agent, keys } = registerSignedAgent();
+    app.capabilities.setCapabilities(agent.id, [{ name: "translate" }]);
+
+    const response = await app.inject({
+      method: "PUT",
+      url: `/api/v1/agents/${agent.id}`,
+      payload: signedBody(keys, "x811/request", {
+        capabilities: [{ ...summarize, input_schema: { type: "not-a-type" } }],
+      }),
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json().error.code).toBe("X811-3005");
+    expect(app.db.getCapabilitiesForAgent(agent.id).map((c) => c.name)).toEqual(["translate"]);
+  });
+
+  it("POST /api/v1/messages — should reject requests whose parameters don't match input_schema", async () => {
+    const { keys: initiator } = registerSignedAgent();
+    const provider = registerTestAgentDirectly();
+    app.capabilities.setCapabilities(provider.id, [summarize]);
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/api/v1/messages",
+      payload: signedBody(initiator, "x811/request", requestPayload({ max_words: "fifty" }), provider.did),
+    });
+
+    expect(response.statusCode).toBe(400);
+    const error = response.json().error;
+    expect(error.code).toBe("X811-4008");
+    expect(error.details.errors).toContain("/ must have required property 'url'");
+    expect(app.db.getMessagesByRecipient(provider.did)).toHaveLength(0);
+
+    const valid = await app.inject({
+      method: "POST",
+      url: "/api/v1/messages",
+      payload: signedBody(initiator, "x811/request", requestPayload({ url: "https://example.com/doc" }), provider.did),
+    });
+    expect(valid.statusCode).toBe(200);
+    expect(valid.json().interaction_status).toBe("pending");
+  });
+
+  it("POST /api/v1/messages — should reject results whose content doesn't match output_schema", async () => {
+    const { agent: provider, keys } = registerSignedAgent();
+    const initiator = registerTestAgentDirectly();
+    app.capabilities.setCapabilities(provider.id, [summarize]);
+    const interaction = app.db.insertInteraction({
+      id: randomUUID(),
+      interaction_hash: `hash-${randomUUID()}`,
+      initiator_did: initiator.did,
+      provider_did: provider.did,
+      capability: "summarize",
+      status: "accepted",
+      outcome: null,
+      payment_tx: null,
+      payment_amount: null,
+      batch_id: null,
+      request_payload: JSON.stringify(requestPayload({ url: "https://example.com/doc" })),
+      offer_payload: JSON.stringify({ price: "0.01", total_cost: "0.01025" }),
+      result_payload: null,
+      idempotency_key: randomUUID(),
+    });
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/api/v1/messages",
+      payload: signedBody(keys, "x811/result", {
+        request_id: interaction.id,
+        offer_id: interaction.id,
+        content: JSON.stringify({ text: "A summary" }),
+        content_type: "application/json",
+        result_hash: "unused",
+        execution_time_ms: 10,
+      }, initiator.did),
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json().error.code).toBe("X811-6001");
+    expect(app.db.getMessagesByRecipient(initiator.did)).toHaveLength(0);
+    expect(app.db.getInteraction(interaction.id)!.status).toBe("accepted");
+  });
+});
+
 // ===========================================================================
 // Full flow integration test
 // ===========================================================================
@@ -641,7 +1852,7 @@ describe("End-to-end agent flow", () => {
 describe("Message flow integration", () => {
   it("should store a message and retrieve via polling", async () => {
     const sender = registerTestAgentDirectly({ name: "Sender" });
-    const receiver = registerTestAgentDirectly({ name: "Receiver" });
+    const { agent: receiver, keys } = registerSignedAgent();
 
     // Insert a message
     const msgId = randomUUID();
@@ -666,10 +1877,7 @@ describe("Message flow integration", () => {
     });
 
     // Poll messages
-    const pollResponse = await app.inject({
-      method: "GET",
-      url: `/api/v1/messages/${receiver.id}?did=${receiver.did}`,
-    });
+    const pollResponse = await app.inject(signedGet(keys, `/api/v1/messages/${receiver.id}?did=${receiver.did}`));
 
     expect(pollResponse.statusCode).toBe(200);
     const pollBody = pollResponse.json();
@@ -677,10 +1885,7 @@ describe("Message flow integration", () => {
     expect(pollBody.messages[0].type).toBe("x811/request");
 
     // Poll again — messages should now be delivered (empty queue)
-    const pollResponse2 = await app.inject({
-      method: "GET",
-      url: `/api/v1/messages/${receiver.id}?did=${receiver.did}`,
-    });
+    const pollResponse2 = await app.inject(signedGet(keys, `/api/v1/messages/${receiver.id}?did=${receiver.did}`));
     expect(pollResponse2.json().count).toBe(0);
   });
 });
@@ -2,7 +2,8 @@
  * x811 Protocol -- Security server tests.
  *
  * Tests state machine enforcement, authorization checks, nonce replay
- * protection, TTL enforcement, and offer hash integrity.
+ * protection, TTL enforcement, offer hash integrity, and encrypted envelope
+ * validation.
  */
 
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
@@ -591,3 +592,60 @@ describe("Security — Offer Hash Integrity", () => {
     expect(result.status).toBe("accepted");
   });
 });
+
+describe("Security — Encrypted Envelopes", () => {
+  const SEALED = {
+    alg: "X25519-HKDF-SHA256-CHACHA20-POLY1305",
+    epk: "ZXBr",
+    nonce: "bm9uY2U",
+    ciphertext: "Y2lwaGVydGV4dA",
+  };
+
+  let router: MessageRouterService;
+
+  beforeEach(() => {
+    ({ router } = createServices());
+  });
+
+  it("should relay an encrypted envelope with a sealed payload", () => {
+    const initiator = createTestAgent();
+    const provider = createTestAgent();
+    const envelope = {
+      ...makeEnvelope("x811/request", initiator.did, provider.did, {
+        task_type: "analysis",
+        sealed: SEALED,
+      }),
+      encrypted: true,
+    };
+
+    router.sendMessage(envelope);
+    const [stored] = db.getMessagesByRecipient(provider.did, "queued");
+    expect(JSON.parse(stored.envelope).payload.sealed).toEqual(SEALED);
+  });
+
+  it("should reject an encrypted envelope without a sealed payload", () => {
+    const initiator = createTestAgent();
+    const provider = createTestAgent();
+    const envelope = {
+      ...makeEnvelope("x811/request", initiator.did, provider.did, { task_type: "analysis" }),
+      encrypted: true,
+    };
+
+    expect(() => router.sendMessage(envelope)).toThrow(/missing a valid sealed payload/);
+  });
+
+  it("should reject an encrypted envelope that exposes confidential fields", () => {
+    const initiator = createTestAgent();
+    const provider = createTestAgent();
+    const envelope = {
+      ...makeEnvelope("x811/result", provider.did, initiator.did, {
+        request_id: "req-1",
+        content: "plaintext leak",
+        sealed: SEALED,
+      }),
+      encrypted: true,
+    };
+
+    expect(() => router.sendMessage(envelope)).toThrow(/exposes confidential fields/);
+  });
+});
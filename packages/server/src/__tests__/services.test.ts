@@ -1,21 +1,47 @@
 /**
  * x811 Protocol — Services tests.
  *
- * Tests TrustService, NegotiationService, and BatchingService.
+ * Tests TrustService, MessageRouterService delivery, WebhookDispatcher,
+ * NegotiationService (including disputes), and BatchingService.
  */
 
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { randomUUID } from "node:crypto";
-import { mkdirSync, rmSync } from "node:fs";
+import { existsSync, mkdirSync, rmSync } from "node:fs";
 import { join } from "node:path";
+import { PassThrough } from "node:stream";
+import { createServer } from "node:http";
+import type http from "node:http";
+import type { AddressInfo } from "node:net";
 import { tmpdir } from "node:os";
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex } from "@noble/hashes/utils";
+import { Ajv } from "ajv";
+import {
+  computeEscrowId,
+  generateSigningKeyPair,
+  hashPayload,
+  verifyEnvelope,
+  verifyTrustAttestation,
+  type WebhookPayload,
+  type X811Envelope,
+} from "@x811/core";
 
 import { Database } from "../db/schema.js";
 import { TrustService } from "../services/trust.js";
 import { NegotiationService, NegotiationError } from "../services/negotiation.js";
 import { BatchingService } from "../services/batching.js";
-import { MessageRouterService } from "../services/router.js";
+import { MessageRouterService, RouterError } from "../services/router.js";
+import { SSEManager } from "../services/sse-manager.js";
 import { MockRelayerService } from "../services/relayer.js";
+import { MockPaymentVerifierService } from "../services/payment-verifier.js";
+import { MockEscrowService } from "../services/escrow.js";
+import { AutomatedArbiter, ManualArbiter, type IArbiter } from "../services/arbiter.js";
+import { AttestationService } from "../services/attestation.js";
+import { WebhookDispatcher } from "../services/webhooks.js";
+import { BlobStore, BlobError } from "../services/blobs.js";
+import { CapabilityService } from "../services/capabilities.js";
+import { HttpFederationTransport, type IFederationTransport } from "../services/federation.js";
 
 // ---------------------------------------------------------------------------
 // Test setup
@@ -218,6 +244,604 @@ describe("TrustService", () => {
     expect(updated!.failed_count).toBe(1);
     expect(updated!.interaction_count).toBe(1);
   });
+
+  describe("Reputation", () => {
+    /** Insert an interaction the provider accepted `daysAgo` days ago. */
+    function insertProviderInteraction(
+      providerDid: string,
+      capability: string,
+      outcome: {
+        status: string;
+        deliveryMs?: number;
+        estimatedTime?: number;
+        paid?: number;
+        disputeOutcome?: string;
+        daysAgo?: number;
+      },
+    ) {
+      const created = new Date(Date.now() - (outcome.daysAgo ?? 0) * 86_400_000);
+      const interaction = db.insertInteraction({
+        id: randomUUID(),
+        interaction_hash: `hash-${randomUUID()}`,
+        initiator_did: "did:web:x811.org:agents:initiator",
+        provider_did: providerDid,
+        capability,
+        status: outcome.status,
+        outcome: null,
+        payment_tx: null,
+        payment_amount: outcome.paid ?? null,
+        batch_id: null,
+        request_payload: null,
+        offer_payload: JSON.stringify({ estimated_time: outcome.estimatedTime ?? 30 }),
+        result_payload: outcome.deliveryMs !== undefined ? JSON.stringify({ result_hash: "h" }) : null,
+        idempotency_key: randomUUID(),
+      });
+      db.updateInteraction(interaction.id, {
+        accepted_at: created.toISOString(),
+        delivered_at: outcome.deliveryMs !== undefined
+          ? new Date(created.getTime() + outcome.deliveryMs).toISOString()
+          : null,
+        dispute_payload: outcome.disputeOutcome ? JSON.stringify({ reason: "wrong" }) : null,
+        dispute_outcome: outcome.disputeOutcome ?? null,
+      });
+      db.raw.prepare("UPDATE interactions SET created_at = ? WHERE id = ?").run(created.toISOString(), interaction.id);
+    }
+
+    it("should break reputation down per capability", () => {
+      const provider = createTestAgent();
+      for (let i = 0; i < 3; i++) {
+        insertProviderInteraction(provider.did, "translation", { status: "completed", deliveryMs: 10_000, paid: 0.1 });
+      }
+      insertProviderInteraction(provider.did, "code-review", {
+        status: "completed", deliveryMs: 120_000, estimatedTime: 60, paid: 0.5,
+      });
+      insertProviderInteraction(provider.did, "code-review", { status: "expired" });
+      insertProviderInteraction(provider.did, "code-review", {
+        status: "failed", deliveryMs: 90_000, estimatedTime: 60, disputeOutcome: "initiator_wins",
+      });
+
+      const report = trust.getReputation(provider.did);
+      const [translation, codeReview] = report.capabilities;
+
+      expect(translation).toMatchObject({
+        capability: "translation",
+        success_rate: 1,
+        dispute_rate: 0,
+        median_delivery_ms: 10_000,
+        on_time_rate: 1,
+        volume_usdc: 0.3,
+      });
+      expect(codeReview).toMatchObject({
+        capability: "code-review",
+        successful: 1,
+        failed: 2,
+        disputed: 1,
+        success_rate: 0.3333,
+        dispute_rate: 0.5,
+        median_estimated_ms: 60_000,
+        on_time_rate: 0,
+      });
+      expect(translation.trust_score).toBeGreaterThan(codeReview.trust_score);
+      expect(report.summary).toMatchObject({ successful: 4, failed: 2, volume_usdc: 0.8 });
+      expect(trust.getReputationSummary(provider.did).capabilities).toEqual({
+        translation: translation.trust_score,
+        "code-review": codeReview.trust_score,
+      });
+    });
+
+    it("should limit reputation to a window and group history by period", () => {
+      const provider = createTestAgent();
+      insertProviderInteraction(provider.did, "translation", { status: "completed", deliveryMs: 1_000, daysAgo: 40 });
+      insertProviderInteraction(provider.did, "translation", { status: "expired", daysAgo: 2 });
+
+      const all = trust.getReputation(provider.did, { bucket: "month" });
+      expect(all.summary).toMatchObject({ successful: 1, failed: 1 });
+      expect(all.history.length).toBeGreaterThanOrEqual(2);
+      expect(all.history[0].period_start).toMatch(/^\d{4}-\d{2}-01$/);
+      expect(all.history[0].successful).toBe(1);
+
+      const recent = trust.getReputation(provider.did, { windowDays: 30 });
+      expect(recent.window_days).toBe(30);
+      expect(recent.summary).toMatchObject({ successful: 0, failed: 1, success_rate: 0 });
+      expect(recent.history).toHaveLength(1);
+    });
+  });
+});
+
+// ===========================================================================
+// MessageRouterService
+// ===========================================================================
+
+describe("MessageRouterService delivery", () => {
+  function sendTo(router: MessageRouterService, to: string) {
+    const id = randomUUID();
+    router.sendMessage({
+      version: "0.1.0",
+      id,
+      type: "x811/request",
+      from: "did:web:x811.org:agents:sender",
+      to,
+      created: new Date().toISOString(),
+      payload: {},
+      signature: "test-signature",
+      nonce: randomUUID(),
+    });
+    return id;
+  }
+
+  it("leases polled messages until they are acknowledged", () => {
+    const router = new MessageRouterService(db);
+    const agent = createTestAgent();
+    const id = sendTo(router, agent.did);
+
+    expect(router.pollMessages(agent.id, agent.did).map((e) => e.id)).toEqual([id]);
+    expect(db.getMessage(id)!.status).toBe("leased");
+    expect(router.pollMessages(agent.id, agent.did)).toEqual([]);
+
+    expect(router.ackMessages(agent.did, [id, "unknown-id"])).toEqual({
+      acknowledged: [id],
+      unknown: ["unknown-id"],
+    });
+    const acked = db.getMessage(id)!;
+    expect(acked.status).toBe("delivered");
+    expect(acked.delivered_at).not.toBeNull();
+  });
+
+  it("redelivers unacknowledged messages and dead-letters them after maxRedeliveries", () => {
+    // A zero visibility timeout makes every lease expire immediately
+    const router = new MessageRouterService(db, undefined, undefined, {
+      visibilityTimeoutSeconds: 0,
+      maxRedeliveries: 2,
+    });
+    const agent = createTestAgent();
+    const id = sendTo(router, agent.did);
+
+    for (let delivery = 0; delivery < 3; delivery++) {
+      expect(router.pollMessages(agent.id, agent.did).map((e) => e.id)).toEqual([id]);
+    }
+    expect(db.getMessage(id)!.retry_count).toBe(2);
+
+    expect(router.pollMessages(agent.id, agent.did)).toEqual([]);
+    const dead = db.getMessage(id)!;
+    expect(dead.status).toBe("dead_letter");
+    expect(dead.last_error).toBe("Not acknowledged after 3 deliveries");
+    expect(router.ackMessages(agent.did, [id]).acknowledged).toEqual([]);
+  });
+
+  it("leases messages pushed over SSE and only lets the recipient acknowledge them", () => {
+    const sseManager = { emit: () => true } as unknown as SSEManager;
+    const router = new MessageRouterService(db, sseManager);
+    const agent = createTestAgent();
+    const other = createTestAgent();
+    const id = sendTo(router, agent.did);
+
+    expect(db.getMessage(id)!.status).toBe("leased");
+    expect(router.pollMessages(agent.id, agent.did)).toEqual([]);
+    expect(router.ackMessages(other.did, [id])).toEqual({ acknowledged: [], unknown: [id] });
+    expect(router.ackMessages(agent.did, [id]).acknowledged).toEqual([id]);
+  });
+
+  it("pushes a message again to an SSE client that did not acknowledge it in time", () => {
+    const sseManager = new SSEManager();
+    const router = new MessageRouterService(db, sseManager, undefined, {
+      visibilityTimeoutSeconds: 0,
+      maxRedeliveries: 5,
+    });
+    const agent = createTestAgent();
+    const stream = new PassThrough();
+    sseManager.subscribe(agent.id, stream as unknown as http.ServerResponse);
+
+    const id = sendTo(router, agent.did);
+    expect(stream.read().toString()).toContain(`id: ${id}\n`);
+
+    // The lease ran out without an ack while the client stayed connected
+    expect(router.redeliverToConnected()).toBe(1);
+    expect(stream.read().toString()).toContain(`id: ${id}\n`);
+    const redelivered = db.getMessage(id)!;
+    expect(redelivered.status).toBe("leased");
+    expect(redelivered.retry_count).toBe(1);
+
+    // Nothing is pushed, or leased, once the client has gone
+    sseManager.unsubscribe(agent.id, stream as unknown as http.ServerResponse);
+    expect(router.redeliverToConnected()).toBe(0);
+    expect(db.getMessage(id)!.retry_count).toBe(1);
+  });
+
+  it("rejects malformed acknowledgements", () => {
+    const router = new MessageRouterService(db);
+    const agent = createTestAgent();
+
+    for (const ids of [undefined, [], [42], Array.from({ length: 101 }, () => randomUUID())]) {
+      expect(() => router.ackMessages(agent.did, ids)).toThrow(RouterError);
+    }
+  });
+});
+
+// ===========================================================================
+// WebhookDispatcher
+// ===========================================================================
+
+describe("WebhookDispatcher", () => {
+  const serverKeys = generateSigningKeyPair();
+  const SERVER_DID = "did:web:x811.org";
+
+  /** Public addresses for every host but *.internal.example, which is private. */
+  async function lookup(hostname: string) {
+    return hostname.endsWith(".internal.example") ? ["93.184.215.14", "10.0.0.7"] : ["93.184.215.14"];
+  }
+
+  function setup(statuses: number[], maxAttempts = 3) {
+    const post = vi.fn(async (_url: string, _body: unknown, _options?: { address?: string }) => ({
+      status: statuses.shift() ?? 200,
+      body: {},
+    }));
+    const transport: IFederationTransport = { get: vi.fn(), post };
+    const webhooks = new WebhookDispatcher(db, SERVER_DID, serverKeys, transport, {
+      maxAttempts,
+      retryBaseMs: 1000,
+      timeoutMs: 5000,
+      lookup,
+    });
+    const router = new MessageRouterService(db, undefined, undefined, undefined, webhooks);
+    return { post, webhooks, router };
+  }
+
+  function send(router: MessageRouterService, to: string, payload: unknown = {}) {
+    const id = randomUUID();
+    router.sendMessage({
+      version: "0.1.0",
+      id,
+      type: "x811/request",
+      from: "did:web:x811.org:agents:sender",
+      to,
+      created: new Date().toISOString(),
+      payload,
+      signature: "test-signature",
+      nonce: randomUUID(),
+    });
+    return id;
+  }
+
+  /** Make the next retry of a delivery due now. */
+  function makeDue(messageId: string) {
+    db.updateWebhookDelivery(messageId, { next_attempt_at: new Date(Date.now() - 1).toISOString() });
+  }
+
+  it("posts a server-signed delivery to the endpoint and acknowledges the message", async () => {
+    const { post, webhooks, router } = setup([200]);
+    const agent = createTestAgent({ endpoint: "https://provider.example.com/x811" });
+    const id = send(router, agent.did, { task_type: "translation" });
+    await vi.waitFor(() => expect(db.getWebhookDelivery(id)!.status).toBe("delivered"));
+
+    expect(post).toHaveBeenCalledTimes(1);
+    const [url, body] = post.mock.calls[0];
+    expect(url).toBe("https://provider.example.com/x811");
+    const delivery = (body as { envelope: X811Envelope<WebhookPayload> }).envelope;
+    expect(delivery.type).toBe("x811/webhook");
+    expect(delivery.from).toBe(SERVER_DID);
+    expect(delivery.to).toBe(agent.did);
+    expect(delivery.payload.attempt).toBe(1);
+    expect(delivery.payload.envelope.id).toBe(id);
+    expect(verifyEnvelope(delivery, serverKeys.publicKey)).toBe(true);
+
+    expect(db.getMessage(id)!.status).toBe("delivered");
+    expect(await webhooks.retryDueDeliveries()).toBe(0);
+  });
+
+  it("retries failures with exponential backoff and leaves the message queued after maxAttempts", async () => {
+    const { post, webhooks, router } = setup([500, 503, 502], 3);
+    const agent = createTestAgent();
+    const id = send(router, agent.did);
+    await vi.waitFor(() => expect(db.getWebhookDelivery(id)!.attempts).toBe(1));
+
+    let delivery = db.getWebhookDelivery(id)!;
+    expect(delivery.status).toBe("pending");
+    expect(delivery.last_error).toBe("Endpoint returned HTTP 500");
+    // Not due yet
+    expect(await webhooks.retryDueDeliveries()).toBe(0);
+    expect(post).toHaveBeenCalledTimes(1);
+
+    makeDue(id);
+    await webhooks.retryDueDeliveries();
+    delivery = db.getWebhookDelivery(id)!;
+    expect(delivery.attempts).toBe(2);
+    // Second retry waits twice the base delay
+    const delayMs = new Date(delivery.next_attempt_at!).getTime() - Date.now();
+    expect(delayMs).toBeGreaterThan(1500);
+    expect(delayMs).toBeLessThanOrEqual(2000);
+
+    makeDue(id);
+    await webhooks.retryDueDeliveries();
+    delivery = db.getWebhookDelivery(id)!;
+    expect(delivery.status).toBe("failed");
+    expect(delivery.attempts).toBe(3);
+    expect(delivery.next_attempt_at).toBeNull();
+    expect(post).toHaveBeenCalledTimes(3);
+
+    // Falls back to polling
+    expect(router.pollMessages(agent.id, agent.did).map((e) => e.id)).toEqual([id]);
+  });
+
+  it("pushes to the request's callback_url when the recipient is its initiator", async () => {
+    const { post, router } = setup([]);
+    const initiator = createTestAgent();
+    const provider = createTestAgent();
+    const interaction = db.insertInteraction({
+      id: randomUUID(),
+      interaction_hash: `hash-${randomUUID()}`,
+      initiator_did: initiator.did,
+      provider_did: provider.did,
+      capability: "translation",
+      status: "offered",
+      outcome: null,
+      payment_tx: null,
+      payment_amount: null,
+      batch_id: null,
+      request_payload: JSON.stringify({ callback_url: "https://initiator.example.com/hook" }),
+      offer_payload: null,
+      result_payload: null,
+      idempotency_key: randomUUID(),
+    });
+
+    const toInitiator = send(router, initiator.did, { request_id: interaction.id });
+    const toProvider = send(router, provider.did, { offer_id: interaction.id });
+    await vi.waitFor(() => expect(post).toHaveBeenCalledTimes(2));
+
+    expect(db.getWebhookDelivery(toInitiator)!.url).toBe("https://initiator.example.com/hook");
+    expect(db.getWebhookDelivery(toProvider)!.url).toBe("https://example.com");
+  });
+
+  it("refuses plain http and endpoints on loopback, private or reserved addresses", async () => {
+    const { post, router } = setup([]);
+    const insecure = send(router, createTestAgent({ endpoint: "http://provider.example.com/x811" }).did);
+    expect(db.getWebhookDelivery(insecure)).toBeUndefined();
+
+    const targets = [
+      "https://127.0.0.1:8080/hook",
+      "https://[::1]/hook",
+      "https://169.254.169.254/latest/meta-data",
+      "https://[::ffff:192.168.1.1]/hook",
+      "https://db.internal.example/hook",
+    ];
+    const ids = targets.map((endpoint) => send(router, createTestAgent({ endpoint }).did));
+    for (const id of ids) {
+      await vi.waitFor(() => expect(db.getWebhookDelivery(id)!.status).toBe("failed"));
+      expect(db.getWebhookDelivery(id)!.last_error).toMatch(/non-public address/);
+    }
+    expect(post).not.toHaveBeenCalled();
+  });
+
+  it("connects to the address it checked, not a later DNS answer", async () => {
+    const answers = [["93.184.215.14"], ["127.0.0.1"]];
+    const post = vi.fn(async (_url: string, _body: unknown, _options?: { address?: string }) => ({
+      status: 200,
+      body: {},
+    }));
+    const rebinding = new WebhookDispatcher(db, SERVER_DID, serverKeys, { get: vi.fn(), post }, {
+      maxAttempts: 3,
+      retryBaseMs: 1000,
+      timeoutMs: 5000,
+      lookup: async () => answers.shift() ?? ["127.0.0.1"],
+    });
+    const router = new MessageRouterService(db, undefined, undefined, undefined, rebinding);
+    const id = send(router, createTestAgent({ endpoint: "https://rebind.example.com/hook" }).did);
+
+    await vi.waitFor(() => expect(db.getWebhookDelivery(id)!.status).toBe("delivered"));
+    expect(post.mock.calls[0][0]).toBe("https://rebind.example.com/hook");
+    expect(post.mock.calls[0][2]).toEqual({ address: "93.184.215.14" });
+  });
+
+  it("sends a pinned request to the given address with the URL's Host header", async () => {
+    const received: { host?: string; body: string }[] = [];
+    const server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => { body += chunk; });
+      req.on("end", () => {
+        received.push({ host: req.headers.host, body });
+        res.setHeader("content-type", "application/json");
+        res.end(JSON.stringify({ ok: true }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    try {
+      const { port } = server.address() as AddressInfo;
+      const response = await new HttpFederationTransport(5000).post(
+        `http://unresolvable.invalid:${port}/hook`,
+        { hello: "world" },
+        { address: "127.0.0.1" },
+      );
+
+      expect(response).toEqual({ status: 200, body: { ok: true } });
+      expect(received).toEqual([{ host: `unresolvable.invalid:${port}`, body: '{"hello":"world"}' }]);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it("keeps retries off a delivery until its attempt has timed out", async () => {
+    let respond!: (response: { status: number; body: unknown }) => void;
+    const slow = new WebhookDispatcher(db, SERVER_DID, serverKeys, {
+      get: vi.fn(),
+      post: vi.fn(() => new Promise((resolve) => { respond = resolve; })),
+    }, { maxAttempts: 3, retryBaseMs: 1000, timeoutMs: 5000, lookup });
+    const router = new MessageRouterService(db, undefined, undefined, undefined, slow);
+    const id = send(router, createTestAgent().did);
+
+    await vi.waitFor(() => expect(respond).toBeDefined());
+    const guardMs = new Date(db.getWebhookDelivery(id)!.next_attempt_at!).getTime() - Date.now();
+    expect(guardMs).toBeGreaterThan(5000);
+    expect(await slow.retryDueDeliveries()).toBe(0);
+
+    respond({ status: 200, body: {} });
+    await vi.waitFor(() => expect(db.getWebhookDelivery(id)!.status).toBe("delivered"));
+  });
+
+  it("skips recipients without an HTTP endpoint and cancels deliveries acknowledged elsewhere", async () => {
+    const { post, webhooks, router } = setup([500]);
+    const offline = createTestAgent({ endpoint: "" });
+    const skipped = send(router, offline.did);
+    expect(db.getWebhookDelivery(skipped)).toBeUndefined();
+
+    const agent = createTestAgent();
+    const id = send(router, agent.did);
+    await vi.waitFor(() => expect(db.getWebhookDelivery(id)!.attempts).toBe(1));
+
+    router.pollMessages(agent.id, agent.did);
+    router.ackMessages(agent.did, [id]);
+    makeDue(id);
+    await webhooks.retryDueDeliveries();
+    expect(db.getWebhookDelivery(id)!.status).toBe("cancelled");
+    expect(post).toHaveBeenCalledTimes(1);
+  });
+});
+
+// ===========================================================================
+// CapabilityService
+// ===========================================================================
+
+describe("CapabilityService validator cache", () => {
+  const schema = (minimum: number) =>
+    JSON.stringify({ $id: "https://agent.example/result.json", type: "number", minimum });
+
+  it("drops the least recently used validator once the cap is reached", () => {
+    const compile = vi.spyOn(Ajv.prototype, "compile");
+    try {
+      const capabilities = new CapabilityService(db, {}, 2);
+      capabilities.validate(schema(1), 5);
+      capabilities.validate(schema(2), 5);
+      capabilities.validate(schema(1), 5);
+      capabilities.validate(schema(3), 5); // evicts schema(2)
+      capabilities.validate(schema(1), 5);
+      expect(compile).toHaveBeenCalledTimes(3);
+
+      // Recompiled after eviction, its $id no longer clashing with the others
+      expect(capabilities.validate(schema(2), 1)).toEqual(["/ must be >= 2"]);
+      expect(compile).toHaveBeenCalledTimes(4);
+    } finally {
+      compile.mockRestore();
+    }
+  });
+});
+
+// ===========================================================================
+// BlobStore
+// ===========================================================================
+
+describe("BlobStore", () => {
+  const BASE_URL = "https://api.x811.org";
+  const content = Buffer.from("x".repeat(4096));
+  const hash = bytesToHex(sha256(content));
+
+  function setup() {
+    const blobs = new BlobStore(db, { dir: join(testDir, "blobs"), baseUrl: BASE_URL });
+    const initiator = createTestAgent();
+    const provider = createTestAgent();
+    const interaction = db.insertInteraction({
+      id: randomUUID(),
+      interaction_hash: `hash-${randomUUID()}`,
+      initiator_did: initiator.did,
+      provider_did: provider.did,
+      capability: "analysis",
+      status: "accepted",
+      outcome: null,
+      payment_tx: null,
+      payment_amount: null,
+      batch_id: null,
+      request_payload: null,
+      offer_payload: null,
+      result_payload: null,
+      idempotency_key: randomUUID(),
+    });
+    const upload = { hash, interactionId: interaction.id, uploaderDid: provider.did, content, contentType: "text/plain" };
+    return { blobs, initiator, provider, interaction, upload };
+  }
+
+  it("stores content under its SHA-256 for the provider of an accepted interaction", async () => {
+    const { blobs, initiator, provider, interaction, upload } = setup();
+
+    await expect(blobs.put({ ...upload, content: Buffer.from("tampered") })).rejects.toMatchObject({
+      code: "X811-6002",
+    });
+    await expect(blobs.put({ ...upload, uploaderDid: initiator.did })).rejects.toMatchObject({
+      code: "X811-2004",
+    });
+
+    const blob = await blobs.put(upload);
+    expect(blob).toMatchObject({ hash, interaction_id: interaction.id, size: 4096, content_type: "text/plain" });
+    // Uploading the same content again is idempotent
+    expect(await blobs.put(upload)).toEqual(blob);
+
+    expect(blobs.open(hash, initiator.did).blob).toEqual(blob);
+    expect(blobs.open(hash, provider.did).path.endsWith(hash)).toBe(true);
+    expect(() => blobs.open(hash, createTestAgent().did)).toThrow(BlobError);
+
+    db.updateInteraction(interaction.id, { status: "delivered" });
+    await expect(blobs.put(upload)).rejects.toMatchObject({ code: "X811-4006" });
+  });
+
+  it("releases blobs once their interaction is finished", async () => {
+    const { blobs, initiator, interaction, upload } = setup();
+    const other = setup();
+    await blobs.put(upload);
+    await blobs.put(other.upload);
+
+    expect(blobs.releaseFinished()).toBe(0);
+    db.updateInteraction(interaction.id, { status: "completed" });
+    expect(blobs.releaseFinished()).toBe(1);
+    expect(() => blobs.open(hash, initiator.did)).toThrow(BlobError);
+    // Still held by the other interaction
+    expect(blobs.open(hash, other.initiator.did).blob.interaction_id).toBe(other.interaction.id);
+
+    db.updateInteraction(other.interaction.id, { status: "expired" });
+    const { path } = blobs.open(hash, other.initiator.did);
+    expect(blobs.releaseFinished()).toBe(1);
+    expect(existsSync(path)).toBe(false);
+  });
+
+  it("checks results that point into the store against the uploaded blob", async () => {
+    const { blobs, initiator, provider, interaction, upload } = setup();
+    const negotiation = new NegotiationService(
+      db,
+      new MessageRouterService(db),
+      new BatchingService(db, new MockRelayerService(), { sizeThreshold: 100, timeThresholdMs: 300_000 }),
+      new TrustService(db),
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      blobs,
+    );
+    const deliver = (result: Record<string, unknown>) =>
+      negotiation.handleResult({
+        version: "0.1.0",
+        id: randomUUID(),
+        type: "x811/result",
+        from: provider.did,
+        to: initiator.did,
+        created: new Date().toISOString(),
+        payload: {
+          request_id: interaction.id,
+          offer_id: interaction.id,
+          content_type: "text/plain",
+          result_url: blobs.url(hash),
+          result_hash: hash,
+          execution_time_ms: 10,
+          ...result,
+        },
+        signature: "test-signature",
+        nonce: randomUUID(),
+      });
+
+    await expect(deliver({})).rejects.toThrow(/not been uploaded/);
+    await blobs.put(upload);
+    await expect(deliver({ result_hash: "0".repeat(64) })).rejects.toMatchObject({ code: "X811-6002" });
+    await expect(deliver({ result_size: 1 })).rejects.toThrow(/result_size/);
+
+    expect(await deliver({ result_size: 4096 })).toEqual({ interaction_id: interaction.id, status: "delivered" });
+  });
 });
 
 // ===========================================================================
@@ -355,6 +979,12 @@ describe("NegotiationService", () => {
       const resultResult = await negotiation.handleResult(resultEnv);
       expect(resultResult.status).toBe("delivered");
 
+      // Accept-to-result time feeds the provider's median completion time
+      const delivered = db.getInteraction(interactionId)!;
+      expect(delivered.accepted_at).not.toBeNull();
+      expect(delivered.delivered_at).not.toBeNull();
+      expect(db.getAgent(provider.id)!.median_completion_ms).toBeGreaterThanOrEqual(0);
+
       // 5. VERIFY
       const verifyEnv = makeEnvelope(
         "x811/verify",
@@ -781,6 +1411,103 @@ describe("NegotiationService", () => {
       const expired = stmt.all();
       expect(expired.length).toBeGreaterThan(0);
     });
+
+    async function request(payload: Record<string, unknown> = {}) {
+      const initiator = createTestAgent();
+      const provider = createTestAgent();
+      const { interaction_id } = await negotiation.handleRequest(
+        makeEnvelope("x811/request", initiator.did, provider.did, {
+          task_type: "analysis",
+          parameters: {},
+          max_budget: 1.0,
+          currency: "USDC",
+          deadline: 3600,
+          acceptance_policy: "auto",
+          idempotency_key: randomUUID(),
+          ...payload,
+        }),
+      );
+      return { initiator, provider, interactionId: interaction_id };
+    }
+
+    function ttlOf(interactionId: string): number {
+      const row = db.getInteraction(interactionId)!;
+      return Math.round((Date.parse(row.expires_at!) - Date.parse(row.updated_at)) / 1000);
+    }
+
+    it("should derive each state's deadline from the interaction", async () => {
+      const { initiator, provider, interactionId } = await request({ deadline: 7200 });
+      expect(ttlOf(interactionId)).toBe(60);
+
+      await negotiation.handleOffer(
+        makeEnvelope("x811/offer", provider.did, initiator.did, {
+          request_id: interactionId,
+          price: "0.03",
+          protocol_fee: "0.00075",
+          total_cost: "0.03075",
+          currency: "USDC",
+          estimated_time: 600,
+          deliverables: ["report"],
+          expiry: 900,
+        }),
+      );
+      expect(ttlOf(interactionId)).toBe(900);
+
+      const offerPayload = JSON.parse(db.getInteraction(interactionId)!.offer_payload!);
+      await negotiation.handleAccept(
+        makeEnvelope("x811/accept", initiator.did, provider.did, {
+          offer_id: interactionId,
+          offer_hash: hashPayload(offerPayload),
+        }),
+      );
+      expect(ttlOf(interactionId)).toBe(7200);
+    });
+
+    it("should clamp deadlines to the server bounds", async () => {
+      negotiation = new NegotiationService(
+        db, router, batching, trust, undefined, undefined, undefined, 4,
+        { requestTtl: 5, verifyTtl: 600, minTtl: 10, maxTtl: 3600 },
+      );
+      const { initiator, provider, interactionId } = await request({ deadline: 86_400 });
+      expect(ttlOf(interactionId)).toBe(10);
+
+      await negotiation.handleOffer(
+        makeEnvelope("x811/offer", provider.did, initiator.did, {
+          request_id: interactionId,
+          price: "0.03",
+          protocol_fee: "0.00075",
+          total_cost: "0.03075",
+          currency: "USDC",
+          estimated_time: 60,
+          deliverables: ["report"],
+          expiry: 5,
+        }),
+      );
+      expect(ttlOf(interactionId)).toBe(10);
+
+      const offerPayload = JSON.parse(db.getInteraction(interactionId)!.offer_payload!);
+      await negotiation.handleAccept(
+        makeEnvelope("x811/accept", initiator.did, provider.did, {
+          offer_id: interactionId,
+          offer_hash: hashPayload(offerPayload),
+        }),
+      );
+      expect(ttlOf(interactionId)).toBe(3600);
+    });
+
+    it("should expire an interaction once its stored deadline passes", async () => {
+      const { interactionId } = await request();
+
+      negotiation.checkExpiredInteractions();
+      expect(db.getInteraction(interactionId)!.status).toBe("pending");
+
+      db.updateInteraction(interactionId, {
+        expires_at: new Date(Date.now() - 1_000).toISOString(),
+      });
+      negotiation.checkExpiredInteractions();
+      expect(db.getInteraction(interactionId)!.status).toBe("expired");
+      expect(db.getInteraction(interactionId)!.outcome).toBe("timeout");
+    });
   });
 
   describe("Protocol fee validation", () => {
@@ -827,6 +1554,88 @@ describe("NegotiationService", () => {
     });
   });
 
+  describe("Trust attestations", () => {
+    const serverKey = generateSigningKeyPair();
+    let attestations: AttestationService;
+
+    beforeEach(() => {
+      attestations = new AttestationService(db, "did:web:x811.org", serverKey, 3600);
+      negotiation = new NegotiationService(
+        db, router, batching, trust, undefined, undefined, undefined, undefined, undefined, undefined,
+        attestations,
+      );
+    });
+
+    async function offerWith(attestationFor: (provider: ReturnType<typeof createTestAgent>) => unknown) {
+      const initiator = createTestAgent();
+      const provider = createTestAgent();
+      const { interaction_id } = await negotiation.handleRequest(
+        makeEnvelope("x811/request", initiator.did, provider.did, {
+          task_type: "analysis",
+          parameters: {},
+          max_budget: 1.0,
+          currency: "USDC",
+          deadline: 3600,
+          acceptance_policy: "auto",
+          idempotency_key: randomUUID(),
+        }),
+      );
+      return negotiation.handleOffer(
+        makeEnvelope("x811/offer", provider.did, initiator.did, {
+          request_id: interaction_id,
+          price: "0.03",
+          protocol_fee: "0.00075",
+          total_cost: "0.03075",
+          currency: "USDC",
+          estimated_time: 30,
+          deliverables: ["report"],
+          expiry: 300,
+          trust_attestation: attestationFor(provider),
+        }),
+      );
+    }
+
+    it("should issue an attestation covering the trust record and latest anchored batch", () => {
+      const agent = createTestAgent({ trust_score: 0.87, interaction_count: 12, successful_count: 11, failed_count: 1 });
+      const batchId = db.insertBatch("ab".repeat(32), 40);
+      db.updateBatchStatus(batchId, "submitted", "0xanchored");
+      db.insertBatch("cd".repeat(32), 5); // not yet anchored
+
+      const attestation = attestations.issue(agent);
+
+      expect(attestation.issuer).toBe("did:web:x811.org");
+      expect(attestation.type).toContain("VerifiableCredential");
+      expect(attestation.credentialSubject).toEqual({
+        id: agent.did,
+        trust_score: 0.87,
+        interaction_count: 12,
+        successful_count: 11,
+        failed_count: 1,
+        anchored_batch: { merkle_root: "ab".repeat(32), tx_hash: "0xanchored", interaction_count: 40 },
+      });
+      expect(Date.parse(attestation.expirationDate) - Date.parse(attestation.issuanceDate)).toBe(3_600_000);
+      expect(verifyTrustAttestation(attestation, serverKey.publicKey)).toBe(true);
+      expect(attestations.verify(attestation)).toBe(true);
+    });
+
+    it("should accept an offer carrying the provider's own attestation", async () => {
+      const result = await offerWith((provider) => attestations.issue(provider));
+      expect(result.status).toBe("offered");
+    });
+
+    it("should reject an offer with a tampered or borrowed attestation", async () => {
+      await expect(offerWith((provider) => {
+        const attestation = attestations.issue(provider);
+        return { ...attestation, credentialSubject: { ...attestation.credentialSubject, trust_score: 1 } };
+      })).rejects.toThrow(/invalid or expired/);
+
+      const other = createTestAgent();
+      await expect(offerWith(() => attestations.issue(other))).rejects.toThrow(
+        /does not describe the provider/,
+      );
+    });
+  });
+
   describe("Reject flow", () => {
     it("should handle rejection correctly", async () => {
       const initiator = createTestAgent();
@@ -879,19 +1688,1427 @@ describe("NegotiationService", () => {
       expect(interaction!.outcome).toBe("rejected");
     });
   });
-});
-
-// ===========================================================================
-// BatchingService
-// ===========================================================================
 
-describe("BatchingService", () => {
-  let batching: BatchingService;
-  let relayer: MockRelayerService;
-
-  beforeEach(() => {
-    relayer = new MockRelayerService();
-  });
+  describe("RFQ grouping", () => {
+    async function request(initiatorDid: string, providerDid: string, rfqId: unknown) {
+      return negotiation.handleRequest(
+        makeEnvelope("x811/request", initiatorDid, providerDid, {
+          task_type: "analysis",
+          parameters: {},
+          max_budget: 1.0,
+          currency: "USDC",
+          deadline: 3600,
+          acceptance_policy: "auto",
+          idempotency_key: randomUUID(),
+          rfq_id: rfqId,
+        }),
+      );
+    }
+
+    async function offer(providerDid: string, initiatorDid: string, interactionId: string) {
+      await negotiation.handleOffer(
+        makeEnvelope("x811/offer", providerDid, initiatorDid, {
+          request_id: interactionId,
+          price: "0.03",
+          protocol_fee: "0.00075",
+          total_cost: "0.03075",
+          currency: "USDC",
+          estimated_time: 30,
+          deliverables: ["report"],
+          expiry: 300,
+        }),
+      );
+    }
+
+    async function accept(initiatorDid: string, providerDid: string, interactionId: string) {
+      const offerPayload = JSON.parse(db.getInteraction(interactionId)!.offer_payload!);
+      return negotiation.handleAccept(
+        makeEnvelope("x811/accept", initiatorDid, providerDid, {
+          offer_id: interactionId,
+          offer_hash: hashPayload(offerPayload),
+        }),
+      );
+    }
+
+    it("should link the interactions of one RFQ", async () => {
+      const initiator = createTestAgent();
+      const rfqId = randomUUID();
+      const a = await request(initiator.did, createTestAgent().did, rfqId);
+      const b = await request(initiator.did, createTestAgent().did, rfqId);
+
+      const members = db.getInteractionsByRfqId(rfqId);
+      expect(members.map((m) => m.id)).toEqual([a.interaction_id, b.interaction_id]);
+    });
+
+    it("should close out the rest of the RFQ when one offer is accepted", async () => {
+      const initiator = createTestAgent();
+      const [p1, p2, p3] = [createTestAgent(), createTestAgent(), createTestAgent()];
+      const rfqId = randomUUID();
+      const winner = await request(initiator.did, p1.did, rfqId);
+      const loser = await request(initiator.did, p2.did, rfqId);
+      const silent = await request(initiator.did, p3.did, rfqId);
+      await offer(p1.did, initiator.did, winner.interaction_id);
+      await offer(p2.did, initiator.did, loser.interaction_id);
+
+      await accept(initiator.did, p1.did, winner.interaction_id);
+
+      expect(db.getInteraction(winner.interaction_id)!.status).toBe("accepted");
+      expect(db.getInteraction(loser.interaction_id)!.status).toBe("rejected");
+      expect(db.getInteraction(silent.interaction_id)!.status).toBe("expired");
+      expect(db.getInteraction(silent.interaction_id)!.outcome).toBe("rfq_closed");
+
+      // A late offer to a closed-out request is refused
+      await expect(offer(p3.did, initiator.did, silent.interaction_id)).rejects.toThrow(
+        /Invalid state transition/,
+      );
+    });
+
+    it("should refuse a request joining another initiator's RFQ", async () => {
+      const rfqId = randomUUID();
+      await request(createTestAgent().did, createTestAgent().did, rfqId);
+
+      await expect(request(createTestAgent().did, createTestAgent().did, rfqId)).rejects.toThrow(
+        /another initiator/,
+      );
+    });
+
+    it("should refuse a request joining an awarded RFQ", async () => {
+      const initiator = createTestAgent();
+      const provider = createTestAgent();
+      const rfqId = randomUUID();
+      const first = await request(initiator.did, provider.did, rfqId);
+      await offer(provider.did, initiator.did, first.interaction_id);
+      await accept(initiator.did, provider.did, first.interaction_id);
+
+      await expect(request(initiator.did, createTestAgent().did, rfqId)).rejects.toThrow(
+        /already been awarded/,
+      );
+    });
+
+    it("should refuse a malformed rfq_id", async () => {
+      await expect(request(createTestAgent().did, createTestAgent().did, "")).rejects.toThrow(
+        NegotiationError,
+      );
+      await expect(
+        request(createTestAgent().did, createTestAgent().did, "x".repeat(129)),
+      ).rejects.toThrow(/rfq_id must be/);
+    });
+  });
+
+  describe("Counter-offers", () => {
+    function terms(price: number) {
+      const fee = Math.round(price * 0.025 * 1_000_000) / 1_000_000;
+      const total = Math.round((price + fee) * 1_000_000) / 1_000_000;
+      return { price: price.toString(), protocol_fee: fee.toString(), total_cost: total.toString() };
+    }
+
+    async function offered() {
+      const initiator = createTestAgent();
+      const provider = createTestAgent();
+      const { interaction_id } = await negotiation.handleRequest(
+        makeEnvelope("x811/request", initiator.did, provider.did, {
+          task_type: "analysis",
+          parameters: {},
+          max_budget: 1.0,
+          currency: "USDC",
+          deadline: 3600,
+          acceptance_policy: "auto",
+          idempotency_key: randomUUID(),
+        }),
+      );
+      await negotiation.handleOffer(
+        makeEnvelope("x811/offer", provider.did, initiator.did, {
+          request_id: interaction_id,
+          ...terms(0.5),
+          currency: "USDC",
+          estimated_time: 30,
+          deliverables: ["report"],
+          expiry: 300,
+        }),
+      );
+      return { initiator, provider, interactionId: interaction_id };
+    }
+
+    function counter(from: string, to: string, interactionId: string, price: number, extra = {}) {
+      return negotiation.handleCounter(
+        makeEnvelope("x811/counter", from, to, {
+          request_id: interactionId,
+          ...terms(price),
+          ...extra,
+        }),
+      );
+    }
+
+    it("should replace the offer with the provider's counter and record every round", async () => {
+      const { initiator, provider, interactionId } = await offered();
+
+      const first = await counter(initiator.did, provider.did, interactionId, 0.3, {
+        message: "Can you do 0.30?",
+      });
+      expect(first.status).toBe("countered");
+
+      const second = await counter(provider.did, initiator.did, interactionId, 0.4, {
+        estimated_time: 20,
+      });
+      expect(second.status).toBe("offered");
+
+      const interaction = db.getInteraction(interactionId)!;
+      const offer = JSON.parse(interaction.offer_payload!);
+      expect(offer).toMatchObject({ ...terms(0.4), estimated_time: 20, deliverables: ["report"] });
+
+      const history = JSON.parse(interaction.offer_history!);
+      expect(history.map((r: { round: number; from: string; price: string }) => [r.round, r.from, r.price]))
+        .toEqual([[0, "provider", "0.5"], [1, "initiator", "0.3"], [2, "provider", "0.4"]]);
+      expect(history[1].message).toBe("Can you do 0.30?");
+      expect(history[1].estimated_time).toBe(30);
+
+      // The countered offer is accepted by its new hash
+      const accepted = await negotiation.handleAccept(
+        makeEnvelope("x811/accept", initiator.did, provider.did, {
+          offer_id: interactionId,
+          offer_hash: hashPayload(offer),
+        }),
+      );
+      expect(accepted.status).toBe("accepted");
+    });
+
+    it("should enforce turn order", async () => {
+      const { initiator, provider, interactionId } = await offered();
+
+      // The provider cannot counter its own open offer
+      await expect(counter(provider.did, initiator.did, interactionId, 0.4)).rejects.toThrow(
+        /Invalid state transition/,
+      );
+
+      await counter(initiator.did, provider.did, interactionId, 0.3);
+
+      // Nor can the initiator counter twice, or accept its own counter
+      await expect(counter(initiator.did, provider.did, interactionId, 0.35)).rejects.toThrow(
+        /Invalid state transition/,
+      );
+      await expect(
+        counter(createTestAgent().did, provider.did, interactionId, 0.35),
+      ).rejects.toThrow(/Only the initiator or provider/);
+    });
+
+    it("should validate the fee and budget of a counter", async () => {
+      const { initiator, provider, interactionId } = await offered();
+
+      await expect(
+        counter(initiator.did, provider.did, interactionId, 0.3, { protocol_fee: "0" }),
+      ).rejects.toThrow(/Invalid protocol fee/);
+
+      await counter(initiator.did, provider.did, interactionId, 0.3);
+      await expect(counter(provider.did, initiator.did, interactionId, 2)).rejects.toThrow(
+        /exceeds request budget/,
+      );
+    });
+
+    it("should stop at the configured number of rounds", async () => {
+      negotiation = new NegotiationService(
+        db, router, batching, trust, undefined, undefined, undefined, 2,
+      );
+      const { initiator, provider, interactionId } = await offered();
+
+      await counter(initiator.did, provider.did, interactionId, 0.3);
+      await counter(provider.did, initiator.did, interactionId, 0.4);
+
+      await expect(counter(initiator.did, provider.did, interactionId, 0.35)).rejects.toMatchObject({
+        code: "X811-4007",
+      });
+      expect(db.getInteraction(interactionId)!.status).toBe("offered");
+    });
+
+    it("should let the initiator walk away from a countered negotiation", async () => {
+      const { initiator, provider, interactionId } = await offered();
+      await counter(initiator.did, provider.did, interactionId, 0.3);
+      await counter(provider.did, initiator.did, interactionId, 0.45);
+      await counter(initiator.did, provider.did, interactionId, 0.35);
+
+      const result = await negotiation.handleReject(
+        makeEnvelope("x811/reject", initiator.did, provider.did, {
+          offer_id: interactionId,
+          reason: "No agreement",
+          code: "PRICE_TOO_HIGH",
+        }),
+      );
+      expect(result.status).toBe("rejected");
+    });
+  });
+
+  describe("Cancellation", () => {
+    async function offered() {
+      const initiator = createTestAgent();
+      const provider = createTestAgent();
+      const { interaction_id } = await negotiation.handleRequest(
+        makeEnvelope("x811/request", initiator.did, provider.did, {
+          task_type: "analysis",
+          parameters: {},
+          max_budget: 1.0,
+          currency: "USDC",
+          deadline: 3600,
+          acceptance_policy: "auto",
+          idempotency_key: randomUUID(),
+        }),
+      );
+      await negotiation.handleOffer(
+        makeEnvelope("x811/offer", provider.did, initiator.did, {
+          request_id: interaction_id,
+          price: "0.03",
+          protocol_fee: "0.00075",
+          total_cost: "0.03075",
+          currency: "USDC",
+          estimated_time: 30,
+          deliverables: ["report"],
+          expiry: 300,
+        }),
+      );
+      return { initiator, provider, interactionId: interaction_id };
+    }
+
+    async function accepted() {
+      const parties = await offered();
+      const offerPayload = JSON.parse(db.getInteraction(parties.interactionId)!.offer_payload!);
+      await negotiation.handleAccept(
+        makeEnvelope("x811/accept", parties.initiator.did, parties.provider.did, {
+          offer_id: parties.interactionId,
+          offer_hash: hashPayload(offerPayload),
+        }),
+      );
+      return parties;
+    }
+
+    function cancel(from: string, to: string, interactionId: string, force?: boolean) {
+      return negotiation.handleCancel(
+        makeEnvelope("x811/cancel", from, to, {
+          interaction_id: interactionId,
+          reason: "No longer needed",
+          force,
+        }),
+      );
+    }
+
+    it("should let the initiator cancel before acceptance", async () => {
+      const { initiator, provider, interactionId } = await offered();
+
+      await expect(cancel(provider.did, initiator.did, interactionId)).rejects.toThrow(
+        /Only the initiator can cancel before acceptance/,
+      );
+      await expect(cancel(initiator.did, createTestAgent().did, interactionId)).rejects.toThrow(
+        /addressed to the counterparty/,
+      );
+
+      const result = await cancel(initiator.did, provider.did, interactionId);
+      expect(result.status).toBe("cancelled");
+      expect(db.getInteraction(interactionId)!.outcome).toBe("cancelled");
+      expect(db.getAgentByDid(initiator.did)!.failed_count).toBe(0);
+    });
+
+    it("should cancel an accepted interaction once both parties agree", async () => {
+      const { initiator, provider, interactionId } = await accepted();
+
+      const first = await cancel(provider.did, initiator.did, interactionId);
+      expect(first.status).toBe("accepted");
+      expect(db.getInteraction(interactionId)!.cancel_requested_by).toBe(provider.did);
+
+      // Repeating the request is not consent
+      expect((await cancel(provider.did, initiator.did, interactionId)).status).toBe("accepted");
+
+      const second = await cancel(initiator.did, provider.did, interactionId);
+      expect(second.status).toBe("cancelled");
+      expect(db.getInteraction(interactionId)!.outcome).toBe("cancelled");
+      expect(db.getAgentByDid(provider.did)!.failed_count).toBe(0);
+      expect(db.getAgentByDid(initiator.did)!.failed_count).toBe(0);
+    });
+
+    it("should penalize a forced cancellation after acceptance", async () => {
+      const { initiator, provider, interactionId } = await accepted();
+
+      const result = await cancel(initiator.did, provider.did, interactionId, true);
+
+      expect(result.status).toBe("cancelled");
+      expect(db.getInteraction(interactionId)!.outcome).toBe("cancelled_by_initiator");
+      expect(db.getAgentByDid(initiator.did)!.failed_count).toBe(1);
+      expect(db.getAgentByDid(provider.did)!.failed_count).toBe(0);
+    });
+
+    it("should refuse to cancel delivered work", async () => {
+      const { initiator, provider, interactionId } = await accepted();
+      await negotiation.handleResult(
+        makeEnvelope("x811/result", provider.did, initiator.did, {
+          request_id: interactionId,
+          offer_id: interactionId,
+          content: "done",
+          content_type: "text/plain",
+          result_hash: "result-hash",
+        }),
+      );
+
+      await expect(cancel(initiator.did, provider.did, interactionId, true)).rejects.toThrow(
+        /Invalid state transition: delivered -> cancelled/,
+      );
+    });
+  });
+});
+
+// ===========================================================================
+// Payment verification
+// ===========================================================================
+
+describe("Payment verification", () => {
+  const USDC = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+  const PAYER = "0x1111111111111111111111111111111111111111";
+  const PAYEE = "0x2222222222222222222222222222222222222222";
+
+  let negotiation: NegotiationService;
+  let trust: TrustService;
+  let chain: MockPaymentVerifierService;
+
+  beforeEach(() => {
+    const router = new MessageRouterService(db);
+    const batching = new BatchingService(db, new MockRelayerService(), {
+      sizeThreshold: 100,
+      timeThresholdMs: 300_000,
+    });
+    trust = new TrustService(db);
+    chain = new MockPaymentVerifierService(USDC, 3, false);
+    negotiation = new NegotiationService(db, router, batching, trust, chain);
+  });
+
+  /** Insert an interaction already in "verified" state with a 0.03 USDC offer. */
+  function createVerifiedInteraction() {
+    const initiator = createTestAgent();
+    const provider = createTestAgent();
+    const interaction = db.insertInteraction({
+      id: randomUUID(),
+      interaction_hash: `hash-${randomUUID()}`,
+      initiator_did: initiator.did,
+      provider_did: provider.did,
+      capability: "analysis",
+      status: "verified",
+      outcome: "success",
+      payment_tx: null,
+      payment_amount: null,
+      batch_id: null,
+      request_payload: JSON.stringify({ task_type: "analysis", max_budget: 1 }),
+      offer_payload: JSON.stringify({
+        price: "0.03",
+        protocol_fee: "0.00075",
+        total_cost: "0.03075",
+        payment_address: PAYEE,
+      }),
+      result_payload: null,
+      idempotency_key: randomUUID(),
+    });
+    return { initiator, provider, interaction };
+  }
+
+  function paymentEnvelope(
+    from: string,
+    to: string,
+    interactionId: string,
+    txHash: string,
+  ) {
+    return {
+      version: "0.1.0" as const,
+      id: randomUUID(),
+      type: "x811/payment",
+      from,
+      to,
+      created: new Date().toISOString(),
+      payload: {
+        request_id: interactionId,
+        offer_id: interactionId,
+        tx_hash: txHash,
+        amount: 0.03075,
+        currency: "USDC",
+        network: "base",
+        payer_address: PAYER,
+        payee_address: PAYEE,
+      },
+      signature: "test-signature",
+      nonce: randomUUID(),
+    };
+  }
+
+  it("should complete when the transfer has enough confirmations", async () => {
+    const { initiator, provider, interaction } = createVerifiedInteraction();
+    chain.submitTransfer("0xconfirmed", { from: PAYER, to: PAYEE, amount: "0.03" });
+    chain.mineBlocks(2);
+
+    const result = await negotiation.handlePayment(
+      paymentEnvelope(initiator.did, provider.did, interaction.id, "0xconfirmed"),
+    );
+
+    expect(result.status).toBe("completed");
+    expect(db.getAgentByDid(provider.did)!.successful_count).toBe(1);
+  });
+
+  it("should hold in payment_pending until confirmations arrive", async () => {
+    const { initiator, provider, interaction } = createVerifiedInteraction();
+    chain.submitTransfer("0xfresh", { from: PAYER, to: PAYEE, amount: "0.03" });
+
+    const result = await negotiation.handlePayment(
+      paymentEnvelope(initiator.did, provider.did, interaction.id, "0xfresh"),
+    );
+    expect(result.status).toBe("payment_pending");
+    expect(db.getInteraction(interaction.id)!.payment_tx).toBe("0xfresh");
+    expect(db.getAgentByDid(provider.did)!.successful_count).toBe(0);
+
+    // Still one block short
+    chain.mineBlocks(1);
+    await negotiation.checkPendingPayments();
+    expect(db.getInteraction(interaction.id)!.status).toBe("payment_pending");
+
+    chain.mineBlocks(1);
+    await negotiation.checkPendingPayments();
+    const final = db.getInteraction(interaction.id)!;
+    expect(final.status).toBe("completed");
+    expect(final.outcome).toBe("success");
+    expect(db.getAgentByDid(initiator.did)!.successful_count).toBe(1);
+    expect(db.getAgentByDid(provider.did)!.successful_count).toBe(1);
+  });
+
+  it("should reject a transfer to the wrong payee", async () => {
+    const { initiator, provider, interaction } = createVerifiedInteraction();
+    chain.submitTransfer("0xwrongpayee", { from: PAYER, to: PAYER, amount: "0.03" });
+    chain.mineBlocks(5);
+
+    await expect(
+      negotiation.handlePayment(
+        paymentEnvelope(initiator.did, provider.did, interaction.id, "0xwrongpayee"),
+      ),
+    ).rejects.toThrow("Payment verification failed");
+    expect(db.getInteraction(interaction.id)!.status).toBe("verified");
+  });
+
+  it("should reject a transfer from a different payer", async () => {
+    const { initiator, provider, interaction } = createVerifiedInteraction();
+    chain.submitTransfer("0xwrongpayer", {
+      from: "0x3333333333333333333333333333333333333333",
+      to: PAYEE,
+      amount: "0.03",
+    });
+    chain.mineBlocks(5);
+
+    await expect(
+      negotiation.handlePayment(
+        paymentEnvelope(initiator.did, provider.did, interaction.id, "0xwrongpayer"),
+      ),
+    ).rejects.toThrow("Payment verification failed");
+  });
+
+  it("should reject a transfer below the offer price", async () => {
+    const { initiator, provider, interaction } = createVerifiedInteraction();
+    chain.submitTransfer("0xshort", { from: PAYER, to: PAYEE, amount: "0.02" });
+    chain.mineBlocks(5);
+
+    try {
+      await negotiation.handlePayment(
+        paymentEnvelope(initiator.did, provider.did, interaction.id, "0xshort"),
+      );
+      expect.unreachable("should have thrown");
+    } catch (error) {
+      expect(error).toBeInstanceOf(NegotiationError);
+      expect((error as NegotiationError).code).toBe("X811-5003");
+      expect((error as NegotiationError).details.reason).toMatch(/below the expected/);
+    }
+  });
+
+  it("should reject a transfer of a token other than USDC", async () => {
+    const { initiator, provider, interaction } = createVerifiedInteraction();
+    chain.submitTransfer("0xothertoken", {
+      from: PAYER,
+      to: PAYEE,
+      amount: "0.03",
+      token: "0x4444444444444444444444444444444444444444",
+    });
+    chain.mineBlocks(5);
+
+    await expect(
+      negotiation.handlePayment(
+        paymentEnvelope(initiator.did, provider.did, interaction.id, "0xothertoken"),
+      ),
+    ).rejects.toThrow("Payment verification failed");
+  });
+
+  it("should reject a reverted transaction", async () => {
+    const { initiator, provider, interaction } = createVerifiedInteraction();
+    chain.submitTransfer(
+      "0xreverted",
+      { from: PAYER, to: PAYEE, amount: "0.03" },
+      { reverted: true },
+    );
+    chain.mineBlocks(5);
+
+    await expect(
+      negotiation.handlePayment(
+        paymentEnvelope(initiator.did, provider.did, interaction.id, "0xreverted"),
+      ),
+    ).rejects.toThrow("Payment verification failed");
+  });
+
+  it("should reject a tx_hash that already paid another interaction", async () => {
+    const first = createVerifiedInteraction();
+    const second = createVerifiedInteraction();
+    chain.submitTransfer("0xonce", { from: PAYER, to: PAYEE, amount: "0.03" });
+    chain.mineBlocks(5);
+
+    await negotiation.handlePayment(
+      paymentEnvelope(first.initiator.did, first.provider.did, first.interaction.id, "0xonce"),
+    );
+
+    await expect(
+      negotiation.handlePayment(
+        paymentEnvelope(second.initiator.did, second.provider.did, second.interaction.id, "0xonce"),
+      ),
+    ).rejects.toThrow("Transaction already used to pay another interaction");
+  });
+
+  it("should let only one of two concurrent payments with the same tx_hash through", async () => {
+    const first = createVerifiedInteraction();
+    const second = createVerifiedInteraction();
+    chain.submitTransfer("0xrace", { from: PAYER, to: PAYEE, amount: "0.03" });
+    chain.mineBlocks(5);
+
+    const results = await Promise.allSettled([
+      negotiation.handlePayment(
+        paymentEnvelope(first.initiator.did, first.provider.did, first.interaction.id, "0xrace"),
+      ),
+      negotiation.handlePayment(
+        paymentEnvelope(second.initiator.did, second.provider.did, second.interaction.id, "0xRACE"),
+      ),
+    ]);
+
+    expect(results.map((r) => r.status)).toEqual(["fulfilled", "rejected"]);
+    expect((results[1] as PromiseRejectedResult).reason.message).toBe(
+      "Transaction already used to pay another interaction",
+    );
+    expect(db.getInteraction(first.interaction.id)!.status).toBe("completed");
+    expect(db.getInteraction(second.interaction.id)!.status).toBe("verified");
+    expect(db.getInteraction(second.interaction.id)!.payment_tx).toBeNull();
+  });
+
+  it("should free a tx_hash whose verification failed", async () => {
+    const first = createVerifiedInteraction();
+    const second = createVerifiedInteraction();
+    chain.submitTransfer("0xpayer2", { from: PAYER, to: PAYEE, amount: "0.02" });
+    chain.mineBlocks(5);
+
+    await expect(
+      negotiation.handlePayment(
+        paymentEnvelope(first.initiator.did, first.provider.did, first.interaction.id, "0xpayer2"),
+      ),
+    ).rejects.toThrow("Payment verification failed");
+    expect(db.getInteraction(first.interaction.id)!.payment_tx).toBeNull();
+
+    // A cheaper offer the same transfer does cover
+    db.raw
+      .prepare("UPDATE interactions SET offer_payload = ? WHERE id = ?")
+      .run(
+        JSON.stringify({ price: "0.02", protocol_fee: "0.0005", total_cost: "0.0205", payment_address: PAYEE }),
+        second.interaction.id,
+      );
+    const envelope = paymentEnvelope(second.initiator.did, second.provider.did, second.interaction.id, "0xpayer2");
+    envelope.payload.amount = 0.0205;
+    const result = await negotiation.handlePayment(envelope);
+    expect(result.status).toBe("completed");
+  });
+
+  it("should refuse another payment while one is pending", async () => {
+    const { initiator, provider, interaction } = createVerifiedInteraction();
+    const other = createVerifiedInteraction();
+    chain.submitTransfer("0xfirst", { from: PAYER, to: PAYEE, amount: "0.03" });
+    chain.submitTransfer("0xsecond", { from: PAYER, to: PAYER, amount: "0.03" });
+
+    await negotiation.handlePayment(paymentEnvelope(initiator.did, provider.did, interaction.id, "0xfirst"));
+    await expect(
+      negotiation.handlePayment(paymentEnvelope(initiator.did, provider.did, interaction.id, "0xsecond")),
+    ).rejects.toThrow("A payment is already pending for this interaction");
+    expect(db.getInteraction(interaction.id)!.payment_tx).toBe("0xfirst");
+
+    // The pending transaction stays claimed
+    await expect(
+      negotiation.handlePayment(
+        paymentEnvelope(other.initiator.did, other.provider.did, other.interaction.id, "0xfirst"),
+      ),
+    ).rejects.toThrow("Transaction already used to pay another interaction");
+  });
+
+  it("should refuse a second payment while the first is still being verified", async () => {
+    const { initiator, provider, interaction } = createVerifiedInteraction();
+    chain.submitTransfer("0xslow", { from: PAYER, to: PAYEE, amount: "0.03" });
+    chain.submitTransfer("0xfast", { from: PAYER, to: PAYEE, amount: "0.03" });
+    chain.mineBlocks(5);
+
+    const results = await Promise.allSettled([
+      negotiation.handlePayment(paymentEnvelope(initiator.did, provider.did, interaction.id, "0xslow")),
+      negotiation.handlePayment(paymentEnvelope(initiator.did, provider.did, interaction.id, "0xfast")),
+    ]);
+
+    expect(results.map((r) => r.status)).toEqual(["fulfilled", "rejected"]);
+    expect((results[1] as PromiseRejectedResult).reason.message).toBe(
+      "A payment is already pending for this interaction",
+    );
+    expect(db.getInteraction(interaction.id)!.payment_tx).toBe("0xslow");
+  });
+
+  it("should not hold on to a tx_hash when the payment payload is rejected", async () => {
+    const { initiator, provider, interaction } = createVerifiedInteraction();
+    chain.submitTransfer("0xretry", { from: PAYER, to: PAYEE, amount: "0.03" });
+    chain.mineBlocks(5);
+
+    const incomplete = paymentEnvelope(initiator.did, provider.did, interaction.id, "0xretry");
+    delete (incomplete.payload as { payer_address?: string }).payer_address;
+    await expect(negotiation.handlePayment(incomplete)).rejects.toThrow("Missing payer_address");
+    expect(db.getInteraction(interaction.id)!.payment_tx).toBeNull();
+
+    const result = await negotiation.handlePayment(
+      paymentEnvelope(initiator.did, provider.did, interaction.id, "0xretry"),
+    );
+    expect(result.status).toBe("completed");
+  });
+
+  it("should fail the interaction if a pending transaction turns out invalid", async () => {
+    const { initiator, provider, interaction } = createVerifiedInteraction();
+    chain.submitTransfer("0xreorg", { from: PAYER, to: PAYEE, amount: "0.03" });
+
+    await negotiation.handlePayment(
+      paymentEnvelope(initiator.did, provider.did, interaction.id, "0xreorg"),
+    );
+
+    // Re-included as a reverted transaction after a reorg
+    chain.submitTransfer(
+      "0xreorg",
+      { from: PAYER, to: PAYEE, amount: "0.03" },
+      { reverted: true },
+    );
+    await negotiation.checkPendingPayments();
+
+    expect(db.getInteraction(interaction.id)!.status).toBe("failed");
+    expect(db.getAgentByDid(initiator.did)!.failed_count).toBe(1);
+  });
+
+  it("should return to verified when confirmation times out so the initiator can retry", async () => {
+    const { initiator, provider, interaction } = createVerifiedInteraction();
+
+    // Not mined at all
+    const result = await negotiation.handlePayment(
+      paymentEnvelope(initiator.did, provider.did, interaction.id, "0xmissing"),
+    );
+    expect(result.status).toBe("payment_pending");
+
+    // Older than PAY_CONFIRMATION (30s)
+    db.raw
+      .prepare("UPDATE interactions SET updated_at = ? WHERE id = ?")
+      .run(new Date(Date.now() - 60_000).toISOString(), interaction.id);
+    await negotiation.checkPendingPayments();
+
+    const reverted = db.getInteraction(interaction.id)!;
+    expect(reverted.status).toBe("verified");
+    expect(reverted.payment_tx).toBeNull();
+
+    // Retry with a confirmed transaction
+    chain.submitTransfer("0xretry", { from: PAYER, to: PAYEE, amount: "0.03" });
+    chain.mineBlocks(2);
+    const retry = await negotiation.handlePayment(
+      paymentEnvelope(initiator.did, provider.did, interaction.id, "0xretry"),
+    );
+    expect(retry.status).toBe("completed");
+  });
+});
+
+// ===========================================================================
+// Escrow settlement
+// ===========================================================================
+
+describe("Escrow settlement", () => {
+  const PAYER = "0x1111111111111111111111111111111111111111";
+  const PAYEE = "0x2222222222222222222222222222222222222222";
+
+  let negotiation: NegotiationService;
+  let batching: BatchingService;
+  let escrow: MockEscrowService;
+
+  beforeEach(() => {
+    const router = new MessageRouterService(db);
+    batching = new BatchingService(db, new MockRelayerService(), {
+      sizeThreshold: 100,
+      timeThresholdMs: 300_000,
+    });
+    escrow = new MockEscrowService();
+    negotiation = new NegotiationService(
+      db,
+      router,
+      batching,
+      new TrustService(db),
+      undefined,
+      escrow,
+    );
+  });
+
+  function makeEnvelope(type: string, from: string, to: string, payload: unknown) {
+    return {
+      version: "0.1.0" as const,
+      id: randomUUID(),
+      type,
+      from,
+      to,
+      created: new Date().toISOString(),
+      payload,
+      signature: "test-signature",
+      nonce: randomUUID(),
+    };
+  }
+
+  /** Drive a request through to an escrow-settled 0.03 USDC offer. */
+  async function createEscrowOffer() {
+    const initiator = createTestAgent({ payment_address: PAYER });
+    const provider = createTestAgent();
+    const { interaction_id } = await negotiation.handleRequest(
+      makeEnvelope("x811/request", initiator.did, provider.did, {
+        task_type: "analysis",
+        parameters: {},
+        max_budget: 1,
+        currency: "USDC",
+        deadline: 3600,
+        acceptance_policy: "auto",
+        idempotency_key: randomUUID(),
+      }),
+    );
+    await negotiation.handleOffer(
+      makeEnvelope("x811/offer", provider.did, initiator.did, {
+        request_id: interaction_id,
+        price: "0.03",
+        protocol_fee: "0.00075",
+        total_cost: "0.03075",
+        currency: "USDC",
+        estimated_time: 30,
+        deliverables: ["report"],
+        expiry: 300,
+        payment_address: PAYEE,
+        settlement: "escrow",
+      }),
+    );
+    return { initiator, provider, interactionId: interaction_id };
+  }
+
+  function acceptEnvelope(initiatorDid: string, providerDid: string, interactionId: string, escrowTx?: string) {
+    const offerPayload = db.getInteraction(interactionId)!.offer_payload!;
+    return makeEnvelope("x811/accept", initiatorDid, providerDid, {
+      offer_id: interactionId,
+      offer_hash: bytesToHex(sha256(new TextEncoder().encode(offerPayload))),
+      escrow_tx_hash: escrowTx,
+    });
+  }
+
+  function deposit(interactionId: string, overrides: Partial<{ payee: string; amount: string; fee: string; deadline: number }> = {}) {
+    return escrow.deposit(computeEscrowId(interactionId), {
+      payer: PAYER,
+      payee: PAYEE,
+      amount: "0.03",
+      fee: "0.00075",
+      deadline: Math.floor(Date.now() / 1000) + 7200,
+      ...overrides,
+    });
+  }
+
+  /** Accept (with a valid deposit) and deliver a result. */
+  async function driveToDelivered() {
+    const { initiator, provider, interactionId } = await createEscrowOffer();
+    const tx = deposit(interactionId);
+    await negotiation.handleAccept(acceptEnvelope(initiator.did, provider.did, interactionId, tx));
+    await negotiation.handleResult(
+      makeEnvelope("x811/result", provider.did, initiator.did, {
+        request_id: interactionId,
+        offer_id: interactionId,
+        content: "done",
+        content_type: "text/plain",
+        result_hash: "abc123",
+        execution_time_ms: 10,
+      }),
+    );
+    return { initiator, provider, interactionId };
+  }
+
+  it("should store the settlement mode from the offer", async () => {
+    const { interactionId } = await createEscrowOffer();
+    expect(db.getInteraction(interactionId)!.settlement).toBe("escrow");
+  });
+
+  it("should reject an escrow offer without a payment_address", async () => {
+    const initiator = createTestAgent();
+    const provider = createTestAgent();
+    const { interaction_id } = await negotiation.handleRequest(
+      makeEnvelope("x811/request", initiator.did, provider.did, {
+        task_type: "analysis",
+        parameters: {},
+        max_budget: 1,
+        currency: "USDC",
+        deadline: 3600,
+        acceptance_policy: "auto",
+        idempotency_key: randomUUID(),
+      }),
+    );
+
+    await expect(
+      negotiation.handleOffer(
+        makeEnvelope("x811/offer", provider.did, initiator.did, {
+          request_id: interaction_id,
+          price: "0.03",
+          protocol_fee: "0.00075",
+          total_cost: "0.03075",
+          currency: "USDC",
+          estimated_time: 30,
+          deliverables: ["report"],
+          expiry: 300,
+          settlement: "escrow",
+        }),
+      ),
+    ).rejects.toThrow("Escrow offers must include a payment_address");
+  });
+
+  it("should reject accept when the escrow is not funded", async () => {
+    const { initiator, provider, interactionId } = await createEscrowOffer();
+
+    await expect(
+      negotiation.handleAccept(acceptEnvelope(initiator.did, provider.did, interactionId, "0xnodeposit")),
+    ).rejects.toThrow("Escrow is not funded");
+    expect(db.getInteraction(interactionId)!.status).toBe("offered");
+  });
+
+  it("should reject accept without an escrow_tx_hash", async () => {
+    const { initiator, provider, interactionId } = await createEscrowOffer();
+    deposit(interactionId);
+
+    await expect(
+      negotiation.handleAccept(acceptEnvelope(initiator.did, provider.did, interactionId)),
+    ).rejects.toThrow("Missing escrow_tx_hash");
+  });
+
+  it("should reject a deposit made by someone other than the initiator", async () => {
+    const { initiator, provider, interactionId } = await createEscrowOffer();
+    const tx = escrow.deposit(computeEscrowId(interactionId), {
+      payer: "0x3333333333333333333333333333333333333333",
+      payee: PAYEE,
+      amount: "0.03",
+      fee: "0.00075",
+      deadline: Math.floor(Date.now() / 1000) + 7200,
+    });
+
+    await expect(
+      negotiation.handleAccept(acceptEnvelope(initiator.did, provider.did, interactionId, tx)),
+    ).rejects.toThrow("Escrow payer does not match the initiator's payment_address");
+    expect(db.getInteraction(interactionId)!.status).toBe("offered");
+  });
+
+  it("should reject a deposit to the wrong payee", async () => {
+    const { initiator, provider, interactionId } = await createEscrowOffer();
+    const tx = deposit(interactionId, { payee: PAYER });
+
+    await expect(
+      negotiation.handleAccept(acceptEnvelope(initiator.did, provider.did, interactionId, tx)),
+    ).rejects.toThrow("Escrow payee does not match");
+  });
+
+  it("should reject a deposit that does not cover the offer", async () => {
+    const { initiator, provider, interactionId } = await createEscrowOffer();
+    const tx = deposit(interactionId, { amount: "0.02" });
+
+    try {
+      await negotiation.handleAccept(acceptEnvelope(initiator.did, provider.did, interactionId, tx));
+      expect.fail("Should have thrown");
+    } catch (err) {
+      expect(err).toBeInstanceOf(NegotiationError);
+      expect((err as NegotiationError).code).toBe("X811-5002");
+    }
+  });
+
+  it("should reject a deposit whose deadline ends before verification", async () => {
+    const { initiator, provider, interactionId } = await createEscrowOffer();
+    const tx = deposit(interactionId, { deadline: Math.floor(Date.now() / 1000) + 60 });
+
+    await expect(
+      negotiation.handleAccept(acceptEnvelope(initiator.did, provider.did, interactionId, tx)),
+    ).rejects.toThrow("Escrow deadline is too short");
+  });
+
+  it("should release the escrow and complete on verify", async () => {
+    const { initiator, provider, interactionId } = await driveToDelivered();
+    expect(db.getInteraction(interactionId)!.escrow_status).toBe("funded");
+
+    const result = await negotiation.handleVerify(
+      makeEnvelope("x811/verify", initiator.did, provider.did, {
+        request_id: interactionId,
+        result_hash: "abc123",
+        verified: true,
+      }),
+    );
+
+    expect(result.status).toBe("completed");
+    const final = db.getInteraction(interactionId)!;
+    expect(final.outcome).toBe("success");
+    expect(final.escrow_status).toBe("released");
+    expect(final.payment_tx).toMatch(/^0x/);
+    expect(final.payment_amount).toBeCloseTo(0.03075);
+    expect((await escrow.getDeposit(computeEscrowId(interactionId))).status).toBe("released");
+    expect(db.getAgentByDid(provider.did)!.successful_count).toBe(1);
+    expect(batching.pendingCount).toBe(1);
+  });
+
+  it("should stay delivered when the release transaction fails", async () => {
+    const { initiator, provider, interactionId } = await driveToDelivered();
+    // Funds already moved out from under the server (e.g. payer released directly)
+    await escrow.release(computeEscrowId(interactionId));
+
+    await expect(
+      negotiation.handleVerify(
+        makeEnvelope("x811/verify", initiator.did, provider.did, {
+          request_id: interactionId,
+          result_hash: "abc123",
+          verified: true,
+        }),
+      ),
+    ).rejects.toThrow("Escrow release failed");
+    expect(db.getInteraction(interactionId)!.status).toBe("delivered");
+  });
+
+  it("should refund the escrow of an interaction that expired before delivery", async () => {
+    const { initiator, provider, interactionId } = await createEscrowOffer();
+    const tx = deposit(interactionId);
+    await negotiation.handleAccept(acceptEnvelope(initiator.did, provider.did, interactionId, tx));
+
+    db.raw
+      .prepare("UPDATE interactions SET expires_at = ? WHERE id = ?")
+      .run(new Date(Date.now() - 1_000).toISOString(), interactionId);
+    negotiation.checkExpiredInteractions();
+    expect(db.getInteraction(interactionId)!.status).toBe("expired");
+
+    expect(await negotiation.refundExpiredEscrows()).toBe(1);
+    expect(db.getInteraction(interactionId)!.escrow_status).toBe("refunded");
+    expect((await escrow.getDeposit(computeEscrowId(interactionId))).status).toBe("refunded");
+
+    // Nothing left to refund
+    expect(await negotiation.refundExpiredEscrows()).toBe(0);
+  });
+
+  it("should release the escrow to the provider when a delivered result goes unverified", async () => {
+    const { provider, interactionId } = await driveToDelivered();
+
+    db.raw
+      .prepare("UPDATE interactions SET expires_at = ? WHERE id = ?")
+      .run(new Date(Date.now() - 1_000).toISOString(), interactionId);
+    negotiation.checkExpiredInteractions();
+    expect(db.getInteraction(interactionId)!.status).toBe("delivered");
+    expect(await negotiation.refundExpiredEscrows()).toBe(0);
+
+    expect(await negotiation.releaseUnverifiedEscrows()).toBe(1);
+    const final = db.getInteraction(interactionId)!;
+    expect(final.status).toBe("completed");
+    expect(final.escrow_status).toBe("released");
+    expect((await escrow.getDeposit(computeEscrowId(interactionId))).status).toBe("released");
+    expect(db.getAgentByDid(provider.did)!.successful_count).toBe(1);
+
+    // Nothing left to release
+    expect(await negotiation.releaseUnverifiedEscrows()).toBe(0);
+  });
+
+  it("should refund the escrow of a cancelled interaction", async () => {
+    const { initiator, provider, interactionId } = await createEscrowOffer();
+    const tx = deposit(interactionId);
+    await negotiation.handleAccept(acceptEnvelope(initiator.did, provider.did, interactionId, tx));
+
+    await negotiation.handleCancel(
+      makeEnvelope("x811/cancel", provider.did, initiator.did, {
+        interaction_id: interactionId,
+        force: true,
+      }),
+    );
+
+    expect(await negotiation.refundExpiredEscrows()).toBe(1);
+    expect(db.getInteraction(interactionId)!.escrow_status).toBe("refunded");
+  });
+});
+
+// ===========================================================================
+// Dispute resolution
+// ===========================================================================
+
+describe("Dispute resolution", () => {
+  const PAYER = "0x1111111111111111111111111111111111111111";
+  const PAYEE = "0x2222222222222222222222222222222222222222";
+  const CONTENT = JSON.stringify({ summary: "done" });
+
+  let batching: BatchingService;
+  let escrow: MockEscrowService;
+
+  beforeEach(() => {
+    batching = new BatchingService(db, new MockRelayerService(), {
+      sizeThreshold: 100,
+      timeThresholdMs: 300_000,
+    });
+    escrow = new MockEscrowService();
+  });
+
+  function createNegotiation(arbiter: IArbiter = new AutomatedArbiter(new CapabilityService(db))) {
+    return new NegotiationService(
+      db,
+      new MessageRouterService(db),
+      batching,
+      new TrustService(db),
+      undefined,
+      escrow,
+      arbiter,
+    );
+  }
+
+  function makeEnvelope(type: string, from: string, to: string, payload: unknown) {
+    return {
+      version: "0.1.0" as const,
+      id: randomUUID(),
+      type,
+      from,
+      to,
+      created: new Date().toISOString(),
+      payload,
+      signature: "test-signature",
+      nonce: randomUUID(),
+    };
+  }
+
+  /** Drive a 0.03 USDC interaction to "delivered" with the given result. */
+  async function driveToDelivered(
+    negotiation: NegotiationService,
+    options: { settlement?: "direct" | "escrow"; content?: string; resultHash?: string } = {},
+  ) {
+    const settlement = options.settlement ?? "direct";
+    const content = options.content ?? CONTENT;
+    const initiator = createTestAgent({ payment_address: PAYER });
+    const provider = createTestAgent();
+
+    const { interaction_id: interactionId } = await negotiation.handleRequest(
+      makeEnvelope("x811/request", initiator.did, provider.did, {
+        task_type: "analysis",
+        parameters: {},
+        max_budget: 1,
+        currency: "USDC",
+        deadline: 3600,
+        acceptance_policy: "auto",
+        idempotency_key: randomUUID(),
+      }),
+    );
+    await negotiation.handleOffer(
+      makeEnvelope("x811/offer", provider.did, initiator.did, {
+        request_id: interactionId,
+        price: "0.03",
+        protocol_fee: "0.00075",
+        total_cost: "0.03075",
+        currency: "USDC",
+        estimated_time: 30,
+        deliverables: ["report"],
+        expiry: 300,
+        payment_address: PAYEE,
+        settlement,
+      }),
+    );
+
+    const escrowTx = settlement === "escrow"
+      ? escrow.deposit(computeEscrowId(interactionId), {
+        payer: PAYER,
+        payee: PAYEE,
+        amount: "0.03",
+        fee: "0.00075",
+        deadline: Math.floor(Date.now() / 1000) + 7200,
+      })
+      : undefined;
+    const offerPayload = db.getInteraction(interactionId)!.offer_payload!;
+    await negotiation.handleAccept(
+      makeEnvelope("x811/accept", initiator.did, provider.did, {
+        offer_id: interactionId,
+        offer_hash: bytesToHex(sha256(new TextEncoder().encode(offerPayload))),
+        escrow_tx_hash: escrowTx,
+      }),
+    );
+
+    await negotiation.handleResult(
+      makeEnvelope("x811/result", provider.did, initiator.did, {
+        request_id: interactionId,
+        offer_id: interactionId,
+        content,
+        content_type: "application/json",
+        result_hash: options.resultHash ?? hashPayload(content),
+        execution_time_ms: 10,
+      }),
+    );
+    return { initiator, provider, interactionId };
+  }
+
+  function dispute(
+    negotiation: NegotiationService,
+    initiatorDid: string,
+    providerDid: string,
+    interactionId: string,
+    disputeCode = "QUALITY",
+  ) {
+    return negotiation.handleVerify(
+      makeEnvelope("x811/verify", initiatorDid, providerDid, {
+        request_id: interactionId,
+        result_hash: "ignored",
+        verified: false,
+        dispute_code: disputeCode,
+        dispute_reason: "Not what was asked for",
+      }),
+    );
+  }
+
+  function respond(
+    negotiation: NegotiationService,
+    providerDid: string,
+    initiatorDid: string,
+    interactionId: string,
+  ) {
+    return negotiation.handleDisputeResponse(
+      makeEnvelope("x811/dispute-response", providerDid, initiatorDid, {
+        request_id: interactionId,
+        evidence: "The report covers every requested section",
+      }),
+    );
+  }
+
+  it("should move a delivered interaction to disputed on verify(false)", async () => {
+    const negotiation = createNegotiation();
+    const { initiator, provider, interactionId } = await driveToDelivered(negotiation);
+
+    const result = await dispute(negotiation, initiator.did, provider.did, interactionId);
+
+    expect(result.status).toBe("disputed");
+    const interaction = db.getInteraction(interactionId)!;
+    expect(interaction.outcome).toBe("dispute");
+    expect(JSON.parse(interaction.dispute_payload!).dispute_code).toBe("QUALITY");
+  });
+
+  it("should reject a dispute without a valid dispute_code", async () => {
+    const negotiation = createNegotiation();
+    const { initiator, provider, interactionId } = await driveToDelivered(negotiation);
+
+    await expect(
+      dispute(negotiation, initiator.did, provider.did, interactionId, "UNHAPPY"),
+    ).rejects.toThrow("Missing or invalid dispute_code");
+    expect(db.getInteraction(interactionId)!.status).toBe("delivered");
+  });
+
+  it("should only accept a dispute response from the provider", async () => {
+    const negotiation = createNegotiation(new ManualArbiter());
+    const { initiator, provider, interactionId } = await driveToDelivered(negotiation);
+    await dispute(negotiation, initiator.did, provider.did, interactionId);
+
+    await expect(
+      respond(negotiation, initiator.did, provider.did, interactionId),
+    ).rejects.toThrow("Only the provider can respond to a dispute");
+
+    await respond(negotiation, provider.did, initiator.did, interactionId);
+    await expect(
+      respond(negotiation, provider.did, initiator.did, interactionId),
+    ).rejects.toThrow("Dispute response already submitted");
+  });
+
+  it("should decide for the initiator when the content does not match its hash", async () => {
+    const negotiation = createNegotiation();
+    const { initiator, provider, interactionId } = await driveToDelivered(negotiation, {
+      resultHash: "not-the-content-hash",
+    });
+    await dispute(negotiation, initiator.did, provider.did, interactionId);
+
+    const result = await respond(negotiation, provider.did, initiator.did, interactionId);
+
+    expect(result.status).toBe("failed");
+    const interaction = db.getInteraction(interactionId)!;
+    expect(interaction.outcome).toBe("failure");
+    expect(interaction.dispute_outcome).toBe("initiator_wins");
+    expect(JSON.parse(interaction.dispute_resolution!).resolved_by).toBe("automated");
+    expect(db.getAgentByDid(provider.did)!.trust_score).toBeLessThan(0.5);
+    expect(db.getAgentByDid(initiator.did)!.trust_score).toBe(0.5);
+  });
+
+  it("should decide for the initiator when the result breaks the capability's output_schema", async () => {
+    const negotiation = createNegotiation();
+    const { initiator, provider, interactionId } = await driveToDelivered(negotiation);
+    // Registered after delivery, so only the arbiter checks the result against it
+    new CapabilityService(db).setCapabilities(provider.id, [
+      {
+        name: "analysis",
+        output_schema: {
+          type: "object",
+          properties: { summary: { type: "string", minLength: 10 } },
+          required: ["summary"],
+        },
+      },
+    ]);
+    await dispute(negotiation, initiator.did, provider.did, interactionId);
+
+    const result = await respond(negotiation, provider.did, initiator.did, interactionId);
+
+    expect(result.status).toBe("failed");
+    const interaction = db.getInteraction(interactionId)!;
+    expect(interaction.dispute_outcome).toBe("initiator_wins");
+    expect(JSON.parse(interaction.dispute_resolution!).reason).toMatch(
+      /output_schema: \/summary must NOT have fewer than 10 characters/,
+    );
+  });
+
+  it("should leave judgement calls open for an admin", async () => {
+    const negotiation = createNegotiation();
+    const { initiator, provider, interactionId } = await driveToDelivered(negotiation);
+    await dispute(negotiation, initiator.did, provider.did, interactionId);
+
+    const result = await respond(negotiation, provider.did, initiator.did, interactionId);
+
+    expect(result.status).toBe("disputed");
+    expect(db.getInteraction(interactionId)!.dispute_response).not.toBeNull();
+  });
+
+  it("should return a direct interaction to verified when the provider wins", async () => {
+    const negotiation = createNegotiation(new ManualArbiter());
+    const { initiator, provider, interactionId } = await driveToDelivered(negotiation);
+    await dispute(negotiation, initiator.did, provider.did, interactionId);
+
+    const result = await negotiation.resolveDispute(
+      interactionId,
+      { outcome: "provider_wins", reason: "Report matches the request" },
+      "admin",
+    );
+
+    expect(result.status).toBe("verified");
+    expect(db.getInteraction(interactionId)!.outcome).toBe("success");
+    expect(db.getAgentByDid(initiator.did)!.trust_score).toBeLessThan(0.5);
+
+    const payment = await negotiation.handlePayment(
+      makeEnvelope("x811/payment", initiator.did, provider.did, {
+        request_id: interactionId,
+        offer_id: interactionId,
+        tx_hash: "0xfullpayment",
+        amount: 0.03075,
+        currency: "USDC",
+        network: "base",
+        payer_address: PAYER,
+        payee_address: PAYEE,
+      }),
+    );
+    expect(payment.status).toBe("completed");
+  });
+
+  it("should expect only the provider's share after a split", async () => {
+    const negotiation = createNegotiation(new ManualArbiter());
+    const { initiator, provider, interactionId } = await driveToDelivered(negotiation);
+    await dispute(negotiation, initiator.did, provider.did, interactionId);
+
+    await negotiation.resolveDispute(
+      interactionId,
+      { outcome: "split", provider_share: 0.5, reason: "Half the sections are missing" },
+      "admin",
+    );
+    expect(db.getInteraction(interactionId)!.outcome).toBe("split");
+
+    const paymentPayload = {
+      request_id: interactionId,
+      offer_id: interactionId,
+      tx_hash: "0xhalfpayment",
+      amount: 0.03075,
+      currency: "USDC",
+      network: "base",
+      payer_address: PAYER,
+      payee_address: PAYEE,
+    };
+    await expect(
+      negotiation.handlePayment(makeEnvelope("x811/payment", initiator.did, provider.did, paymentPayload)),
+    ).rejects.toThrow("Payment amount does not match offer total");
+
+    const payment = await negotiation.handlePayment(
+      makeEnvelope("x811/payment", initiator.did, provider.did, {
+        ...paymentPayload,
+        amount: 0.015375,
+      }),
+    );
+    expect(payment.status).toBe("completed");
+    expect(db.getInteraction(interactionId)!.payment_amount).toBeCloseTo(0.015375);
+  });
+
+  it("should reject a split without a valid provider_share", async () => {
+    const negotiation = createNegotiation(new ManualArbiter());
+    const { initiator, provider, interactionId } = await driveToDelivered(negotiation);
+    await dispute(negotiation, initiator.did, provider.did, interactionId);
+
+    await expect(
+      negotiation.resolveDispute(
+        interactionId,
+        { outcome: "split", provider_share: 1, reason: "Nothing to split" },
+        "admin",
+      ),
+    ).rejects.toThrow("Split outcomes require a provider_share between 0 and 1");
+    expect(db.getInteraction(interactionId)!.status).toBe("disputed");
+  });
+
+  it("should settle escrow according to the resolution", async () => {
+    const negotiation = createNegotiation(new ManualArbiter());
+    const cases = [
+      { outcome: "provider_wins", status: "completed", escrowStatus: "released", share: undefined },
+      { outcome: "split", status: "completed", escrowStatus: "split", share: 0.25 },
+      { outcome: "initiator_wins", status: "failed", escrowStatus: "refunded", share: undefined },
+    ] as const;
+
+    for (const c of cases) {
+      const { initiator, provider, interactionId } = await driveToDelivered(negotiation, {
+        settlement: "escrow",
+      });
+      await dispute(negotiation, initiator.did, provider.did, interactionId);
+
+      const result = await negotiation.resolveDispute(
+        interactionId,
+        { outcome: c.outcome, provider_share: c.share, reason: "Reviewed" },
+        "admin",
+      );
+
+      expect(result.status).toBe(c.status);
+      expect(db.getInteraction(interactionId)!.escrow_status).toBe(c.escrowStatus);
+      expect((await escrow.getDeposit(computeEscrowId(interactionId))).status).toBe(c.escrowStatus);
+    }
+
+    const completed = db.getInteractionsByStatus("completed");
+    const split = completed.find((i) => i.dispute_outcome === "split")!;
+    expect(split.payment_amount).toBeCloseTo(0.0076875);
+  });
+
+  it("should decide for the initiator when the provider never responds", async () => {
+    const negotiation = createNegotiation(new ManualArbiter());
+    const { initiator, provider, interactionId } = await driveToDelivered(negotiation);
+    await dispute(negotiation, initiator.did, provider.did, interactionId);
+
+    // Not stale yet
+    expect(await negotiation.resolveStaleDisputes()).toBe(0);
+
+    db.raw
+      .prepare("UPDATE interactions SET updated_at = ? WHERE id = ?")
+      .run(new Date(Date.now() - 3_601_000).toISOString(), interactionId);
+    expect(await negotiation.resolveStaleDisputes()).toBe(1);
+
+    const interaction = db.getInteraction(interactionId)!;
+    expect(interaction.status).toBe("failed");
+    expect(interaction.dispute_outcome).toBe("initiator_wins");
+    expect(JSON.parse(interaction.dispute_resolution!).resolved_by).toBe("timeout");
+  });
+});
+
+// ===========================================================================
+// BatchingService
+// ===========================================================================
+
+describe("BatchingService", () => {
+  let batching: BatchingService;
+  let relayer: MockRelayerService;
+
+  beforeEach(() => {
+    relayer = new MockRelayerService();
+  });
 
   describe("Size trigger", () => {
     it("should auto-submit batch when size threshold is reached", async () => {
@@ -993,13 +3210,178 @@ describe("BatchingService", () => {
       await batching.addInteraction("hash-1");
       await batching.addInteraction("hash-2"); // triggers batch (fails)
 
-      // Hashes should be re-queued
-      expect(batching.pendingCount).toBe(2);
+      // Hashes stay attached to the stored batch instead of the buffer
+      expect(batching.pendingCount).toBe(0);
 
-      // Batch should be marked as failed
+      // Batch should be marked as failed with a retry scheduled
       const { batches } = db.listBatches();
       expect(batches.length).toBe(1);
       expect(batches[0].status).toBe("failed");
+      expect(batches[0].retry_count).toBe(1);
+      expect(batches[0].last_error).toBe("Network error");
+      expect(batches[0].next_retry_at).not.toBeNull();
+    });
+
+    it("should retry failed batches with exponential backoff", async () => {
+      let failuresLeft = 2;
+      const flakyRelayer = {
+        async submitBatch(): Promise<string> {
+          if (failuresLeft-- > 0) throw new Error("Network error");
+          return "0xretried";
+        },
+        async verifyInclusion(): Promise<boolean> {
+          return true;
+        },
+        async getBalance(): Promise<string> {
+          return "0";
+        },
+      };
+
+      batching = new BatchingService(db, flakyRelayer, {
+        sizeThreshold: 1,
+        timeThresholdMs: 300_000,
+        retryBaseMs: 60_000,
+      });
+
+      await batching.addInteraction("hash-1"); // first attempt fails
+      const batchId = db.listBatches().batches[0].id;
+
+      // Backoff not yet elapsed — nothing to retry
+      expect(await batching.retryFailedBatches()).toBe(0);
+
+      const firstDelay =
+        Date.parse(db.getBatch(batchId)!.next_retry_at!) - Date.now();
+      expect(firstDelay).toBeGreaterThan(50_000);
+      expect(firstDelay).toBeLessThanOrEqual(60_000);
+
+      // Make the retry due; second attempt fails and doubles the delay
+      db.raw
+        .prepare("UPDATE batches SET next_retry_at = ? WHERE id = ?")
+        .run(new Date(Date.now() - 1).toISOString(), batchId);
+      expect(await batching.retryFailedBatches()).toBe(0);
+
+      const secondDelay =
+        Date.parse(db.getBatch(batchId)!.next_retry_at!) - Date.now();
+      expect(secondDelay).toBeGreaterThan(110_000);
+      expect(db.getBatch(batchId)!.retry_count).toBe(2);
+
+      // Third attempt succeeds with the same stored root
+      db.raw
+        .prepare("UPDATE batches SET next_retry_at = ? WHERE id = ?")
+        .run(new Date(Date.now() - 1).toISOString(), batchId);
+      expect(await batching.retryFailedBatches()).toBe(1);
+
+      const batch = db.getBatch(batchId)!;
+      expect(batch.status).toBe("submitted");
+      expect(batch.tx_hash).toBe("0xretried");
+      expect(db.listBatches().total).toBe(1);
+    });
+  });
+
+  describe("Restart recovery", () => {
+    function insertVerifiedInteraction(hash: string) {
+      db.insertInteraction({
+        id: randomUUID(),
+        interaction_hash: hash,
+        initiator_did: "did:web:x811.org:agents:initiator",
+        provider_did: "did:web:x811.org:agents:provider",
+        capability: "test",
+        status: "verified",
+        outcome: "success",
+        payment_tx: null,
+        payment_amount: null,
+        batch_id: null,
+        request_payload: null,
+        offer_payload: null,
+        result_payload: null,
+        idempotency_key: randomUUID(),
+      });
+    }
+
+    function restartDatabase() {
+      db.close();
+      db = new Database(join(testDir, "test.db"));
+    }
+
+    it("should restore unbatched interactions from the database", async () => {
+      batching = new BatchingService(db, relayer, {
+        sizeThreshold: 100,
+        timeThresholdMs: 300_000,
+      });
+      for (const hash of ["hash-1", "hash-2", "hash-3"]) {
+        insertVerifiedInteraction(hash);
+        await batching.addInteraction(hash);
+      }
+
+      // Crash before the batch is built: the buffer is lost
+      restartDatabase();
+      batching = new BatchingService(db, relayer, {
+        sizeThreshold: 100,
+        timeThresholdMs: 300_000,
+      });
+      expect(batching.recover()).toBe(3);
+      expect(batching.pendingCount).toBe(3);
+
+      await batching.submitBatch();
+      expect(db.getUnbatchedInteractions()).toHaveLength(0);
+      expect(db.getMerkleProof("hash-2")).toBeDefined();
+    });
+
+    it("should not restore interactions twice", () => {
+      insertVerifiedInteraction("hash-1");
+      batching = new BatchingService(db, relayer, {
+        sizeThreshold: 100,
+        timeThresholdMs: 300_000,
+      });
+
+      expect(batching.recover()).toBe(1);
+      expect(batching.recover()).toBe(0);
+      expect(batching.pendingCount).toBe(1);
+    });
+
+    it("should resubmit a batch left pending by a restart mid-submission", async () => {
+      // Relayer that never answers — the process dies while waiting on it
+      const hangingRelayer = {
+        submitBatch: () => new Promise<string>(() => {}),
+        async verifyInclusion(): Promise<boolean> {
+          return true;
+        },
+        async getBalance(): Promise<string> {
+          return "0";
+        },
+      };
+      batching = new BatchingService(db, hangingRelayer, {
+        sizeThreshold: 2,
+        timeThresholdMs: 300_000,
+      });
+      insertVerifiedInteraction("hash-a");
+      insertVerifiedInteraction("hash-b");
+      await batching.addInteraction("hash-a");
+      void batching.addInteraction("hash-b"); // batch stored, submission in flight
+
+      const stuck = db.listBatches().batches[0];
+      expect(stuck.status).toBe("pending");
+      const proofBefore = db.getMerkleProof("hash-a")!;
+
+      restartDatabase();
+      batching = new BatchingService(db, relayer, {
+        sizeThreshold: 2,
+        timeThresholdMs: 300_000,
+      });
+
+      // Already batched, so nothing goes back into the buffer
+      expect(batching.recover()).toBe(0);
+      expect(db.getBatch(stuck.id)!.status).toBe("failed");
+
+      expect(await batching.retryFailedBatches()).toBe(1);
+      const batch = db.getBatch(stuck.id)!;
+      expect(batch.status).toBe("submitted");
+      expect(relayer.getBatches()[0].merkleRoot).toBe(`0x${stuck.merkle_root}`);
+
+      // Interactions keep their original batch and proofs
+      expect(db.getMerkleProof("hash-a")!.proof).toBe(proofBefore.proof);
+      expect(db.getInteractionByHash("hash-b")!.batch_id).toBe(stuck.id);
+      expect(db.listBatches().total).toBe(1);
     });
   });
 
@@ -3,7 +3,8 @@
  *
  * Exhaustively tests calculateTrustScore, applyTimeDecay, recordSuccess,
  * recordFailure, and trust-gated filtering to ensure the trust subsystem
- * is mathematically sound.
+ * is mathematically sound, and runs trust-farming attacks against the
+ * weighted (sybil-resistant) trust model.
  */
 
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
@@ -14,6 +15,7 @@ import { tmpdir } from "node:os";
 
 import { Database } from "../db/schema.js";
 import { TrustService } from "../services/trust.js";
+import { WeightedTrustModel } from "../services/trust-models.js";
 
 // ---------------------------------------------------------------------------
 // Test setup
@@ -382,3 +384,158 @@ describe("TrustService — Correctness Proofs", () => {
     });
   });
 });
+
+// ===========================================================================
+// Sybil resistance (weighted model)
+// ===========================================================================
+
+describe("WeightedTrustModel — Adversarial scenarios", () => {
+  let model: WeightedTrustModel;
+  let trust: TrustService;
+
+  beforeEach(() => {
+    model = new WeightedTrustModel(db);
+    trust = new TrustService(db, model);
+  });
+
+  /** Store a completed interaction between two agents. */
+  function completeInteraction(initiatorDid: string, providerDid: string, amount: number) {
+    db.insertInteraction({
+      id: randomUUID(),
+      interaction_hash: `hash-${randomUUID()}`,
+      initiator_did: initiatorDid,
+      provider_did: providerDid,
+      capability: "analysis",
+      status: "completed",
+      outcome: "success",
+      payment_tx: `0x${randomUUID().replace(/-/g, "")}`,
+      payment_amount: amount,
+      batch_id: null,
+      request_payload: null,
+      offer_payload: null,
+      result_payload: null,
+      idempotency_key: randomUUID(),
+    });
+  }
+
+  /** Complete an interaction and update both parties the way negotiation does. */
+  function trade(initiatorDid: string, providerDid: string, amount: number) {
+    completeInteraction(initiatorDid, providerDid, amount);
+    trust.recordSuccess(initiatorDid);
+    trust.recordSuccess(providerDid);
+  }
+
+  function scoreOf(did: string): number {
+    return model.assess(db.getAgentByDid(did)!).score;
+  }
+
+  it("should keep two fresh DIDs farming dust payments near neutral", () => {
+    const a = createTestAgent();
+    const b = createTestAgent();
+    for (let i = 0; i < 200; i++) trade(a.did, b.did, 0.0001);
+
+    // The counting formula rewards the same history with a near-perfect score
+    const counted = new TrustService(db).calculateTrustScore({
+      successful: 200,
+      failed: 0,
+      disputes: 0,
+      time_active_days: 0,
+    });
+    expect(counted).toBeGreaterThanOrEqual(0.95);
+
+    expect(db.getAgent(a.id)!.trust_score).toBeLessThanOrEqual(0.5);
+    expect(db.getAgent(b.id)!.trust_score).toBeLessThanOrEqual(0.5);
+  });
+
+  it("should weight interactions by the counterparty's trust", () => {
+    const fromTrusted = createTestAgent();
+    const fromUntrusted = createTestAgent();
+    const trusted = createTestAgent({ trust_score: 0.95 });
+    const untrusted = createTestAgent({ trust_score: 0.1 });
+    completeInteraction(trusted.did, fromTrusted.did, 1);
+    completeInteraction(untrusted.did, fromUntrusted.did, 1);
+
+    expect(scoreOf(fromTrusted.did)).toBeGreaterThan(scoreOf(fromUntrusted.did));
+  });
+
+  it("should weight interactions by payment volume", () => {
+    const wellPaid = createTestAgent();
+    const dustPaid = createTestAgent();
+    const client = createTestAgent({ trust_score: 0.9 });
+    completeInteraction(client.did, wellPaid.did, 5);
+    completeInteraction(client.did, dustPaid.did, 0.001);
+
+    expect(scoreOf(wellPaid.did)).toBeGreaterThan(0.6);
+    expect(scoreOf(dustPaid.did)).toBe(0.5);
+  });
+
+  it("should give repeat interactions with the same counterparty diminishing returns", () => {
+    const repeat = createTestAgent();
+    const spread = createTestAgent();
+    const regular = createTestAgent({ trust_score: 0.9 });
+    for (let i = 0; i < 8; i++) {
+      completeInteraction(regular.did, repeat.did, 1);
+      completeInteraction(createTestAgent({ trust_score: 0.9 }).did, spread.did, 1);
+    }
+
+    expect(scoreOf(spread.did)).toBeGreaterThan(scoreOf(repeat.did) + 0.1);
+  });
+
+  it("should flag a closed ring of agents trading only with each other", () => {
+    const ring = [createTestAgent(), createTestAgent(), createTestAgent(), createTestAgent()];
+    for (let round = 0; round < 10; round++) {
+      for (let i = 0; i < ring.length; i++) {
+        trade(ring[i].did, ring[(i + 1) % ring.length].did, 1);
+      }
+    }
+
+    for (const member of ring) {
+      const stored = db.getAgent(member.id)!;
+      expect(JSON.parse(stored.trust_flags!)).toEqual(["closed_cluster"]);
+      expect(stored.trust_score).toBeLessThanOrEqual(0.5);
+    }
+
+    // One member starts serving an established client: the group is open again
+    const client = createTestAgent({ trust_score: 0.9 });
+    for (let i = 0; i < 5; i++) completeInteraction(client.did, createTestAgent().did, 1);
+    trade(client.did, ring[0].did, 1);
+    const reopened = db.getAgent(ring[0].id)!;
+    expect(reopened.trust_flags).toBeNull();
+    expect(reopened.trust_score).toBeGreaterThan(0.5);
+  });
+
+  it("should not flag an agent with many distinct trusted counterparties", () => {
+    const provider = createTestAgent();
+    for (let i = 0; i < 12; i++) {
+      trade(createTestAgent({ trust_score: 0.9 }).did, provider.did, 1);
+    }
+
+    const stored = db.getAgent(provider.id)!;
+    expect(stored.trust_flags).toBeNull();
+    expect(stored.trust_score).toBeGreaterThanOrEqual(0.8);
+  });
+
+  it("should not let volume buy back failures and lost disputes", () => {
+    const clean = createTestAgent();
+    const failing = createTestAgent({ failed_count: 5 });
+    for (let i = 0; i < 5; i++) {
+      const client = createTestAgent({ trust_score: 0.9 });
+      completeInteraction(client.did, clean.did, 10);
+      completeInteraction(client.did, failing.did, 10);
+    }
+
+    expect(scoreOf(failing.did)).toBeLessThan(0.6);
+    expect(scoreOf(clean.did)).toBeGreaterThan(scoreOf(failing.did) + 0.2);
+  });
+
+  it("should keep scores within [0, 1]", () => {
+    const hopeless = createTestAgent({ failed_count: 10_000 });
+    const prolific = createTestAgent();
+    for (let i = 0; i < 50; i++) {
+      completeInteraction(createTestAgent({ trust_score: 1 }).did, prolific.did, 1_000_000);
+    }
+
+    expect(scoreOf(hopeless.did)).toBeGreaterThanOrEqual(0);
+    expect(scoreOf(prolific.did)).toBeLessThanOrEqual(1);
+  });
+});
@@ -7,8 +7,18 @@
 import "dotenv/config";
 
 import Fastify, { type FastifyInstance } from "fastify";
+import {
+  DIDResolverRegistry,
+  MESSAGE_LIMITS,
+  generateSigningKeyPair,
+  resolveDIDKey,
+  resolveDIDWeb,
+  signingKeyPairFromPrivateKey,
+} from "@x811/core";
+import { hexToBytes } from "@noble/hashes/utils";
 import cors from "@fastify/cors";
 import rateLimit from "@fastify/rate-limit";
+import websocket from "@fastify/websocket";
 import { mkdirSync } from "node:fs";
 import { dirname } from "node:path";
 
@@ -19,18 +29,49 @@ import { MessageRouterService } from "./services/router.js";
 import { SSEManager } from "./services/sse-manager.js";
 import { NegotiationService } from "./services/negotiation.js";
 import { TrustService } from "./services/trust.js";
+import { CountingTrustModel, WeightedTrustModel, type ITrustModel } from "./services/trust-models.js";
+import { AttestationService } from "./services/attestation.js";
+import { WebhookDispatcher } from "./services/webhooks.js";
+import { BlobStore } from "./services/blobs.js";
+import { CapabilityService } from "./services/capabilities.js";
 import { BatchingService } from "./services/batching.js";
 import {
   RelayerService,
   MockRelayerService,
   type IRelayerService,
 } from "./services/relayer.js";
+import {
+  PaymentVerifierService,
+  MockPaymentVerifierService,
+  type IPaymentVerifier,
+} from "./services/payment-verifier.js";
+import {
+  EscrowService,
+  MockEscrowService,
+  type IEscrowService,
+} from "./services/escrow.js";
+import {
+  FederationService,
+  HttpFederationTransport,
+  type IFederationTransport,
+} from "./services/federation.js";
+import type { HostLookup } from "./services/outbound.js";
+import {
+  AutomatedArbiter,
+  ManualArbiter,
+  type IArbiter,
+} from "./services/arbiter.js";
 
 import agentRoutes from "./routes/agents.js";
 import messageRoutes from "./routes/messages.js";
 import sseRoutes from "./routes/sse.js";
 import verifyRoutes from "./routes/verify.js";
 import wellKnownRoutes from "./routes/well-known.js";
+import adminRoutes from "./routes/admin.js";
+import rfqRoutes from "./routes/rfqs.js";
+import federationRoutes from "./routes/federation.js";
+import capabilityRoutes from "./routes/capabilities.js";
+import blobRoutes from "./routes/blobs.js";
 
 // ---------------------------------------------------------------------------
 // Fastify type augmentation — decorate instance with services
@@ -43,9 +84,17 @@ declare module "fastify" {
     messageRouter: MessageRouterService;
     negotiation: NegotiationService;
     trust: TrustService;
+    capabilities: CapabilityService;
     batching: BatchingService;
     relayer: IRelayerService;
+    paymentVerifier: IPaymentVerifier;
+    escrow: IEscrowService | null;
     sseManager: SSEManager;
+    didResolver: DIDResolverRegistry;
+    federation: FederationService;
+    attestations: AttestationService;
+    webhooks: WebhookDispatcher | null;
+    blobs: BlobStore;
     relayerMode: string;
     startedAt: number;
   }
@@ -59,6 +108,20 @@ export async function buildApp(
   overrides?: Partial<{
     databaseUrl: string;
     skipRateLimit: boolean;
+    /** Server identity, allowed peers and peer transport, for running several servers in one process. */
+    federation: {
+      didDomain: string;
+      url: string;
+      transport: IFederationTransport;
+      allowedPeers?: string[];
+      lookup?: HostLookup;
+    };
+    /** Webhook settings and HTTP transport, overriding the WEBHOOK_* config. */
+    webhooks: { maxAttempts: number; retryBaseMs: number; transport: IFederationTransport };
+    /** Directory for result blobs, overriding BLOB_DIR. */
+    blobDir: string;
+    /** Whether the mock payment verifier confirms unknown tx hashes, overriding MOCK_PAYMENT_AUTO_CONFIRM. */
+    mockPaymentAutoConfirm: boolean;
   }>,
 ): Promise<FastifyInstance> {
   const app = Fastify({
@@ -97,6 +160,12 @@ export async function buildApp(
     });
   }
 
+  // WebSocket transport (GET /api/v1/messages/:agentId/ws); a frame holds
+  // at most one envelope
+  await app.register(websocket, {
+    options: { maxPayload: MESSAGE_LIMITS.MAX_ENVELOPE_SIZE + 1024 },
+  });
+
   // -----------------------------------------------------------------------
   // Database
   // -----------------------------------------------------------------------
@@ -145,14 +214,142 @@ export async function buildApp(
 
   const relayerMode = (relayer instanceof RelayerService) ? "live" : "mock";
 
-  const trust = new TrustService(db);
+  // Payment verification only reads the chain, so no keys are needed
+  const paymentVerifier: IPaymentVerifier =
+    config.nodeEnv === "production"
+      ? new PaymentVerifierService(
+        config.baseRpcUrl,
+        config.usdcContractAddress,
+        config.paymentConfirmations,
+      )
+      : new MockPaymentVerifierService(
+        config.usdcContractAddress,
+        config.paymentConfirmations,
+        overrides?.mockPaymentAutoConfirm ?? config.mockPaymentAutoConfirm,
+      );
+
+  // Escrow release/refund is sent by the relayer wallet, the contract's arbiter
+  let escrow: IEscrowService | null;
+  if (config.nodeEnv !== "production") {
+    escrow = new MockEscrowService();
+  } else if (config.relayerPrivateKey && config.escrowContractAddress) {
+    escrow = new EscrowService(
+      config.baseRpcUrl,
+      config.relayerPrivateKey,
+      config.escrowContractAddress,
+    );
+  } else {
+    escrow = null;
+    app.log.warn(
+      "WARNING: Running in production without escrow — offers with settlement \"escrow\" are refused. " +
+      "Set RELAYER_PRIVATE_KEY and ESCROW_CONTRACT_ADDRESS to enable escrow settlement.",
+    );
+  }
+
+  const capabilities = new CapabilityService(db, config.capabilityAliases);
+  capabilities.reindex();
+  const arbiter: IArbiter =
+    config.disputeArbiter === "manual" ? new ManualArbiter() : new AutomatedArbiter(capabilities);
+
+  const trustModel: ITrustModel =
+    config.trustModel === "weighted" ? new WeightedTrustModel(db) : new CountingTrustModel(db);
+  const trust = new TrustService(db, trustModel);
   const batching = new BatchingService(db, relayer, {
     sizeThreshold: config.batchSizeThreshold,
     timeThresholdMs: config.batchTimeThresholdMs,
   });
-  const registry = new RegistryService(db, trust);
-  const messageRouter = new MessageRouterService(db, sseManager);
-  const negotiation = new NegotiationService(db, messageRouter, batching, trust);
+
+  // Re-queue interactions left unanchored by a previous run
+  const restoredHashes = batching.recover();
+  if (restoredHashes > 0) {
+    app.log.info(`Restored ${restoredHashes} unbatched interactions for anchoring`);
+  }
+
+  // The server DID's key signs server-to-server envelopes
+  const serverKey = config.serverSigningKey
+    ? signingKeyPairFromPrivateKey(hexToBytes(config.serverSigningKey.replace(/^0x/, "")))
+    : generateSigningKeyPair();
+  if (!config.serverSigningKey && config.nodeEnv === "production") {
+    app.log.warn(
+      "WARNING: SERVER_SIGNING_KEY is not set — the server DID gets a new key on every restart. " +
+      "Set it so federated peers can keep verifying this server.",
+    );
+  }
+
+  // Agents hosted elsewhere (did:web on another domain, did:key) are
+  // resolved on demand; registered agents are always read from the database
+  const didResolver = new DIDResolverRegistry({ cacheTtlMs: config.didCacheTtl * 1000 })
+    .register("web", resolveDIDWeb)
+    .register("key", resolveDIDKey);
+
+  // Federation routes are only served when there are servers to peer with
+  const allowedPeers = overrides?.federation?.allowedPeers ??
+    [...config.federationPeers, ...config.federationAllowedPeers];
+  const federation = new FederationService(
+    db,
+    serverKey,
+    overrides?.federation?.transport ?? new HttpFederationTransport(config.federationTimeoutMs),
+    {
+      didDomain: overrides?.federation?.didDomain ?? config.didDomain,
+      url: overrides?.federation?.url ?? `https://${config.serverDomain}`,
+      maxRetries: config.federationMaxRetries,
+      allowedPeers,
+      allowInsecureUrls: config.nodeEnv === "development",
+      lookup: overrides?.federation?.lookup,
+    },
+    didResolver,
+  );
+
+  // Trust attestations are signed with the server DID's key
+  const attestations = new AttestationService(db, federation.did, serverKey, config.attestationTtl);
+
+  // ...and so are webhook deliveries
+  const webhookMaxAttempts = overrides?.webhooks?.maxAttempts ?? config.webhookMaxAttempts;
+  const webhooks = webhookMaxAttempts > 0
+    ? new WebhookDispatcher(
+      db,
+      federation.did,
+      serverKey,
+      overrides?.webhooks?.transport ?? new HttpFederationTransport(config.webhookTimeoutMs),
+      {
+        maxAttempts: webhookMaxAttempts,
+        retryBaseMs: overrides?.webhooks?.retryBaseMs ?? config.webhookRetryBaseMs,
+        timeoutMs: config.webhookTimeoutMs,
+        allowInsecureUrls: config.nodeEnv === "development",
+      },
+    )
+    : null;
+
+  // Result blobs are served from this server's own URL
+  const blobs = new BlobStore(db, {
+    dir: overrides?.blobDir ?? config.blobDir,
+    baseUrl: overrides?.federation?.url ?? `https://${config.serverDomain}`,
+  });
+
+  const registry = new RegistryService(db, trust, sseManager, capabilities);
+  const messageRouter = new MessageRouterService(db, sseManager, federation, {
+    visibilityTimeoutSeconds: config.messageVisibilityTimeout,
+    maxRedeliveries: config.messageMaxRedeliveries,
+  }, webhooks ?? undefined);
+  const negotiation = new NegotiationService(
+    db,
+    messageRouter,
+    batching,
+    trust,
+    paymentVerifier,
+    escrow ?? undefined,
+    arbiter,
+    config.maxCounterRounds,
+    {
+      requestTtl: config.requestTtl,
+      verifyTtl: config.verifyTtl,
+      minTtl: config.minNegotiationTtl,
+      maxTtl: config.maxNegotiationTtl,
+    },
+    capabilities,
+    attestations,
+    blobs,
+  );
 
   // -----------------------------------------------------------------------
   // Decorate Fastify instance
@@ -163,9 +360,17 @@ export async function buildApp(
   app.decorate("messageRouter", messageRouter);
   app.decorate("negotiation", negotiation);
   app.decorate("trust", trust);
+  app.decorate("capabilities", capabilities);
   app.decorate("batching", batching);
   app.decorate("relayer", relayer);
+  app.decorate("paymentVerifier", paymentVerifier);
+  app.decorate("escrow", escrow);
   app.decorate("sseManager", sseManager);
+  app.decorate("didResolver", didResolver);
+  app.decorate("federation", federation);
+  app.decorate("attestations", attestations);
+  app.decorate("webhooks", webhooks);
+  app.decorate("blobs", blobs);
   app.decorate("relayerMode", relayerMode);
   app.decorate("startedAt", Date.now());
 
@@ -178,6 +383,13 @@ export async function buildApp(
   await app.register(sseRoutes);
   await app.register(verifyRoutes);
   await app.register(wellKnownRoutes);
+  await app.register(adminRoutes);
+  await app.register(rfqRoutes);
+  if (allowedPeers.length > 0) {
+    await app.register(federationRoutes);
+  }
+  await app.register(capabilityRoutes);
+  await app.register(blobRoutes);
 
   // -----------------------------------------------------------------------
   // Global error handler
@@ -252,6 +464,15 @@ export async function start(): Promise<void> {
     }
   }, 300_000);
 
+  // Start periodic release of result blobs of finished interactions (every 5 minutes)
+  const blobCleanupInterval = setInterval(() => {
+    try {
+      app.blobs.releaseFinished();
+    } catch (err) {
+      app.log.error(err, "Error releasing result blobs");
+    }
+  }, 300_000);
+
   // Start periodic nonce cleanup (every hour)
   const nonceCleanupInterval = setInterval(() => {
     try {
@@ -270,12 +491,77 @@ export async function start(): Promise<void> {
     }
   }, 60_000);
 
+  // Start periodic on-chain payment confirmation check (every 10 seconds)
+  const paymentInterval = setInterval(() => {
+    app.negotiation.checkPendingPayments().catch((err) => {
+      app.log.error(err, "Error checking pending payments");
+    });
+  }, 10_000);
+
+  // Start periodic refund of escrows left by expired/failed interactions, and release of
+  // escrows whose delivered result went unverified (every 60 seconds)
+  const escrowRefundInterval = setInterval(() => {
+    app.negotiation.refundExpiredEscrows().catch((err) => {
+      app.log.error(err, "Error refunding expired escrows");
+    });
+    app.negotiation.releaseUnverifiedEscrows().catch((err) => {
+      app.log.error(err, "Error releasing unverified escrows");
+    });
+  }, 60_000);
+
+  // Start periodic resolution of unanswered disputes (every 60 seconds)
+  const disputeInterval = setInterval(() => {
+    app.negotiation.resolveStaleDisputes().catch((err) => {
+      app.log.error(err, "Error resolving stale disputes");
+    });
+  }, 60_000);
+
+  // Peer with the configured servers, then keep retrying undelivered forwards (every 30 seconds)
+  if (config.federationPeers.length > 0) {
+    app.federation.connectPeers(config.federationPeers).then(({ connected, failed }) => {
+      app.log.info(`Peered with ${connected.length} federation servers`);
+      if (failed.length > 0) {
+        app.log.warn({ failed }, "Could not peer with some federation servers");
+      }
+    }).catch((err) => {
+      app.log.error(err, "Error connecting to federation peers");
+    });
+  }
+  const forwardRetryInterval = setInterval(() => {
+    app.federation.retryPendingForwards().catch((err) => {
+      app.log.error(err, "Error retrying federated messages");
+    });
+  }, 30_000);
+
+  // Retry failed webhook deliveries once their backoff has elapsed (every 5 seconds)
+  const webhookRetryInterval = setInterval(() => {
+    app.webhooks?.retryDueDeliveries().catch((err) => {
+      app.log.error(err, "Error retrying webhook deliveries");
+    });
+  }, 5_000);
+
+  // Push messages whose lease ran out unacknowledged to agents still connected (every 5 seconds)
+  const redeliveryInterval = setInterval(() => {
+    try {
+      app.messageRouter.redeliverToConnected();
+    } catch (err) {
+      app.log.error(err, "Error redelivering leased messages");
+    }
+  }, 5_000);
+
   // Clean up intervals on close
   app.addHook("onClose", () => {
     clearInterval(heartbeatInterval);
     clearInterval(messageCleanupInterval);
+    clearInterval(blobCleanupInterval);
     clearInterval(nonceCleanupInterval);
     clearInterval(expiryInterval);
+    clearInterval(paymentInterval);
+    clearInterval(escrowRefundInterval);
+    clearInterval(disputeInterval);
+    clearInterval(forwardRetryInterval);
+    clearInterval(webhookRetryInterval);
+    clearInterval(redeliveryInterval);
   });
 
   // Graceful shutdown on signals (production only)
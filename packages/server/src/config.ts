@@ -25,6 +25,12 @@ export interface ServerConfig {
 
   /** USDC contract address on Base L2 */
   usdcContractAddress: string;
+  /** Block confirmations required before a payment tx is accepted */
+  paymentConfirmations: number;
+  /** Outside production: accept tx hashes unknown to the mock chain as confirmed payments */
+  mockPaymentAutoConfirm: boolean;
+  /** X811Escrow contract address (empty disables live escrow settlement) */
+  escrowContractAddress: string;
 
   /** Number of interactions that trigger an automatic batch submission */
   batchSizeThreshold: number;
@@ -39,10 +45,65 @@ export interface ServerConfig {
   /** Treasury wallet address for protocol fee collection */
   treasuryAddress: string;
 
+  /** Counter-offers allowed per interaction, counting both parties' rounds */
+  maxCounterRounds: number;
+  /** Seconds a provider has to answer a request with an offer */
+  requestTtl: number;
+  /** Seconds the initiator has to verify a delivered result */
+  verifyTtl: number;
+  /** Lower bound, in seconds, on every per-state negotiation deadline */
+  minNegotiationTtl: number;
+  /** Upper bound, in seconds, on every per-state negotiation deadline */
+  maxNegotiationTtl: number;
+
+  /** Dispute arbiter: "automated" (objective checks, then admin) or "manual" (admin only) */
+  disputeArbiter: string;
+  /** Bearer token for /api/v1/admin routes (empty disables the admin API) */
+  adminToken: string;
+
+  /** Trust model: "counting" (raw interaction counts) or "weighted" (counterparty trust and payment volume, sybil-resistant) */
+  trustModel: string;
+  /** Seconds a signed trust attestation stays valid */
+  attestationTtl: number;
+
+  /** Seconds an agent's previous key keeps working after a key rotation */
+  keyRotationGraceSeconds: number;
+
   /** Public domain for the server (used in DID documents) */
   serverDomain: string;
   /** DID domain (used in did:web identifiers) */
   didDomain: string;
+  /** Seconds a resolved external DID document (did:web, did:key) is cached */
+  didCacheTtl: number;
+
+  /** Ed25519 private key (hex) of the server DID (empty generates one per run) */
+  serverSigningKey: string;
+  /** Base URLs of peer x811 servers to federate with */
+  federationPeers: string[];
+  /** Further base URLs of servers allowed to peer with this one (FEDERATION_PEERS are always allowed) */
+  federationAllowedPeers: string[];
+  /** Milliseconds before a request to a peer server is abandoned */
+  federationTimeoutMs: number;
+  /** Forwarding attempts before a cross-server message is marked failed */
+  federationMaxRetries: number;
+
+  /** Seconds a polled or pushed message stays leased before it is redelivered unless acknowledged */
+  messageVisibilityTimeout: number;
+  /** Redeliveries of an unacknowledged message before it is dead-lettered */
+  messageMaxRedeliveries: number;
+
+  /** Webhook delivery attempts per message before it is left to polling/SSE (0 disables webhooks) */
+  webhookMaxAttempts: number;
+  /** Milliseconds before the first webhook retry; doubled for each further retry */
+  webhookRetryBaseMs: number;
+  /** Milliseconds before a webhook request is abandoned */
+  webhookTimeoutMs: number;
+
+  /** Directory holding uploaded result blobs */
+  blobDir: string;
+
+  /** Capability aliases (alias → taxonomy path) added to the built-in ones */
+  capabilityAliases: Record<string, string>;
 }
 
 function envInt(key: string, fallback: number): number {
@@ -52,11 +113,24 @@ function envInt(key: string, fallback: number): number {
   return Number.isNaN(parsed) ? fallback : parsed;
 }
 
+function envBool(key: string, fallback: boolean): boolean {
+  const raw = process.env[key];
+  if (raw === undefined || raw === "") return fallback;
+  return raw === "true" || raw === "1";
+}
+
 function envStr(key: string, fallback: string): string {
   const raw = process.env[key];
   return raw !== undefined && raw !== "" ? raw : fallback;
 }
 
+function envList(key: string): string[] {
+  return envStr(key, "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
 export const config: ServerConfig = {
   port: envInt("PORT", 3811),
   nodeEnv: envStr("NODE_ENV", "development"),
@@ -72,6 +146,9 @@ export const config: ServerConfig = {
     "USDC_CONTRACT_ADDRESS",
     "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
   ),
+  paymentConfirmations: envInt("PAYMENT_CONFIRMATIONS", 2),
+  mockPaymentAutoConfirm: envBool("MOCK_PAYMENT_AUTO_CONFIRM", false),
+  escrowContractAddress: envStr("ESCROW_CONTRACT_ADDRESS", ""),
 
   batchSizeThreshold: envInt("BATCH_SIZE_THRESHOLD", 100),
   batchTimeThresholdMs: envInt("BATCH_TIME_THRESHOLD_MS", 300_000),
@@ -81,6 +158,42 @@ export const config: ServerConfig = {
 
   treasuryAddress: envStr("TREASURY_ADDRESS", ""),
 
+  maxCounterRounds: envInt("MAX_COUNTER_ROUNDS", 4),
+  requestTtl: envInt("REQUEST_TTL", 60),
+  verifyTtl: envInt("VERIFY_TTL", 30),
+  minNegotiationTtl: envInt("MIN_NEGOTIATION_TTL", 30),
+  maxNegotiationTtl: envInt("MAX_NEGOTIATION_TTL", 86_400),
+
+  disputeArbiter: envStr("DISPUTE_ARBITER", "automated"),
+  adminToken: envStr("ADMIN_TOKEN", ""),
+
+  trustModel: envStr("TRUST_MODEL", "counting"),
+  attestationTtl: envInt("ATTESTATION_TTL", 86_400),
+
+  keyRotationGraceSeconds: envInt("KEY_ROTATION_GRACE_SECONDS", 300),
+
   serverDomain: envStr("SERVER_DOMAIN", "api.x811.org"),
   didDomain: envStr("DID_DOMAIN", "x811.org"),
+  didCacheTtl: envInt("DID_CACHE_TTL", 300),
+
+  serverSigningKey: envStr("SERVER_SIGNING_KEY", ""),
+  federationPeers: envList("FEDERATION_PEERS"),
+  federationAllowedPeers: envList("FEDERATION_ALLOWED_PEERS"),
+  federationTimeoutMs: envInt("FEDERATION_TIMEOUT_MS", 5000),
+  federationMaxRetries: envInt("FEDERATION_MAX_RETRIES", 5),
+
+  messageVisibilityTimeout: envInt("MESSAGE_VISIBILITY_TIMEOUT", 60),
+  messageMaxRedeliveries: envInt("MESSAGE_MAX_REDELIVERIES", 5),
+
+  webhookMaxAttempts: envInt("WEBHOOK_MAX_ATTEMPTS", 0),
+  webhookRetryBaseMs: envInt("WEBHOOK_RETRY_BASE_MS", 5000),
+  webhookTimeoutMs: envInt("WEBHOOK_TIMEOUT_MS", 5000),
+
+  blobDir: envStr("BLOB_DIR", "./data/blobs"),
+
+  capabilityAliases: Object.fromEntries(
+    envList("CAPABILITY_ALIASES")
+      .map((entry) => entry.split("=").map((part) => part.trim()))
+      .filter(([alias, path]) => alias && path),
+  ),
 };
@@ -30,6 +30,10 @@ export interface AgentRow {
   updated_at: string;
   did_document: string;
   agent_card: string;
+  /** Median accept-to-result time of the agent's recent deliveries, in ms. */
+  median_completion_ms: number | null;
+  /** Flags raised by the trust model (JSON array), e.g. ["closed_cluster"]. */
+  trust_flags: string | null;
 }
 
 export interface CapabilityRow {
@@ -37,6 +41,24 @@ export interface CapabilityRow {
   agent_id: string;
   name: string;
   metadata: string | null;
+  version: string;
+  description: string | null;
+  /** JSON Schema for request parameters (JSON). */
+  input_schema: string | null;
+  /** JSON Schema for inline result content (JSON). */
+  output_schema: string | null;
+  /** PricingModel (JSON). */
+  pricing: string | null;
+  /** Taxonomy path the name resolves to, e.g. "code/review/typescript". */
+  path: string | null;
+  /** PricingModel.model, with the price bounds below indexed for discovery. */
+  price_model: string | null;
+  /** Lowest price (the amount, or range.min) in USDC. */
+  price_min: number | null;
+  /** Highest price (the amount, or range.max) in USDC. */
+  price_max: number | null;
+  /** Unit the price applies to for "per-unit" pricing. */
+  price_unit: string | null;
 }
 
 export interface InteractionRow {
@@ -56,6 +78,19 @@ export interface InteractionRow {
   offer_payload: string | null;
   result_payload: string | null;
   idempotency_key: string | null;
+  payment_payload: string | null;
+  settlement: string;
+  escrow_status: string | null;
+  dispute_payload: string | null;
+  dispute_response: string | null;
+  dispute_outcome: string | null;
+  dispute_resolution: string | null;
+  rfq_id: string | null;
+  offer_history: string | null;
+  cancel_requested_by: string | null;
+  expires_at: string | null;
+  accepted_at: string | null;
+  delivered_at: string | null;
 }
 
 export interface BatchRow {
@@ -66,6 +101,9 @@ export interface BatchRow {
   status: string;
   created_at: string;
   confirmed_at: string | null;
+  retry_count: number;
+  next_retry_at: string | null;
+  last_error: string | null;
 }
 
 export interface MerkleProofRow {
@@ -87,6 +125,10 @@ export interface MessageRow {
   delivered_at: string | null;
   retry_count: number;
   last_error: string | null;
+  /** Home server a cross-server message is forwarded to (null for local delivery). */
+  peer_did: string | null;
+  /** When a delivered but unacknowledged ("leased") message becomes deliverable again. */
+  lease_expires_at: string | null;
 }
 
 export interface NonceRow {
@@ -96,8 +138,66 @@ export interface NonceRow {
   expires_at: string;
 }
 
+export interface DidDocumentRow {
+  agent_id: string;
+  version: number;
+  did_document: string;
+  created_at: string;
+  superseded_at: string | null;
+}
+
+export interface PeerRow {
+  did: string;
+  url: string;
+  /** Hex-encoded Ed25519 public key of the peer's server DID. */
+  public_key: string;
+  status: string;
+  last_seen_at: string | null;
+  created_at: string;
+}
+
+export interface WebhookDeliveryRow {
+  message_id: string;
+  /** Recipient of the message. */
+  agent_did: string;
+  url: string;
+  /** "pending", "delivered", "failed" (gave up; the message stays queued) or "cancelled". */
+  status: string;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_error: string | null;
+  created_at: string;
+  delivered_at: string | null;
+}
+
+export interface BlobRow {
+  /** SHA-256 hex digest of the content; the file is stored under it. */
+  hash: string;
+  interaction_id: string;
+  size: number;
+  content_type: string;
+  uploaded_by: string;
+  created_at: string;
+}
+
+export interface RemoteAgentRow {
+  did: string;
+  peer_did: string;
+  updated_at: string;
+}
+
 export interface AgentFilters {
   capability?: string;
+  /** Taxonomy path; matches capabilities at or below it. */
+  capability_path?: string;
+  /** Free-text search over agent names, descriptions and capabilities. */
+  q?: string;
+  /** Only agents with a matching capability priced at or below this (USDC). */
+  max_price?: number;
+  /** Only agents whose median completion time is at or below this. */
+  max_latency_ms?: number;
+  /** Result order (default "trust", or relevance when searching). */
+  sort?: "price" | "trust" | "latency";
   trust_min?: number;
   status?: string;
   availability?: string;
@@ -172,7 +272,18 @@ export function initializeDatabase(dbPath: string): BetterSqlite3.Database {
       request_payload   TEXT,
       offer_payload     TEXT,
       result_payload    TEXT,
-      idempotency_key   TEXT UNIQUE
+      idempotency_key   TEXT UNIQUE,
+      payment_payload   TEXT,
+      settlement        TEXT NOT NULL DEFAULT 'direct',
+      escrow_status     TEXT,
+      dispute_payload   TEXT,
+      dispute_response  TEXT,
+      dispute_outcome   TEXT,
+      dispute_resolution TEXT,
+      rfq_id            TEXT,
+      offer_history     TEXT,
+      cancel_requested_by TEXT,
+      expires_at        TEXT
     );
 
     CREATE INDEX IF NOT EXISTS idx_interactions_hash ON interactions(interaction_hash);
@@ -190,7 +301,10 @@ export function initializeDatabase(dbPath: string): BetterSqlite3.Database {
       tx_hash           TEXT,
       status            TEXT NOT NULL DEFAULT 'pending',
       created_at        TEXT NOT NULL,
-      confirmed_at      TEXT
+      confirmed_at      TEXT,
+      retry_count       INTEGER NOT NULL DEFAULT 0,
+      next_retry_at     TEXT,
+      last_error        TEXT
     );
 
     CREATE INDEX IF NOT EXISTS idx_batches_status ON batches(status);
@@ -232,11 +346,204 @@ export function initializeDatabase(dbPath: string): BetterSqlite3.Database {
 
     CREATE INDEX IF NOT EXISTS idx_nonces_expires ON nonces(expires_at);
     CREATE INDEX IF NOT EXISTS idx_nonces_did ON nonces(did);
+
+    CREATE TABLE IF NOT EXISTS did_documents (
+      agent_id      TEXT NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+      version       INTEGER NOT NULL,
+      did_document  TEXT NOT NULL,
+      created_at    TEXT NOT NULL,
+      superseded_at TEXT,
+      PRIMARY KEY (agent_id, version)
+    );
+
+    CREATE TABLE IF NOT EXISTS peers (
+      did           TEXT PRIMARY KEY,
+      url           TEXT NOT NULL,
+      public_key    TEXT NOT NULL,
+      status        TEXT NOT NULL DEFAULT 'active',
+      last_seen_at  TEXT,
+      created_at    TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS remote_agents (
+      did           TEXT PRIMARY KEY,
+      peer_did      TEXT NOT NULL REFERENCES peers(did) ON DELETE CASCADE,
+      updated_at    TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS webhook_deliveries (
+      message_id      TEXT PRIMARY KEY REFERENCES messages(id) ON DELETE CASCADE,
+      agent_did       TEXT NOT NULL,
+      url             TEXT NOT NULL,
+      status          TEXT NOT NULL DEFAULT 'pending',
+      attempts        INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at TEXT,
+      last_error      TEXT,
+      created_at      TEXT NOT NULL,
+      delivered_at    TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+
+    CREATE TABLE IF NOT EXISTS blobs (
+      hash            TEXT NOT NULL,
+      interaction_id  TEXT NOT NULL,
+      size            INTEGER NOT NULL,
+      content_type    TEXT NOT NULL,
+      uploaded_by     TEXT NOT NULL,
+      created_at      TEXT NOT NULL,
+      PRIMARY KEY (hash, interaction_id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_blobs_interaction ON blobs(interaction_id);
+  `);
+
+  // Columns added after the initial schema — existing databases were
+  // created without them, so add them in place.
+  addColumnIfMissing(db, "interactions", "payment_payload", "TEXT");
+  addColumnIfMissing(db, "interactions", "settlement", "TEXT NOT NULL DEFAULT 'direct'");
+  addColumnIfMissing(db, "interactions", "escrow_status", "TEXT");
+  addColumnIfMissing(db, "interactions", "dispute_payload", "TEXT");
+  addColumnIfMissing(db, "interactions", "dispute_response", "TEXT");
+  addColumnIfMissing(db, "interactions", "dispute_outcome", "TEXT");
+  addColumnIfMissing(db, "interactions", "dispute_resolution", "TEXT");
+  addColumnIfMissing(db, "interactions", "rfq_id", "TEXT");
+  addColumnIfMissing(db, "interactions", "offer_history", "TEXT");
+  addColumnIfMissing(db, "interactions", "cancel_requested_by", "TEXT");
+  addColumnIfMissing(db, "interactions", "expires_at", "TEXT");
+  addColumnIfMissing(db, "batches", "retry_count", "INTEGER NOT NULL DEFAULT 0");
+  addColumnIfMissing(db, "batches", "next_retry_at", "TEXT");
+  addColumnIfMissing(db, "batches", "last_error", "TEXT");
+  addColumnIfMissing(db, "messages", "peer_did", "TEXT");
+  addColumnIfMissing(db, "capabilities", "version", "TEXT NOT NULL DEFAULT '1.0.0'");
+  addColumnIfMissing(db, "capabilities", "description", "TEXT");
+  addColumnIfMissing(db, "capabilities", "input_schema", "TEXT");
+  addColumnIfMissing(db, "capabilities", "output_schema", "TEXT");
+  addColumnIfMissing(db, "capabilities", "pricing", "TEXT");
+  addColumnIfMissing(db, "capabilities", "path", "TEXT");
+  addColumnIfMissing(db, "capabilities", "price_model", "TEXT");
+  addColumnIfMissing(db, "capabilities", "price_min", "REAL");
+  addColumnIfMissing(db, "capabilities", "price_max", "REAL");
+  addColumnIfMissing(db, "capabilities", "price_unit", "TEXT");
+  addColumnIfMissing(db, "interactions", "accepted_at", "TEXT");
+  addColumnIfMissing(db, "interactions", "delivered_at", "TEXT");
+  addColumnIfMissing(db, "agents", "median_completion_ms", "INTEGER");
+  addColumnIfMissing(db, "agents", "trust_flags", "TEXT");
+  addColumnIfMissing(db, "messages", "lease_expires_at", "TEXT");
+  createPaymentTxIndex(db);
+
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_interactions_rfq ON interactions(rfq_id) WHERE rfq_id IS NOT NULL;
+    CREATE INDEX IF NOT EXISTS idx_interactions_expires ON interactions(expires_at) WHERE expires_at IS NOT NULL;
+    CREATE INDEX IF NOT EXISTS idx_capabilities_path ON capabilities(path);
+    CREATE INDEX IF NOT EXISTS idx_capabilities_price ON capabilities(price_min);
+    CREATE INDEX IF NOT EXISTS idx_interactions_delivered ON interactions(provider_did, delivered_at)
+      WHERE delivered_at IS NOT NULL;
+
+    -- Full-text index over agents, keyed by the agents rowid and kept in
+    -- sync by triggers so every write path is covered.
+    CREATE VIRTUAL TABLE IF NOT EXISTS agent_search USING fts5(
+      name, description, capabilities, tokenize = 'porter unicode61'
+    );
+
+    CREATE TRIGGER IF NOT EXISTS agent_search_agent_insert AFTER INSERT ON agents BEGIN
+      ${reindexAgentSearch("NEW.id")}
+    END;
+    CREATE TRIGGER IF NOT EXISTS agent_search_agent_update AFTER UPDATE OF name, description ON agents BEGIN
+      ${reindexAgentSearch("NEW.id")}
+    END;
+    CREATE TRIGGER IF NOT EXISTS agent_search_agent_delete AFTER DELETE ON agents BEGIN
+      DELETE FROM agent_search WHERE rowid = OLD.rowid;
+    END;
+    CREATE TRIGGER IF NOT EXISTS agent_search_capability_insert AFTER INSERT ON capabilities BEGIN
+      ${reindexAgentSearch("NEW.agent_id")}
+    END;
+    CREATE TRIGGER IF NOT EXISTS agent_search_capability_update AFTER UPDATE ON capabilities BEGIN
+      ${reindexAgentSearch("NEW.agent_id")}
+    END;
+    CREATE TRIGGER IF NOT EXISTS agent_search_capability_delete AFTER DELETE ON capabilities BEGIN
+      ${reindexAgentSearch("OLD.agent_id")}
+    END;
   `);
 
+  // Databases created before the index existed start with it empty
+  const { indexed } = db.prepare("SELECT COUNT(*) AS indexed FROM agent_search").get() as { indexed: number };
+  if (indexed === 0) {
+    db.exec(`
+      INSERT INTO agent_search (rowid, name, description, capabilities)
+      SELECT a.rowid, a.name, COALESCE(a.description, ''), ${AGENT_SEARCH_CAPABILITIES}
+      FROM agents a;
+    `);
+  }
+
   return db;
 }
 
+/** Capability names, taxonomy paths and descriptions of agent `a`, as one text. */
+const AGENT_SEARCH_CAPABILITIES = `COALESCE((
+  SELECT group_concat(c.name || ' ' || COALESCE(c.path, '') || ' ' || COALESCE(c.description, ''), ' ')
+  FROM capabilities c WHERE c.agent_id = a.id
+), '')`;
+
+/** Trigger body that rewrites one agent's agent_search row. */
+function reindexAgentSearch(agentIdExpr: string): string {
+  return `
+      DELETE FROM agent_search WHERE rowid = (SELECT rowid FROM agents WHERE id = ${agentIdExpr});
+      INSERT INTO agent_search (rowid, name, description, capabilities)
+      SELECT a.rowid, a.name, COALESCE(a.description, ''), ${AGENT_SEARCH_CAPABILITIES}
+      FROM agents a WHERE a.id = ${agentIdExpr};`;
+}
+
+/**
+ * Turn free text into an FTS5 query: every word as a quoted prefix term,
+ * OR-ed so partial matches still rank. Returns null when nothing is left.
+ */
+function toSearchQuery(text: string): string | null {
+  const words = [...new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])].slice(0, 16);
+  return words.length > 0 ? words.map((word) => `"${word}"*`).join(" OR ") : null;
+}
+
+/**
+ * Add a column to an existing table unless it is already present.
+ * SQLite has no `ADD COLUMN IF NOT EXISTS`, so check table_info first.
+ */
+function addColumnIfMissing(
+  db: BetterSqlite3.Database,
+  table: string,
+  column: string,
+  definition: string,
+): void {
+  const columns = db.pragma(`table_info(${table})`) as Array<{ name: string }>;
+  if (!columns.some((c) => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+/**
+ * Make a payment transaction count for at most one interaction.
+ * Databases written before the index existed may already reuse a tx_hash;
+ * which interaction it paid for is for the operator to decide, so refuse
+ * to start and name the rows instead of failing on the constraint.
+ */
+function createPaymentTxIndex(db: BetterSqlite3.Database): void {
+  const duplicates = db.prepare(`
+    SELECT payment_tx, group_concat(id, ', ') AS ids FROM interactions
+    WHERE payment_tx IS NOT NULL
+    GROUP BY payment_tx COLLATE NOCASE HAVING COUNT(*) > 1
+  `).all() as Array<{ payment_tx: string; ids: string }>;
+  if (duplicates.length > 0) {
+    const listed = duplicates.map((d) => `${d.payment_tx} (interactions ${d.ids})`).join("; ");
+    throw new Error(
+      `Cannot create idx_interactions_payment_tx: payment transactions are recorded on more than one interaction: ${listed}. ` +
+        "Clear payment_tx on the interactions each transaction did not pay for, then restart.",
+    );
+  }
+  db.exec(`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_interactions_payment_tx ON interactions(payment_tx COLLATE NOCASE)
+      WHERE payment_tx IS NOT NULL;
+  `);
+}
+
 // ---------------------------------------------------------------------------
 // Database wrapper class with typed methods
 // ---------------------------------------------------------------------------
@@ -261,7 +568,7 @@ export class Database {
   // Agent CRUD
   // -----------------------------------------------------------------------
 
-  insertAgent(agent: Omit<AgentRow, "created_at" | "updated_at">): AgentRow {
+  insertAgent(agent: Omit<AgentRow, "created_at" | "updated_at" | "median_completion_ms" | "trust_flags">): AgentRow {
     const now = new Date().toISOString();
     const stmt = this.db.prepare(`
       INSERT INTO agents (
@@ -280,6 +587,8 @@ export class Database {
       ...agent,
       created_at: now,
       updated_at: now,
+      median_completion_ms: null,
+      trust_flags: null,
     };
     stmt.run(row);
     return row as AgentRow;
@@ -311,6 +620,7 @@ export class Database {
         | "interaction_count"
         | "successful_count"
         | "failed_count"
+        | "trust_flags"
         | "did_document"
         | "agent_card"
       >
@@ -333,11 +643,12 @@ export class Database {
   }
 
   listAgents(filters: AgentFilters = {}): {
-    agents: AgentRow[];
+    agents: Array<AgentRow & { min_price: number | null; search_score?: number }>;
     total: number;
   } {
     const conditions: string[] = [];
     const params: Record<string, unknown> = {};
+    let from = "agents a";
 
     if (filters.status) {
       conditions.push("a.status = @status");
@@ -351,11 +662,53 @@ export class Database {
       conditions.push("a.trust_score >= @trust_min");
       params.trust_min = filters.trust_min;
     }
-    if (filters.capability) {
+    if (filters.max_latency_ms !== undefined) {
+      conditions.push("a.median_completion_ms <= @max_latency_ms");
+      params.max_latency_ms = filters.max_latency_ms;
+    }
+
+    // Capabilities that count for this query: the exact name, the taxonomy
+    // path itself or anything below it, priced within budget
+    let capabilityMatch = "1";
+    if (filters.capability && filters.capability_path) {
+      capabilityMatch =
+        "(c.name = @capability OR c.path = @capability_path OR c.path LIKE @capability_prefix ESCAPE '\\')";
+      params.capability = filters.capability;
+      params.capability_path = filters.capability_path;
+      params.capability_prefix = `${filters.capability_path.replace(/[\\%_]/g, "\\$&")}/%`;
+    } else if (filters.capability) {
+      capabilityMatch = "c.name = @capability";
+      params.capability = filters.capability;
+    }
+    if (filters.max_price !== undefined) {
+      capabilityMatch += " AND c.price_min <= @max_price";
+      params.max_price = filters.max_price;
+    }
+    if (filters.capability || filters.max_price !== undefined) {
       conditions.push(
-        "EXISTS (SELECT 1 FROM capabilities c WHERE c.agent_id = a.id AND c.name = @capability)",
+        `EXISTS (SELECT 1 FROM capabilities c WHERE c.agent_id = a.id AND ${capabilityMatch})`,
       );
-      params.capability = filters.capability;
+    }
+    let columns = `a.*, (
+      SELECT MIN(c.price_min) FROM capabilities c WHERE c.agent_id = a.id AND ${capabilityMatch}
+    ) AS min_price`;
+    let orderBy = "a.trust_score DESC";
+
+    const search = filters.q ? toSearchQuery(filters.q) : null;
+    if (search) {
+      // BM25 relevance (name weighted highest), scaled by trust
+      from = "agents a INNER JOIN agent_search ON agent_search.rowid = a.rowid";
+      conditions.push("agent_search MATCH @search");
+      columns += ", -bm25(agent_search, 3.0, 1.0, 2.0) * (0.5 + a.trust_score) AS search_score";
+      orderBy = "search_score DESC";
+      params.search = search;
+    }
+    if (filters.sort === "price") {
+      orderBy = "min_price IS NULL, min_price ASC, a.trust_score DESC";
+    } else if (filters.sort === "latency") {
+      orderBy = "a.median_completion_ms IS NULL, a.median_completion_ms ASC, a.trust_score DESC";
+    } else if (filters.sort === "trust") {
+      orderBy = "a.trust_score DESC";
     }
 
     const where =
@@ -364,38 +717,79 @@ export class Database {
     const offset = filters.offset ?? 0;
 
     const countStmt = this.db.prepare(
-      `SELECT COUNT(*) as total FROM agents a ${where}`,
+      `SELECT COUNT(*) as total FROM ${from} ${where}`,
     );
     const { total } = countStmt.get(params) as { total: number };
 
     const selectStmt = this.db.prepare(
-      `SELECT a.* FROM agents a ${where} ORDER BY a.trust_score DESC LIMIT @limit OFFSET @offset`,
+      `SELECT ${columns} FROM ${from} ${where} ORDER BY ${orderBy} LIMIT @limit OFFSET @offset`,
     );
     const agents = selectStmt.all({
       ...params,
       limit,
       offset,
-    }) as AgentRow[];
+    }) as Array<AgentRow & { min_price: number | null; search_score?: number }>;
 
     return { agents, total };
   }
 
+  /**
+   * Recompute an agent's median accept-to-result time over its last 100
+   * deliveries.
+   * @returns The new median, or null without deliveries
+   */
+  refreshMedianCompletion(did: string): number | null {
+    const durations = (this.db.prepare(`
+      SELECT CAST((julianday(delivered_at) - julianday(accepted_at)) * 86400000 AS INTEGER) AS ms
+      FROM interactions
+      WHERE provider_did = ? AND delivered_at IS NOT NULL AND accepted_at IS NOT NULL
+      ORDER BY delivered_at DESC
+      LIMIT 100
+    `).all(did) as Array<{ ms: number }>).map((row) => row.ms).sort((a, b) => a - b);
+
+    const mid = Math.floor(durations.length / 2);
+    const median = durations.length === 0
+      ? null
+      : durations.length % 2 === 1
+        ? durations[mid]
+        : Math.round((durations[mid - 1] + durations[mid]) / 2);
+    this.db.prepare("UPDATE agents SET median_completion_ms = ? WHERE did = ?").run(median, did);
+    return median;
+  }
+
   // -----------------------------------------------------------------------
   // Capability
   // -----------------------------------------------------------------------
 
   insertCapability(
-    capability: Omit<CapabilityRow, "id"> & { id?: string },
+    capability: Pick<CapabilityRow, "agent_id" | "name" | "metadata"> &
+      Partial<Omit<CapabilityRow, "agent_id" | "name" | "metadata">>,
   ): CapabilityRow {
     const row: CapabilityRow = {
       id: capability.id ?? randomUUID(),
       agent_id: capability.agent_id,
       name: capability.name,
       metadata: capability.metadata ?? null,
+      version: capability.version ?? "1.0.0",
+      description: capability.description ?? null,
+      input_schema: capability.input_schema ?? null,
+      output_schema: capability.output_schema ?? null,
+      pricing: capability.pricing ?? null,
+      path: capability.path ?? null,
+      price_model: capability.price_model ?? null,
+      price_min: capability.price_min ?? null,
+      price_max: capability.price_max ?? null,
+      price_unit: capability.price_unit ?? null,
     };
-    const stmt = this.db.prepare(
-      "INSERT INTO capabilities (id, agent_id, name, metadata) VALUES (@id, @agent_id, @name, @metadata)",
-    );
+    const stmt = this.db.prepare(`
+      INSERT INTO capabilities (
+        id, agent_id, name, metadata, version, description, input_schema, output_schema, pricing, path,
+        price_model, price_min, price_max, price_unit
+      ) VALUES (
+        @id, @agent_id, @name, @metadata, @version, @description, @input_schema, @output_schema, @pricing, @path,
+        @price_model, @price_min, @price_max, @price_unit
+      )
+    `);
     stmt.run(row);
     return row;
   }
@@ -407,6 +801,56 @@ export class Database {
     return stmt.all(agentId) as CapabilityRow[];
   }
 
+  getCapability(agentId: string, name: string): CapabilityRow | undefined {
+    const stmt = this.db.prepare(
+      "SELECT * FROM capabilities WHERE agent_id = ? AND name = ?",
+    );
+    return stmt.get(agentId, name) as CapabilityRow | undefined;
+  }
+
+  /** Capabilities with a given name across active agents, with the agent's DID. */
+  getCapabilitiesByName(name: string): Array<CapabilityRow & { agent_did: string }> {
+    const stmt = this.db.prepare(`
+      SELECT c.*, a.did AS agent_did FROM capabilities c
+      INNER JOIN agents a ON a.id = c.agent_id
+      WHERE c.name = ? AND a.status = 'active'
+      ORDER BY a.trust_score DESC
+    `);
+    return stmt.all(name) as Array<CapabilityRow & { agent_did: string }>;
+  }
+
+  /**
+   * Capabilities stored before taxonomy paths or structured prices were
+   * recorded.
+   */
+  getCapabilitiesToReindex(): CapabilityRow[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM capabilities
+      WHERE path IS NULL OR (price_model IS NULL AND (pricing IS NOT NULL OR metadata LIKE '%"pricing"%'))
+    `);
+    return stmt.all() as CapabilityRow[];
+  }
+
+  updateCapability(
+    id: string,
+    updates: Partial<
+      Pick<CapabilityRow, "path" | "price_model" | "price_min" | "price_max" | "price_unit">
+    >,
+  ): boolean {
+    const fields = Object.keys(updates).filter(
+      (k) => (updates as Record<string, unknown>)[k] !== undefined,
+    );
+    if (fields.length === 0) return false;
+    const sets = fields.map((f) => `${f} = @${f}`).join(", ");
+    const stmt = this.db.prepare(`UPDATE capabilities SET ${sets} WHERE id = @id`);
+    return stmt.run({ ...updates, id }).changes > 0;
+  }
+
+  deleteCapabilitiesForAgent(agentId: string): number {
+    const stmt = this.db.prepare("DELETE FROM capabilities WHERE agent_id = ?");
+    return stmt.run(agentId).changes;
+  }
+
   findAgentsByCapability(capabilityName: string): AgentRow[] {
     const stmt = this.db.prepare(`
       SELECT DISTINCT a.* FROM agents a
@@ -422,29 +866,124 @@ export class Database {
   // -----------------------------------------------------------------------
 
   insertInteraction(
-    interaction: Omit<InteractionRow, "created_at" | "updated_at">,
+    interaction: Omit<
+      InteractionRow,
+      | "created_at"
+      | "updated_at"
+      | "payment_payload"
+      | "settlement"
+      | "escrow_status"
+      | "dispute_payload"
+      | "dispute_response"
+      | "dispute_outcome"
+      | "dispute_resolution"
+      | "rfq_id"
+      | "offer_history"
+      | "cancel_requested_by"
+      | "expires_at"
+      | "accepted_at"
+      | "delivered_at"
+    > & { rfq_id?: string | null; expires_at?: string | null },
   ): InteractionRow {
     const now = new Date().toISOString();
     const row = {
       ...interaction,
       created_at: now,
       updated_at: now,
+      payment_payload: null,
+      settlement: "direct",
+      escrow_status: null,
+      dispute_payload: null,
+      dispute_response: null,
+      dispute_outcome: null,
+      dispute_resolution: null,
+      rfq_id: interaction.rfq_id ?? null,
+      offer_history: null,
+      cancel_requested_by: null,
+      expires_at: interaction.expires_at ?? null,
+      accepted_at: null,
+      delivered_at: null,
     };
     const stmt = this.db.prepare(`
       INSERT INTO interactions (
         id, interaction_hash, initiator_did, provider_did, capability,
         status, outcome, payment_tx, payment_amount, created_at, updated_at,
-        batch_id, request_payload, offer_payload, result_payload, idempotency_key
+        batch_id, request_payload, offer_payload, result_payload, idempotency_key,
+        rfq_id, expires_at
       ) VALUES (
         @id, @interaction_hash, @initiator_did, @provider_did, @capability,
         @status, @outcome, @payment_tx, @payment_amount, @created_at, @updated_at,
-        @batch_id, @request_payload, @offer_payload, @result_payload, @idempotency_key
+        @batch_id, @request_payload, @offer_payload, @result_payload, @idempotency_key,
+        @rfq_id, @expires_at
       )
     `);
     stmt.run(row);
     return row as InteractionRow;
   }
 
+  /**
+   * Completed interactions an agent took part in, oldest first, with the
+   * other party's DID and current trust score (null when not registered here).
+   */
+  getCompletedCounterparties(did: string): Array<{
+    counterparty_did: string;
+    counterparty_trust: number | null;
+    payment_amount: number | null;
+  }> {
+    const stmt = this.db.prepare(`
+      SELECT i.counterparty_did, a.trust_score AS counterparty_trust, i.payment_amount
+      FROM (
+        SELECT CASE WHEN initiator_did = @did THEN provider_did ELSE initiator_did END AS counterparty_did,
+               payment_amount, created_at
+        FROM interactions
+        WHERE (initiator_did = @did OR provider_did = @did) AND status = 'completed'
+      ) i
+      LEFT JOIN agents a ON a.did = i.counterparty_did
+      WHERE i.counterparty_did != @did
+      ORDER BY i.created_at ASC
+    `);
+    return stmt.all({ did }) as Array<{
+      counterparty_did: string;
+      counterparty_trust: number | null;
+      payment_amount: number | null;
+    }>;
+  }
+
+  /** Distinct DIDs an agent has completed interactions with. */
+  getCounterpartyDids(did: string): string[] {
+    const stmt = this.db.prepare(`
+      SELECT DISTINCT CASE WHEN initiator_did = @did THEN provider_did ELSE initiator_did END AS counterparty_did
+      FROM interactions
+      WHERE (initiator_did = @did OR provider_did = @did) AND status = 'completed'
+    `);
+    return (stmt.all({ did }) as Array<{ counterparty_did: string }>)
+      .map((row) => row.counterparty_did)
+      .filter((counterparty) => counterparty !== did);
+  }
+
+  /**
+   * Resolved disputes an agent lost: as provider when the initiator won,
+   * as initiator when the provider won.
+   */
+  countDisputesLost(did: string): number {
+    const stmt = this.db.prepare(
+      `SELECT COUNT(*) as count FROM interactions
+       WHERE (provider_did = ? AND dispute_outcome = 'initiator_wins')
+          OR (initiator_did = ? AND dispute_outcome = 'provider_wins')`,
+    );
+    return (stmt.get(did, did) as { count: number }).count;
+  }
+
+  /** Interactions an agent took part in as provider, optionally since a time. */
+  getProviderInteractions(providerDid: string, since?: string): InteractionRow[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM interactions
+      WHERE provider_did = ? AND created_at >= ?
+      ORDER BY created_at ASC
+    `);
+    return stmt.all(providerDid, since ?? "") as InteractionRow[];
+  }
+
   getInteraction(id: string): InteractionRow | undefined {
     const stmt = this.db.prepare("SELECT * FROM interactions WHERE id = ?");
     return stmt.get(id) as InteractionRow | undefined;
@@ -464,6 +1003,88 @@ export class Database {
     return stmt.get(key) as InteractionRow | undefined;
   }
 
+  getInteractionByPaymentTx(txHash: string): InteractionRow | undefined {
+    const stmt = this.db.prepare(
+      "SELECT * FROM interactions WHERE payment_tx = ? COLLATE NOCASE",
+    );
+    return stmt.get(txHash) as InteractionRow | undefined;
+  }
+
+  /**
+   * Record `txHash` as the payment of an interaction, unless another
+   * interaction already holds it or this one already has a payment in
+   * progress. Check and write are one statement, so two racing payments
+   * cannot both claim it.
+   * @returns false if the claim was refused.
+   */
+  claimPaymentTx(interactionId: string, txHash: string): boolean {
+    const stmt = this.db.prepare(`
+      UPDATE interactions SET payment_tx = @tx_hash
+      WHERE id = @id AND payment_tx IS NULL AND NOT EXISTS (
+        SELECT 1 FROM interactions WHERE payment_tx = @tx_hash COLLATE NOCASE AND id != @id
+      )
+    `);
+    return stmt.run({ id: interactionId, tx_hash: txHash }).changes > 0;
+  }
+
+  /** Give back a transaction claimed by claimPaymentTx whose payment was not accepted. */
+  releasePaymentTx(interactionId: string, txHash: string): void {
+    this.db
+      .prepare("UPDATE interactions SET payment_tx = NULL WHERE id = ? AND payment_tx = ? COLLATE NOCASE")
+      .run(interactionId, txHash);
+  }
+
+  getInteractionsByStatus(status: string): InteractionRow[] {
+    const stmt = this.db.prepare(
+      "SELECT * FROM interactions WHERE status = ? ORDER BY updated_at ASC",
+    );
+    return stmt.all(status) as InteractionRow[];
+  }
+
+  /** Interactions fanned out by one request-for-quote, oldest first. */
+  getInteractionsByRfqId(rfqId: string): InteractionRow[] {
+    const stmt = this.db.prepare(
+      "SELECT * FROM interactions WHERE rfq_id = ? ORDER BY created_at ASC",
+    );
+    return stmt.all(rfqId) as InteractionRow[];
+  }
+
+  /**
+   * Escrow-settled interactions that ended without release, before a
+   * result was delivered, and still hold funds.
+   */
+  getRefundableEscrowInteractions(): InteractionRow[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM interactions
+      WHERE settlement = 'escrow' AND escrow_status = 'funded'
+        AND status IN ('expired', 'failed', 'cancelled') AND delivered_at IS NULL
+      ORDER BY updated_at ASC
+    `);
+    return stmt.all() as InteractionRow[];
+  }
+
+  /** Delivered escrow-settled interactions the initiator left unverified past `now`. */
+  getUnverifiedEscrowInteractions(now: string): InteractionRow[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM interactions
+      WHERE settlement = 'escrow' AND escrow_status = 'funded'
+        AND status = 'delivered' AND expires_at < ?
+      ORDER BY updated_at ASC
+    `);
+    return stmt.all(now) as InteractionRow[];
+  }
+
+  /** Disputes the provider has not answered since before `cutoff`. */
+  getUnansweredDisputes(cutoff: string): InteractionRow[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM interactions
+      WHERE status = 'disputed' AND dispute_response IS NULL
+        AND updated_at < ?
+      ORDER BY updated_at ASC
+    `);
+    return stmt.all(cutoff) as InteractionRow[];
+  }
+
   updateInteraction(
     id: string,
     updates: Partial<
@@ -476,6 +1097,18 @@ export class Database {
         | "batch_id"
         | "offer_payload"
         | "result_payload"
+        | "payment_payload"
+        | "settlement"
+        | "escrow_status"
+        | "dispute_payload"
+        | "dispute_response"
+        | "dispute_outcome"
+        | "dispute_resolution"
+        | "offer_history"
+        | "cancel_requested_by"
+        | "expires_at"
+        | "accepted_at"
+        | "delivered_at"
       >
     >,
   ): boolean {
@@ -495,16 +1128,30 @@ export class Database {
     return result.changes > 0;
   }
 
+  /**
+   * Fail every interaction the DID takes part in that has not been delivered yet.
+   * @returns Number of interactions failed
+   */
+  failOpenInteractionsForDid(did: string, outcome: string): number {
+    const stmt = this.db.prepare(`
+      UPDATE interactions SET status = 'failed', outcome = ?, updated_at = ?
+      WHERE (initiator_did = ? OR provider_did = ?)
+        AND status IN ('pending', 'offered', 'countered', 'accepted')
+    `);
+    return stmt.run(outcome, new Date().toISOString(), did, did).changes;
+  }
+
   getUnbatchedInteractions(
     limit: number = 100,
+    offset: number = 0,
   ): InteractionRow[] {
     const stmt = this.db.prepare(`
       SELECT * FROM interactions
-      WHERE batch_id IS NULL AND (status = 'completed' OR status = 'verified')
+      WHERE batch_id IS NULL AND status IN ('verified', 'payment_pending', 'completed')
       ORDER BY created_at ASC
-      LIMIT ?
+      LIMIT ? OFFSET ?
     `);
-    return stmt.all(limit) as InteractionRow[];
+    return stmt.all(limit, offset) as InteractionRow[];
   }
 
   // -----------------------------------------------------------------------
@@ -546,6 +1193,43 @@ export class Database {
     return result.changes > 0;
   }
 
+  getBatchesByStatus(status: string): BatchRow[] {
+    const stmt = this.db.prepare(
+      "SELECT * FROM batches WHERE status = ? ORDER BY id ASC",
+    );
+    return stmt.all(status) as BatchRow[];
+  }
+
+  /** Failed batches whose backoff has elapsed (or was never scheduled). */
+  getRetryableBatches(now: string): BatchRow[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM batches
+      WHERE status = 'failed' AND (next_retry_at IS NULL OR next_retry_at <= ?)
+      ORDER BY id ASC
+    `);
+    return stmt.all(now) as BatchRow[];
+  }
+
+  recordBatchFailure(id: number, error: string, nextRetryAt: string): boolean {
+    const stmt = this.db.prepare(`
+      UPDATE batches SET status = 'failed', retry_count = retry_count + 1,
+        last_error = @last_error, next_retry_at = @next_retry_at
+      WHERE id = @id
+    `);
+    const result = stmt.run({ id, last_error: error, next_retry_at: nextRetryAt });
+    return result.changes > 0;
+  }
+
+  /** Most recent batch whose Merkle root was submitted on-chain. */
+  getLatestAnchoredBatch(): BatchRow | undefined {
+    const stmt = this.db.prepare(`
+      SELECT * FROM batches
+      WHERE status IN ('submitted', 'confirmed') AND tx_hash IS NOT NULL
+      ORDER BY id DESC LIMIT 1
+    `);
+    return stmt.get() as BatchRow | undefined;
+  }
+
   getBatch(id: number): BatchRow | undefined {
     const stmt = this.db.prepare("SELECT * FROM batches WHERE id = ?");
     return stmt.get(id) as BatchRow | undefined;
@@ -613,28 +1297,43 @@ export class Database {
   // -----------------------------------------------------------------------
 
   insertMessage(
-    message: Omit<MessageRow, "status" | "delivered_at" | "retry_count" | "last_error">,
+    message: Omit<MessageRow, "status" | "delivered_at" | "retry_count" | "last_error" | "peer_did" | "lease_expires_at"> &
+      Partial<Pick<MessageRow, "status" | "peer_did">>,
   ): MessageRow {
     const row: MessageRow = {
       ...message,
-      status: "queued",
+      status: message.status ?? "queued",
       delivered_at: null,
       retry_count: 0,
       last_error: null,
+      peer_did: message.peer_did ?? null,
+      lease_expires_at: null,
     };
     const stmt = this.db.prepare(`
       INSERT INTO messages (
         id, type, from_did, to_did, envelope, created_at, expires_at,
-        status, delivered_at, retry_count, last_error
+        status, delivered_at, retry_count, last_error, peer_did, lease_expires_at
       ) VALUES (
         @id, @type, @from_did, @to_did, @envelope, @created_at, @expires_at,
-        @status, @delivered_at, @retry_count, @last_error
+        @status, @delivered_at, @retry_count, @last_error, @peer_did, @lease_expires_at
       )
     `);
     stmt.run(row);
     return row;
   }
 
+  getMessage(id: string): MessageRow | undefined {
+    const stmt = this.db.prepare("SELECT * FROM messages WHERE id = ?");
+    return stmt.get(id) as MessageRow | undefined;
+  }
+
+  getMessagesByStatus(status: string): MessageRow[] {
+    const stmt = this.db.prepare(
+      "SELECT * FROM messages WHERE status = ? ORDER BY created_at ASC",
+    );
+    return stmt.all(status) as MessageRow[];
+  }
+
   getMessagesByRecipient(
     toDid: string,
     status: string = "queued",
@@ -668,10 +1367,63 @@ export class Database {
     return result.changes > 0;
   }
 
+  /**
+   * Messages for a recipient that can be delivered now: queued ones and
+   * leased ones whose lease has run out, oldest first.
+   */
+  getDeliverableMessages(toDid: string): MessageRow[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM messages
+      WHERE to_did = ?
+        AND (status = 'queued' OR (status = 'leased' AND lease_expires_at <= ?))
+      ORDER BY created_at ASC
+    `);
+    return stmt.all(toDid, new Date().toISOString()) as MessageRow[];
+  }
+
+  /**
+   * Hand a message out until `leaseExpiresAt`. A redelivery (after an
+   * earlier lease ran out unacknowledged) increments retry_count.
+   */
+  leaseMessage(id: string, leaseExpiresAt: string, redelivery: boolean): void {
+    this.db.prepare(`
+      UPDATE messages SET
+        status = 'leased',
+        lease_expires_at = ?,
+        retry_count = retry_count + ?
+      WHERE id = ?
+    `).run(leaseExpiresAt, redelivery ? 1 : 0, id);
+  }
+
+  /** Mark a recipient's queued or leased message as delivered. */
+  ackMessage(toDid: string, id: string): boolean {
+    const stmt = this.db.prepare(`
+      UPDATE messages SET status = 'delivered', delivered_at = ?, lease_expires_at = NULL
+      WHERE id = ? AND to_did = ? AND status IN ('queued', 'leased')
+    `);
+    return stmt.run(new Date().toISOString(), id, toDid).changes > 0;
+  }
+
+  /** Stop redelivering a message that was never acknowledged. */
+  deadLetterMessage(id: string, error: string): void {
+    this.db.prepare(`
+      UPDATE messages SET status = 'dead_letter', lease_expires_at = NULL, last_error = ?
+      WHERE id = ?
+    `).run(error, id);
+  }
+
+  /** Drop messages still awaiting delivery or acknowledgement for a DID. */
+  deleteQueuedMessagesForDid(did: string): number {
+    const stmt = this.db.prepare(
+      "DELETE FROM messages WHERE to_did = ? AND status IN ('queued', 'leased')",
+    );
+    return stmt.run(did).changes;
+  }
+
   deleteExpiredMessages(): number {
     const now = new Date().toISOString();
     const stmt = this.db.prepare(
-      "DELETE FROM messages WHERE expires_at IS NOT NULL AND expires_at < ? AND status = 'queued'",
+      "DELETE FROM messages WHERE expires_at IS NOT NULL AND expires_at < ? AND status IN ('queued', 'leased')",
     );
     const result = stmt.run(now);
     return result.changes;
@@ -702,6 +1454,218 @@ export class Database {
     return result.changes;
   }
 
+  // -----------------------------------------------------------------------
+  // DID document history
+  // -----------------------------------------------------------------------
+
+  insertDidDocumentVersion(agentId: string, version: number, didDocument: string): DidDocumentRow {
+    const row: DidDocumentRow = {
+      agent_id: agentId,
+      version,
+      did_document: didDocument,
+      created_at: new Date().toISOString(),
+      superseded_at: null,
+    };
+    const stmt = this.db.prepare(`
+      INSERT INTO did_documents (agent_id, version, did_document, created_at, superseded_at)
+      VALUES (@agent_id, @version, @did_document, @created_at, @superseded_at)
+    `);
+    stmt.run(row);
+    return row;
+  }
+
+  supersedeDidDocumentVersion(agentId: string, version: number): void {
+    const stmt = this.db.prepare(
+      "UPDATE did_documents SET superseded_at = ? WHERE agent_id = ? AND version = ?",
+    );
+    stmt.run(new Date().toISOString(), agentId, version);
+  }
+
+  /** All DID document versions of an agent, oldest first. */
+  getDidDocumentVersions(agentId: string): DidDocumentRow[] {
+    const stmt = this.db.prepare(
+      "SELECT * FROM did_documents WHERE agent_id = ? ORDER BY version ASC",
+    );
+    return stmt.all(agentId) as DidDocumentRow[];
+  }
+
+  /** The most recently superseded DID document of an agent, if any. */
+  getPreviousDidDocument(agentId: string): DidDocumentRow | undefined {
+    const stmt = this.db.prepare(`
+      SELECT * FROM did_documents
+      WHERE agent_id = ? AND superseded_at IS NOT NULL
+      ORDER BY version DESC LIMIT 1
+    `);
+    return stmt.get(agentId) as DidDocumentRow | undefined;
+  }
+
+  // -----------------------------------------------------------------------
+  // Federation
+  // -----------------------------------------------------------------------
+
+  /** Insert a peer server, or refresh its URL, key and status. */
+  upsertPeer(peer: Omit<PeerRow, "created_at">): PeerRow {
+    const stmt = this.db.prepare(`
+      INSERT INTO peers (did, url, public_key, status, last_seen_at, created_at)
+      VALUES (@did, @url, @public_key, @status, @last_seen_at, @created_at)
+      ON CONFLICT(did) DO UPDATE SET
+        url = excluded.url,
+        public_key = excluded.public_key,
+        status = excluded.status,
+        last_seen_at = excluded.last_seen_at
+    `);
+    stmt.run({ ...peer, created_at: new Date().toISOString() });
+    return this.getPeer(peer.did)!;
+  }
+
+  getPeer(did: string): PeerRow | undefined {
+    const stmt = this.db.prepare("SELECT * FROM peers WHERE did = ?");
+    return stmt.get(did) as PeerRow | undefined;
+  }
+
+  getPeers(status?: string): PeerRow[] {
+    if (status) {
+      const stmt = this.db.prepare("SELECT * FROM peers WHERE status = ? ORDER BY created_at ASC");
+      return stmt.all(status) as PeerRow[];
+    }
+    return this.db.prepare("SELECT * FROM peers ORDER BY created_at ASC").all() as PeerRow[];
+  }
+
+  updatePeerStatus(did: string, status: string): void {
+    const lastSeenAt = status === "active" ? new Date().toISOString() : null;
+    const stmt = this.db.prepare(
+      "UPDATE peers SET status = ?, last_seen_at = COALESCE(?, last_seen_at) WHERE did = ?",
+    );
+    stmt.run(status, lastSeenAt, did);
+  }
+
+  /** Remember which peer server an agent seen through federation is homed on. */
+  upsertRemoteAgent(did: string, peerDid: string): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO remote_agents (did, peer_did, updated_at) VALUES (?, ?, ?)
+      ON CONFLICT(did) DO UPDATE SET peer_did = excluded.peer_did, updated_at = excluded.updated_at
+    `);
+    stmt.run(did, peerDid, new Date().toISOString());
+  }
+
+  getRemoteAgent(did: string): RemoteAgentRow | undefined {
+    const stmt = this.db.prepare("SELECT * FROM remote_agents WHERE did = ?");
+    return stmt.get(did) as RemoteAgentRow | undefined;
+  }
+
+  // -----------------------------------------------------------------------
+  // Webhook deliveries
+  // -----------------------------------------------------------------------
+
+  insertWebhookDelivery(messageId: string, agentDid: string, url: string): WebhookDeliveryRow {
+    const now = new Date().toISOString();
+    const row: WebhookDeliveryRow = {
+      message_id: messageId,
+      agent_did: agentDid,
+      url,
+      status: "pending",
+      attempts: 0,
+      next_attempt_at: now,
+      last_error: null,
+      created_at: now,
+      delivered_at: null,
+    };
+    const stmt = this.db.prepare(`
+      INSERT INTO webhook_deliveries (
+        message_id, agent_did, url, status, attempts, next_attempt_at,
+        last_error, created_at, delivered_at
+      ) VALUES (
+        @message_id, @agent_did, @url, @status, @attempts, @next_attempt_at,
+        @last_error, @created_at, @delivered_at
+      )
+    `);
+    stmt.run(row);
+    return row;
+  }
+
+  getWebhookDelivery(messageId: string): WebhookDeliveryRow | undefined {
+    const stmt = this.db.prepare("SELECT * FROM webhook_deliveries WHERE message_id = ?");
+    return stmt.get(messageId) as WebhookDeliveryRow | undefined;
+  }
+
+  /** Pending deliveries whose next attempt is due, oldest first. */
+  getDueWebhookDeliveries(): WebhookDeliveryRow[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM webhook_deliveries
+      WHERE status = 'pending' AND next_attempt_at <= ?
+      ORDER BY next_attempt_at ASC
+    `);
+    return stmt.all(new Date().toISOString()) as WebhookDeliveryRow[];
+  }
+
+  updateWebhookDelivery(
+    messageId: string,
+    updates: Partial<Pick<WebhookDeliveryRow, "status" | "attempts" | "next_attempt_at" | "last_error" | "delivered_at">>,
+  ): boolean {
+    const fields = Object.keys(updates);
+    if (fields.length === 0) return false;
+    const stmt = this.db.prepare(`
+      UPDATE webhook_deliveries SET ${fields.map((field) => `${field} = @${field}`).join(", ")}
+      WHERE message_id = @message_id
+    `);
+    return stmt.run({ ...updates, message_id: messageId }).changes > 0;
+  }
+
+  // -----------------------------------------------------------------------
+  // Blobs
+  // -----------------------------------------------------------------------
+
+  /** Record a blob for an interaction; uploading the same content again is a no-op. */
+  insertBlob(row: BlobRow): BlobRow {
+    const stmt = this.db.prepare(`
+      INSERT OR IGNORE INTO blobs (
+        hash, interaction_id, size, content_type, uploaded_by, created_at
+      ) VALUES (
+        @hash, @interaction_id, @size, @content_type, @uploaded_by, @created_at
+      )
+    `);
+    stmt.run(row);
+    return this.getBlob(row.hash, row.interaction_id)!;
+  }
+
+  getBlob(hash: string, interactionId: string): BlobRow | undefined {
+    const stmt = this.db.prepare("SELECT * FROM blobs WHERE hash = ? AND interaction_id = ?");
+    return stmt.get(hash, interactionId) as BlobRow | undefined;
+  }
+
+  /** A blob held for an interaction `did` is a party to, if any. */
+  getBlobForParty(hash: string, did: string): BlobRow | undefined {
+    const stmt = this.db.prepare(`
+      SELECT b.* FROM blobs b
+      JOIN interactions i ON i.id = b.interaction_id
+      WHERE b.hash = ? AND (i.initiator_did = ? OR i.provider_did = ?)
+      ORDER BY b.created_at DESC
+      LIMIT 1
+    `);
+    return stmt.get(hash, did, did) as BlobRow | undefined;
+  }
+
+  /** Whether any interaction still holds the blob. */
+  hasBlob(hash: string): boolean {
+    const stmt = this.db.prepare("SELECT 1 FROM blobs WHERE hash = ? LIMIT 1");
+    return stmt.get(hash) !== undefined;
+  }
+
+  /**
+   * Delete the blob rows of interactions in one of `statuses`.
+   * @returns The deleted rows.
+   */
+  deleteBlobsByInteractionStatus(statuses: readonly string[]): BlobRow[] {
+    const stmt = this.db.prepare(`
+      DELETE FROM blobs
+      WHERE interaction_id IN (
+        SELECT id FROM interactions WHERE status IN (${statuses.map(() => "?").join(", ")})
+      )
+      RETURNING *
+    `);
+    return stmt.all(...statuses) as BlobRow[];
+  }
+
   // -----------------------------------------------------------------------
   // Stats
   // -----------------------------------------------------------------------
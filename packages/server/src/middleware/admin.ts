@@ -0,0 +1,47 @@
+/**
+ * x811 Protocol — Admin authentication middleware.
+ *
+ * Admin routes are authenticated with a shared bearer token
+ * (`Authorization: Bearer <ADMIN_TOKEN>`). When ADMIN_TOKEN is not set,
+ * every admin route is disabled.
+ */
+
+import { timingSafeEqual } from "node:crypto";
+import type { FastifyRequest, FastifyReply } from "fastify";
+import { config } from "../config.js";
+
+function sendError(
+  reply: FastifyReply,
+  statusCode: number,
+  code: string,
+  message: string,
+  details: Record<string, unknown> = {},
+): FastifyReply {
+  return reply.status(statusCode).send({
+    error: { code, message, details },
+  });
+}
+
+/**
+ * Fastify preHandler for admin routes. Compares the bearer token against
+ * ADMIN_TOKEN in constant time.
+ */
+export async function verifyAdminToken(
+  request: FastifyRequest,
+  reply: FastifyReply,
+): Promise<void> {
+  if (!config.adminToken) {
+    sendError(reply, 403, "X811-2004", "Admin API is disabled");
+    return;
+  }
+
+  const header = request.headers.authorization ?? "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+  const expected = Buffer.from(config.adminToken);
+  const provided = Buffer.from(token);
+
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    sendError(reply, 401, "X811-2004", "Invalid admin token");
+    return;
+  }
+}
@@ -11,9 +11,31 @@
  * 4. Check nonce not reused (store with 24h TTL)
  * 5. Check timestamp within +/- 5 minutes
  * 6. Check DID status is "active"
+ *
+ * Senders that are not registered here but whose DID resolves elsewhere
+ * (did:web on another domain, did:key) are verified against the resolved
+ * document via `fastify.didResolver`.
+ *
+ * After a key rotation the previous key is still accepted for
+ * config.keyRotationGraceSeconds; requests signed with it are flagged
+ * with `previousKey` so sensitive routes can refuse them.
+ *
+ * Read routes without a body (inbox polling, SSE) use signed requests
+ * instead: an `Authorization: X811-Signature did="…",created="…",
+ * nonce="…",signature="…"` header whose Ed25519 signature covers the
+ * method, path (with query string), DID, timestamp and nonce. The same
+ * timestamp, nonce, DID status and key checks apply.
+ *
+ * Routes not tied to one agent's inbox (result blobs) accept a signed
+ * request from any registered agent (verifySignedRequest).
+ *
+ * The checks themselves (authenticateEnvelope, authenticateAgentRequest)
+ * throw AuthError, so the WebSocket transport can run them per frame.
  */
 
-import type { FastifyRequest, FastifyReply } from "fastify";
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import type { AgentRow, Database } from "../db/schema.js";
+import { config } from "../config.js";
 
 /** Shape of a request body that contains a signed envelope. */
 interface EnvelopeBody {
@@ -26,6 +48,7 @@ interface EnvelopeBody {
     created: string;
     expires?: string;
     payload: unknown;
+    encrypted?: boolean;
     signature: string;
     nonce: string;
   };
@@ -39,6 +62,9 @@ const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
 /** Nonce TTL in hours. */
 const NONCE_TTL_HOURS = 24;
 
+/** Authorization scheme of signed requests (SIGNED_REQUEST_SCHEME in @x811/core). */
+const SIGNED_REQUEST_SCHEME = "X811-Signature";
+
 /**
  * Deep-sort all object keys recursively to produce a canonical form.
  * Must match the canonicalize implementation in @x811/core exactly.
@@ -76,6 +102,19 @@ function sendError(
   });
 }
 
+/** An authentication failure, with the HTTP status it maps to. */
+export class AuthError extends Error {
+  constructor(
+    public statusCode: number,
+    public code: string,
+    message: string,
+    public details: Record<string, unknown> = {},
+  ) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
 /**
  * Fastify preHandler hook that verifies signed envelopes in the request body.
  *
@@ -90,51 +129,65 @@ export async function verifyEnvelopeAuth(
   request: FastifyRequest,
   reply: FastifyReply,
 ): Promise<void> {
-  const body = request.body as EnvelopeBody | undefined;
+  try {
+    // Attach parsed info to request for downstream handlers
+    (request as FastifyRequest & { x811Auth: X811AuthInfo }).x811Auth =
+      await authenticateEnvelope(request.server, request.body);
+  } catch (err) {
+    if (!(err instanceof AuthError)) throw err;
+    sendError(reply, err.statusCode, err.code, err.message, err.details);
+  }
+}
+
+/**
+ * Authenticate a `{ envelope, public_key? }` body and record its nonce.
+ * @throws AuthError if the envelope is not validly signed by an active DID.
+ */
+export async function authenticateEnvelope(
+  server: FastifyInstance,
+  requestBody: unknown,
+): Promise<X811AuthInfo> {
+  const body = requestBody as EnvelopeBody | undefined;
 
   // Step 1: Extract envelope
   if (!body?.envelope) {
-    sendError(reply, 400, "X811-2004", "Missing envelope in request body");
-    return;
+    throw new AuthError(400, "X811-2004", "Missing envelope in request body");
   }
 
   const { envelope } = body;
 
   if (!envelope.from || !envelope.signature || !envelope.nonce || !envelope.created) {
-    sendError(reply, 400, "X811-2004", "Incomplete envelope: from, signature, nonce, and created are required");
-    return;
+    throw new AuthError(400, "X811-2004", "Incomplete envelope: from, signature, nonce, and created are required");
   }
 
   // Step 5: Check timestamp within +/- 5 minutes
   const created = new Date(envelope.created).getTime();
   if (Number.isNaN(created)) {
-    sendError(reply, 400, "X811-2003", "Invalid timestamp format");
-    return;
+    throw new AuthError(400, "X811-2003", "Invalid timestamp format");
   }
 
   const now = Date.now();
   const skew = Math.abs(now - created);
   if (skew > MAX_CLOCK_SKEW_MS) {
-    sendError(reply, 401, "X811-2003", "Timestamp outside acceptable range (±5 minutes)", {
+    throw new AuthError(401, "X811-2003", "Timestamp outside acceptable range (±5 minutes)", {
       server_time: new Date(now).toISOString(),
       envelope_time: envelope.created,
       skew_ms: skew,
     });
-    return;
   }
 
   // Step 4: Check nonce not reused
-  const { db } = request.server;
+  const { db } = server;
   if (db.nonceExists(envelope.nonce)) {
-    sendError(reply, 401, "X811-2002", "Nonce has already been used", {
+    throw new AuthError(401, "X811-2002", "Nonce has already been used", {
       nonce: envelope.nonce,
     });
-    return;
   }
 
   // Step 2: Resolve sender DID and get public key
   let publicKeyBytes: Uint8Array;
   let isRegistration = false;
+  let isExternal = false;
 
   // For registration, the agent isn't in the DB yet — the public key is in the body
   const agent = db.getAgentByDid(envelope.from);
@@ -144,45 +197,45 @@ export async function verifyEnvelopeAuth(
     isRegistration = true;
     try {
       publicKeyBytes = Buffer.from(body.public_key, "base64url");
-      if (publicKeyBytes.length !== 32) {
-        sendError(reply, 400, "X811-1004", "Invalid public key length (expected 32 bytes Ed25519)");
-        return;
-      }
     } catch {
-      sendError(reply, 400, "X811-1004", "Invalid public key encoding");
-      return;
+      throw new AuthError(400, "X811-1004", "Invalid public key encoding");
+    }
+    if (publicKeyBytes.length !== 32) {
+      throw new AuthError(400, "X811-1004", "Invalid public key length (expected 32 bytes Ed25519)");
     }
   } else if (agent) {
     // Step 6: Check DID status
-    if (agent.status !== "active") {
-      const code =
-        agent.status === "revoked" ? "X811-1002" :
-          agent.status === "deactivated" ? "X811-1003" :
-            "X811-1004";
-      sendError(reply, 403, code, `DID status is ${agent.status}`, {
-        did: envelope.from,
-        status: agent.status,
-      });
-      return;
-    }
+    checkAgentActive(agent);
 
     // Extract public key from stored DID document
     try {
-      const didDoc = JSON.parse(agent.did_document);
-      const multibase: string = didDoc.verificationMethod[0].publicKeyMultibase;
-      publicKeyBytes = decodeMultibaseEd25519(multibase);
+      publicKeyBytes = storedPublicKey(agent);
     } catch {
-      sendError(reply, 500, "X811-9002", "Failed to extract public key from stored DID document");
-      return;
+      throw new AuthError(500, "X811-9002", "Failed to extract public key from stored DID document");
+    }
+  } else if (isExternalDid(server, envelope.from)) {
+    // Agent hosted elsewhere: verify against its resolved DID document
+    isExternal = true;
+    try {
+      publicKeyBytes = (await server.didResolver.resolve(envelope.from)).publicKey;
+    } catch (err) {
+      const { code, httpStatus } = err as { code?: string; httpStatus?: number };
+      throw new AuthError(
+        httpStatus ?? 404,
+        code ?? "X811-1001",
+        `Failed to resolve DID: ${err instanceof Error ? err.message : String(err)}`,
+        { did: envelope.from },
+      );
     }
   } else {
-    sendError(reply, 404, "X811-1001", "DID not found and no public key provided for registration", {
+    throw new AuthError(404, "X811-1001", "DID not found and no public key provided for registration", {
       did: envelope.from,
     });
-    return;
   }
 
   // Step 3: Verify Ed25519 signature
+  let valid = false;
+  let previousKey = false;
   try {
     const signable: Record<string, unknown> = {
       version: envelope.version,
@@ -193,41 +246,117 @@ export async function verifyEnvelopeAuth(
       created: envelope.created,
       expires: envelope.expires,
       payload: envelope.payload,
+      encrypted: envelope.encrypted,
       nonce: envelope.nonce,
     };
     const message = new TextEncoder().encode(canonicalize(signable));
     const signatureBytes = Buffer.from(envelope.signature, "base64url");
 
-    // Dynamic import of @x811/core for verification
-    // Falls back to @noble/curves directly if core isn't built yet
-    let valid: boolean;
-    try {
-      const { ed25519 } = await import("@noble/curves/ed25519");
-      valid = ed25519.verify(signatureBytes, message, publicKeyBytes);
-    } catch {
-      valid = false;
+    valid = await verifyEd25519(signatureBytes, message, publicKeyBytes);
+
+    // A cached external document may predate a key change: re-resolve once
+    if (!valid && isExternal) {
+      server.didResolver.invalidate(envelope.from);
+      const resolved = await server.didResolver.resolve(envelope.from);
+      valid = await verifyEd25519(signatureBytes, message, resolved.publicKey);
     }
 
-    if (!valid) {
-      sendError(reply, 401, "X811-2001", "Invalid signature");
-      return;
+    // Fall back to the key replaced by a recent rotation
+    if (!valid && agent) {
+      const gracePublicKey = getGracePeriodKey(db, agent.id);
+      if (gracePublicKey) {
+        valid = await verifyEd25519(signatureBytes, message, gracePublicKey);
+        previousKey = valid;
+      }
     }
   } catch {
-    sendError(reply, 401, "X811-2001", "Signature verification failed");
-    return;
+    throw new AuthError(401, "X811-2001", "Signature verification failed");
+  }
+
+  if (!valid) {
+    throw new AuthError(401, "X811-2001", "Invalid signature");
   }
 
   // Store nonce to prevent replay
   db.insertNonce(envelope.nonce, envelope.from, NONCE_TTL_HOURS);
 
-  // Attach parsed info to request for downstream handlers
-  (request as FastifyRequest & { x811Auth: { did: string; agentId: string | null; isRegistration: boolean } }).x811Auth = {
+  return {
     did: envelope.from,
     agentId: agent?.id ?? null,
     isRegistration,
+    previousKey,
   };
 }
 
+/**
+ * Reject a request from an agent whose DID is not active.
+ * @throws AuthError unless the agent is active.
+ */
+function checkAgentActive(agent: AgentRow): void {
+  if (agent.status === "active") return;
+  const code =
+    agent.status === "revoked" ? "X811-1002" :
+      agent.status === "deactivated" ? "X811-1003" :
+        "X811-1004";
+  throw new AuthError(403, code, `DID status is ${agent.status}`, {
+    did: agent.did,
+    status: agent.status,
+  });
+}
+
+/** The Ed25519 public key in an agent's stored DID document. */
+function storedPublicKey(agent: AgentRow): Uint8Array {
+  const didDoc = JSON.parse(agent.did_document);
+  return decodeMultibaseEd25519(didDoc.verificationMethod[0].publicKeyMultibase);
+}
+
+/**
+ * Verify an Ed25519 signature.
+ * Uses @noble/curves directly so the middleware does not depend on a
+ * built @x811/core.
+ */
+async function verifyEd25519(
+  signature: Uint8Array,
+  message: Uint8Array,
+  publicKey: Uint8Array,
+): Promise<boolean> {
+  try {
+    const { ed25519 } = await import("@noble/curves/ed25519");
+    return ed25519.verify(signature, message, publicKey);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether an unregistered DID should be resolved externally. did:web DIDs
+ * under our own domain are only ever issued by this registry.
+ */
+function isExternalDid(server: FastifyInstance, did: string): boolean {
+  const resolver = server.didResolver;
+  if (!resolver.supports(did)) return false;
+  return !did.startsWith(`did:web:${encodeURIComponent(config.didDomain)}:`);
+}
+
+/**
+ * The public key an agent rotated away from, while it is still inside the
+ * rotation grace window.
+ */
+function getGracePeriodKey(db: Database, agentId: string): Uint8Array | null {
+  const previous = db.getPreviousDidDocument(agentId);
+  if (!previous?.superseded_at) return null;
+
+  const elapsed = Date.now() - new Date(previous.superseded_at).getTime();
+  if (elapsed > config.keyRotationGraceSeconds * 1000) return null;
+
+  try {
+    const didDoc = JSON.parse(previous.did_document);
+    return decodeMultibaseEd25519(didDoc.verificationMethod[0].publicKeyMultibase);
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Decode a multibase-encoded Ed25519 public key.
  * Multibase z-prefix = base58btc encoding.
@@ -282,10 +411,29 @@ function base58btcDecode(input: string): Uint8Array {
   return new Uint8Array(bytes.reverse());
 }
 
+/** Fields of a signed request's Authorization header. */
+interface SignedRequestAuth {
+  did: string;
+  created: string;
+  nonce: string;
+  signature: string;
+}
+
+/** Parse an `X811-Signature` Authorization header; null if absent or malformed. */
+function parseSignedRequest(header: string | undefined): SignedRequestAuth | null {
+  if (!header?.startsWith(`${SIGNED_REQUEST_SCHEME} `)) return null;
+  const fields: Record<string, string> = {};
+  for (const [, key, value] of header.slice(SIGNED_REQUEST_SCHEME.length).matchAll(/(\w+)="([^"]*)"/g)) {
+    fields[key] = value;
+  }
+  const { did, created, nonce, signature } = fields;
+  return did && created && nonce && signature ? { did, created, nonce, signature } : null;
+}
+
 /**
- * Lightweight preHandler for poll-style routes where we only need to verify
- * that the requesting DID matches the agentId parameter.
- * Uses query parameter `did` or a simple signature header.
+ * preHandler for poll-style read routes (`/api/v1/messages/:agentId`,
+ * its SSE stream). The request must be signed by the agent itself with an
+ * `X811-Signature` Authorization header; an optional `?did=` must match too.
  */
 export async function verifyAgentAccess(
   request: FastifyRequest,
@@ -309,8 +457,6 @@ export async function verifyAgentAccess(
     return;
   }
 
-  // For polling, we accept a DID query parameter for simple authentication
-  // In production this should also verify a signature header
   if (query.did && query.did !== agent.did) {
     sendError(reply, 403, "X811-2004", "DID does not match agent", {
       expected: agent.did,
@@ -319,14 +465,159 @@ export async function verifyAgentAccess(
     return;
   }
 
+  try {
+    await authenticateAgentRequest(
+      request.server,
+      agent,
+      request.method,
+      request.url,
+      request.headers.authorization,
+    );
+  } catch (err) {
+    if (!(err instanceof AuthError)) throw err;
+    sendError(reply, err.statusCode, err.code, err.message, err.details);
+    return;
+  }
+
   (request as FastifyRequest & { x811Auth: { did: string; agentId: string } }).x811Auth = {
     did: agent.did,
     agentId: agent.id,
   };
 }
 
+/**
+ * preHandler for routes not tied to one agent's inbox (result blobs): the
+ * request must be signed by any registered agent, identified by the `did`
+ * in its `X811-Signature` Authorization header.
+ */
+export async function verifySignedRequest(
+  request: FastifyRequest,
+  reply: FastifyReply,
+): Promise<void> {
+  const auth = parseSignedRequest(request.headers.authorization);
+  if (!auth) {
+    sendError(reply, 401, "X811-2004", "Missing or malformed request signature", {
+      scheme: SIGNED_REQUEST_SCHEME,
+    });
+    return;
+  }
+
+  const agent = request.server.db.getAgentByDid(auth.did);
+  if (!agent) {
+    sendError(reply, 404, "X811-1001", "DID not found", { did: auth.did });
+    return;
+  }
+
+  try {
+    await authenticateAgentRequest(
+      request.server,
+      agent,
+      request.method,
+      request.url,
+      request.headers.authorization,
+    );
+  } catch (err) {
+    if (!(err instanceof AuthError)) throw err;
+    sendError(reply, err.statusCode, err.code, err.message, err.details);
+    return;
+  }
+
+  (request as FastifyRequest & { x811Auth: { did: string; agentId: string } }).x811Auth = {
+    did: agent.did,
+    agentId: agent.id,
+  };
+}
+
+/**
+ * Check that an `X811-Signature` Authorization value was signed by
+ * `agent` for `method` and `path`, and record its nonce.
+ * @param challenge - Nonce the server issued, when authenticating a WebSocket;
+ *   the signature must use it instead of a nonce of its own.
+ * @throws AuthError if the signature is missing, stale, replayed or invalid.
+ */
+export async function authenticateAgentRequest(
+  server: FastifyInstance,
+  agent: AgentRow,
+  method: string,
+  path: string,
+  authorization: string | undefined,
+  challenge?: string,
+): Promise<void> {
+  const auth = parseSignedRequest(authorization);
+  if (!auth) {
+    throw new AuthError(401, "X811-2004", "Missing or malformed request signature", {
+      scheme: SIGNED_REQUEST_SCHEME,
+    });
+  }
+
+  if (auth.did !== agent.did) {
+    throw new AuthError(403, "X811-2004", "Request is not signed by this agent", {
+      expected: agent.did,
+      actual: auth.did,
+    });
+  }
+
+  const created = new Date(auth.created).getTime();
+  if (Number.isNaN(created)) {
+    throw new AuthError(400, "X811-2003", "Invalid timestamp format");
+  }
+
+  const now = Date.now();
+  const skew = Math.abs(now - created);
+  if (skew > MAX_CLOCK_SKEW_MS) {
+    throw new AuthError(401, "X811-2003", "Timestamp outside acceptable range (±5 minutes)", {
+      server_time: new Date(now).toISOString(),
+      request_time: auth.created,
+      skew_ms: skew,
+    });
+  }
+
+  const { db } = server;
+  if (challenge !== undefined && auth.nonce !== challenge) {
+    throw new AuthError(401, "X811-2002", "Signature does not answer the challenge", {
+      challenge,
+    });
+  }
+  if (db.nonceExists(auth.nonce)) {
+    throw new AuthError(401, "X811-2002", "Nonce has already been used", {
+      nonce: auth.nonce,
+    });
+  }
+
+  checkAgentActive(agent);
+
+  let publicKeyBytes: Uint8Array;
+  try {
+    publicKeyBytes = storedPublicKey(agent);
+  } catch {
+    throw new AuthError(500, "X811-9002", "Failed to extract public key from stored DID document");
+  }
+
+  const message = new TextEncoder().encode(canonicalize({
+    method: method.toUpperCase(),
+    path,
+    did: auth.did,
+    created: auth.created,
+    nonce: auth.nonce,
+  }));
+  const signatureBytes = Buffer.from(auth.signature, "base64url");
+
+  let valid = await verifyEd25519(signatureBytes, message, publicKeyBytes);
+  if (!valid) {
+    const gracePublicKey = getGracePeriodKey(db, agent.id);
+    valid = gracePublicKey !== null && await verifyEd25519(signatureBytes, message, gracePublicKey);
+  }
+  if (!valid) {
+    throw new AuthError(401, "X811-2001", "Invalid request signature");
+  }
+
+  db.insertNonce(auth.nonce, auth.did, NONCE_TTL_HOURS);
+}
+
 export type X811AuthInfo = {
   did: string;
   agentId: string | null;
   isRegistration: boolean;
+  /** Signed with the previous key during a rotation grace window. */
+  previousKey: boolean;
 };
@@ -3,6 +3,8 @@
  *
  * Read routes: 100 req/min per IP (default, set globally in app.ts)
  * Write routes: 20 req/min per DID (extracted from envelope.from)
+ * WebSocket sends: 20 envelopes/min per authenticated DID, across all of
+ * the agent's sockets
  */
 
 import type { FastifyInstance, FastifyRequest, RouteOptions } from "fastify";
@@ -37,6 +39,24 @@ export const readLimitConfig: RouteOptions["config"] = {
   },
 };
 
+/**
+ * Rate limiter for envelopes sent over WebSocket connections, keyed by the
+ * DID the socket authenticated as (request.x811Auth), so opening more
+ * sockets does not raise an agent's budget.
+ * @returns undefined when rate limiting is not registered.
+ */
+export function createSocketSendLimit(
+  fastify: FastifyInstance,
+): ReturnType<FastifyInstance["createRateLimit"]> | undefined {
+  if (!fastify.hasDecorator("createRateLimit")) return undefined;
+  return fastify.createRateLimit({
+    max: config.rateLimitWrite,
+    timeWindow: "1 minute",
+    keyGenerator: (request: FastifyRequest) =>
+      `ws-send:${(request as FastifyRequest & { x811Auth: { did: string } }).x811Auth.did}`,
+  });
+}
+
 /**
  * Helper to apply write rate limits to a Fastify route definition.
  * Usage: `{ ...writeRateLimit() }` spread into route options.
@@ -0,0 +1,138 @@
+/**
+ * x811 Protocol — Admin routes.
+ *
+ * GET  /api/v1/admin/disputes                         — Open disputes
+ * POST /api/v1/admin/disputes/:interactionId/resolve  — Resolve a dispute
+ * POST /api/v1/admin/agents/:id/revoke                 — Revoke an agent's DID
+ *
+ * All routes require `Authorization: Bearer <ADMIN_TOKEN>`.
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { verifyAdminToken } from "../middleware/admin.js";
+import { NegotiationError } from "../services/negotiation.js";
+import { RegistryError } from "../services/registry.js";
+import { DISPUTE_OUTCOMES, type DisputeOutcome } from "../services/arbiter.js";
+
+// ---------------------------------------------------------------------------
+// Helper
+// ---------------------------------------------------------------------------
+
+function sendError(
+  reply: FastifyReply,
+  statusCode: number,
+  code: string,
+  message: string,
+  details: Record<string, unknown> = {},
+): FastifyReply {
+  return reply.status(statusCode).send({
+    error: { code, message, details },
+  });
+}
+
+function parseJson(value: string | null): unknown {
+  return value ? JSON.parse(value) : null;
+}
+
+// ---------------------------------------------------------------------------
+// Plugin
+// ---------------------------------------------------------------------------
+
+export default async function adminRoutes(
+  fastify: FastifyInstance,
+): Promise<void> {
+  // ---------- GET /api/v1/admin/disputes — Open disputes ----------
+
+  fastify.get(
+    "/api/v1/admin/disputes",
+    { preHandler: [verifyAdminToken] },
+    async (_request: FastifyRequest, reply: FastifyReply) => {
+      const disputes = fastify.db.getInteractionsByStatus("disputed").map((i) => ({
+        interaction_id: i.id,
+        initiator_did: i.initiator_did,
+        provider_did: i.provider_did,
+        capability: i.capability,
+        settlement: i.settlement,
+        offer: parseJson(i.offer_payload),
+        result: parseJson(i.result_payload),
+        dispute: parseJson(i.dispute_payload),
+        response: parseJson(i.dispute_response),
+        updated_at: i.updated_at,
+      }));
+
+      return reply.send({ disputes, count: disputes.length });
+    },
+  );
+
+  // ---------- POST /api/v1/admin/disputes/:interactionId/resolve ----------
+
+  fastify.post<{
+    Params: { interactionId: string };
+    Body: { outcome: DisputeOutcome; provider_share?: number; reason?: string };
+  }>(
+    "/api/v1/admin/disputes/:interactionId/resolve",
+    { preHandler: [verifyAdminToken] },
+    async (request, reply) => {
+      const { interactionId } = request.params;
+      const body = request.body ?? {};
+
+      if (!fastify.db.getInteraction(interactionId)) {
+        return sendError(reply, 404, "X811-4006", "Interaction not found", {
+          interaction_id: interactionId,
+        });
+      }
+      if (!DISPUTE_OUTCOMES.includes(body.outcome)) {
+        return sendError(reply, 400, "X811-4006", "Invalid dispute outcome", {
+          allowed_outcomes: DISPUTE_OUTCOMES,
+        });
+      }
+      if (!body.reason) {
+        return sendError(reply, 400, "X811-4006", "Missing reason for the resolution");
+      }
+
+      try {
+        const result = await fastify.negotiation.resolveDispute(
+          interactionId,
+          {
+            outcome: body.outcome,
+            provider_share: body.provider_share,
+            reason: body.reason,
+          },
+          "admin",
+        );
+        return reply.send(result);
+      } catch (error) {
+        if (error instanceof NegotiationError) {
+          const status = error.code === "X811-5001" ? 502 : 409;
+          return sendError(reply, status, error.code, error.message, error.details);
+        }
+        throw error;
+      }
+    },
+  );
+  // ---------- POST /api/v1/admin/agents/:id/revoke — Revoke a compromised DID ----------
+
+  fastify.post<{ Params: { id: string }; Body: { reason?: string } }>(
+    "/api/v1/admin/agents/:id/revoke",
+    { preHandler: [verifyAdminToken] },
+    async (request, reply) => {
+      try {
+        const result = fastify.registry.revokeAgent(request.params.id);
+        request.log.warn(
+          { did: result.did, reason: request.body?.reason },
+          "DID revoked by admin",
+        );
+        return reply.send(result);
+      } catch (error) {
+        if (error instanceof RegistryError) {
+          const status =
+            error.code === "X811-3001" ? 404 :
+              error.code === "X811-1002" ? 410 :
+                409;
+          return sendError(reply, status, error.code, error.message, error.details);
+        }
+        throw error;
+      }
+    },
+  );
+}
@@ -2,20 +2,28 @@
  * x811 Protocol — Agent routes.
  *
  * POST   /api/v1/agents            — Register agent (auth required)
- * GET    /api/v1/agents            — Discovery with query filters
+ * GET    /api/v1/agents            — Discovery with query filters (?q= full-text search, ?sort=price|trust|latency, ?federated=true also queries peers)
  * GET    /api/v1/agents/:id        — Agent details
  * GET    /api/v1/agents/:id/card   — Agent card (A2A compatible)
+ * GET    /api/v1/agents/:id/reputation — Provider reputation per capability and over time
+ * GET    /api/v1/agents/:id/attestation — Trust attestation signed by the server DID
  * GET    /api/v1/agents/:id/did    — DID document
+ * GET    /api/v1/agents/:id/did/history — DID document versions
  * GET    /api/v1/agents/:id/status — Status + availability
  * PUT    /api/v1/agents/:id        — Update (auth required)
+ * PUT    /api/v1/agents/:id/keys   — Rotate keys (auth required)
  * DELETE /api/v1/agents/:id        — Deactivate (auth required)
+ * POST   /api/v1/agents/:id/revoke — Revoke DID permanently (auth required)
  * POST   /api/v1/agents/:id/heartbeat — Heartbeat (auth required)
  */
 
 import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import type { KeyRotationPayload } from "@x811/core";
 import { verifyEnvelopeAuth, type X811AuthInfo } from "../middleware/auth.js";
 import { writeLimitConfig } from "../middleware/rateLimit.js";
-import { RegistryError } from "../services/registry.js";
+import { DISCOVERY_SORTS, RegistryError, type DiscoverySort } from "../services/registry.js";
+import { CapabilityError, type CapabilityInput } from "../services/capabilities.js";
+import { REPUTATION_BUCKETS, type ReputationBucket } from "../services/trust.js";
 
 // ---------------------------------------------------------------------------
 // Helper: send structured error response
@@ -38,12 +46,28 @@ function handleRegistryError(error: unknown, reply: FastifyReply): FastifyReply
     const status =
       error.code === "X811-3001" ? 404 :
         error.code === "X811-3002" ? 409 :
-          400;
+          error.code === "X811-2001" ? 401 :
+            error.code === "X811-1002" ? 410 :
+              error.code === "X811-1003" ? 409 :
+                400;
     return sendError(reply, status, error.code, error.message, error.details);
   }
+  if (error instanceof CapabilityError) {
+    return sendError(reply, 400, error.code, error.message, error.details);
+  }
   throw error;
 }
 
+/**
+ * Changes to an agent's record must be signed with its current key; the
+ * previous key is only honoured for messaging during the rotation grace
+ * window.
+ */
+function requireCurrentKey(auth: X811AuthInfo, reply: FastifyReply): FastifyReply | null {
+  if (!auth.previousKey) return null;
+  return sendError(reply, 401, "X811-2001", "Request must be signed with the current key");
+}
+
 // ---------------------------------------------------------------------------
 // Plugin
 // ---------------------------------------------------------------------------
@@ -69,7 +93,7 @@ export default async function agentRoutes(
               description?: string;
               endpoint?: string;
               payment_address?: string;
-              capabilities?: Array<{ name: string; metadata?: Record<string, unknown> }>;
+              capabilities?: CapabilityInput[];
               agent_card?: Record<string, unknown>;
             };
           };
@@ -116,18 +140,31 @@ export default async function agentRoutes(
       request: FastifyRequest<{
         Querystring: {
           capability?: string;
+          q?: string;
+          max_price?: string;
+          max_latency_ms?: string;
+          sort?: string;
           trust_min?: string;
           status?: string;
           availability?: string;
           limit?: string;
           offset?: string;
+          federated?: string;
         };
       }>,
       reply: FastifyReply,
     ) => {
-      const query = request.query;
+      const { federated, ...query } = request.query;
+      if (query.sort !== undefined && !DISCOVERY_SORTS.includes(query.sort as DiscoverySort)) {
+        return sendError(reply, 400, "X811-4006", "Invalid sort", { allowed: DISCOVERY_SORTS });
+      }
+
       const result = fastify.registry.discoverAgents({
         capability: query.capability,
+        q: query.q,
+        max_price: query.max_price ? parseFloat(query.max_price) : undefined,
+        max_latency_ms: query.max_latency_ms ? parseInt(query.max_latency_ms, 10) : undefined,
+        sort: query.sort as DiscoverySort | undefined,
         trust_min: query.trust_min ? parseFloat(query.trust_min) : undefined,
         status: query.status ?? "active",
         availability: query.availability,
@@ -135,6 +172,21 @@ export default async function agentRoutes(
         offset: query.offset ? parseInt(query.offset, 10) : 0,
       });
 
+      if (federated === "true") {
+        const remote = await fastify.federation.discover(
+          Object.fromEntries(Object.entries(query).filter(([, v]) => v !== undefined)) as Record<string, string>,
+        );
+        return reply.send({
+          ...result,
+          agents: [
+            ...result.agents.map((agent) => ({ ...agent, home_server: fastify.federation.did })),
+            ...remote.agents,
+          ],
+          total: result.total + remote.total,
+          peers_failed: remote.peers_failed,
+        });
+      }
+
       return reply.send(result);
     },
   );
@@ -161,12 +213,14 @@ export default async function agentRoutes(
           status: agent.status,
           availability: agent.availability,
           trust_score: agent.trust_score,
+          trust_flags: agent.trust_flags ? JSON.parse(agent.trust_flags) : [],
           interaction_count: agent.interaction_count,
           successful_count: agent.successful_count,
           failed_count: agent.failed_count,
           capabilities: capabilities.map((c) => ({
             id: c.id,
             name: c.name,
+            version: c.version,
             metadata: c.metadata ? JSON.parse(c.metadata) : null,
           })),
           last_seen_at: agent.last_seen_at,
@@ -196,6 +250,61 @@ export default async function agentRoutes(
     },
   );
 
+  // ---------- GET /api/v1/agents/:id/reputation — Reputation ----------
+
+  fastify.get(
+    "/api/v1/agents/:id/reputation",
+    async (
+      request: FastifyRequest<{
+        Params: { id: string };
+        Querystring: { window?: string; bucket?: string };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const { window, bucket } = request.query;
+      const windowDays = window !== undefined ? Number(window) : undefined;
+      if (windowDays !== undefined && !(Number.isInteger(windowDays) && windowDays > 0)) {
+        return sendError(reply, 400, "X811-4006", "window must be a positive number of days");
+      }
+      if (bucket !== undefined && !REPUTATION_BUCKETS.includes(bucket as ReputationBucket)) {
+        return sendError(reply, 400, "X811-4006", "Invalid bucket", { allowed: REPUTATION_BUCKETS });
+      }
+
+      try {
+        const agent = fastify.registry.getAgent(request.params.id);
+        return reply.send({
+          agent_id: agent.id,
+          ...fastify.trust.getReputation(agent.did, {
+            windowDays,
+            bucket: bucket as ReputationBucket | undefined,
+          }),
+        });
+      } catch (error) {
+        return handleRegistryError(error, reply);
+      }
+    },
+  );
+
+  // ---------- GET /api/v1/agents/:id/attestation — Trust attestation ----------
+
+  fastify.get(
+    "/api/v1/agents/:id/attestation",
+    async (
+      request: FastifyRequest<{ Params: { id: string } }>,
+      reply: FastifyReply,
+    ) => {
+      try {
+        const agent = fastify.registry.getAgent(request.params.id);
+        return reply
+          .header("content-type", "application/vc+ld+json")
+          .header("cache-control", "no-store")
+          .send(fastify.attestations.issue(agent));
+      } catch (error) {
+        return handleRegistryError(error, reply);
+      }
+    },
+  );
+
   // ---------- GET /api/v1/agents/:id/did — DID document ----------
 
   fastify.get(
@@ -215,6 +324,30 @@ export default async function agentRoutes(
     },
   );
 
+  // ---------- GET /api/v1/agents/:id/did/history — DID document versions ----------
+
+  fastify.get(
+    "/api/v1/agents/:id/did/history",
+    async (
+      request: FastifyRequest<{ Params: { id: string } }>,
+      reply: FastifyReply,
+    ) => {
+      try {
+        const versions = fastify.registry.getDIDDocumentHistory(request.params.id);
+        return reply.send({
+          versions: versions.map((v) => ({
+            version: v.version,
+            did_document: JSON.parse(v.did_document),
+            created_at: v.created_at,
+            superseded_at: v.superseded_at,
+          })),
+        });
+      } catch (error) {
+        return handleRegistryError(error, reply);
+      }
+    },
+  );
+
   // ---------- GET /api/v1/agents/:id/status — Status + availability ----------
 
   fastify.get(
@@ -252,6 +385,8 @@ export default async function agentRoutes(
             actual_did: auth.did,
           });
         }
+        const staleKey = requireCurrentKey(auth, reply);
+        if (staleKey) return staleKey;
 
         const body = request.body as {
           envelope: {
@@ -260,7 +395,7 @@ export default async function agentRoutes(
               description?: string;
               endpoint?: string;
               payment_address?: string;
-              capabilities?: Array<{ name: string; metadata?: Record<string, unknown> }>;
+              capabilities?: CapabilityInput[];
               agent_card?: Record<string, unknown>;
             };
           };
@@ -284,6 +419,59 @@ export default async function agentRoutes(
     },
   );
 
+  // ---------- PUT /api/v1/agents/:id/keys — Rotate keys ----------
+
+  fastify.put<{ Params: { id: string } }>(
+    "/api/v1/agents/:id/keys",
+    {
+      preHandler: [verifyEnvelopeAuth],
+      config: writeLimitConfig,
+    },
+    async (request, reply) => {
+      try {
+        const auth = (request as FastifyRequest & { x811Auth: X811AuthInfo }).x811Auth;
+        const agent = fastify.registry.getAgent(request.params.id);
+
+        if (auth.did !== agent.did) {
+          return sendError(reply, 403, "X811-2004", "Not authorized to rotate keys for this agent", {
+            expected_did: agent.did,
+            actual_did: auth.did,
+          });
+        }
+        const staleKey = requireCurrentKey(auth, reply);
+        if (staleKey) return staleKey;
+
+        const body = request.body as {
+          envelope: { nonce: string; payload: KeyRotationPayload };
+        };
+        const payload = body.envelope.payload;
+
+        if (!payload?.did_document || !payload.public_key || !payload.proof) {
+          return sendError(
+            reply, 400, "X811-1004",
+            "did_document, public_key and proof are required",
+          );
+        }
+
+        const version = fastify.registry.rotateKeys(request.params.id, {
+          didDocument: payload.did_document as unknown as Record<string, unknown>,
+          publicKey: payload.public_key,
+          proof: payload.proof,
+          nonce: body.envelope.nonce,
+        });
+
+        return reply.send({
+          id: agent.id,
+          did: agent.did,
+          version: version.version,
+          rotated_at: version.created_at,
+        });
+      } catch (error) {
+        return handleRegistryError(error, reply);
+      }
+    },
+  );
+
   // ---------- DELETE /api/v1/agents/:id — Deactivate agent ----------
 
   fastify.delete<{ Params: { id: string } }>(
@@ -303,6 +491,8 @@ export default async function agentRoutes(
             actual_did: auth.did,
           });
         }
+        const staleKey = requireCurrentKey(auth, reply);
+        if (staleKey) return staleKey;
 
         fastify.registry.deactivateAgent(request.params.id);
 
@@ -317,6 +507,36 @@ export default async function agentRoutes(
     },
   );
 
+  // ---------- POST /api/v1/agents/:id/revoke — Revoke DID ----------
+
+  fastify.post<{ Params: { id: string } }>(
+    "/api/v1/agents/:id/revoke",
+    {
+      preHandler: [verifyEnvelopeAuth],
+      config: writeLimitConfig,
+    },
+    async (request, reply) => {
+      try {
+        const auth = (request as FastifyRequest & { x811Auth: X811AuthInfo }).x811Auth;
+        const agent = fastify.registry.getAgent(request.params.id);
+
+        if (auth.did !== agent.did) {
+          return sendError(reply, 403, "X811-2004", "Not authorized to revoke this agent", {
+            expected_did: agent.did,
+            actual_did: auth.did,
+          });
+        }
+        // A key replaced by rotation must not be able to revoke the DID
+        const staleKey = requireCurrentKey(auth, reply);
+        if (staleKey) return staleKey;
+
+        return reply.send(fastify.registry.revokeAgent(request.params.id));
+      } catch (error) {
+        return handleRegistryError(error, reply);
+      }
+    },
+  );
+
   // ---------- POST /api/v1/agents/:id/heartbeat — Heartbeat ----------
 
   fastify.post<{ Params: { id: string } }>(
@@ -0,0 +1,125 @@
+/**
+ * x811 Protocol — Result blob routes.
+ *
+ * PUT /api/v1/blobs/:hash?interaction_id= — Upload a result (auth: request signed
+ *                                           by the interaction's provider); the
+ *                                           body's SHA-256 must equal :hash
+ * GET /api/v1/blobs/:hash                 — Download a result (auth: request signed
+ *                                           by a party to an interaction holding it)
+ */
+
+import { createReadStream } from "node:fs";
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { MESSAGE_LIMITS } from "@x811/core";
+import { verifySignedRequest } from "../middleware/auth.js";
+import { writeLimitConfig } from "../middleware/rateLimit.js";
+import { BlobError } from "../services/blobs.js";
+
+// ---------------------------------------------------------------------------
+// Helper
+// ---------------------------------------------------------------------------
+
+function sendError(
+  reply: FastifyReply,
+  statusCode: number,
+  code: string,
+  message: string,
+  details: Record<string, unknown> = {},
+): FastifyReply {
+  return reply.status(statusCode).send({
+    error: { code, message, details },
+  });
+}
+
+function handleBlobError(error: unknown, reply: FastifyReply): FastifyReply {
+  if (error instanceof BlobError) {
+    const status =
+      error.code === "X811-3001" ? 404 :
+        error.code === "X811-2004" ? 403 :
+          error.code === "X811-4006" ? 409 :
+            400;
+    return sendError(reply, status, error.code, error.message, error.details);
+  }
+  throw error;
+}
+
+// ---------------------------------------------------------------------------
+// Plugin
+// ---------------------------------------------------------------------------
+
+export default async function blobRoutes(
+  fastify: FastifyInstance,
+): Promise<void> {
+  // Blobs are opaque bytes whatever their Content-Type (JSON included)
+  fastify.removeAllContentTypeParsers();
+  fastify.addContentTypeParser("*", { parseAs: "buffer" }, (_request, body, done) => {
+    done(null, body);
+  });
+
+  // ---------- PUT /api/v1/blobs/:hash — Upload a result ----------
+
+  fastify.put<{
+    Params: { hash: string };
+    Querystring: { interaction_id?: string };
+  }>(
+    "/api/v1/blobs/:hash",
+    {
+      preHandler: [verifySignedRequest],
+      config: writeLimitConfig,
+      bodyLimit: MESSAGE_LIMITS.MAX_RESULT_URL_FILE,
+    },
+    async (request, reply) => {
+      const auth = (request as FastifyRequest & { x811Auth: { did: string } }).x811Auth;
+      const { interaction_id: interactionId } = request.query;
+      if (!interactionId) {
+        return sendError(reply, 400, "X811-4006", "Missing interaction_id query parameter");
+      }
+      if (!Buffer.isBuffer(request.body)) {
+        return sendError(reply, 400, "X811-6002", "Missing blob content");
+      }
+
+      try {
+        const blob = await fastify.blobs.put({
+          hash: request.params.hash,
+          interactionId,
+          uploaderDid: auth.did,
+          content: request.body,
+          contentType: request.headers["content-type"] ?? "application/octet-stream",
+        });
+
+        return reply.status(201).send({
+          hash: blob.hash,
+          interaction_id: blob.interaction_id,
+          size: blob.size,
+          content_type: blob.content_type,
+          url: fastify.blobs.url(blob.hash),
+        });
+      } catch (error) {
+        return handleBlobError(error, reply);
+      }
+    },
+  );
+
+  // ---------- GET /api/v1/blobs/:hash — Download a result ----------
+
+  fastify.get<{ Params: { hash: string } }>(
+    "/api/v1/blobs/:hash",
+    {
+      preHandler: [verifySignedRequest],
+    },
+    async (request, reply) => {
+      const auth = (request as FastifyRequest & { x811Auth: { did: string } }).x811Auth;
+
+      try {
+        const { blob, path } = fastify.blobs.open(request.params.hash, auth.did);
+        return reply
+          .type(blob.content_type)
+          .header("Content-Length", blob.size)
+          .header("Cache-Control", "private")
+          .send(createReadStream(path));
+      } catch (error) {
+        return handleBlobError(error, reply);
+      }
+    },
+  );
+}
@@ -0,0 +1,62 @@
+/**
+ * x811 Protocol — Capability routes.
+ *
+ * GET /api/v1/capabilities/:name/schema — Input/output schemas published for a capability
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+
+// ---------------------------------------------------------------------------
+// Helper
+// ---------------------------------------------------------------------------
+
+function sendError(
+  reply: FastifyReply,
+  statusCode: number,
+  code: string,
+  message: string,
+  details: Record<string, unknown> = {},
+): FastifyReply {
+  return reply.status(statusCode).send({
+    error: { code, message, details },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Plugin
+// ---------------------------------------------------------------------------
+
+export default async function capabilityRoutes(
+  fastify: FastifyInstance,
+): Promise<void> {
+  // ---------- GET /api/v1/capabilities/:name/schema — Capability schemas ----------
+
+  // Each provider publishes its own schemas; ?version= narrows to one version
+  fastify.get(
+    "/api/v1/capabilities/:name/schema",
+    async (
+      request: FastifyRequest<{
+        Params: { name: string };
+        Querystring: { version?: string };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const { name } = request.params;
+      const { version } = request.query;
+      const schemas = fastify.capabilities.getSchemas(name, version);
+
+      if (schemas.length === 0) {
+        return sendError(reply, 404, "X811-3003", "No agent offers this capability", {
+          capability: name,
+          ...(version !== undefined ? { version } : {}),
+        });
+      }
+
+      return reply.send({
+        name,
+        versions: [...new Set(schemas.map((s) => s.version))],
+        schemas,
+      });
+    },
+  );
+}
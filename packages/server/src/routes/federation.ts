@@ -0,0 +1,170 @@
+/**
+ * x811 Protocol — Federation routes (server-to-server).
+ *
+ * POST /api/v1/federation/peers        — Accept a signed x811/peer announcement
+ * GET  /api/v1/federation/peers        — List peer servers
+ * POST /api/v1/federation/messages     — Accept a signed x811/forward envelope
+ * GET  /api/v1/federation/messages/:id — Delivery status of a message
+ *
+ * Registered only when FEDERATION_PEERS or FEDERATION_ALLOWED_PEERS is set.
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { writeLimitConfig } from "../middleware/rateLimit.js";
+import { isNegotiationMessage, NegotiationError } from "../services/negotiation.js";
+import { RouterError, type Envelope } from "../services/router.js";
+import { FederationError } from "../services/federation.js";
+
+// ---------------------------------------------------------------------------
+// Helper
+// ---------------------------------------------------------------------------
+
+function sendError(
+  reply: FastifyReply,
+  statusCode: number,
+  code: string,
+  message: string,
+  details: Record<string, unknown> = {},
+): FastifyReply {
+  return reply.status(statusCode).send({
+    error: { code, message, details },
+  });
+}
+
+function handleFederationError(error: unknown, reply: FastifyReply): FastifyReply {
+  if (error instanceof FederationError) {
+    const status =
+      error.code === "X811-1001" ? 502 :
+        error.code === "X811-2001" ? 401 :
+          error.code === "X811-2002" ? 401 :
+            error.code === "X811-2003" ? 401 :
+              error.code === "X811-2004" ? 403 :
+                error.code === "X811-3001" ? 404 :
+                  400;
+    return sendError(reply, status, error.code, error.message, error.details);
+  }
+  if (error instanceof RouterError || error instanceof NegotiationError) {
+    const status = error.code === "X811-3001" ? 404 : 400;
+    return sendError(reply, status, error.code, error.message, error.details);
+  }
+  throw error;
+}
+
+/** Read the server envelope from a request body. */
+function bodyEnvelope(request: FastifyRequest): Envelope | undefined {
+  const body = request.body as { envelope?: Envelope } | undefined;
+  return body?.envelope && typeof body.envelope === "object" ? body.envelope : undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Plugin
+// ---------------------------------------------------------------------------
+
+export default async function federationRoutes(
+  fastify: FastifyInstance,
+): Promise<void> {
+  // ---------- POST /api/v1/federation/peers — Peer announcement ----------
+
+  fastify.post(
+    "/api/v1/federation/peers",
+    { config: writeLimitConfig },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const envelope = bodyEnvelope(request);
+      if (!envelope) {
+        return sendError(reply, 400, "X811-4006", "Request body must contain an envelope");
+      }
+
+      try {
+        const peer = await fastify.federation.acceptPeer(envelope);
+        return reply.status(201).send({
+          did: fastify.federation.did,
+          peer: { did: peer.did, url: peer.url, status: peer.status },
+        });
+      } catch (error) {
+        return handleFederationError(error, reply);
+      }
+    },
+  );
+
+  // ---------- GET /api/v1/federation/peers — List peers ----------
+
+  fastify.get(
+    "/api/v1/federation/peers",
+    async (_request: FastifyRequest, reply: FastifyReply) => {
+      const peers = fastify.federation.listPeers().map((peer) => ({
+        did: peer.did,
+        url: peer.url,
+        status: peer.status,
+        last_seen_at: peer.last_seen_at,
+      }));
+
+      return reply.send({ did: fastify.federation.did, peers, count: peers.length });
+    },
+  );
+
+  // ---------- POST /api/v1/federation/messages — Relayed agent envelope ----------
+
+  fastify.post(
+    "/api/v1/federation/messages",
+    { config: writeLimitConfig },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const envelope = bodyEnvelope(request);
+      if (!envelope) {
+        return sendError(reply, 400, "X811-4006", "Request body must contain an envelope");
+      }
+
+      try {
+        const { inner, duplicate } = await fastify.federation.receiveForward(envelope);
+
+        // A retried forward whose earlier attempt was already accepted
+        if (duplicate) {
+          return reply.send({ message_id: inner.id, status: "duplicate" });
+        }
+
+        fastify.negotiation.checkCapabilitySchemas(inner);
+        const sendResult = fastify.messageRouter.sendMessage(inner);
+        const response: Record<string, unknown> = {
+          message_id: sendResult.message_id,
+          status: sendResult.status,
+          recipient_availability: sendResult.recipient_availability,
+        };
+
+        if (isNegotiationMessage(inner.type) && fastify.negotiation.hostsConversation(inner)) {
+          try {
+            const negotiationResult = await fastify.negotiation.handleMessage(inner);
+            response.interaction_id = negotiationResult.interaction_id;
+            response.interaction_status = negotiationResult.status;
+          } catch (error) {
+            // The message is still delivered; report the error to the relaying server
+            if (!(error instanceof NegotiationError)) throw error;
+            response.negotiation_error = {
+              code: error.code,
+              message: error.message,
+              details: error.details,
+            };
+          }
+        }
+
+        return reply.send(response);
+      } catch (error) {
+        return handleFederationError(error, reply);
+      }
+    },
+  );
+
+  // ---------- GET /api/v1/federation/messages/:id — Delivery status ----------
+
+  fastify.get(
+    "/api/v1/federation/messages/:id",
+    async (
+      request: FastifyRequest<{ Params: { id: string } }>,
+      reply: FastifyReply,
+    ) => {
+      try {
+        return reply.send(fastify.federation.getForwardStatus(request.params.id));
+      } catch (error) {
+        return handleFederationError(error, reply);
+      }
+    },
+  );
+}
@@ -1,15 +1,32 @@
 /**
  * x811 Protocol — Message routes.
  *
- * POST /api/v1/messages          — Send signed envelope (auth required)
- * GET  /api/v1/messages/:agentId — Poll messages (auth: verify DID matches agentId)
+ * POST /api/v1/messages          — Send signed envelope (auth required);
+ *                                  forwarded when the recipient is homed on a peer
+ * GET  /api/v1/messages/:agentId — Poll messages (auth: request signed by the agent);
+ *                                  returned messages are leased until acknowledged
+ * POST /api/v1/messages/:agentId/ack — Acknowledge processed messages (auth required)
+ * GET  /api/v1/messages/:agentId/ws  — WebSocket transport: authenticates once
+ *                                  with a signed challenge, then carries
+ *                                  envelopes both ways (see ClientFrame/ServerFrame)
  */
 
+import { randomUUID } from "node:crypto";
 import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
-import { verifyEnvelopeAuth, verifyAgentAccess } from "../middleware/auth.js";
-import { writeLimitConfig } from "../middleware/rateLimit.js";
+import type { WebSocket } from "@fastify/websocket";
+import type { ClientFrame, SendResult, ServerFrame, X811Envelope } from "@x811/core";
+import {
+  AuthError,
+  authenticateAgentRequest,
+  authenticateEnvelope,
+  verifyEnvelopeAuth,
+  verifyAgentAccess,
+  type X811AuthInfo,
+} from "../middleware/auth.js";
+import { createSocketSendLimit, writeLimitConfig } from "../middleware/rateLimit.js";
 import { isNegotiationMessage, NegotiationError } from "../services/negotiation.js";
 import { RouterError, type Envelope } from "../services/router.js";
+import { FederationError, type ForwardResult } from "../services/federation.js";
 
 // ---------------------------------------------------------------------------
 // Helper
@@ -27,29 +44,280 @@ function sendError(
   });
 }
 
-function handleServiceError(error: unknown, reply: FastifyReply): FastifyReply {
+/** HTTP status of a service error; anything else is rethrown. */
+function serviceErrorStatus(error: unknown): number {
   if (error instanceof RouterError) {
-    const status =
-      error.code === "X811-3001" ? 404 :
-        error.code === "X811-2002" ? 401 :
-          error.code === "X811-2003" ? 401 :
-            400;
-    return sendError(reply, status, error.code, error.message, error.details);
+    return error.code === "X811-3001" ? 404 :
+      error.code === "X811-2002" ? 401 :
+        error.code === "X811-2003" ? 401 :
+          400;
   }
   if (error instanceof NegotiationError) {
-    const status =
-      error.code === "X811-3001" ? 404 :
-        error.code === "X811-4003" ? 400 :
-          error.code === "X811-5001" ? 400 :
-            error.code === "X811-5003" ? 400 :
-              error.code === "X811-6002" ? 400 :
-                error.code === "X811-2004" ? 403 :
+    return error.code === "X811-3001" ? 404 :
+      error.code === "X811-4003" ? 400 :
+        error.code === "X811-5001" ? 400 :
+          error.code === "X811-5003" ? 400 :
+            error.code === "X811-6002" ? 400 :
+              error.code === "X811-2004" ? 403 :
+                error.code === "X811-4007" ? 409 :
                   400;
-    return sendError(reply, status, error.code, error.message, error.details);
+  }
+  if (error instanceof FederationError) {
+    return 404;
   }
   throw error;
 }
 
+function handleServiceError(error: unknown, reply: FastifyReply): FastifyReply {
+  const status = serviceErrorStatus(error);
+  const { code, message, details } = error as RouterError;
+  return sendError(reply, status, code, message, details);
+}
+
+/**
+ * Store and route an authenticated envelope, relay it to a peer if its
+ * recipient is homed there, and run it through the negotiation engine.
+ * A negotiation error does not undo delivery; it is reported in the result.
+ */
+async function submitEnvelope(fastify: FastifyInstance, envelope: Envelope): Promise<SendResult> {
+  // Requests and results that don't match the capability's schemas are never delivered
+  fastify.negotiation.checkCapabilitySchemas(envelope);
+
+  // Route through MessageRouterService for storage/delivery
+  const sendResult = fastify.messageRouter.sendMessage(envelope);
+
+  // Relay to the recipient's home server right away; failures are retried later
+  let forwardResult: ForwardResult | undefined;
+  if (sendResult.status === "forwarding") {
+    forwardResult = await fastify.federation.forward(sendResult.message_id);
+  }
+  const status = forwardResult?.status ?? sendResult.status;
+
+  // If the message is negotiation-related, also process through NegotiationService,
+  // unless the negotiation is hosted by the recipient's home server
+  let negotiationResult: { interaction_id: string; status: string } | undefined;
+
+  if (
+    isNegotiationMessage(envelope.type) &&
+    (!forwardResult || fastify.negotiation.hostsConversation(envelope))
+  ) {
+    try {
+      negotiationResult = await fastify.negotiation.handleMessage(envelope);
+    } catch (error) {
+      // If negotiation processing fails, we still delivered the message,
+      // but we report the negotiation error
+      if (error instanceof NegotiationError) {
+        return {
+          message_id: sendResult.message_id,
+          status,
+          recipient_availability: sendResult.recipient_availability,
+          negotiation_error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        };
+      }
+      throw error;
+    }
+  }
+
+  const response: SendResult = {
+    message_id: sendResult.message_id,
+    status,
+    recipient_availability: sendResult.recipient_availability,
+  };
+
+  if (forwardResult) {
+    response.peer_did = forwardResult.peer_did;
+  }
+
+  if (negotiationResult) {
+    response.interaction_id = negotiationResult.interaction_id;
+    response.interaction_status = negotiationResult.status;
+  } else if (forwardResult) {
+    // The home server's view of the negotiation, when it hosts it
+    if (forwardResult.interaction_id) {
+      response.interaction_id = forwardResult.interaction_id;
+      response.interaction_status = forwardResult.interaction_status;
+    }
+    if (forwardResult.negotiation_error) {
+      response.negotiation_error = forwardResult.negotiation_error as SendResult["negotiation_error"];
+    }
+  }
+
+  return response;
+}
+
+// ---------------------------------------------------------------------------
+// WebSocket transport
+// ---------------------------------------------------------------------------
+
+/** How long a WebSocket may stay open before answering its challenge. */
+const SOCKET_AUTH_TIMEOUT_MS = 10_000;
+
+/** Close code for authentication and protocol failures (policy violation). */
+const CLOSE_POLICY_VIOLATION = 1008;
+
+/** Close code when the agent has too many push connections (try again later). */
+const CLOSE_TRY_AGAIN_LATER = 1013;
+
+/**
+ * Serve one agent's WebSocket. The server opens with a challenge; the
+ * first frame must answer it with an X811-Signature for the socket path
+ * whose nonce is the challenge. After that, `send` frames are authenticated
+ * and submitted exactly like POST /api/v1/messages and answered with a
+ * `result` or `error` frame carrying the envelope id, `ack` frames
+ * acknowledge pushed messages, and messages for the agent are pushed as
+ * `message` frames (leased, like SSE). Frames are handled in order.
+ */
+function serveSocket(
+  fastify: FastifyInstance,
+  socket: WebSocket,
+  request: FastifyRequest<{ Params: { agentId: string } }>,
+  limitSend: ReturnType<typeof createSocketSendLimit>,
+): void {
+  const send = (frame: ServerFrame) => socket.send(JSON.stringify(frame));
+  const sendFrameError = (
+    id: string | undefined,
+    code: string,
+    message: string,
+    details: Record<string, unknown> = {},
+  ) => send({ type: "error", ...(id ? { id } : {}), error: { code, message, details } });
+  const sendServiceError = (id: string | undefined, error: unknown) => {
+    serviceErrorStatus(error); // rethrows anything else
+    const { code, message, details } = error as RouterError;
+    sendFrameError(id, code, message, details);
+  };
+
+  const agent = fastify.db.getAgent(request.params.agentId);
+  if (!agent) {
+    sendFrameError(undefined, "X811-3001", "Agent not found", { id: request.params.agentId });
+    socket.close(CLOSE_POLICY_VIOLATION, "Agent not found");
+    return;
+  }
+
+  const challenge = randomUUID();
+  let authenticated = false;
+  let subscribed = false;
+
+  const authTimer = setTimeout(() => {
+    socket.close(CLOSE_POLICY_VIOLATION, "Authentication timeout");
+  }, SOCKET_AUTH_TIMEOUT_MS);
+
+  socket.on("close", () => {
+    clearTimeout(authTimer);
+    if (subscribed) fastify.sseManager.unsubscribe(agent.id, socket);
+  });
+
+  const authenticate = async (frame: ClientFrame) => {
+    if (frame.type !== "auth") {
+      sendFrameError(undefined, "X811-2004", "Expected an auth frame answering the challenge");
+      socket.close(CLOSE_POLICY_VIOLATION, "Not authenticated");
+      return;
+    }
+
+    try {
+      await authenticateAgentRequest(fastify, agent, "GET", request.url, frame.authorization, challenge);
+    } catch (err) {
+      if (!(err instanceof AuthError)) throw err;
+      sendFrameError(undefined, err.code, err.message, err.details);
+      socket.close(CLOSE_POLICY_VIOLATION, "Authentication failed");
+      return;
+    }
+    clearTimeout(authTimer);
+    (request as FastifyRequest & { x811Auth: { did: string; agentId: string } }).x811Auth = {
+      did: agent.did,
+      agentId: agent.id,
+    };
+
+    const push = frame.subscribe !== false;
+    if (!fastify.sseManager.subscribe(agent.id, socket, { push })) {
+      sendFrameError(undefined, "X811-9001", "Push connection limit exceeded");
+      socket.close(CLOSE_TRY_AGAIN_LATER, "Connection limit exceeded");
+      return;
+    }
+    subscribed = true;
+    authenticated = true;
+    send({ type: "ready", did: agent.did });
+
+    // Replay deliverable messages, leasing them until acknowledged
+    if (push) {
+      for (const envelope of fastify.messageRouter.leaseMessages(agent.did)) {
+        send({ type: "message", envelope: envelope as X811Envelope<unknown> });
+      }
+    }
+  };
+
+  const submit = async (envelope: Envelope) => {
+    const id = typeof envelope?.id === "string" ? envelope.id : undefined;
+
+    // Sends share one budget per DID, like POST /api/v1/messages
+    const limit = await limitSend?.(request);
+    if (limit && !limit.isAllowed && limit.isExceeded) {
+      sendFrameError(id, "X811-9001", "Rate limit exceeded");
+      return;
+    }
+
+    try {
+      const auth = await authenticateEnvelope(fastify, { envelope });
+      if (auth.did !== agent.did) {
+        sendFrameError(id, "X811-2004", "Envelope is not from this socket's agent", {
+          expected_did: agent.did,
+          actual_did: auth.did,
+        });
+        return;
+      }
+      send({ type: "result", id: envelope.id, result: await submitEnvelope(fastify, envelope) });
+    } catch (err) {
+      if (err instanceof AuthError) {
+        sendFrameError(id, err.code, err.message, err.details);
+        return;
+      }
+      sendServiceError(id, err);
+    }
+  };
+
+  const handleFrame = async (data: string) => {
+    let frame: ClientFrame;
+    try {
+      frame = JSON.parse(data) as ClientFrame;
+    } catch {
+      sendFrameError(undefined, "X811-4006", "Frame is not valid JSON");
+      return;
+    }
+
+    if (!authenticated) return authenticate(frame);
+
+    switch (frame?.type) {
+      case "send":
+        return submit(frame.envelope as Envelope);
+      case "ack":
+        try {
+          const result = fastify.messageRouter.ackMessages(agent.did, frame.message_ids);
+          send({ type: "acked", ...result });
+        } catch (err) {
+          sendServiceError(undefined, err);
+        }
+        return;
+      default:
+        sendFrameError(undefined, "X811-4006", "Unknown frame type", {
+          type: (frame as { type?: unknown } | null)?.type,
+        });
+    }
+  };
+
+  let pending = Promise.resolve();
+  socket.on("message", (data) => {
+    pending = pending.then(() => handleFrame(String(data))).catch((err: unknown) => {
+      request.log.error(err, "Error handling WebSocket frame");
+      sendFrameError(undefined, "X811-9002", "Internal server error");
+    });
+  });
+
+  send({ type: "challenge", challenge });
+}
+
 // ---------------------------------------------------------------------------
 // Plugin
 // ---------------------------------------------------------------------------
@@ -68,48 +336,7 @@ export default async function messageRoutes(
     async (request: FastifyRequest, reply: FastifyReply) => {
       try {
         const body = request.body as { envelope: Envelope };
-        const envelope = body.envelope;
-
-        // Route through MessageRouterService for storage/delivery
-        const sendResult = fastify.messageRouter.sendMessage(envelope);
-
-        // If the message is negotiation-related, also process through NegotiationService
-        let negotiationResult: { interaction_id: string; status: string } | undefined;
-
-        if (isNegotiationMessage(envelope.type)) {
-          try {
-            negotiationResult = await fastify.negotiation.handleMessage(envelope);
-          } catch (error) {
-            // If negotiation processing fails, we still delivered the message,
-            // but we report the negotiation error
-            if (error instanceof NegotiationError) {
-              return reply.status(200).send({
-                message_id: sendResult.message_id,
-                status: sendResult.status,
-                recipient_availability: sendResult.recipient_availability,
-                negotiation_error: {
-                  code: error.code,
-                  message: error.message,
-                  details: error.details,
-                },
-              });
-            }
-            throw error;
-          }
-        }
-
-        const response: Record<string, unknown> = {
-          message_id: sendResult.message_id,
-          status: sendResult.status,
-          recipient_availability: sendResult.recipient_availability,
-        };
-
-        if (negotiationResult) {
-          response.interaction_id = negotiationResult.interaction_id;
-          response.interaction_status = negotiationResult.status;
-        }
-
-        return reply.send(response);
+        return reply.send(await submitEnvelope(fastify, body.envelope));
       } catch (error) {
         return handleServiceError(error, reply);
       }
@@ -152,4 +379,54 @@ export default async function messageRoutes(
       }
     },
   );
+  // ---------- POST /api/v1/messages/:agentId/ack — Acknowledge messages ----------
+
+  fastify.post<{ Params: { agentId: string } }>(
+    "/api/v1/messages/:agentId/ack",
+    {
+      preHandler: [verifyEnvelopeAuth],
+      config: writeLimitConfig,
+    },
+    async (request, reply) => {
+      try {
+        const auth = (request as FastifyRequest & { x811Auth: X811AuthInfo }).x811Auth;
+        const agent = fastify.db.getAgent(request.params.agentId);
+
+        if (!agent) {
+          return sendError(reply, 404, "X811-3001", "Agent not found", {
+            id: request.params.agentId,
+          });
+        }
+
+        if (auth.did !== agent.did) {
+          return sendError(reply, 403, "X811-2004", "Not authorized to acknowledge messages for this agent", {
+            expected_did: agent.did,
+            actual_did: auth.did,
+          });
+        }
+
+        const body = request.body as { envelope: Envelope };
+        if (body.envelope.type !== "x811/ack") {
+          return sendError(reply, 400, "X811-4006", "Expected an x811/ack envelope", {
+            type: body.envelope.type,
+          });
+        }
+
+        const payload = body.envelope.payload as { message_ids?: unknown } | null;
+        return reply.send(fastify.messageRouter.ackMessages(agent.did, payload?.message_ids));
+      } catch (error) {
+        return handleServiceError(error, reply);
+      }
+    },
+  );
+
+  // ---------- GET /api/v1/messages/:agentId/ws — WebSocket transport ----------
+
+  const limitSend = createSocketSendLimit(fastify);
+
+  fastify.get<{ Params: { agentId: string } }>(
+    "/api/v1/messages/:agentId/ws",
+    { websocket: true },
+    (socket, request) => serveSocket(fastify, socket, request, limitSend),
+  );
 }
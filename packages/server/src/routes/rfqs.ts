@@ -0,0 +1,87 @@
+/**
+ * x811 Protocol — Request-for-quote routes.
+ *
+ * GET /api/v1/rfqs/:rfqId?did=<initiator> — Interactions fanned out by an RFQ
+ *
+ * Only the initiator that created the RFQ may read it.
+ */
+
+import type { FastifyInstance, FastifyReply } from "fastify";
+
+// ---------------------------------------------------------------------------
+// Helper
+// ---------------------------------------------------------------------------
+
+function sendError(
+  reply: FastifyReply,
+  statusCode: number,
+  code: string,
+  message: string,
+  details: Record<string, unknown> = {},
+): FastifyReply {
+  return reply.status(statusCode).send({
+    error: { code, message, details },
+  });
+}
+
+function parseJson(value: string | null): unknown {
+  return value ? JSON.parse(value) : null;
+}
+
+// ---------------------------------------------------------------------------
+// Plugin
+// ---------------------------------------------------------------------------
+
+export default async function rfqRoutes(
+  fastify: FastifyInstance,
+): Promise<void> {
+  // ---------- GET /api/v1/rfqs/:rfqId — RFQ group ----------
+
+  fastify.get<{
+    Params: { rfqId: string };
+    Querystring: { did?: string };
+  }>(
+    "/api/v1/rfqs/:rfqId",
+    async (request, reply) => {
+      const { rfqId } = request.params;
+      const { did } = request.query;
+
+      if (!did) {
+        return sendError(reply, 400, "X811-2004", "Missing did query parameter");
+      }
+
+      const members = fastify.db.getInteractionsByRfqId(rfqId);
+      if (members.length === 0) {
+        return sendError(reply, 404, "X811-3001", "RFQ not found", { rfq_id: rfqId });
+      }
+      if (members[0].initiator_did !== did) {
+        return sendError(reply, 403, "X811-2004", "Only the RFQ initiator can read it", {
+          rfq_id: rfqId,
+        });
+      }
+
+      // The accepted member, if any — unaccepted members end rejected or expired
+      const awarded = members.find(
+        (m) => !["pending", "offered", "rejected", "expired"].includes(m.status),
+      );
+      const open = members.some((m) => m.status === "pending" || m.status === "offered");
+
+      return reply.send({
+        rfq_id: rfqId,
+        initiator_did: did,
+        capability: members[0].capability,
+        status: awarded ? "awarded" : open ? "open" : "closed",
+        awarded_interaction_id: awarded?.id ?? null,
+        interactions: members.map((m) => ({
+          interaction_id: m.id,
+          provider_did: m.provider_did,
+          status: m.status,
+          offer: parseJson(m.offer_payload),
+          created_at: m.created_at,
+          updated_at: m.updated_at,
+        })),
+        count: members.length,
+      });
+    },
+  );
+}
@@ -10,6 +10,7 @@ import { mkdirSync, rmSync } from "node:fs";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
 import type { FastifyInstance } from "fastify";
+import { buildDIDDocument, generateDIDKeyPair, signRequest } from "@x811/core";
 
 import { buildApp } from "../app.js";
 
@@ -91,6 +92,19 @@ function registerTestAgentDirectly(
   });
 }
 
+/** Register an agent with a real key pair so it can sign its requests. */
+function registerSignedAgent() {
+  const id = randomUUID();
+  const keys = generateDIDKeyPair(id);
+  const agent = registerTestAgentDirectly({ id, did: keys.did });
+  app.db.updateAgent(agent.id, {
+    did_document: JSON.stringify(
+      buildDIDDocument(keys.did, keys.signingKey.publicKey, keys.encryptionKey.publicKey),
+    ),
+  });
+  return { agent, keys };
+}
+
 // ---------------------------------------------------------------------------
 // Tests
 // ---------------------------------------------------------------------------
@@ -106,7 +120,7 @@ describe("GET /api/v1/messages/:agentId/stream", () => {
     expect(body.error.code).toBe("X811-3001");
   });
 
-  it("returns 401 when did query param is missing", async () => {
+  it("returns 401 when the request is not signed", async () => {
     const agent = registerTestAgentDirectly();
     const res = await app.inject({
       method: "GET",
@@ -129,15 +143,18 @@ describe("GET /api/v1/messages/:agentId/stream", () => {
   });
 
   it("returns 200 with text/event-stream Content-Type", async () => {
-    const agent = registerTestAgentDirectly();
+    const { agent, keys } = registerSignedAgent();
 
     // reply.hijack() causes inject() to hang, so we start a real server
     const address = await app.listen({ port: 0, host: "127.0.0.1" });
-    const url = `${address}/api/v1/messages/${agent.id}/stream?did=${agent.did}`;
+    const path = `/api/v1/messages/${agent.id}/stream?did=${agent.did}`;
 
     const controller = new AbortController();
     try {
-      const response = await fetch(url, { signal: controller.signal });
+      const response = await fetch(`${address}${path}`, {
+        signal: controller.signal,
+        headers: { authorization: signRequest("GET", path, keys.did, keys.signingKey.privateKey) },
+      });
       expect(response.status).toBe(200);
       expect(response.headers.get("content-type")).toContain(
         "text/event-stream",
@@ -148,7 +165,7 @@ describe("GET /api/v1/messages/:agentId/stream", () => {
   });
 
   it("returns 429 when SSE connection limit exceeded", async () => {
-    const agent = registerTestAgentDirectly();
+    const { agent, keys } = registerSignedAgent();
 
     // Fill up per-agent limit (3 connections)
     for (let i = 0; i < 3; i++) {
@@ -159,9 +176,11 @@ describe("GET /api/v1/messages/:agentId/stream", () => {
       app.sseManager.subscribe(agent.id, mockRes);
     }
 
+    const path = `/api/v1/messages/${agent.id}/stream?did=${agent.did}`;
     const res = await app.inject({
       method: "GET",
-      url: `/api/v1/messages/${agent.id}/stream?did=${agent.did}`,
+      url: path,
+      headers: { authorization: signRequest("GET", path, keys.did, keys.signingKey.privateKey) },
     });
     expect(res.statusCode).toBe(429);
     const body = res.json();
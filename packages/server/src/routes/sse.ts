@@ -4,9 +4,10 @@
  * GET /api/v1/messages/:agentId/stream
  *
  * Opens a persistent SSE connection for real-time push notifications.
- * The SSE stream does NOT mark messages as delivered --- the client
- * still polls to consume messages canonically. SSE is a fast-path
- * notification channel only.
+ * Pushed messages are leased exactly like polled ones: the client must
+ * acknowledge them (POST /api/v1/messages/:agentId/ack) or they are
+ * pushed again once the lease runs out. Like polling, the request must
+ * carry an X811-Signature Authorization header signed by the agent.
  */
 
 import type { FastifyInstance, FastifyRequest } from "fastify";
@@ -29,16 +30,6 @@ export default async function sseRoutes(
         (request.headers["last-event-id"] as string | undefined) ??
         request.query.lastEventId;
 
-      // Require DID for SSE auth
-      if (!request.query.did) {
-        return reply.status(401).send({
-          error: {
-            code: "X811-2004",
-            message: "Missing did query parameter",
-          },
-        });
-      }
-
       // Verify agent exists
       const agent = fastify.db.getAgent(agentId);
       if (!agent) {
@@ -72,9 +63,9 @@ export default async function sseRoutes(
       // Flush headers with initial comment
       reply.raw.write(":\n\n");
 
-      // Replay undelivered messages (read-only; client still polls to consume)
+      // Replay deliverable messages, leasing them until acknowledged
       try {
-        const messages = fastify.messageRouter.getQueuedMessages(agent.did);
+        const messages = fastify.messageRouter.leaseMessages(agent.did);
         for (const msg of messages) {
           const id = msg.id;
           reply.raw.write(
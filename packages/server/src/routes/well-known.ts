@@ -3,19 +3,22 @@
  *
  * GET /.well-known/did.json                — Server's own DID document
  * GET /agents/:id/.well-known/agent.json   — Per-agent card
+ * GET /agents/:id/did.json                 — Per-agent DID document (did:web)
  * GET /health                              — Health check
  */
 
 import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
 import { config } from "../config.js";
 import { RegistryError } from "../services/registry.js";
+import type { FederationService } from "../services/federation.js";
 
 // ---------------------------------------------------------------------------
 // Server DID document (generated once at startup)
 // ---------------------------------------------------------------------------
 
-function generateServerDIDDocument(): Record<string, unknown> {
-  const did = `did:web:${config.didDomain}`;
+function generateServerDIDDocument(federation: FederationService): Record<string, unknown> {
+  const did = federation.did;
+  const baseUrl = federation.url;
   return {
     "@context": [
       "https://www.w3.org/ns/did/v1",
@@ -28,26 +31,32 @@ function generateServerDIDDocument(): Record<string, unknown> {
         id: `${did}#key-1`,
         type: "Ed25519VerificationKey2020",
         controller: did,
-        // Server key is generated at deployment time — placeholder for runtime
-        publicKeyMultibase: "z" + "1".repeat(43),
+        // Signs server-to-server (federation) envelopes and trust attestations
+        publicKeyMultibase: federation.publicKeyMultibase,
       },
     ],
     authentication: [`${did}#key-1`],
+    assertionMethod: [`${did}#key-1`],
     service: [
       {
         id: `${did}#x811-server`,
         type: "X811ProtocolServer",
-        serviceEndpoint: `https://${config.serverDomain}`,
+        serviceEndpoint: baseUrl,
       },
       {
         id: `${did}#registry`,
         type: "X811AgentRegistry",
-        serviceEndpoint: `https://${config.serverDomain}/api/v1/agents`,
+        serviceEndpoint: `${baseUrl}/api/v1/agents`,
       },
       {
         id: `${did}#messages`,
         type: "X811MessageRouter",
-        serviceEndpoint: `https://${config.serverDomain}/api/v1/messages`,
+        serviceEndpoint: `${baseUrl}/api/v1/messages`,
+      },
+      {
+        id: `${did}#federation`,
+        type: "X811Federation",
+        serviceEndpoint: `${baseUrl}/api/v1/federation`,
       },
     ],
   };
@@ -77,7 +86,7 @@ export default async function wellKnownRoutes(
   fastify: FastifyInstance,
 ): Promise<void> {
   // Cache server DID document (immutable for the lifetime of the process)
-  const serverDIDDoc = generateServerDIDDocument();
+  const serverDIDDoc = generateServerDIDDocument(fastify.federation);
 
   // ---------- GET /.well-known/did.json — Server DID document ----------
 
@@ -114,6 +123,39 @@ export default async function wellKnownRoutes(
     },
   );
 
+  // ---------- GET /agents/:id/did.json — Per-agent DID document ----------
+
+  // did:web:<didDomain>:agents:<id> resolves to https://<didDomain>/agents/<id>/did.json
+  fastify.get(
+    "/agents/:id/did.json",
+    async (
+      request: FastifyRequest<{ Params: { id: string } }>,
+      reply: FastifyReply,
+    ) => {
+      const { id } = request.params;
+      const did = `did:web:${encodeURIComponent(config.didDomain)}:agents:${id}`;
+
+      try {
+        const agent = fastify.registry.getAgent(id);
+        // Only agents identified by a did:web under our domain live here
+        if (agent.did !== did) {
+          return sendError(reply, 404, "X811-1001", "No did:web document for this agent", { did });
+        }
+
+        return reply
+          .header("content-type", "application/did+ld+json")
+          .header("cache-control", "public, max-age=300")
+          .send(fastify.registry.getDIDDocument(id));
+      } catch (error) {
+        if (error instanceof RegistryError) {
+          const status = error.code === "X811-1002" ? 410 : 404;
+          return sendError(reply, status, error.code, error.message, error.details);
+        }
+        throw error;
+      }
+    },
+  );
+
   // ---------- GET /health — Health check ----------
 
   fastify.get(
@@ -144,6 +186,7 @@ export default async function wellKnownRoutes(
         relayer_mode: relayerMode,
         relayer_balance_eth: relayerBalance,
         contract_address: contractAddress,
+        escrow_contract_address: config.escrowContractAddress || null,
         agents_count: fastify.db.getAgentCount(),
         batches_count: fastify.db.getBatchCount(),
         pending_interactions: fastify.db.getPendingInteractionCount(),
@@ -0,0 +1,149 @@
+/**
+ * x811 Protocol — Dispute arbiters.
+ *
+ * An arbiter decides disputed interactions for NegotiationService. It
+ * sees the delivered result, the initiator's dispute and the provider's
+ * response, and returns a decision — or null when it cannot decide, which
+ * leaves the dispute open for an admin to resolve through
+ * POST /api/v1/admin/disputes/:interactionId/resolve.
+ *
+ * - AutomatedArbiter: objective checks only (result hash, JSON validity,
+ *   the capability's output_schema, timeout claims against a delivered
+ *   result).
+ *   Content checks are skipped for end-to-end encrypted results.
+ * - ManualArbiter: never decides; every dispute goes to an admin.
+ */
+
+import { hashPayload } from "@x811/core";
+import type { CapabilityService } from "./capabilities.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type DisputeOutcome = "provider_wins" | "initiator_wins" | "split";
+
+export const DISPUTE_OUTCOMES: readonly DisputeOutcome[] = [
+  "provider_wins",
+  "initiator_wins",
+  "split",
+];
+
+export interface DisputeDecision {
+  outcome: DisputeOutcome;
+  /** Provider's share of the total cost when outcome = "split" (0 < share < 1). */
+  provider_share?: number;
+  /** Human-readable rationale, stored with the resolution. */
+  reason: string;
+}
+
+export interface DisputeCase {
+  interaction_id: string;
+  capability: string;
+  /** Output schema the provider advertised for the capability, if any. */
+  output_schema: Record<string, unknown> | null;
+  result: {
+    content?: unknown;
+    content_type: string;
+    result_hash: string;
+    result_url?: string;
+    /** True when content and result_url are end-to-end encrypted (unreadable here). */
+    encrypted: boolean;
+  };
+  dispute: {
+    dispute_code?: string;
+    dispute_reason?: string;
+  };
+  /** Provider's evidence, or null if the provider never responded. */
+  response: {
+    evidence: string;
+    evidence_url?: string;
+  } | null;
+}
+
+// ---------------------------------------------------------------------------
+// Interface
+// ---------------------------------------------------------------------------
+
+export interface IArbiter {
+  decide(dispute: DisputeCase): Promise<DisputeDecision | null>;
+}
+
+// ---------------------------------------------------------------------------
+// Automated arbiter
+// ---------------------------------------------------------------------------
+
+export class AutomatedArbiter implements IArbiter {
+  /**
+   * @param capabilities - Validates results against output schemas, as
+   *   on delivery.
+   */
+  constructor(private capabilities: CapabilityService) {}
+
+  /**
+   * Decide a dispute from facts the server can check itself. Anything
+   * that needs judgement (quality, "wrong" but well-formed results) is
+   * left to an admin.
+   */
+  async decide(dispute: DisputeCase): Promise<DisputeDecision | null> {
+    const { result } = dispute;
+    const hasContent = result.content !== undefined && result.content !== null;
+
+    if (!hasContent && !result.result_url && !result.encrypted) {
+      return { outcome: "initiator_wins", reason: "No result content was delivered" };
+    }
+
+    if (hasContent) {
+      if (hashPayload(result.content) !== result.result_hash) {
+        return {
+          outcome: "initiator_wins",
+          reason: "Delivered content does not match its result_hash",
+        };
+      }
+
+      if (result.content_type.startsWith("application/json")) {
+        let parsed: unknown;
+        try {
+          parsed = typeof result.content === "string"
+            ? JSON.parse(result.content)
+            : result.content;
+        } catch {
+          return {
+            outcome: "initiator_wins",
+            reason: `Result is not valid JSON despite content_type ${result.content_type}`,
+          };
+        }
+
+        if (dispute.output_schema) {
+          const errors = this.capabilities.validate(JSON.stringify(dispute.output_schema), parsed);
+          if (errors.length > 0) {
+            return {
+              outcome: "initiator_wins",
+              reason: `Result does not match the capability's output_schema: ${errors.join("; ")}`,
+            };
+          }
+        }
+      }
+    }
+
+    // The result reached "delivered", so it arrived before the accept TTL
+    if (dispute.dispute.dispute_code === "TIMEOUT") {
+      return {
+        outcome: "provider_wins",
+        reason: "Result was delivered before the accepted deadline",
+      };
+    }
+
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Manual arbiter
+// ---------------------------------------------------------------------------
+
+export class ManualArbiter implements IArbiter {
+  async decide(): Promise<DisputeDecision | null> {
+    return null;
+  }
+}
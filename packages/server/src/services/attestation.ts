@@ -0,0 +1,72 @@
+/**
+ * x811 Protocol — Trust attestation service.
+ *
+ * Issues trust attestations: W3C Verifiable Credentials in which this
+ * server vouches for an agent's trust score and interaction counts,
+ * together with the latest interaction batch anchored on-chain. They are
+ * signed with the server DID's key (`<server DID>#key-1` in
+ * /.well-known/did.json), so counterparties can check an agent's
+ * reputation with verifyTrustAttestation() from @x811/core — offline, or
+ * when the agent is homed on another federated server.
+ */
+
+import { randomUUID } from "node:crypto";
+import { signTrustAttestation, verifyTrustAttestation, type KeyPair, type TrustAttestation } from "@x811/core";
+import type { AgentRow, Database } from "../db/schema.js";
+
+const CREDENTIAL_CONTEXT = [
+  "https://www.w3.org/2018/credentials/v1",
+  "https://w3id.org/security/suites/ed25519-2020/v1",
+];
+
+export class AttestationService {
+  /**
+   * @param issuerDid - This server's DID.
+   * @param ttlSeconds - How long an attestation stays valid.
+   */
+  constructor(
+    private db: Database,
+    readonly issuerDid: string,
+    private keyPair: KeyPair,
+    private ttlSeconds: number,
+  ) {}
+
+  /** Issue a signed attestation of an agent's current trust record. */
+  issue(agent: AgentRow): TrustAttestation {
+    const issuedAt = new Date();
+    const batch = this.db.getLatestAnchoredBatch();
+
+    return signTrustAttestation(
+      {
+        "@context": CREDENTIAL_CONTEXT,
+        type: ["VerifiableCredential", "X811TrustAttestation"],
+        id: `urn:uuid:${randomUUID()}`,
+        issuer: this.issuerDid,
+        issuanceDate: issuedAt.toISOString(),
+        expirationDate: new Date(issuedAt.getTime() + this.ttlSeconds * 1000).toISOString(),
+        credentialSubject: {
+          id: agent.did,
+          trust_score: agent.trust_score,
+          interaction_count: agent.interaction_count,
+          successful_count: agent.successful_count,
+          failed_count: agent.failed_count,
+          anchored_batch: batch
+            ? {
+                merkle_root: batch.merkle_root,
+                tx_hash: batch.tx_hash!,
+                interaction_count: batch.interaction_count,
+              }
+            : null,
+        },
+      },
+      this.keyPair.privateKey,
+      `${this.issuerDid}#key-1`,
+    );
+  }
+
+  /** Whether an attestation was issued by this server and is still valid. */
+  verify(attestation: TrustAttestation): boolean {
+    return attestation.issuer === this.issuerDid &&
+      verifyTrustAttestation(attestation, this.keyPair.publicKey);
+  }
+}
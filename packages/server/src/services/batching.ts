@@ -8,6 +8,11 @@
  *
  * Each interaction gets a Merkle proof stored in the database for
  * later independent verification.
+ *
+ * The database is the source of truth for the queue: recover() rebuilds
+ * the in-memory buffer from unbatched interactions after a restart, and
+ * batches whose on-chain submission failed stay in the `batches` table
+ * and are retried with exponential backoff.
  */
 
 import { sha256 } from "@noble/hashes/sha256";
@@ -116,8 +121,15 @@ function compareBytes(a: Uint8Array, b: Uint8Array): number {
 export interface BatchingConfig {
   sizeThreshold: number;
   timeThresholdMs: number;
+  /** Delay before the first retry of a failed batch (default 30 seconds) */
+  retryBaseMs?: number;
+  /** Upper bound for the retry delay (default 1 hour) */
+  retryMaxMs?: number;
 }
 
+const DEFAULT_RETRY_BASE_MS = 30_000;
+const DEFAULT_RETRY_MAX_MS = 3_600_000;
+
 export class BatchingService {
   private pendingHashes: string[] = [];
   private lastBatchTime: number = Date.now();
@@ -132,11 +144,42 @@ export class BatchingService {
     },
   ) {}
 
+  /**
+   * Rebuild the pending buffer from the database after a restart.
+   *
+   * Interactions that were verified but never made it into a batch are
+   * re-queued. Batches still in "pending" were stored but never submitted
+   * (the process stopped mid-batch), so they are marked failed and become
+   * due for retry immediately.
+   *
+   * @returns Number of interaction hashes restored to the buffer
+   */
+  recover(): number {
+    for (const batch of this.db.getBatchesByStatus("pending")) {
+      this.db.updateBatchStatus(batch.id, "failed");
+    }
+
+    const pageSize = Math.max(this.config.sizeThreshold, 100);
+    let restored = 0;
+    for (let offset = 0; ; offset += pageSize) {
+      const rows = this.db.getUnbatchedInteractions(pageSize, offset);
+      for (const row of rows) {
+        if (!this.pendingHashes.includes(row.interaction_hash)) {
+          this.pendingHashes.push(row.interaction_hash);
+          restored++;
+        }
+      }
+      if (rows.length < pageSize) break;
+    }
+    return restored;
+  }
+
   /**
    * Add an interaction hash to the pending buffer.
    * If the buffer reaches the size threshold, a batch is submitted automatically.
    */
   async addInteraction(interactionHash: string): Promise<void> {
+    if (this.pendingHashes.includes(interactionHash)) return;
     this.pendingHashes.push(interactionHash);
     if (this.pendingHashes.length >= this.config.sizeThreshold) {
       await this.submitBatch();
@@ -158,30 +201,43 @@ export class BatchingService {
     // 1. Build Merkle tree
     const tree = new MerkleTree(hashes);
 
-    // 2. Store batch and proofs in the database
-    const batchId = this.db.insertBatch(tree.root, hashes.length);
-
-    for (const hash of hashes) {
-      const proof = tree.getProof(hash);
-      const leafHash = tree.getLeafHash(hash);
-      this.db.insertMerkleProof(hash, batchId, proof, leafHash);
-      this.db.updateInteractionBatch(hash, batchId);
-    }
+    // 2. Store batch and proofs atomically, so a crash never leaves
+    //    interactions attached to a half-written batch
+    const batchId = this.db.raw.transaction(() => {
+      const id = this.db.insertBatch(tree.root, hashes.length);
+      for (const hash of hashes) {
+        const proof = tree.getProof(hash);
+        const leafHash = tree.getLeafHash(hash);
+        this.db.insertMerkleProof(hash, id, proof, leafHash);
+        this.db.updateInteractionBatch(hash, id);
+      }
+      return id;
+    })();
 
     // 3. Submit to chain via relayer
-    try {
-      const txHash = await this.relayer.submitBatch(
-        `0x${tree.root}`,
-        hashes.length,
+    await this.submitToChain(batchId, tree.root, hashes.length, 0);
+  }
+
+  /**
+   * Re-submit failed batches whose backoff delay has elapsed. The stored
+   * Merkle root and proofs are reused, so interactions keep their batch.
+   * Called periodically by the timer.
+   *
+   * @returns Number of batches successfully submitted
+   */
+  async retryFailedBatches(): Promise<number> {
+    const due = this.db.getRetryableBatches(new Date().toISOString());
+    let submitted = 0;
+    for (const batch of due) {
+      const ok = await this.submitToChain(
+        batch.id,
+        batch.merkle_root,
+        batch.interaction_count,
+        batch.retry_count,
       );
-      this.db.updateBatchStatus(batchId, "submitted", txHash);
-    } catch (error) {
-      // On failure, mark batch as failed and re-queue hashes
-      this.db.updateBatchStatus(batchId, "failed");
-      this.pendingHashes.push(...hashes);
-      // Log but don't throw — the hashes will be retried
-      console.error("Batch submission failed:", error);
+      if (ok) submitted++;
     }
+    return submitted;
   }
 
   /**
@@ -199,13 +255,15 @@ export class BatchingService {
   }
 
   /**
-   * Start the periodic timer that checks the time threshold every 30 seconds.
+   * Start the periodic timer that checks the time threshold and retries
+   * failed batches every 30 seconds.
    */
   startTimer(): void {
     if (this.timer) return;
     this.timer = setInterval(async () => {
       try {
         await this.checkTimeThreshold();
+        await this.retryFailedBatches();
       } catch (error) {
         console.error("Batch time threshold check failed:", error);
       }
@@ -226,6 +284,35 @@ export class BatchingService {
   get pendingCount(): number {
     return this.pendingHashes.length;
   }
+
+  /**
+   * Submit a stored batch root via the relayer. On failure the batch is
+   * marked failed and its next retry scheduled with exponential backoff.
+   */
+  private async submitToChain(
+    batchId: number,
+    merkleRoot: string,
+    count: number,
+    retryCount: number,
+  ): Promise<boolean> {
+    try {
+      const txHash = await this.relayer.submitBatch(`0x${merkleRoot}`, count);
+      this.db.updateBatchStatus(batchId, "submitted", txHash);
+      return true;
+    } catch (error) {
+      const baseMs = this.config.retryBaseMs ?? DEFAULT_RETRY_BASE_MS;
+      const maxMs = this.config.retryMaxMs ?? DEFAULT_RETRY_MAX_MS;
+      const delayMs = Math.min(baseMs * 2 ** retryCount, maxMs);
+      this.db.recordBatchFailure(
+        batchId,
+        error instanceof Error ? error.message : String(error),
+        new Date(Date.now() + delayMs).toISOString(),
+      );
+      // Log but don't throw — the batch will be retried
+      console.error("Batch submission failed:", error);
+      return false;
+    }
+  }
 }
 
 export { MerkleTree };
@@ -0,0 +1,183 @@
+/**
+ * x811 Protocol — Result blob store.
+ *
+ * Holds task results too large to send inline, so providers need not host
+ * them themselves. Blobs are content-addressed: a blob is uploaded to and
+ * downloaded from `/api/v1/blobs/{sha256}`, and the server refuses content
+ * whose SHA-256 digest differs from that address. A RESULT that points at
+ * a blob here must then carry the same digest as its result_hash.
+ *
+ * Every blob belongs to an interaction. Only its provider uploads it, only
+ * its two parties download it, and it is released once the interaction
+ * is finished (completed, expired, rejected, failed or cancelled). Files
+ * live on the local filesystem under `dir`, one per distinct digest, and
+ * are removed when no interaction holds them any more.
+ */
+
+import { createHash, randomUUID } from "node:crypto";
+import { existsSync, rmSync } from "node:fs";
+import { mkdir, rename, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { BlobRow, Database } from "../db/schema.js";
+
+/** Interaction statuses after which a blob is released. */
+const FINISHED_STATUSES = ["completed", "expired", "rejected", "failed", "cancelled"] as const;
+
+const SHA256_HEX = /^[0-9a-f]{64}$/;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface BlobOptions {
+  /** Directory the files are stored in. */
+  dir: string;
+  /** Public base URL of this server, used to build and recognize blob URLs. */
+  baseUrl: string;
+}
+
+export interface BlobUpload {
+  hash: string;
+  interactionId: string;
+  uploaderDid: string;
+  content: Buffer;
+  contentType: string;
+}
+
+// ---------------------------------------------------------------------------
+// Service
+// ---------------------------------------------------------------------------
+
+export class BlobStore {
+  constructor(
+    private db: Database,
+    private options: BlobOptions,
+  ) {}
+
+  /** URL a blob is downloaded from. */
+  url(hash: string): string {
+    return `${this.options.baseUrl}/api/v1/blobs/${hash}`;
+  }
+
+  /**
+   * The digest of a blob URL on this server.
+   * @returns null for URLs hosted anywhere else.
+   */
+  hashFromUrl(url: string): string | null {
+    const prefix = `${this.options.baseUrl}/api/v1/blobs/`;
+    if (!url.startsWith(prefix)) return null;
+    const hash = url.slice(prefix.length).split(/[?#]/)[0];
+    return SHA256_HEX.test(hash) ? hash : null;
+  }
+
+  /**
+   * Store a result blob for an interaction the uploader provides.
+   * @throws BlobError if the content does not match its hash, or the
+   *   uploader may not deliver a result for the interaction.
+   */
+  async put(upload: BlobUpload): Promise<BlobRow> {
+    if (!SHA256_HEX.test(upload.hash)) {
+      throw new BlobError("X811-6002", "Blob address must be a lowercase SHA-256 hex digest", {
+        hash: upload.hash,
+      });
+    }
+
+    const interaction = this.db.getInteraction(upload.interactionId);
+    if (!interaction) {
+      throw new BlobError("X811-3001", "Interaction not found", {
+        interaction_id: upload.interactionId,
+      });
+    }
+    if (interaction.provider_did !== upload.uploaderDid) {
+      throw new BlobError("X811-2004", "Only the provider can upload results", {
+        expected: interaction.provider_did,
+        actual: upload.uploaderDid,
+      });
+    }
+    if (interaction.status !== "accepted") {
+      throw new BlobError("X811-4006", "Results can only be uploaded for accepted interactions", {
+        interaction_id: interaction.id,
+        current_status: interaction.status,
+      });
+    }
+
+    const actual = createHash("sha256").update(upload.content).digest("hex");
+    if (actual !== upload.hash) {
+      throw new BlobError("X811-6002", "Content does not match its SHA-256 address", {
+        expected: upload.hash,
+        actual,
+      });
+    }
+
+    const path = this.pathOf(upload.hash);
+    if (!existsSync(path)) {
+      // Write under a temporary name so a partial file is never served
+      await mkdir(join(this.options.dir, upload.hash.slice(0, 2)), { recursive: true });
+      const tmpPath = `${path}.${randomUUID()}.tmp`;
+      try {
+        await writeFile(tmpPath, upload.content);
+        await rename(tmpPath, path);
+      } finally {
+        await rm(tmpPath, { force: true });
+      }
+    }
+
+    return this.db.insertBlob({
+      hash: upload.hash,
+      interaction_id: interaction.id,
+      size: upload.content.length,
+      content_type: upload.contentType,
+      uploaded_by: upload.uploaderDid,
+      created_at: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Find a blob for one of the parties to an interaction that holds it.
+   * @returns The blob and the path of its file.
+   * @throws BlobError if no interaction of `did` holds it.
+   */
+  open(hash: string, did: string): { blob: BlobRow; path: string } {
+    const blob = SHA256_HEX.test(hash) ? this.db.getBlobForParty(hash, did) : undefined;
+    const path = blob && this.pathOf(hash);
+    if (!blob || !path || !existsSync(path)) {
+      // Same answer whether the blob is missing or belongs to others
+      throw new BlobError("X811-3001", "Blob not found", { hash });
+    }
+    return { blob, path };
+  }
+
+  /**
+   * Release the blobs of finished interactions and delete files no
+   * interaction holds any more. Should be called periodically.
+   * @returns Number of blobs released.
+   */
+  releaseFinished(): number {
+    const released = this.db.deleteBlobsByInteractionStatus(FINISHED_STATUSES);
+    for (const hash of new Set(released.map((blob) => blob.hash))) {
+      if (!this.db.hasBlob(hash)) {
+        rmSync(this.pathOf(hash), { force: true });
+      }
+    }
+    return released.length;
+  }
+
+  private pathOf(hash: string): string {
+    return join(this.options.dir, hash.slice(0, 2), hash);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Blob-specific error
+// ---------------------------------------------------------------------------
+
+export class BlobError extends Error {
+  constructor(
+    public code: string,
+    message: string,
+    public details: Record<string, unknown> = {},
+  ) {
+    super(message);
+    this.name = "BlobError";
+  }
+}
@@ -0,0 +1,348 @@
+/**
+ * x811 Protocol — Capability Service.
+ *
+ * Stores agents' capabilities as first-class records: a name, a schema
+ * version, JSON Schemas for request parameters (input_schema) and inline
+ * result content (output_schema), and a pricing model. Schemas are checked
+ * when an agent registers them and compiled once per distinct schema; a
+ * bounded number of compiled schemas is kept, least recently used dropped
+ * first.
+ *
+ * Pricing is also stored in structured form (model, min/max price, unit)
+ * so discovery can filter and sort on it.
+ *
+ * Names also resolve to a path in a hierarchical taxonomy
+ * ("code/review/typescript"): spelling variants normalize to one form and
+ * aliases map common flat names onto the hierarchy, so discovery can match
+ * a path and everything below it.
+ */
+
+import { Ajv, type ValidateFunction } from "ajv";
+import type { JSONSchema } from "@x811/core";
+import type { CapabilityRow, Database } from "../db/schema.js";
+
+/** PricingModel strategies. */
+export const PRICING_MODELS = ["fixed", "per-request", "per-unit", "range"] as const;
+
+/** Compiled schema validators kept in memory by default. */
+const DEFAULT_MAX_VALIDATORS = 500;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface CapabilityInput {
+  name: string;
+  /** Schema version (default "1.0.0"). */
+  version?: string;
+  description?: string;
+  input_schema?: JSONSchema;
+  output_schema?: JSONSchema;
+  pricing?: Record<string, unknown>;
+  metadata?: Record<string, unknown>;
+}
+
+/** Indexable form of a PricingModel, as stored on the capability row. */
+export type CapabilityPrice = Pick<CapabilityRow, "price_model" | "price_min" | "price_max" | "price_unit">;
+
+export interface CapabilitySchema {
+  agent_id: string;
+  agent_did: string;
+  name: string;
+  version: string;
+  description: string | null;
+  input_schema: JSONSchema | null;
+  output_schema: JSONSchema | null;
+  pricing: Record<string, unknown> | null;
+}
+
+// ---------------------------------------------------------------------------
+// Taxonomy
+// ---------------------------------------------------------------------------
+
+/** Built-in aliases from flat capability names to taxonomy paths. */
+export const CAPABILITY_ALIASES: Readonly<Record<string, string>> = {
+  "code-review": "code/review",
+  "code-generation": "code/generation",
+  "codegen": "code/generation",
+  "testing": "code/testing",
+  "translation": "language/translation",
+  "translate": "language/translation",
+  "summarization": "language/summarization",
+  "summarize": "language/summarization",
+  "financial-analysis": "finance/analysis",
+  "data-analysis": "data/analysis",
+  "image-generation": "media/image/generation",
+};
+
+/**
+ * Normalize a capability name: lowercase, with runs of spaces, underscores
+ * and hyphens collapsed to "-" and empty path segments dropped, so
+ * "Code_Review" and "code-review" are the same name.
+ */
+export function normalizeCapabilityName(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .split("/")
+    .map((segment) => segment.replace(/[\s_-]+/g, "-").replace(/^-|-$/g, ""))
+    .filter((segment) => segment.length > 0)
+    .join("/");
+}
+
+/**
+ * Convert a PricingModel into price bounds: a single amount for fixed,
+ * per-request and per-unit pricing, or range.min/range.max for a range.
+ * Amounts may be numbers or numeric strings.
+ * @throws If the model is unknown or an amount is missing or negative.
+ */
+export function parsePricing(pricing: unknown): CapabilityPrice {
+  const model = (pricing as { model?: unknown } | null)?.model;
+  if (!PRICING_MODELS.includes(model as (typeof PRICING_MODELS)[number])) {
+    throw new Error(`model must be one of: ${PRICING_MODELS.join(", ")}`);
+  }
+  const p = pricing as { amount?: unknown; range?: { min?: unknown; max?: unknown }; unit?: unknown };
+
+  let min: number;
+  let max: number;
+  if (model === "range") {
+    min = toPrice(p.range?.min, "range.min");
+    max = toPrice(p.range?.max, "range.max");
+    if (min > max) throw new Error("range.min must not exceed range.max");
+  } else {
+    min = max = toPrice(p.amount, "amount");
+  }
+
+  return {
+    price_model: model as string,
+    price_min: min,
+    price_max: max,
+    price_unit: typeof p.unit === "string" ? p.unit : null,
+  };
+}
+
+function toPrice(value: unknown, field: string): number {
+  const amount = typeof value === "number"
+    ? value
+    : typeof value === "string" && value.trim() !== "" ? Number(value) : NaN;
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw new Error(`${field} must be a non-negative number`);
+  }
+  return amount;
+}
+
+/** Pricing of a stored capability, or of a legacy one that kept it in metadata. */
+function storedPricing(cap: { pricing?: unknown; metadata?: Record<string, unknown> }): CapabilityPrice | null {
+  try {
+    if (cap.pricing !== undefined) return parsePricing(cap.pricing);
+    if (cap.metadata?.pricing !== undefined) return parsePricing(cap.metadata.pricing);
+  } catch {
+    // Unstructured legacy pricing is kept as-is but can't be queried
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Service
+// ---------------------------------------------------------------------------
+
+export class CapabilityService {
+  // Schemas come from agents: keep them out of ajv's shared $id registry,
+  // so one agent's $id neither clashes with another's nor outlives eviction
+  private ajv = new Ajv({ allErrors: true, strict: false, addUsedSchema: false });
+  /** Compiled validators keyed by the schema's JSON text, least recently used first. */
+  private validators = new Map<string, ValidateFunction>();
+  /** Normalized alias → taxonomy path. */
+  private aliases = new Map<string, string>();
+
+  /**
+   * @param aliases - Extra aliases merged over CAPABILITY_ALIASES.
+   * @param maxValidators - Compiled schemas kept before the least recently
+   *   used is dropped.
+   */
+  constructor(
+    private db: Database,
+    aliases: Record<string, string> = {},
+    private maxValidators = DEFAULT_MAX_VALIDATORS,
+  ) {
+    for (const [alias, path] of Object.entries({ ...CAPABILITY_ALIASES, ...aliases })) {
+      this.aliases.set(normalizeCapabilityName(alias), normalizeCapabilityName(path));
+    }
+  }
+
+  /**
+   * Resolve a capability name to its taxonomy path. The longest leading
+   * run of segments that is an alias is replaced, so "code-review/typescript"
+   * resolves to "code/review/typescript".
+   */
+  resolvePath(name: string): string {
+    const segments = normalizeCapabilityName(name).split("/");
+    for (let i = segments.length; i > 0; i--) {
+      const path = this.aliases.get(segments.slice(0, i).join("/"));
+      if (path) return [path, ...segments.slice(i)].join("/");
+    }
+    return segments.join("/");
+  }
+
+  /**
+   * Record taxonomy paths and structured prices for capabilities stored
+   * without them.
+   * @returns The number of capabilities updated.
+   */
+  reindex(): number {
+    const rows = this.db.getCapabilitiesToReindex();
+    let updated = 0;
+    this.db.raw.transaction(() => {
+      for (const row of rows) {
+        const price = row.price_model === null
+          ? storedPricing({
+              pricing: row.pricing ? JSON.parse(row.pricing) : undefined,
+              metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+            })
+          : null;
+        if (this.db.updateCapability(row.id, { path: row.path ?? this.resolvePath(row.name), ...price })) {
+          updated++;
+        }
+      }
+    })();
+    return updated;
+  }
+
+  /**
+   * Check capability inputs before they are stored: every capability needs
+   * a unique name and its schemas must be valid JSON Schema.
+   */
+  validateInputs(capabilities: CapabilityInput[]): void {
+    const names = new Set<string>();
+    for (const cap of capabilities) {
+      if (typeof cap?.name !== "string" || normalizeCapabilityName(cap.name).length === 0) {
+        throw new CapabilityError("X811-3005", "Capability name is required");
+      }
+      if (names.has(cap.name)) {
+        throw new CapabilityError("X811-3005", `Capability "${cap.name}" is listed twice`, {
+          capability: cap.name,
+        });
+      }
+      names.add(cap.name);
+      for (const field of ["input_schema", "output_schema"] as const) {
+        const schema = cap[field];
+        if (schema === undefined) continue;
+        try {
+          this.compile(JSON.stringify(schema));
+        } catch (err) {
+          throw new CapabilityError("X811-3005", `Invalid ${field} for capability "${cap.name}"`, {
+            capability: cap.name,
+            reason: err instanceof Error ? err.message : String(err),
+          });
+        }
+      }
+      if (cap.pricing !== undefined) {
+        try {
+          parsePricing(cap.pricing);
+        } catch (err) {
+          throw new CapabilityError("X811-3005", `Invalid pricing for capability "${cap.name}"`, {
+            capability: cap.name,
+            reason: err instanceof Error ? err.message : String(err),
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Replace an agent's capabilities.
+   */
+  setCapabilities(agentId: string, capabilities: CapabilityInput[]): CapabilityRow[] {
+    this.validateInputs(capabilities);
+
+    return this.db.raw.transaction(() => {
+      this.db.deleteCapabilitiesForAgent(agentId);
+      return capabilities.map((cap) => this.db.insertCapability({
+        agent_id: agentId,
+        name: cap.name,
+        metadata: cap.metadata ? JSON.stringify(cap.metadata) : null,
+        version: cap.version ?? "1.0.0",
+        description: cap.description ?? null,
+        input_schema: cap.input_schema ? JSON.stringify(cap.input_schema) : null,
+        output_schema: cap.output_schema ? JSON.stringify(cap.output_schema) : null,
+        pricing: cap.pricing ? JSON.stringify(cap.pricing) : null,
+        path: this.resolvePath(cap.name),
+        ...storedPricing(cap),
+      }));
+    })();
+  }
+
+  getCapability(agentId: string, name: string): CapabilityRow | undefined {
+    return this.db.getCapability(agentId, name);
+  }
+
+  /**
+   * Schemas published for a capability name by active agents, optionally
+   * limited to one version.
+   */
+  getSchemas(name: string, version?: string): CapabilitySchema[] {
+    return this.db.getCapabilitiesByName(name)
+      .filter((cap) => version === undefined || cap.version === version)
+      .map((cap) => ({
+        agent_id: cap.agent_id,
+        agent_did: cap.agent_did,
+        name: cap.name,
+        version: cap.version,
+        description: cap.description,
+        input_schema: cap.input_schema ? JSON.parse(cap.input_schema) : null,
+        output_schema: cap.output_schema ? JSON.parse(cap.output_schema) : null,
+        pricing: cap.pricing ? JSON.parse(cap.pricing) : null,
+      }));
+  }
+
+  /**
+   * Validate data against a stored schema.
+   * @returns Human-readable validation errors; empty when the data matches.
+   */
+  validate(schemaJson: string, data: unknown): string[] {
+    const validator = this.compile(schemaJson);
+    if (validator(data)) return [];
+    return (validator.errors ?? []).map(
+      (error) => `${error.instancePath || "/"} ${error.message ?? "is invalid"}`,
+    );
+  }
+
+  private compile(schemaJson: string): ValidateFunction {
+    let validator = this.validators.get(schemaJson);
+    if (validator) {
+      // Re-inserted below as the most recently used
+      this.validators.delete(schemaJson);
+    } else {
+      const schema = JSON.parse(schemaJson) as JSONSchema;
+      try {
+        validator = this.ajv.compile(schema);
+      } catch (err) {
+        this.ajv.removeSchema(schema);
+        throw err;
+      }
+      for (const [oldestJson, oldest] of this.validators) {
+        if (this.validators.size < this.maxValidators) break;
+        this.validators.delete(oldestJson);
+        // ajv holds on to every schema it compiled until told otherwise
+        this.ajv.removeSchema(oldest.schema);
+      }
+    }
+    this.validators.set(schemaJson, validator);
+    return validator;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Capability-specific error
+// ---------------------------------------------------------------------------
+
+export class CapabilityError extends Error {
+  constructor(
+    public code: string,
+    message: string,
+    public details: Record<string, unknown> = {},
+  ) {
+    super(message);
+    this.name = "CapabilityError";
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * x811 Protocol — Escrow Service.
+ *
+ * Reads and settles deposits in the X811Escrow contract on Base L2 for
+ * interactions whose offer uses `settlement: "escrow"`. The server's
+ * relayer wallet is the contract's arbiter: it releases funds to the
+ * provider when the initiator verifies the result, refunds the initiator
+ * when the interaction times out or fails, and splits the deposit when a
+ * dispute is resolved with a partial outcome.
+ *
+ * Also exports MockEscrowService for local development / testing.
+ */
+
+import { ethers } from "ethers";
+
+// ---------------------------------------------------------------------------
+// Contract ABI (minimal interface for X811Escrow)
+// ---------------------------------------------------------------------------
+
+const X811_ESCROW_ABI = [
+  "function escrows(bytes32) external view returns (address payer, address payee, uint256 amount, uint256 fee, uint64 deadline, uint8 status)",
+  "function release(bytes32 _escrowId) external",
+  "function refund(bytes32 _escrowId) external",
+  "function split(bytes32 _escrowId, uint16 _payeeBps) external",
+];
+
+/** USDC uses 6 decimals on every supported network. */
+const USDC_DECIMALS = 6;
+
+/** Mirrors X811Escrow.Status. */
+const ESCROW_STATUSES = ["none", "funded", "released", "refunded", "split"] as const;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type EscrowStatus = (typeof ESCROW_STATUSES)[number];
+
+export interface EscrowDeposit {
+  payer: string;
+  payee: string;
+  /** Price released to the payee (decimal USDC string). */
+  amount: string;
+  /** Protocol fee released to the treasury (decimal USDC string). */
+  fee: string;
+  /** Unix timestamp (seconds) after which the payer may refund. */
+  deadline: number;
+  status: EscrowStatus;
+}
+
+// ---------------------------------------------------------------------------
+// Interface
+// ---------------------------------------------------------------------------
+
+export interface IEscrowService {
+  getDeposit(escrowId: string): Promise<EscrowDeposit>;
+  release(escrowId: string): Promise<string>;
+  refund(escrowId: string): Promise<string>;
+  /** Pay `payeeBps` basis points to the payee and return the rest to the payer. */
+  split(escrowId: string, payeeBps: number): Promise<string>;
+}
+
+// ---------------------------------------------------------------------------
+// Production escrow service
+// ---------------------------------------------------------------------------
+
+export class EscrowService implements IEscrowService {
+  private contract: ethers.Contract;
+
+  constructor(rpcUrl: string, privateKey: string, contractAddress: string) {
+    const provider = new ethers.JsonRpcProvider(rpcUrl);
+    const wallet = new ethers.Wallet(privateKey, provider);
+    this.contract = new ethers.Contract(contractAddress, X811_ESCROW_ABI, wallet);
+  }
+
+  /**
+   * Read an escrow from the contract.
+   * @param escrowId - bytes32 escrow key (see computeEscrowId)
+   */
+  async getDeposit(escrowId: string): Promise<EscrowDeposit> {
+    const [payer, payee, amount, fee, deadline, status] =
+      (await this.contract.escrows(escrowId)) as [string, string, bigint, bigint, bigint, bigint];
+    return {
+      payer,
+      payee,
+      amount: ethers.formatUnits(amount, USDC_DECIMALS),
+      fee: ethers.formatUnits(fee, USDC_DECIMALS),
+      deadline: Number(deadline),
+      status: ESCROW_STATUSES[Number(status)] ?? "none",
+    };
+  }
+
+  /**
+   * Release a funded escrow to the provider (and fee to the treasury).
+   * @returns Transaction hash
+   */
+  async release(escrowId: string): Promise<string> {
+    const tx = await this.contract.release(escrowId);
+    const receipt = await tx.wait();
+    return receipt.hash;
+  }
+
+  /**
+   * Refund a funded escrow to the initiator.
+   * @returns Transaction hash
+   */
+  async refund(escrowId: string): Promise<string> {
+    const tx = await this.contract.refund(escrowId);
+    const receipt = await tx.wait();
+    return receipt.hash;
+  }
+
+  /**
+   * Split a funded escrow between provider and initiator.
+   * @param payeeBps - Provider's share in basis points (1-9999)
+   * @returns Transaction hash
+   */
+  async split(escrowId: string, payeeBps: number): Promise<string> {
+    const tx = await this.contract.split(escrowId, payeeBps);
+    const receipt = await tx.wait();
+    return receipt.hash;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Mock escrow for local development / testing
+// ---------------------------------------------------------------------------
+
+export class MockEscrowService implements IEscrowService {
+  private escrows = new Map<string, EscrowDeposit>();
+  private nextTx = 0;
+
+  /**
+   * Simulate an initiator's deposit into the escrow contract.
+   * @returns Fake deposit transaction hash
+   */
+  deposit(
+    escrowId: string,
+    deposit: Omit<EscrowDeposit, "status">,
+  ): string {
+    if (this.escrows.has(escrowId)) {
+      throw new Error("EscrowExists");
+    }
+    this.escrows.set(escrowId, { ...deposit, status: "funded" });
+    return this.fakeTxHash();
+  }
+
+  async getDeposit(escrowId: string): Promise<EscrowDeposit> {
+    return (
+      this.escrows.get(escrowId) ?? {
+        payer: ethers.ZeroAddress,
+        payee: ethers.ZeroAddress,
+        amount: "0.0",
+        fee: "0.0",
+        deadline: 0,
+        status: "none",
+      }
+    );
+  }
+
+  async release(escrowId: string): Promise<string> {
+    return this.settle(escrowId, "released");
+  }
+
+  async refund(escrowId: string): Promise<string> {
+    return this.settle(escrowId, "refunded");
+  }
+
+  async split(escrowId: string, payeeBps: number): Promise<string> {
+    if (payeeBps <= 0 || payeeBps >= 10_000) {
+      throw new Error("InvalidShare");
+    }
+    return this.settle(escrowId, "split");
+  }
+
+  private settle(escrowId: string, status: EscrowStatus): string {
+    const escrow = this.escrows.get(escrowId);
+    if (!escrow || escrow.status !== "funded") {
+      throw new Error("EscrowNotFunded");
+    }
+    escrow.status = status;
+    return this.fakeTxHash();
+  }
+
+  private fakeTxHash(): string {
+    const id = this.nextTx++;
+    return `0x${"e".repeat(24)}${id.toString(16).padStart(40, "0")}`;
+  }
+}
@@ -0,0 +1,760 @@
+/**
+ * x811 Protocol — Federation Service.
+ *
+ * Lets independent x811 servers trade with each other. Each server is
+ * identified by its did:web server DID (served at /.well-known/did.json)
+ * and signs server-to-server envelopes with that DID's key:
+ *
+ * - `x811/peer`    — announce this server to a peer, which adds it back
+ * - `x811/forward` — relay an agent envelope to the recipient's home server
+ *
+ * A message whose recipient is homed on a peer is stored with status
+ * "forwarding", POSTed to the peer, and marked "forwarded" once the peer
+ * accepts it (or "failed" after maxRetries attempts / a permanent error).
+ * The receiving server checks the relaying server's signature and then
+ * the agent's own: did:web and did:key senders are resolved through the
+ * DID resolver, others through the relaying server's registry. A sender
+ * is only recorded as homed on the relaying server when that registry
+ * serves its DID document.
+ *
+ * Only servers on the allowlist may peer with this one. Peer URLs get the
+ * same target checks as webhooks: https outside development, public
+ * addresses only, and requests connect to the address that was checked.
+ *
+ * Also exports HttpFederationTransport, the fetch-based transport used in
+ * production; tests inject an IFederationTransport that calls peer apps
+ * in-process.
+ */
+
+import { randomUUID } from "node:crypto";
+import { request as httpRequest } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { isIP, type LookupFunction } from "node:net";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+import {
+  encodeEd25519Multibase,
+  type DIDResolverRegistry,
+  extractPublicKey,
+  signEnvelope,
+  verifyEnvelope,
+  type DIDDocument,
+  type ForwardPayload,
+  type KeyPair,
+  type PeerPayload,
+  type X811Envelope,
+  type X811MessageType,
+} from "@x811/core";
+import type { Database, MessageRow, PeerRow } from "../db/schema.js";
+import { isAllowedUrl, resolvePublicAddress, type HostLookup } from "./outbound.js";
+import type { AgentDiscoveryResult } from "./registry.js";
+import type { Envelope } from "./router.js";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Maximum allowed clock skew for server envelopes (5 minutes). */
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+/** Nonce TTL in hours. */
+const NONCE_TTL_HOURS = 24;
+
+// ---------------------------------------------------------------------------
+// Transport
+// ---------------------------------------------------------------------------
+
+export interface FederationResponse {
+  status: number;
+  body: unknown;
+}
+
+export interface FederationRequestOptions {
+  /**
+   * Connect to this address instead of resolving the URL's host again.
+   * The Host header and TLS server name still come from the URL.
+   */
+  address?: string;
+}
+
+export interface IFederationTransport {
+  get(url: string, options?: FederationRequestOptions): Promise<FederationResponse>;
+  post(url: string, body: unknown, options?: FederationRequestOptions): Promise<FederationResponse>;
+}
+
+export class HttpFederationTransport implements IFederationTransport {
+  constructor(private timeoutMs: number) {}
+
+  async get(url: string, options: FederationRequestOptions = {}): Promise<FederationResponse> {
+    if (options.address) return this.pinnedRequest("GET", url, options.address);
+    const response = await fetch(url, { signal: AbortSignal.timeout(this.timeoutMs) });
+    return { status: response.status, body: await response.json().catch(() => null) };
+  }
+
+  async post(url: string, body: unknown, options: FederationRequestOptions = {}): Promise<FederationResponse> {
+    if (options.address) return this.pinnedRequest("POST", url, options.address, body);
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    return { status: response.status, body: await response.json().catch(() => null) };
+  }
+
+  /** Send a request over a connection to `address`, whatever the URL's host resolves to. */
+  private pinnedRequest(
+    method: string,
+    url: string,
+    address: string,
+    body?: unknown,
+  ): Promise<FederationResponse> {
+    const family = isIP(address);
+    const lookup: LookupFunction = (_hostname, options, callback) => {
+      if (options.all) callback(null, [{ address, family }]);
+      else callback(null, address, family);
+    };
+    const payload = body === undefined ? undefined : JSON.stringify(body);
+    const target = new URL(url);
+
+    return new Promise((resolve, reject) => {
+      const request = (target.protocol === "https:" ? httpsRequest : httpRequest)(target, {
+        method,
+        lookup,
+        headers: payload === undefined
+          ? {}
+          : { "content-type": "application/json", "content-length": Buffer.byteLength(payload) },
+        signal: AbortSignal.timeout(this.timeoutMs),
+      }, (response) => {
+        const chunks: Buffer[] = [];
+        response.on("data", (chunk: Buffer) => chunks.push(chunk));
+        response.on("error", reject);
+        response.on("end", () => {
+          let parsed: unknown = null;
+          try {
+            parsed = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+          } catch {
+            // Not JSON
+          }
+          resolve({ status: response.statusCode ?? 0, body: parsed });
+        });
+      });
+      request.on("error", reject);
+      request.end(payload);
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface FederationOptions {
+  /** Domain of the server DID (did:web:<didDomain>). */
+  didDomain: string;
+  /** Public base URL of this server, announced to peers. */
+  url: string;
+  /** Forwarding attempts before a message is marked failed. */
+  maxRetries: number;
+  /** Base URLs of servers whose peer announcements are accepted. */
+  allowedPeers: string[];
+  /** Allow http and private-network peers (development only). */
+  allowInsecureUrls?: boolean;
+  /** Resolves a hostname to its addresses; defaults to the system resolver. */
+  lookup?: HostLookup;
+}
+
+export interface ForwardResult {
+  message_id: string;
+  status: string;
+  peer_did: string;
+  /** Set when the home server processed the message as a negotiation step. */
+  interaction_id?: string;
+  interaction_status?: string;
+  negotiation_error?: Record<string, unknown>;
+}
+
+export interface ForwardStatus {
+  message_id: string;
+  status: string;
+  peer_did: string | null;
+  retry_count: number;
+  last_error: string | null;
+  created_at: string;
+}
+
+export type FederatedAgent = AgentDiscoveryResult & { home_server: string };
+
+export interface FederatedDiscoveryResult {
+  agents: FederatedAgent[];
+  total: number;
+  /** Peers that could not be queried. */
+  peers_failed: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Service
+// ---------------------------------------------------------------------------
+
+export class FederationService {
+  /** This server's DID. */
+  readonly did: string;
+  /** This server's public base URL. */
+  readonly url: string;
+
+  constructor(
+    private db: Database,
+    private keyPair: KeyPair,
+    private transport: IFederationTransport,
+    private options: FederationOptions,
+    private didResolver: DIDResolverRegistry,
+  ) {
+    this.did = `did:web:${encodeURIComponent(options.didDomain)}`;
+    this.url = options.url.replace(/\/+$/, "");
+  }
+
+  /** The server DID's public key, multibase-encoded for its DID document. */
+  get publicKeyMultibase(): string {
+    return encodeEd25519Multibase(this.keyPair.publicKey);
+  }
+
+  // -----------------------------------------------------------------------
+  // Peering
+  // -----------------------------------------------------------------------
+
+  /**
+   * Peer with the servers at the given URLs: fetch and store each one's
+   * server DID, then announce ourselves so it adds us back. Unreachable
+   * servers are skipped.
+   */
+  async connectPeers(urls: string[]): Promise<{ connected: PeerRow[]; failed: string[] }> {
+    const results = await Promise.allSettled(urls.map(async (url) => {
+      const peer = await this.addPeer(url);
+      await this.announce(peer);
+      return peer;
+    }));
+
+    const connected: PeerRow[] = [];
+    const failed: string[] = [];
+    results.forEach((result, i) => {
+      if (result.status === "fulfilled") connected.push(result.value);
+      else failed.push(urls[i]);
+    });
+    return { connected, failed };
+  }
+
+  /**
+   * Fetch a server's DID document and store it as a peer.
+   */
+  async addPeer(url: string): Promise<PeerRow> {
+    const identity = await this.fetchServerIdentity(url);
+    return this.db.upsertPeer({
+      did: identity.did,
+      url: identity.url,
+      public_key: bytesToHex(identity.publicKey),
+      status: "active",
+      last_seen_at: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Accept an inbound `x811/peer` announcement. The announced URL must be
+   * on the allowlist and serve the sender's server DID, and the envelope
+   * must be signed with that DID's key.
+   */
+  async acceptPeer(envelope: Envelope): Promise<PeerRow> {
+    if (envelope.type !== "x811/peer") {
+      throw new FederationError("X811-4006", "Expected an x811/peer envelope", { type: envelope.type });
+    }
+    const payload = envelope.payload as PeerPayload;
+    if (typeof payload?.url !== "string") {
+      throw new FederationError("X811-4006", "Peer announcement is missing its url");
+    }
+    const allowed = this.options.allowedPeers.map((url) => url.replace(/\/+$/, ""));
+    if (!allowed.includes(payload.url.replace(/\/+$/, ""))) {
+      throw new FederationError("X811-2004", "Server is not allowed to peer with this server", {
+        url: payload.url,
+      });
+    }
+
+    const identity = await this.fetchServerIdentity(payload.url);
+    if (identity.did !== envelope.from) {
+      throw new FederationError("X811-2004", "Announced URL serves a different server DID", {
+        from: envelope.from,
+        served: identity.did,
+      });
+    }
+    this.verifyServerEnvelope(envelope, identity.publicKey);
+
+    return this.db.upsertPeer({
+      did: identity.did,
+      url: identity.url,
+      public_key: bytesToHex(identity.publicKey),
+      status: "active",
+      last_seen_at: new Date().toISOString(),
+    });
+  }
+
+  listPeers(): PeerRow[] {
+    return this.db.getPeers();
+  }
+
+  /**
+   * The peer server a DID is homed on: the peer whose domain a did:web DID
+   * lives under, or the peer it was last seen through.
+   */
+  findHomePeer(did: string): PeerRow | undefined {
+    if (did.startsWith("did:web:")) {
+      const serverDid = did.split(":").slice(0, 3).join(":");
+      const peer = serverDid !== this.did ? this.db.getPeer(serverDid) : undefined;
+      if (peer) return peer;
+    }
+
+    const remote = this.db.getRemoteAgent(did);
+    return remote ? this.db.getPeer(remote.peer_did) : undefined;
+  }
+
+  // -----------------------------------------------------------------------
+  // Message relay
+  // -----------------------------------------------------------------------
+
+  /**
+   * Attempt to forward a stored "forwarding" message to its home server.
+   * Network and server errors are retried later; a 4xx answer from the
+   * peer is permanent.
+   */
+  async forward(messageId: string): Promise<ForwardResult> {
+    const message = this.db.getMessage(messageId);
+    if (!message || !message.peer_did) {
+      throw new FederationError("X811-3001", "Forwarded message not found", { message_id: messageId });
+    }
+
+    const result: ForwardResult = {
+      message_id: message.id,
+      status: message.status,
+      peer_did: message.peer_did,
+    };
+    if (message.status !== "forwarding") return result;
+
+    if (message.expires_at && message.expires_at < new Date().toISOString()) {
+      this.db.updateMessageStatus(message.id, "failed", "Message expired before it was forwarded");
+      return { ...result, status: "failed" };
+    }
+
+    const peer = this.db.getPeer(message.peer_did);
+    if (!peer) {
+      this.db.updateMessageStatus(message.id, "failed", "Peer server is no longer known");
+      return { ...result, status: "failed" };
+    }
+
+    const envelope = this.signServerEnvelope<ForwardPayload>("x811/forward", peer.did, {
+      envelope: JSON.parse(message.envelope) as X811Envelope<unknown>,
+    });
+
+    let response: FederationResponse;
+    try {
+      const url = `${peer.url}/api/v1/federation/messages`;
+      response = await this.transport.post(url, { envelope }, await this.checkTarget(url));
+    } catch (err) {
+      this.db.updatePeerStatus(peer.did, "unreachable");
+      return { ...result, status: this.recordForwardFailure(message, errorMessage(err)) };
+    }
+
+    if (response.status >= 500) {
+      return {
+        ...result,
+        status: this.recordForwardFailure(message, `Peer returned HTTP ${response.status}`),
+      };
+    }
+
+    this.db.updatePeerStatus(peer.did, "active");
+    const body = (response.body ?? {}) as Record<string, unknown>;
+
+    if (response.status >= 400) {
+      const error = body.error as { message?: string } | undefined;
+      this.db.updateMessageStatus(
+        message.id,
+        "failed",
+        error?.message ?? `Peer returned HTTP ${response.status}`,
+      );
+      return { ...result, status: "failed" };
+    }
+
+    this.db.updateMessageStatus(message.id, "forwarded");
+    return {
+      ...result,
+      status: "forwarded",
+      ...(typeof body.interaction_id === "string" ? { interaction_id: body.interaction_id } : {}),
+      ...(typeof body.interaction_status === "string"
+        ? { interaction_status: body.interaction_status }
+        : {}),
+      ...(body.negotiation_error
+        ? { negotiation_error: body.negotiation_error as Record<string, unknown> }
+        : {}),
+    };
+  }
+
+  /**
+   * Retry every message still waiting to be forwarded.
+   * Should be called periodically (e.g. every 30 seconds).
+   * @returns Number of messages forwarded on this pass.
+   */
+  async retryPendingForwards(): Promise<number> {
+    let forwarded = 0;
+    for (const message of this.db.getMessagesByStatus("forwarding")) {
+      const result = await this.forward(message.id);
+      if (result.status === "forwarded") forwarded++;
+    }
+    return forwarded;
+  }
+
+  /**
+   * Accept an inbound `x811/forward` envelope from a peer and return the
+   * agent envelope it carries. The inner recipient must be homed here, a
+   * peer may not speak for agents registered on this server, and the inner
+   * envelope must be signed by its sender (see verifyForwardedEnvelope).
+   * A retry of a forward that was already accepted is flagged `duplicate`.
+   */
+  async receiveForward(
+    envelope: Envelope,
+  ): Promise<{ peer: PeerRow; inner: Envelope; duplicate: boolean }> {
+    if (envelope.type !== "x811/forward") {
+      throw new FederationError("X811-4006", "Expected an x811/forward envelope", { type: envelope.type });
+    }
+    const peer = this.verifyPeerEnvelope(envelope);
+
+    const inner = (envelope.payload as ForwardPayload | null)?.envelope as Envelope | undefined;
+    if (!inner || typeof inner.id !== "string" || typeof inner.to !== "string" ||
+      typeof inner.from !== "string") {
+      throw new FederationError("X811-4006", "Forward payload is missing a valid envelope");
+    }
+    if (!this.db.getAgentByDid(inner.to)) {
+      throw new FederationError("X811-3001", "Recipient agent not found", { did: inner.to });
+    }
+    if (this.db.getAgentByDid(inner.from)) {
+      throw new FederationError("X811-2004", "Peer cannot relay messages from agents homed here", {
+        from: inner.from,
+      });
+    }
+    if (this.db.getMessage(inner.id)) {
+      return { peer, inner, duplicate: true };
+    }
+
+    if (await this.verifyForwardedEnvelope(inner, peer)) {
+      this.db.upsertRemoteAgent(inner.from, peer.did);
+    }
+    return { peer, inner, duplicate: false };
+  }
+
+  /** Delivery status of a message, as tracked by this server. */
+  getForwardStatus(messageId: string): ForwardStatus {
+    const message = this.db.getMessage(messageId);
+    if (!message) {
+      throw new FederationError("X811-3001", "Message not found", { message_id: messageId });
+    }
+    return {
+      message_id: message.id,
+      status: message.status,
+      peer_did: message.peer_did,
+      retry_count: message.retry_count,
+      last_error: message.last_error,
+      created_at: message.created_at,
+    };
+  }
+
+  // -----------------------------------------------------------------------
+  // Discovery
+  // -----------------------------------------------------------------------
+
+  /**
+   * Run a discovery query against every peer. Agents found are tagged with
+   * their home server and remembered so messages to them can be forwarded.
+   * The query is not fanned out any further by the peers.
+   */
+  async discover(query: Record<string, string>): Promise<FederatedDiscoveryResult> {
+    const peers = this.db.getPeers();
+    const qs = new URLSearchParams(query).toString();
+    const results = await Promise.allSettled(peers.map(async (peer) => {
+      const url = `${peer.url}/api/v1/agents?${qs}`;
+      return this.transport.get(url, await this.checkTarget(url));
+    }));
+
+    const agents: FederatedAgent[] = [];
+    const peersFailed: string[] = [];
+    let total = 0;
+
+    results.forEach((result, i) => {
+      const peer = peers[i];
+      const body = result.status === "fulfilled" && result.value.status === 200
+        ? result.value.body as { agents?: AgentDiscoveryResult[]; total?: number }
+        : undefined;
+      if (!body || !Array.isArray(body.agents)) {
+        this.db.updatePeerStatus(peer.did, "unreachable");
+        peersFailed.push(peer.did);
+        return;
+      }
+
+      this.db.updatePeerStatus(peer.did, "active");
+      for (const agent of body.agents) {
+        // Never let a peer claim one of our own agents
+        if (typeof agent.did !== "string" || this.db.getAgentByDid(agent.did)) continue;
+        this.db.upsertRemoteAgent(agent.did, peer.did);
+        agents.push({ ...agent, home_server: peer.did });
+      }
+      total += body.total ?? body.agents.length;
+    });
+
+    return { agents, total, peers_failed: peersFailed };
+  }
+
+  // -----------------------------------------------------------------------
+  // Server envelopes
+  // -----------------------------------------------------------------------
+
+  /**
+   * Verify a server envelope from a known peer.
+   * @returns The sending peer.
+   */
+  verifyPeerEnvelope(envelope: Envelope): PeerRow {
+    const peer = this.db.getPeer(envelope.from);
+    if (!peer) {
+      throw new FederationError("X811-2004", "Unknown peer server", { did: envelope.from });
+    }
+    this.verifyServerEnvelope(envelope, hexToBytes(peer.public_key));
+    return peer;
+  }
+
+  private verifyServerEnvelope(envelope: Envelope, publicKey: Uint8Array): void {
+    if (envelope.to !== this.did) {
+      throw new FederationError("X811-2004", "Envelope is not addressed to this server", {
+        expected: this.did,
+        actual: envelope.to,
+      });
+    }
+
+    const timestamp = new Date(envelope.created).getTime();
+    if (Number.isNaN(timestamp) || Math.abs(Date.now() - timestamp) > MAX_CLOCK_SKEW_MS) {
+      throw new FederationError("X811-2003", "Timestamp outside acceptable range (±5 minutes)", {
+        created: envelope.created,
+      });
+    }
+
+    if (!verifyEnvelope(envelope as X811Envelope<unknown>, publicKey)) {
+      throw new FederationError("X811-2001", "Invalid server signature", { did: envelope.from });
+    }
+
+    if (this.db.nonceExists(envelope.nonce)) {
+      throw new FederationError("X811-2002", "Nonce has already been used", { nonce: envelope.nonce });
+    }
+    this.db.insertNonce(envelope.nonce, envelope.from, NONCE_TTL_HOURS);
+  }
+
+  /**
+   * Verify the agent envelope inside a forward the way the home server
+   * verified it: timestamp, unused nonce, and the sender's signature.
+   * did:web and did:key senders are resolved independently; any other
+   * DID only through the relaying peer's registry, and only if it is not
+   * already homed on a different peer.
+   * @returns Whether the peer proved to be the sender's home server.
+   */
+  private async verifyForwardedEnvelope(inner: Envelope, peer: PeerRow): Promise<boolean> {
+    const timestamp = new Date(inner.created).getTime();
+    if (Number.isNaN(timestamp) || Math.abs(Date.now() - timestamp) > MAX_CLOCK_SKEW_MS) {
+      throw new FederationError("X811-2003", "Timestamp outside acceptable range (±5 minutes)", {
+        created: inner.created,
+      });
+    }
+    if (typeof inner.nonce !== "string" || this.db.nonceExists(inner.nonce)) {
+      throw new FederationError("X811-2002", "Nonce has already been used", { nonce: inner.nonce });
+    }
+
+    const servedKey = await this.fetchAgentKey(peer, inner.from);
+    let publicKey: Uint8Array;
+    if (this.resolvesIndependently(inner.from)) {
+      try {
+        publicKey = (await this.didResolver.resolve(inner.from)).publicKey;
+      } catch (err) {
+        throw new FederationError("X811-1001", "Failed to resolve sender DID", {
+          did: inner.from,
+          reason: errorMessage(err),
+        });
+      }
+    } else if (servedKey) {
+      const known = this.db.getRemoteAgent(inner.from);
+      if (known && known.peer_did !== peer.did) {
+        throw new FederationError("X811-2004", "Sender is homed on another peer server", {
+          from: inner.from,
+          home_server: known.peer_did,
+        });
+      }
+      publicKey = servedKey;
+    } else {
+      throw new FederationError("X811-2004", "Sender DID is not registered on the relaying server", {
+        did: inner.from,
+      });
+    }
+
+    if (!verifyEnvelope(inner as X811Envelope<unknown>, publicKey)) {
+      throw new FederationError("X811-2001", "Invalid sender signature", { did: inner.from });
+    }
+    this.db.insertNonce(inner.nonce, inner.from, NONCE_TTL_HOURS);
+
+    return servedKey !== null && bytesToHex(servedKey) === bytesToHex(publicKey);
+  }
+
+  /** did:web DIDs on other domains and did:key DIDs resolve without asking a peer. */
+  private resolvesIndependently(did: string): boolean {
+    if (!this.didResolver.supports(did)) return false;
+    return !did.startsWith(`did:web:${encodeURIComponent(this.options.didDomain)}:`);
+  }
+
+  /**
+   * The key of an agent as served by a peer's registry, or null if the
+   * peer does not serve an active DID document for it.
+   */
+  private async fetchAgentKey(peer: PeerRow, did: string): Promise<Uint8Array | null> {
+    const id = did.split(":").pop() ?? "";
+    const url = `${peer.url}/api/v1/agents/${encodeURIComponent(id)}/did`;
+    let response: FederationResponse;
+    try {
+      response = await this.transport.get(url, await this.checkTarget(url));
+    } catch {
+      return null;
+    }
+
+    const document = response.body as DIDDocument | null;
+    if (response.status !== 200 || document?.id !== did) return null;
+    try {
+      return extractPublicKey(document);
+    } catch {
+      return null;
+    }
+  }
+
+  private signServerEnvelope<T>(
+    type: X811MessageType,
+    to: string,
+    payload: T,
+  ): X811Envelope<T> {
+    return signEnvelope<T>(
+      {
+        version: "0.1.0",
+        id: randomUUID(),
+        type,
+        from: this.did,
+        to,
+        created: new Date().toISOString(),
+        payload,
+        nonce: randomUUID(),
+      },
+      this.keyPair.privateKey,
+    );
+  }
+
+  /** Send a signed `x811/peer` announcement so the peer adds us back. */
+  private async announce(peer: PeerRow): Promise<void> {
+    const envelope = this.signServerEnvelope<PeerPayload>("x811/peer", peer.did, { url: this.url });
+    const url = `${peer.url}/api/v1/federation/peers`;
+    const response = await this.transport.post(url, { envelope }, await this.checkTarget(url));
+    if (response.status >= 400) {
+      throw new FederationError("X811-2004", "Peer rejected our announcement", {
+        did: peer.did,
+        status: response.status,
+      });
+    }
+  }
+
+  /** Fetch and check the server DID document served at a base URL. */
+  private async fetchServerIdentity(
+    url: string,
+  ): Promise<{ did: string; url: string; publicKey: Uint8Array }> {
+    const baseUrl = url.replace(/\/+$/, "");
+    const documentUrl = `${baseUrl}/.well-known/did.json`;
+    const options = await this.checkTarget(documentUrl);
+
+    let response: FederationResponse;
+    try {
+      response = await this.transport.get(documentUrl, options);
+    } catch (err) {
+      throw new FederationError("X811-1001", "Peer server unreachable", {
+        url: baseUrl,
+        reason: errorMessage(err),
+      });
+    }
+    if (response.status !== 200) {
+      throw new FederationError("X811-1001", "Peer server did not serve a DID document", {
+        url: baseUrl,
+        status: response.status,
+      });
+    }
+
+    const document = response.body as DIDDocument;
+    if (typeof document?.id !== "string" || !document.id.startsWith("did:web:") ||
+      document.id.split(":").length !== 3) {
+      throw new FederationError("X811-1004", "Peer server DID must be a did:web domain DID", {
+        url: baseUrl,
+        did: document?.id,
+      });
+    }
+    if (document.id === this.did) {
+      throw new FederationError("X811-1004", "Cannot peer with this server itself", { url: baseUrl });
+    }
+
+    let publicKey: Uint8Array;
+    try {
+      publicKey = extractPublicKey(document);
+    } catch {
+      throw new FederationError("X811-1004", "Peer DID document has no valid Ed25519 key", {
+        did: document.id,
+      });
+    }
+
+    return { did: document.id, url: baseUrl, publicKey };
+  }
+
+  /**
+   * Check a peer URL the way webhook targets are checked.
+   * @returns Request options that pin the connection to the checked address.
+   * @throws FederationError if the URL may not be requested.
+   */
+  private async checkTarget(url: string): Promise<FederationRequestOptions> {
+    if (!isAllowedUrl(url, this.options.allowInsecureUrls)) {
+      throw new FederationError("X811-1004", "Peer server URL must be https", { url });
+    }
+    if (this.options.allowInsecureUrls) return {};
+    try {
+      return { address: await resolvePublicAddress(url, this.options.lookup) };
+    } catch (err) {
+      throw new FederationError("X811-1004", errorMessage(err), { url });
+    }
+  }
+
+  /**
+   * Count a failed forwarding attempt; the message fails for good once it
+   * has used up its retries.
+   * @returns The message's new status.
+   */
+  private recordForwardFailure(message: MessageRow, error: string): string {
+    const status = message.retry_count + 1 >= this.options.maxRetries ? "failed" : "forwarding";
+    this.db.updateMessageStatus(message.id, status, error);
+    return status;
+  }
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+// ---------------------------------------------------------------------------
+// Federation-specific error
+// ---------------------------------------------------------------------------
+
+export class FederationError extends Error {
+  constructor(
+    public code: string,
+    message: string,
+    public details: Record<string, unknown> = {},
+  ) {
+    super(message);
+    this.name = "FederationError";
+  }
+}
@@ -3,31 +3,90 @@
  *
  * Implements the full 10-step negotiation state machine:
  *
- * States: pending, offered, accepted, delivered, verified, completed,
- *         expired, rejected, disputed, failed
+ * States: pending, offered, countered, accepted, delivered, verified,
+ *         payment_pending, completed, expired, rejected, disputed, failed,
+ *         cancelled
  *
  * Valid transitions:
- *   pending   -> offered
- *   offered   -> accepted, rejected
- *   accepted  -> delivered
- *   delivered -> verified, disputed
- *   verified  -> completed
- *   any       -> expired, failed
+ *   pending         -> offered, cancelled
+ *   offered         -> accepted, rejected, countered, cancelled
+ *   countered       -> offered, rejected, cancelled
+ *   accepted        -> delivered, cancelled
+ *   delivered       -> verified, disputed, completed (escrow release)
+ *   verified        -> payment_pending, completed
+ *   payment_pending -> completed, verified (confirmation timeout, retry)
+ *   disputed        -> verified, completed, failed (dispute resolution)
+ *   any             -> expired, failed
  *
  * Each transition is triggered by a specific message type (x811/request,
- * x811/offer, x811/accept, x811/reject, x811/result, x811/verify,
- * x811/payment, x811/payment-failed).
+ * x811/offer, x811/counter, x811/accept, x811/reject, x811/cancel,
+ * x811/result, x811/verify, x811/payment, x811/payment-failed,
+ * x811/dispute-response).
  *
- * TTLs are enforced per transition step.
+ * Price discovery can take several rounds: the initiator counters an offer
+ * with x811/counter ("countered"), and the provider answers with a counter
+ * that becomes the new offer ("offered"), up to maxCounterRounds counters.
+ * Every round is kept in the interaction's offer_history.
+ *
+ * TTLs are enforced per transition step. Each state's deadline is derived
+ * from the interaction itself — the offer's expiry, the request's deadline
+ * or the provider's estimated_time — clamped to the server's bounds, and
+ * stored in expires_at when the interaction enters the state.
+ *
+ * Payments are checked on-chain through an IPaymentVerifier before the
+ * interaction completes. A payment that is mined but not yet confirmed
+ * holds the interaction in "payment_pending" until checkPendingPayments()
+ * sees enough confirmations.
+ *
+ * Offers with `settlement: "escrow"` skip the payment step: the initiator
+ * locks total_cost in the X811Escrow contract before accepting, and the
+ * server releases it to the provider on verify. Escrows of interactions
+ * that expire, fail or are cancelled before delivery are refunded by
+ * refundExpiredEscrows(). A delivered result the initiator neither
+ * verifies nor disputes in time is paid out by releaseUnverifiedEscrows().
+ *
+ * A verify with `verified: false` opens a dispute. The provider answers
+ * with x811/dispute-response, then an IArbiter decides (provider_wins,
+ * initiator_wins or split) or leaves the dispute to an admin. A provider
+ * that does not respond within DISPUTE_RESPONSE forfeits the dispute.
+ *
+ * Requests carrying an `rfq_id` form a request-for-quote group: one
+ * initiator fans the same task out to several providers and accepts one
+ * offer. Accepting it closes out the rest of the group — outstanding
+ * offers are rejected and requests still awaiting an offer expire.
+ *
+ * The initiator can cancel an interaction freely until it is accepted.
+ * After acceptance both parties must send x811/cancel, or one party forces
+ * the cancellation at the cost of a failure on its trust record. Delivered
+ * work cannot be cancelled.
+ *
+ * An offer may carry the provider's trust attestation. It must describe
+ * the provider, and one issued by this server must verify; attestations
+ * from other servers are left to the initiator to check.
+ *
+ * A result delivered by result_url into this server's blob store must
+ * name a blob uploaded for the interaction, addressed by its result_hash.
  */
 
 import { randomUUID } from "node:crypto";
+import { computeEscrowId, hashPayload, type TrustAttestation } from "@x811/core";
 import { sha256 } from "@noble/hashes/sha256";
 import { bytesToHex } from "@noble/hashes/utils";
 import type { Database, InteractionRow } from "../db/schema.js";
 import type { MessageRouterService, Envelope } from "./router.js";
+import { CapabilityService } from "./capabilities.js";
 import type { BatchingService } from "./batching.js";
 import type { TrustService } from "./trust.js";
+import type { ExpectedPayment, IPaymentVerifier } from "./payment-verifier.js";
+import type { IEscrowService } from "./escrow.js";
+import type { AttestationService } from "./attestation.js";
+import type { BlobStore } from "./blobs.js";
+import {
+  DISPUTE_OUTCOMES,
+  type DisputeCase,
+  type DisputeDecision,
+  type IArbiter,
+} from "./arbiter.js";
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -36,28 +95,62 @@ import type { TrustService } from "./trust.js";
 /** Protocol fee percentage. */
 const PROTOCOL_FEE_RATE = 0.025; // 2.5%
 
-/** TTLs in seconds for each transition step. */
+/**
+ * Default TTLs in seconds for each transition step, used where the
+ * interaction does not carry its own (see stateTtl) and for interactions
+ * stored before per-state deadlines.
+ */
 const NEGOTIATION_TTLS: Record<string, number> = {
   REQUEST_TO_OFFER: 60,
   OFFER_TO_ACCEPT: 300,
+  COUNTER_TO_RESPONSE: 300,
   ACCEPT_TO_RESULT: 3600,
   RESULT_TO_VERIFY: 30,
   VERIFY_TO_PAY: 60,
   PAY_CONFIRMATION: 30,
+  DISPUTE_RESPONSE: 3600,
+};
+
+/** States that expire, and the default TTL that applies in each. */
+const STATE_TTL_KEYS: Record<string, string> = {
+  pending: "REQUEST_TO_OFFER",
+  offered: "OFFER_TO_ACCEPT",
+  countered: "COUNTER_TO_RESPONSE",
+  accepted: "ACCEPT_TO_RESULT",
+  delivered: "RESULT_TO_VERIFY",
+  verified: "VERIFY_TO_PAY",
 };
 
+/** Default cap on counter-offers per interaction (both parties combined). */
+const DEFAULT_MAX_COUNTER_ROUNDS = 4;
+
+/** Maximum length of a request-for-quote group ID. */
+const MAX_RFQ_ID_LENGTH = 128;
+
+/** Statuses of RFQ members that have not been awarded or closed out. */
+const OPEN_RFQ_STATUSES = ["pending", "offered", "countered"];
+
+/** Statuses of RFQ members that were never accepted. */
+const UNAWARDED_RFQ_STATUSES = [...OPEN_RFQ_STATUSES, "rejected", "expired", "cancelled"];
+
+/** Machine-readable dispute codes accepted in a verify(false). */
+const DISPUTE_CODES = ["WRONG_RESULT", "INCOMPLETE", "TIMEOUT", "QUALITY", "OTHER"];
+
 /** Valid state transitions. */
 const VALID_TRANSITIONS: Record<string, string[]> = {
-  pending: ["offered", "expired", "failed"],
-  offered: ["accepted", "rejected", "expired", "failed"],
-  accepted: ["delivered", "expired", "failed"],
-  delivered: ["verified", "disputed", "expired", "failed"],
-  verified: ["completed", "expired", "failed"],
+  pending: ["offered", "cancelled", "expired", "failed"],
+  offered: ["accepted", "rejected", "countered", "cancelled", "expired", "failed"],
+  countered: ["offered", "rejected", "cancelled", "expired", "failed"],
+  accepted: ["delivered", "cancelled", "expired", "failed"],
+  delivered: ["verified", "completed", "disputed", "expired", "failed"],
+  verified: ["payment_pending", "completed", "expired", "failed"],
+  payment_pending: ["completed", "verified", "failed"],
   completed: [],
   expired: [],
   rejected: [],
-  disputed: ["failed"],
+  disputed: ["verified", "completed", "failed"],
   failed: [],
+  cancelled: [],
 };
 
 // ---------------------------------------------------------------------------
@@ -74,6 +167,8 @@ interface RequestPayload {
   threshold_amount?: number;
   callback_url?: string;
   idempotency_key: string;
+  rfq_id?: string;
+  capability_version?: string;
 }
 
 interface OfferPayload {
@@ -86,11 +181,35 @@ interface OfferPayload {
   deliverables: string[];
   terms?: string;
   expiry: number;
+  payment_address?: string;
+  settlement?: "direct" | "escrow";
+  trust_attestation?: TrustAttestation;
+}
+
+interface CounterPayload {
+  request_id: string;
+  price: string;
+  protocol_fee: string;
+  total_cost: string;
+  estimated_time?: number;
+  message?: string;
+}
+
+interface OfferRound {
+  round: number;
+  from: "initiator" | "provider";
+  price: string;
+  protocol_fee: string;
+  total_cost: string;
+  estimated_time: number;
+  message?: string;
+  created_at: string;
 }
 
 interface AcceptPayload {
   offer_id: string;
   offer_hash: string;
+  escrow_tx_hash?: string;
 }
 
 interface RejectPayload {
@@ -99,6 +218,12 @@ interface RejectPayload {
   code: string;
 }
 
+interface CancelPayload {
+  interaction_id: string;
+  reason?: string;
+  force?: boolean;
+}
+
 interface ResultPayload {
   request_id: string;
   offer_id: string;
@@ -112,6 +237,28 @@ interface ResultPayload {
   methodology?: string;
 }
 
+interface VerifyPayload {
+  request_id: string;
+  result_hash: string;
+  verified: boolean;
+  dispute_reason?: string;
+  dispute_code?: string;
+}
+
+interface DisputeResponsePayload {
+  request_id: string;
+  evidence: string;
+  evidence_url?: string;
+}
+
+interface DisputeResolution {
+  outcome: DisputeDecision["outcome"];
+  provider_share?: number;
+  reason: string;
+  resolved_by: "automated" | "admin" | "timeout";
+  resolved_at: string;
+}
+
 interface PaymentPayload {
   request_id: string;
   offer_id: string;
@@ -129,6 +276,18 @@ interface ErrorPayload {
   related_message_id?: string;
 }
 
+/** Server-side bounds and defaults for per-state deadlines, in seconds. */
+export interface NegotiationTtlConfig {
+  /** Window for the provider to answer a request. */
+  requestTtl: number;
+  /** Window for the initiator to verify a delivered result. */
+  verifyTtl: number;
+  /** No state deadline is shorter than this. */
+  minTtl: number;
+  /** No state deadline is longer than this. */
+  maxTtl: number;
+}
+
 // ---------------------------------------------------------------------------
 // Negotiation Service
 // ---------------------------------------------------------------------------
@@ -139,6 +298,19 @@ export class NegotiationService {
     private router: MessageRouterService,
     private batching: BatchingService,
     private trust: TrustService,
+    private paymentVerifier?: IPaymentVerifier,
+    private escrow?: IEscrowService,
+    private arbiter?: IArbiter,
+    private maxCounterRounds: number = DEFAULT_MAX_COUNTER_ROUNDS,
+    private ttlConfig: NegotiationTtlConfig = {
+      requestTtl: NEGOTIATION_TTLS.REQUEST_TO_OFFER,
+      verifyTtl: NEGOTIATION_TTLS.RESULT_TO_VERIFY,
+      minTtl: 30,
+      maxTtl: 86_400,
+    },
+    private capabilities: CapabilityService = new CapabilityService(db),
+    private attestations?: AttestationService,
+    private blobs?: BlobStore,
   ) {}
 
   /**
@@ -150,10 +322,14 @@ export class NegotiationService {
         return this.handleRequest(envelope);
       case "x811/offer":
         return this.handleOffer(envelope);
+      case "x811/counter":
+        return this.handleCounter(envelope);
       case "x811/accept":
         return this.handleAccept(envelope);
       case "x811/reject":
         return this.handleReject(envelope);
+      case "x811/cancel":
+        return this.handleCancel(envelope);
       case "x811/result":
         return this.handleResult(envelope);
       case "x811/verify":
@@ -162,6 +338,8 @@ export class NegotiationService {
         return this.handlePayment(envelope);
       case "x811/payment-failed":
         return this.handlePaymentFailed(envelope);
+      case "x811/dispute-response":
+        return this.handleDisputeResponse(envelope);
       default:
         throw new NegotiationError(
           "X811-4006",
@@ -170,6 +348,127 @@ export class NegotiationService {
     }
   }
 
+  /**
+   * Whether this server keeps the negotiation state for an envelope's
+   * conversation. A negotiation lives on the provider's home server; when
+   * the parties are homed on different federated servers, the other side
+   * only relays the messages.
+   */
+  hostsConversation(envelope: Envelope): boolean {
+    if (envelope.type === "x811/request") {
+      return this.db.getAgentByDid(envelope.to) !== undefined;
+    }
+    const stmt = this.db.raw.prepare(`
+      SELECT 1 FROM interactions
+      WHERE (initiator_did = ? AND provider_did = ?) OR (initiator_did = ? AND provider_did = ?)
+      LIMIT 1
+    `);
+    return stmt.get(envelope.from, envelope.to, envelope.to, envelope.from) !== undefined;
+  }
+
+  /**
+   * Check a request's parameters against the provider's input_schema, or a
+   * result's inline content against the capability's output_schema. Fields
+   * that are absent (end-to-end encrypted, or a result_url delivery) are not
+   * checked. Messages for negotiations hosted elsewhere are skipped.
+   */
+  checkCapabilitySchemas(envelope: Envelope): void {
+    if (envelope.type === "x811/request") {
+      this.checkRequestSchema(envelope);
+    } else if (envelope.type === "x811/result") {
+      this.checkResultSchema(envelope);
+    }
+  }
+
+  private checkRequestSchema(envelope: Envelope): void {
+    const payload = envelope.payload as RequestPayload;
+    const provider = this.db.getAgentByDid(envelope.to);
+    if (!provider) return;
+    const capability = this.capabilities.getCapability(provider.id, payload.task_type);
+    if (!capability) return;
+
+    if (payload.capability_version !== undefined && payload.capability_version !== capability.version) {
+      throw new NegotiationError("X811-4008", "Provider offers a different version of this capability", {
+        capability: capability.name,
+        requested_version: payload.capability_version,
+        available_version: capability.version,
+      });
+    }
+
+    if (!capability.input_schema || payload.parameters === undefined) return;
+    const errors = this.capabilities.validate(capability.input_schema, payload.parameters);
+    if (errors.length > 0) {
+      throw new NegotiationError("X811-4008", "Request parameters do not match the capability's input_schema", {
+        capability: capability.name,
+        version: capability.version,
+        errors,
+      });
+    }
+  }
+
+  /**
+   * A result_url into this server's blob store must name a blob uploaded
+   * for the interaction whose digest is the result_hash. Other URLs (and
+   * end-to-end encrypted ones, absent here) are the initiator's to check.
+   */
+  private checkResultBlob(interaction: InteractionRow, payload: ResultPayload): void {
+    if (!this.blobs || typeof payload.result_url !== "string") return;
+    const hash = this.blobs.hashFromUrl(payload.result_url);
+    if (hash === null) return;
+
+    if (hash !== payload.result_hash) {
+      throw new NegotiationError("X811-6002", "Result blob does not match result_hash", {
+        expected: payload.result_hash,
+        actual: hash,
+      });
+    }
+    const blob = this.db.getBlob(hash, interaction.id);
+    if (!blob) {
+      throw new NegotiationError("X811-6002", "Result blob has not been uploaded for this interaction", {
+        result_url: payload.result_url,
+      });
+    }
+    if (payload.result_size !== undefined && payload.result_size !== blob.size) {
+      throw new NegotiationError("X811-6002", "Result blob size does not match result_size", {
+        expected: payload.result_size,
+        actual: blob.size,
+      });
+    }
+  }
+
+  private checkResultSchema(envelope: Envelope): void {
+    const payload = envelope.payload as ResultPayload;
+    if (payload.content === undefined) return;
+
+    const interaction = this.findInteractionByRequestId(payload.request_id, "accepted", envelope.from);
+    if (!interaction) return;
+    const provider = this.db.getAgentByDid(interaction.provider_did);
+    if (!provider) return;
+    const capability = this.capabilities.getCapability(provider.id, interaction.capability);
+    if (!capability?.output_schema) return;
+
+    let content: unknown = payload.content;
+    if (typeof payload.content === "string" && payload.content_type?.includes("json")) {
+      try {
+        content = JSON.parse(payload.content);
+      } catch {
+        throw new NegotiationError("X811-6001", "Result content is not valid JSON", {
+          capability: capability.name,
+          content_type: payload.content_type,
+        });
+      }
+    }
+
+    const errors = this.capabilities.validate(capability.output_schema, content);
+    if (errors.length > 0) {
+      throw new NegotiationError("X811-6001", "Result content does not match the capability's output_schema", {
+        capability: capability.name,
+        version: capability.version,
+        errors,
+      });
+    }
+  }
+
   // -----------------------------------------------------------------------
   // Message handlers
   // -----------------------------------------------------------------------
@@ -204,6 +503,12 @@ export class NegotiationService {
       });
     }
 
+    this.checkRequestSchema(envelope);
+
+    if (payload.rfq_id !== undefined) {
+      this.validateRfqRequest(payload.rfq_id, envelope.from);
+    }
+
     // Create interaction hash from envelope content
     const interactionHash = this.computeHash(envelope);
 
@@ -223,6 +528,8 @@ export class NegotiationService {
       offer_payload: null,
       result_payload: null,
       idempotency_key: payload.idempotency_key,
+      rfq_id: payload.rfq_id ?? null,
+      expires_at: this.deadlineIn(this.stateTtl("pending", payload)),
     });
 
     return { interaction_id: interaction.id, status: "pending" };
@@ -261,48 +568,107 @@ export class NegotiationService {
       });
     }
 
-    // Validate protocol fee calculation
-    const price = parseFloat(payload.price);
-    const expectedFee = Math.round(price * PROTOCOL_FEE_RATE * 1_000_000) / 1_000_000;
-    const actualFee = parseFloat(payload.protocol_fee);
-    if (Math.abs(actualFee - expectedFee) > 0.000001) {
-      throw new NegotiationError("X811-4006", "Invalid protocol fee calculation", {
-        expected_fee: expectedFee,
-        actual_fee: actualFee,
-        rate: PROTOCOL_FEE_RATE,
-      });
-    }
-
-    // Validate total cost
-    const expectedTotal = Math.round((price + expectedFee) * 1_000_000) / 1_000_000;
-    const actualTotal = parseFloat(payload.total_cost);
-    if (Math.abs(actualTotal - expectedTotal) > 0.000001) {
-      throw new NegotiationError("X811-4006", "Invalid total cost calculation", {
-        expected_total: expectedTotal,
-        actual_total: actualTotal,
-      });
-    }
-
-    // Check budget constraint
+    // Validate protocol fee, total cost and budget
     const requestPayload = JSON.parse(
       interaction.request_payload!,
     ) as RequestPayload;
-    if (actualTotal > requestPayload.max_budget) {
-      throw new NegotiationError("X811-4003", "Offer total exceeds request budget", {
-        max_budget: requestPayload.max_budget,
-        total_cost: actualTotal,
+    this.validatePricing(payload, requestPayload.max_budget);
+
+    if (payload.trust_attestation !== undefined) {
+      this.validateTrustAttestation(payload.trust_attestation, envelope.from);
+    }
+
+    // Validate settlement mode
+    const settlement = payload.settlement ?? "direct";
+    if (settlement !== "direct" && settlement !== "escrow") {
+      throw new NegotiationError("X811-4006", "Invalid settlement mode", {
+        settlement: payload.settlement,
       });
     }
+    if (settlement === "escrow") {
+      if (!this.escrow) {
+        throw new NegotiationError("X811-4006", "Escrow settlement is not supported by this server");
+      }
+      if (!payload.payment_address) {
+        throw new NegotiationError("X811-4006", "Escrow offers must include a payment_address");
+      }
+    }
 
     // Update interaction
     this.db.updateInteraction(interaction.id, {
       status: "offered",
       offer_payload: JSON.stringify(payload),
+      settlement,
+      offer_history: JSON.stringify([this.offerRound(0, "provider", payload)]),
+      expires_at: this.deadlineIn(this.stateTtl("offered", requestPayload, payload)),
     });
 
     return { interaction_id: interaction.id, status: "offered" };
   }
 
+  /**
+   * Handle a COUNTER message.
+   * From the initiator, counters the current offer ("offered" -> "countered").
+   * From the provider, answers the initiator's counter with new terms that
+   * replace the offer ("countered" -> "offered"). Each counter is appended
+   * to offer_history; at most maxCounterRounds are allowed.
+   */
+  async handleCounter(
+    envelope: Envelope,
+  ): Promise<{ interaction_id: string; status: string }> {
+    const payload = envelope.payload as CounterPayload;
+
+    const interaction = this.findInteractionByOfferOrRequest(payload.request_id);
+    const fromInitiator = envelope.from === interaction.initiator_did;
+    if (!fromInitiator && envelope.from !== interaction.provider_did) {
+      throw new NegotiationError("X811-2004", "Only the initiator or provider can counter", {
+        interaction_id: interaction.id,
+        actual: envelope.from,
+      });
+    }
+
+    // Turns alternate: the initiator counters an offer, the provider answers
+    const targetStatus = fromInitiator ? "countered" : "offered";
+    this.validateTransition(interaction, targetStatus);
+
+    const history = this.getOfferHistory(interaction);
+    const counters = history.filter((r) => r.round > 0).length;
+    if (counters >= this.maxCounterRounds) {
+      throw new NegotiationError("X811-4007", "Counter-offer limit reached", {
+        interaction_id: interaction.id,
+        max_rounds: this.maxCounterRounds,
+      });
+    }
+
+    const requestPayload = JSON.parse(interaction.request_payload!) as RequestPayload;
+    this.validatePricing(payload, requestPayload.max_budget);
+
+    const offer = JSON.parse(interaction.offer_payload!) as OfferPayload;
+    const round = this.offerRound(counters + 1, fromInitiator ? "initiator" : "provider", {
+      ...payload,
+      estimated_time: payload.estimated_time ?? offer.estimated_time,
+    });
+    history.push(round);
+
+    this.db.updateInteraction(interaction.id, {
+      status: targetStatus,
+      offer_history: JSON.stringify(history),
+      expires_at: this.deadlineIn(this.stateTtl(targetStatus, requestPayload, offer)),
+      // The provider's answer becomes the offer the initiator accepts
+      offer_payload: fromInitiator
+        ? undefined
+        : JSON.stringify({
+          ...offer,
+          price: round.price,
+          protocol_fee: round.protocol_fee,
+          total_cost: round.total_cost,
+          estimated_time: round.estimated_time,
+        }),
+    });
+
+    return { interaction_id: interaction.id, status: targetStatus };
+  }
+
   /**
    * Handle an ACCEPT message.
    * Transitions from "offered" to "accepted".
@@ -325,10 +691,14 @@ export class NegotiationService {
       });
     }
 
-    // Validate offer_hash matches stored offer
+    // Validate offer_hash matches stored offer: the hash of its canonical
+    // JSON (RFC §10.3), or of the stored JSON as earlier servers required
     if (interaction.offer_payload) {
-      const expectedHash = this.computePayloadHash(interaction.offer_payload);
-      if (payload.offer_hash !== expectedHash) {
+      const expectedHash = hashPayload(JSON.parse(interaction.offer_payload));
+      if (
+        payload.offer_hash !== expectedHash &&
+        payload.offer_hash !== this.computePayloadHash(interaction.offer_payload)
+      ) {
         throw new NegotiationError("X811-4006", "Offer hash mismatch", {
           expected: expectedHash,
           actual: payload.offer_hash,
@@ -336,13 +706,33 @@ export class NegotiationService {
       }
     }
 
-    this.db.updateInteraction(interaction.id, { status: "accepted" });
+    const expiresAt = this.deadlineIn(this.stateTtlFor(interaction, "accepted"));
+    const acceptedAt = new Date().toISOString();
+    if (interaction.settlement === "escrow") {
+      await this.verifyEscrowDeposit(interaction, payload);
+      this.db.updateInteraction(interaction.id, {
+        status: "accepted",
+        escrow_status: "funded",
+        expires_at: expiresAt,
+        accepted_at: acceptedAt,
+      });
+    } else {
+      this.db.updateInteraction(interaction.id, {
+        status: "accepted",
+        expires_at: expiresAt,
+        accepted_at: acceptedAt,
+      });
+    }
+
+    if (interaction.rfq_id) {
+      this.closeOutRfq(interaction.rfq_id, interaction.id);
+    }
     return { interaction_id: interaction.id, status: "accepted" };
   }
 
   /**
    * Handle a REJECT message.
-   * Transitions from "offered" to "rejected".
+   * Transitions from "offered" or "countered" to "rejected".
    */
   async handleReject(
     envelope: Envelope,
@@ -368,6 +758,69 @@ export class NegotiationService {
     return { interaction_id: interaction.id, status: "rejected" };
   }
 
+  /**
+   * Handle a CANCEL message.
+   * The initiator cancels a "pending", "offered" or "countered" interaction
+   * outright. An "accepted" interaction is cancelled once both parties have
+   * sent a cancel — the first one is recorded in cancel_requested_by — or
+   * immediately with `force`, which records a failure against the sender's
+   * trust. A funded escrow is refunded by refundExpiredEscrows().
+   */
+  async handleCancel(
+    envelope: Envelope,
+  ): Promise<{ interaction_id: string; status: string }> {
+    const payload = envelope.payload as CancelPayload;
+
+    const interaction = this.findInteractionByOfferOrRequest(payload.interaction_id);
+    const fromInitiator = envelope.from === interaction.initiator_did;
+    if (!fromInitiator && envelope.from !== interaction.provider_did) {
+      throw new NegotiationError("X811-2004", "Only the initiator or provider can cancel", {
+        interaction_id: interaction.id,
+        actual: envelope.from,
+      });
+    }
+    this.validateTransition(interaction, "cancelled");
+
+    // The cancel envelope is how the counterparty learns of it
+    const counterparty = fromInitiator ? interaction.provider_did : interaction.initiator_did;
+    if (envelope.to !== counterparty) {
+      throw new NegotiationError("X811-4006", "Cancel must be addressed to the counterparty", {
+        expected: counterparty,
+        actual: envelope.to,
+      });
+    }
+
+    if (interaction.status !== "accepted") {
+      if (!fromInitiator) {
+        throw new NegotiationError("X811-2004", "Only the initiator can cancel before acceptance", {
+          expected: interaction.initiator_did,
+          actual: envelope.from,
+        });
+      }
+      this.db.updateInteraction(interaction.id, { status: "cancelled", outcome: "cancelled" });
+      return { interaction_id: interaction.id, status: "cancelled" };
+    }
+
+    // Accepted: the counterparty's earlier cancel is consent
+    const requestedBy = interaction.cancel_requested_by;
+    if (requestedBy !== null && requestedBy !== envelope.from) {
+      this.db.updateInteraction(interaction.id, { status: "cancelled", outcome: "cancelled" });
+      return { interaction_id: interaction.id, status: "cancelled" };
+    }
+
+    if (payload.force) {
+      this.db.updateInteraction(interaction.id, {
+        status: "cancelled",
+        outcome: fromInitiator ? "cancelled_by_initiator" : "cancelled_by_provider",
+      });
+      this.trust.recordFailure(envelope.from);
+      return { interaction_id: interaction.id, status: "cancelled" };
+    }
+
+    this.db.updateInteraction(interaction.id, { cancel_requested_by: envelope.from });
+    return { interaction_id: interaction.id, status: "accepted" };
+  }
+
   /**
    * Handle a RESULT message.
    * Transitions from "accepted" to "delivered".
@@ -403,27 +856,32 @@ export class NegotiationService {
       throw new NegotiationError("X811-6002", "Missing result_hash in result payload");
     }
 
+    this.checkResultSchema(envelope);
+    this.checkResultBlob(interaction, payload);
+
     this.db.updateInteraction(interaction.id, {
       status: "delivered",
       result_payload: JSON.stringify(payload),
+      expires_at: this.deadlineIn(this.stateTtlFor(interaction, "delivered")),
+      delivered_at: new Date().toISOString(),
     });
+    // Observed completion time feeds latency-aware discovery
+    this.db.refreshMedianCompletion(interaction.provider_did);
 
     return { interaction_id: interaction.id, status: "delivered" };
   }
 
   /**
    * Handle a VERIFY message.
-   * Transitions from "delivered" to "verified".
+   * Transitions from "delivered" to "verified", or straight to "completed"
+   * for escrow-settled interactions once the escrow has been released.
+   * A verify with `verified: false` transitions to "disputed" instead.
    * Performs server-side validation of the result.
    */
   async handleVerify(
     envelope: Envelope,
   ): Promise<{ interaction_id: string; status: string }> {
-    const payload = envelope.payload as {
-      request_id: string;
-      result_hash: string;
-      verified: boolean;
-    };
+    const payload = envelope.payload as VerifyPayload;
 
     const interaction = this.findInteractionByRequestId(
       payload.request_id,
@@ -435,6 +893,11 @@ export class NegotiationService {
         request_id: payload.request_id,
       });
     }
+
+    if (payload.verified === false) {
+      return this.openDispute(interaction, envelope.from, payload);
+    }
+
     this.validateTransition(interaction, "verified");
 
     // Server-side verification: check result_hash matches stored result
@@ -448,9 +911,14 @@ export class NegotiationService {
       }
     }
 
+    if (interaction.settlement === "escrow") {
+      return this.releaseEscrow(interaction);
+    }
+
     this.db.updateInteraction(interaction.id, {
       status: "verified",
       outcome: "success",
+      expires_at: this.deadlineIn(this.stateTtlFor(interaction, "verified")),
     });
 
     // Add to batching queue for Merkle tree anchoring
@@ -459,10 +927,208 @@ export class NegotiationService {
     return { interaction_id: interaction.id, status: "verified" };
   }
 
+  /**
+   * Handle a DISPUTE-RESPONSE message.
+   * Stores the provider's evidence on a disputed interaction and asks the
+   * arbiter for a decision. Undecided disputes stay "disputed" until an
+   * admin resolves them.
+   */
+  async handleDisputeResponse(
+    envelope: Envelope,
+  ): Promise<{ interaction_id: string; status: string }> {
+    const payload = envelope.payload as DisputeResponsePayload;
+
+    const interaction = this.findInteractionByRequestId(
+      payload.request_id,
+      "disputed",
+      envelope.from,
+    );
+    if (!interaction) {
+      throw new NegotiationError("X811-4006", "Interaction not found", {
+        request_id: payload.request_id,
+      });
+    }
+    if (interaction.status !== "disputed") {
+      throw new NegotiationError("X811-4006", "Interaction is not disputed", {
+        interaction_id: interaction.id,
+        current_status: interaction.status,
+      });
+    }
+
+    // Validate the sender is the provider
+    if (envelope.from !== interaction.provider_did) {
+      throw new NegotiationError("X811-2004", "Only the provider can respond to a dispute", {
+        expected: interaction.provider_did,
+        actual: envelope.from,
+      });
+    }
+
+    if (interaction.dispute_response) {
+      throw new NegotiationError("X811-4006", "Dispute response already submitted", {
+        interaction_id: interaction.id,
+      });
+    }
+    if (!payload.evidence) {
+      throw new NegotiationError("X811-4006", "Missing evidence in dispute response");
+    }
+
+    const disputeResponse = JSON.stringify(payload);
+    this.db.updateInteraction(interaction.id, { dispute_response: disputeResponse });
+
+    const decision = await this.arbitrate({
+      ...interaction,
+      dispute_response: disputeResponse,
+    });
+    if (!decision) {
+      return { interaction_id: interaction.id, status: "disputed" };
+    }
+    return this.resolveDispute(interaction.id, decision, "automated");
+  }
+
+  /**
+   * Resolve a disputed interaction and settle it:
+   * - provider_wins: escrow released and completed, or back to "verified"
+   *   so the initiator pays in full (direct settlement)
+   * - initiator_wins: escrow refunded; the interaction fails
+   * - split: escrow split by provider_share and completed, or back to
+   *   "verified" with provider_share of the total due (direct settlement)
+   *
+   * The losing party is charged a dispute in its trust score; a split
+   * charges neither.
+   */
+  async resolveDispute(
+    interactionId: string,
+    decision: DisputeDecision,
+    resolvedBy: DisputeResolution["resolved_by"],
+  ): Promise<{ interaction_id: string; status: string }> {
+    const interaction = this.db.getInteraction(interactionId);
+    if (!interaction) {
+      throw new NegotiationError("X811-4006", "Interaction not found", {
+        interaction_id: interactionId,
+      });
+    }
+    if (interaction.status !== "disputed") {
+      throw new NegotiationError("X811-4006", "Interaction is not disputed", {
+        interaction_id: interactionId,
+        current_status: interaction.status,
+      });
+    }
+
+    if (!DISPUTE_OUTCOMES.includes(decision.outcome)) {
+      throw new NegotiationError("X811-4006", "Invalid dispute outcome", {
+        outcome: decision.outcome,
+        allowed_outcomes: DISPUTE_OUTCOMES,
+      });
+    }
+    const share = decision.provider_share;
+    if (
+      decision.outcome === "split" &&
+      (typeof share !== "number" || !(share > 0 && share < 1))
+    ) {
+      throw new NegotiationError("X811-4006", "Split outcomes require a provider_share between 0 and 1", {
+        provider_share: share,
+      });
+    }
+
+    const resolution: DisputeResolution = {
+      outcome: decision.outcome,
+      ...(decision.outcome === "split" ? { provider_share: share } : {}),
+      reason: decision.reason,
+      resolved_by: resolvedBy,
+      resolved_at: new Date().toISOString(),
+    };
+    const offerPayload = JSON.parse(interaction.offer_payload!) as OfferPayload;
+    const totalCost = parseFloat(offerPayload.total_cost);
+
+    let status: string;
+    let outcome: string;
+    let updates: Parameters<Database["updateInteraction"]>[1] = {};
+
+    if (decision.outcome === "initiator_wins") {
+      status = "failed";
+      outcome = "failure";
+      if (interaction.settlement === "escrow") {
+        updates = await this.settleDisputedEscrow(interaction, decision);
+      }
+    } else {
+      outcome = decision.outcome === "split" ? "split" : "success";
+      if (interaction.settlement === "escrow") {
+        status = "completed";
+        updates = await this.settleDisputedEscrow(interaction, decision);
+        updates.payment_amount =
+          Math.round(totalCost * (share ?? 1) * 1_000_000) / 1_000_000;
+      } else {
+        status = "verified";
+      }
+    }
+
+    this.validateTransition(interaction, status);
+    this.db.updateInteraction(interaction.id, {
+      ...updates,
+      status,
+      outcome,
+      expires_at: status === "verified"
+        ? this.deadlineIn(this.stateTtlFor(interaction, "verified"))
+        : undefined,
+      dispute_outcome: decision.outcome,
+      dispute_resolution: JSON.stringify(resolution),
+    });
+
+    if (decision.outcome === "provider_wins") {
+      this.trust.recordDisputeLoss(interaction.initiator_did);
+    } else if (decision.outcome === "initiator_wins") {
+      this.trust.recordDisputeLoss(interaction.provider_did);
+    }
+    if (status === "completed") {
+      this.trust.recordSuccess(interaction.initiator_did);
+      this.trust.recordSuccess(interaction.provider_did);
+    }
+
+    if (status !== "failed") {
+      await this.batching.addInteraction(interaction.interaction_hash);
+    }
+
+    return { interaction_id: interaction.id, status };
+  }
+
+  /**
+   * Resolve disputes the provider has not answered within
+   * DISPUTE_RESPONSE. The arbiter still gets a say; if it cannot decide,
+   * the provider forfeits and the initiator wins. Called periodically.
+   *
+   * @returns Number of disputes resolved
+   */
+  async resolveStaleDisputes(): Promise<number> {
+    const cutoff = new Date(
+      Date.now() - NEGOTIATION_TTLS.DISPUTE_RESPONSE * 1000,
+    ).toISOString();
+
+    let resolved = 0;
+    for (const interaction of this.db.getUnansweredDisputes(cutoff)) {
+      const decision = await this.arbitrate(interaction);
+      try {
+        if (decision) {
+          await this.resolveDispute(interaction.id, decision, "automated");
+        } else {
+          await this.resolveDispute(
+            interaction.id,
+            { outcome: "initiator_wins", reason: "Provider did not respond to the dispute" },
+            "timeout",
+          );
+        }
+        resolved++;
+      } catch {
+        // Escrow settlement errors are transient; retry on the next sweep
+      }
+    }
+    return resolved;
+  }
+
   /**
    * Handle a PAYMENT message.
-   * Transitions from "verified" to "completed".
-   * Validates tx_hash and amount.
+   * Transitions from "verified" to "completed", or to "payment_pending"
+   * while the transaction is waiting for confirmations.
+   * Validates tx_hash and amount, then checks the transfer on-chain.
    */
   async handlePayment(
     envelope: Envelope,
@@ -494,6 +1160,14 @@ export class NegotiationService {
       throw new NegotiationError("X811-5001", "Missing tx_hash in payment payload");
     }
 
+    // The pending transaction either confirms or is dropped by
+    // checkPendingPayments(); only then may another one be tried
+    if (interaction.status === "payment_pending") {
+      throw new NegotiationError("X811-5003", "A payment is already pending for this interaction", {
+        tx_hash: interaction.payment_tx,
+      });
+    }
+
     // Coerce amount to number (MCP clients may send strings)
     const paymentAmount = typeof payload.amount === "string"
       ? parseFloat(payload.amount as unknown as string)
@@ -504,10 +1178,13 @@ export class NegotiationService {
       });
     }
 
-    // Validate amount matches the offer
+    // Validate amount matches the offer (or the provider's share of it
+    // after a split dispute resolution)
     if (interaction.offer_payload) {
       const offerPayload = JSON.parse(interaction.offer_payload) as OfferPayload;
-      const expectedAmount = parseFloat(offerPayload.total_cost);
+      const expectedAmount =
+        Math.round(parseFloat(offerPayload.total_cost) * this.providerShare(interaction) * 1_000_000) /
+        1_000_000;
       if (Math.abs(paymentAmount - expectedAmount) > 0.000001) {
         throw new NegotiationError("X811-5003", "Payment amount does not match offer total", {
           expected: expectedAmount,
@@ -516,18 +1193,58 @@ export class NegotiationService {
       }
     }
 
-    this.db.updateInteraction(interaction.id, {
-      status: "completed",
-      outcome: "success",
-      payment_tx: payload.tx_hash,
-      payment_amount: paymentAmount,
-    });
+    // Built before the claim below, as it rejects a payment without a
+    // payer or payee and must not leave the transaction claimed
+    const expected = this.paymentVerifier
+      ? this.buildExpectedPayment(interaction, payload)
+      : undefined;
+
+    // A transaction can only ever settle one interaction. Claim it before
+    // verifying, so a concurrent payment reusing it is refused meanwhile.
+    if (!this.db.claimPaymentTx(interaction.id, payload.tx_hash)) {
+      const inProgress = this.db.getInteraction(interaction.id)?.payment_tx;
+      if (inProgress) {
+        throw new NegotiationError("X811-5003", "A payment is already pending for this interaction", {
+          tx_hash: inProgress,
+        });
+      }
+      throw new NegotiationError("X811-5003", "Transaction already used to pay another interaction", {
+        tx_hash: payload.tx_hash,
+      });
+    }
 
-    // Update trust scores for both agents
-    this.trust.recordSuccess(interaction.initiator_did);
-    this.trust.recordSuccess(interaction.provider_did);
+    if (!this.paymentVerifier || !expected) {
+      return this.completePayment(interaction, payload.tx_hash, paymentAmount);
+    }
 
-    return { interaction_id: interaction.id, status: "completed" };
+    // On-chain verification of the transfer
+    let verification;
+    try {
+      verification = await this.paymentVerifier.verifyPayment(expected);
+    } catch (error) {
+      this.db.releasePaymentTx(interaction.id, payload.tx_hash);
+      throw error;
+    }
+
+    if (verification.status === "invalid") {
+      this.db.releasePaymentTx(interaction.id, payload.tx_hash);
+      throw new NegotiationError("X811-5003", "Payment verification failed", {
+        tx_hash: payload.tx_hash,
+        reason: verification.reason,
+      });
+    }
+
+    if (verification.status === "pending") {
+      this.db.updateInteraction(interaction.id, {
+        status: "payment_pending",
+        payment_tx: payload.tx_hash,
+        payment_amount: paymentAmount,
+        payment_payload: JSON.stringify(payload),
+      });
+      return { interaction_id: interaction.id, status: "payment_pending" };
+    }
+
+    return this.completePayment(interaction, payload.tx_hash, paymentAmount);
   }
 
   /**
@@ -575,22 +1292,119 @@ export class NegotiationService {
   }
 
   /**
-   * Check for interactions that have exceeded their TTL for the current
-   * state transition. Called periodically.
+   * Re-check every interaction in "payment_pending" against the chain.
+   * Confirmed payments complete the interaction; invalid ones (reverted
+   * or mismatched transfer) fail it. Payments still unconfirmed after
+   * PAY_CONFIRMATION go back to "verified" so the initiator can retry.
+   * Called periodically.
    */
-  checkExpiredInteractions(): void {
-    const now = Date.now();
+  async checkPendingPayments(): Promise<void> {
+    if (!this.paymentVerifier) return;
+
+    const cutoff = new Date(
+      Date.now() - NEGOTIATION_TTLS.PAY_CONFIRMATION * 1000,
+    ).toISOString();
+
+    for (const interaction of this.db.getInteractionsByStatus("payment_pending")) {
+      const payload = JSON.parse(interaction.payment_payload!) as PaymentPayload;
+
+      let verification;
+      try {
+        verification = await this.paymentVerifier.verifyPayment(
+          this.buildExpectedPayment(interaction, payload),
+        );
+      } catch {
+        // RPC errors are transient; retry on the next sweep
+        continue;
+      }
+
+      if (verification.status === "confirmed") {
+        this.completePayment(interaction, payload.tx_hash, interaction.payment_amount!);
+      } else if (verification.status === "invalid") {
+        this.db.updateInteraction(interaction.id, {
+          status: "failed",
+          outcome: "failure",
+        });
+        this.trust.recordFailure(interaction.initiator_did);
+      } else if (interaction.updated_at < cutoff) {
+        this.db.updateInteraction(interaction.id, {
+          status: "verified",
+          payment_tx: null,
+          payment_amount: null,
+          payment_payload: null,
+          expires_at: this.deadlineIn(this.stateTtlFor(interaction, "verified")),
+        });
+      }
+    }
+  }
 
-    // Map of states to their TTL keys
-    const stateTTLs: Array<{ status: string; ttlKey: string }> = [
-      { status: "pending", ttlKey: "REQUEST_TO_OFFER" },
-      { status: "offered", ttlKey: "OFFER_TO_ACCEPT" },
-      { status: "accepted", ttlKey: "ACCEPT_TO_RESULT" },
-      { status: "delivered", ttlKey: "RESULT_TO_VERIFY" },
-      { status: "verified", ttlKey: "VERIFY_TO_PAY" },
-    ];
+  /**
+   * Refund the escrow of every escrow-settled interaction that expired,
+   * failed or was cancelled before delivery while its deposit was still
+   * locked. Refunds that fail on-chain
+   * stay "funded" and are retried on the next sweep. Called periodically.
+   *
+   * @returns Number of escrows refunded
+   */
+  async refundExpiredEscrows(): Promise<number> {
+    if (!this.escrow) return 0;
+
+    let refunded = 0;
+    for (const interaction of this.db.getRefundableEscrowInteractions()) {
+      try {
+        await this.refundEscrow(interaction);
+        refunded++;
+      } catch {
+        // RPC errors are transient; retry on the next sweep
+      }
+    }
+    return refunded;
+  }
 
-    for (const { status, ttlKey } of stateTTLs) {
+  /**
+   * Release the escrow of every escrow-settled interaction whose result
+   * the initiator left unverified past the verify deadline, completing it
+   * as if verified. Releases that fail on-chain leave the interaction
+   * "delivered" and are retried on the next sweep. Called periodically.
+   *
+   * @returns Number of escrows released
+   */
+  async releaseUnverifiedEscrows(): Promise<number> {
+    if (!this.escrow) return 0;
+
+    let released = 0;
+    for (const interaction of this.db.getUnverifiedEscrowInteractions(new Date().toISOString())) {
+      try {
+        await this.releaseEscrow(interaction);
+        released++;
+      } catch {
+        // RPC errors are transient; retry on the next sweep
+      }
+    }
+    return released;
+  }
+
+  /**
+   * Expire interactions whose current state is past its deadline. Rows
+   * stored before per-state deadlines fall back to the default TTLs,
+   * measured from updated_at. Delivered escrow interactions are left to
+   * releaseUnverifiedEscrows(). Called periodically.
+   */
+  checkExpiredInteractions(): void {
+    const now = Date.now();
+    const nowIso = new Date(now).toISOString();
+    const statuses = Object.keys(STATE_TTL_KEYS);
+
+    this.db.raw.prepare(`
+      UPDATE interactions SET
+        status = 'expired',
+        outcome = 'timeout',
+        updated_at = ?
+      WHERE expires_at < ? AND status IN (${statuses.map(() => "?").join(", ")})
+        AND NOT (status = 'delivered' AND settlement = 'escrow')
+    `).run(nowIso, nowIso, ...statuses);
+
+    for (const [status, ttlKey] of Object.entries(STATE_TTL_KEYS)) {
       const ttlMs = NEGOTIATION_TTLS[ttlKey] * 1000;
       const cutoff = new Date(now - ttlMs).toISOString();
 
@@ -599,9 +1413,10 @@ export class NegotiationService {
           status = 'expired',
           outcome = 'timeout',
           updated_at = ?
-        WHERE status = ? AND updated_at < ?
+        WHERE status = ? AND expires_at IS NULL AND updated_at < ?
+          AND NOT (status = 'delivered' AND settlement = 'escrow')
       `);
-      stmt.run(new Date().toISOString(), status, cutoff);
+      stmt.run(nowIso, status, cutoff);
     }
   }
 
@@ -609,6 +1424,506 @@ export class NegotiationService {
   // Private helpers
   // -----------------------------------------------------------------------
 
+  /**
+   * Mark a paid interaction as completed and credit both agents.
+   */
+  private completePayment(
+    interaction: InteractionRow,
+    txHash: string,
+    amount: number,
+  ): { interaction_id: string; status: string } {
+    this.db.updateInteraction(interaction.id, {
+      status: "completed",
+      outcome: "success",
+      payment_tx: txHash,
+      payment_amount: amount,
+    });
+
+    // Update trust scores for both agents
+    this.trust.recordSuccess(interaction.initiator_did);
+    this.trust.recordSuccess(interaction.provider_did);
+
+    return { interaction_id: interaction.id, status: "completed" };
+  }
+
+  /**
+   * Move a delivered interaction into "disputed" on the initiator's
+   * verify(false).
+   */
+  private openDispute(
+    interaction: InteractionRow,
+    senderDid: string,
+    payload: VerifyPayload,
+  ): { interaction_id: string; status: string } {
+    this.validateTransition(interaction, "disputed");
+
+    // Validate the sender is the initiator
+    if (senderDid !== interaction.initiator_did) {
+      throw new NegotiationError("X811-2004", "Only the initiator can dispute a result", {
+        expected: interaction.initiator_did,
+        actual: senderDid,
+      });
+    }
+
+    if (!payload.dispute_code || !DISPUTE_CODES.includes(payload.dispute_code)) {
+      throw new NegotiationError("X811-4006", "Missing or invalid dispute_code", {
+        dispute_code: payload.dispute_code,
+        allowed_codes: DISPUTE_CODES,
+      });
+    }
+
+    this.db.updateInteraction(interaction.id, {
+      status: "disputed",
+      outcome: "dispute",
+      dispute_payload: JSON.stringify(payload),
+    });
+
+    return { interaction_id: interaction.id, status: "disputed" };
+  }
+
+  /**
+   * Ask the arbiter to decide a dispute. Arbiter errors count as
+   * undecided so the dispute stays open for an admin.
+   */
+  private async arbitrate(interaction: InteractionRow): Promise<DisputeDecision | null> {
+    if (!this.arbiter) return null;
+    try {
+      return await this.arbiter.decide(this.buildDisputeCase(interaction));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Collect what an arbiter needs to decide a dispute, including the
+   * output schema the provider advertised for the capability.
+   */
+  private buildDisputeCase(interaction: InteractionRow): DisputeCase {
+    const result = JSON.parse(interaction.result_payload!) as ResultPayload;
+    const dispute = JSON.parse(interaction.dispute_payload!) as VerifyPayload;
+    const response = interaction.dispute_response
+      ? (JSON.parse(interaction.dispute_response) as DisputeResponsePayload)
+      : null;
+
+    const provider = this.db.getAgentByDid(interaction.provider_did);
+    const capability = provider
+      ? this.capabilities.getCapability(provider.id, interaction.capability)
+      : undefined;
+    const outputSchema = capability?.output_schema
+      ? (JSON.parse(capability.output_schema) as Record<string, unknown>)
+      : null;
+
+    return {
+      interaction_id: interaction.id,
+      capability: interaction.capability,
+      output_schema: outputSchema,
+      result: {
+        content: result.content,
+        content_type: result.content_type,
+        result_hash: result.result_hash,
+        result_url: result.result_url,
+        encrypted: "sealed" in result,
+      },
+      dispute: {
+        dispute_code: dispute.dispute_code,
+        dispute_reason: dispute.dispute_reason,
+      },
+      response: response
+        ? { evidence: response.evidence, evidence_url: response.evidence_url }
+        : null,
+    };
+  }
+
+  /**
+   * Release, refund or split a disputed interaction's escrow according to
+   * the decision. If the deposit was already settled on-chain (e.g. the
+   * payer refunded it after the deadline) its final status is recorded
+   * instead.
+   * @returns Interaction fields to store with the resolution
+   */
+  private async settleDisputedEscrow(
+    interaction: InteractionRow,
+    decision: DisputeDecision,
+  ): Promise<Parameters<Database["updateInteraction"]>[1]> {
+    if (!this.escrow) {
+      throw new NegotiationError("X811-5001", "Escrow settlement is not supported by this server");
+    }
+
+    const escrowId = computeEscrowId(interaction.id);
+    try {
+      const deposit = await this.escrow.getDeposit(escrowId);
+      if (deposit.status !== "funded") {
+        return { escrow_status: deposit.status };
+      }
+
+      if (decision.outcome === "provider_wins") {
+        const txHash = await this.escrow.release(escrowId);
+        return { escrow_status: "released", payment_tx: txHash };
+      }
+      if (decision.outcome === "split") {
+        const bps = Math.round(decision.provider_share! * 10_000);
+        const txHash = await this.escrow.split(escrowId, bps);
+        return { escrow_status: "split", payment_tx: txHash };
+      }
+      await this.escrow.refund(escrowId);
+      return { escrow_status: "refunded" };
+    } catch (error) {
+      throw new NegotiationError("X811-5001", "Escrow settlement failed", {
+        interaction_id: interaction.id,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Fraction of the offer the provider is owed: 1, or provider_share
+   * after a split dispute resolution.
+   */
+  private providerShare(interaction: InteractionRow): number {
+    if (interaction.dispute_outcome !== "split" || !interaction.dispute_resolution) {
+      return 1;
+    }
+    const resolution = JSON.parse(interaction.dispute_resolution) as DisputeResolution;
+    return resolution.provider_share ?? 1;
+  }
+
+  /**
+   * Check that the initiator's escrow deposit covers the accepted offer.
+   * The deposit must come from the initiator's registered payment_address,
+   * pay the offer's payment_address at least the price plus protocol fee,
+   * and stay locked until the result can be verified.
+   */
+  private async verifyEscrowDeposit(
+    interaction: InteractionRow,
+    payload: AcceptPayload,
+  ): Promise<void> {
+    if (!this.escrow) {
+      throw new NegotiationError("X811-4006", "Escrow settlement is not supported by this server");
+    }
+    if (!payload.escrow_tx_hash) {
+      throw new NegotiationError("X811-5001", "Missing escrow_tx_hash in accept payload");
+    }
+
+    const offerPayload = JSON.parse(interaction.offer_payload!) as OfferPayload;
+    const escrowId = computeEscrowId(interaction.id);
+    const deposit = await this.escrow.getDeposit(escrowId);
+
+    if (deposit.status !== "funded") {
+      throw new NegotiationError("X811-5003", "Escrow is not funded", {
+        escrow_id: escrowId,
+        escrow_tx_hash: payload.escrow_tx_hash,
+        escrow_status: deposit.status,
+      });
+    }
+
+    // Anyone can fund an escrow id; only the initiator's own deposit counts
+    const payerAddress = this.db.getAgentByDid(interaction.initiator_did)?.payment_address;
+    if (!payerAddress || deposit.payer.toLowerCase() !== payerAddress.toLowerCase()) {
+      throw new NegotiationError("X811-5003", "Escrow payer does not match the initiator's payment_address", {
+        expected: payerAddress ?? null,
+        actual: deposit.payer,
+      });
+    }
+
+    if (deposit.payee.toLowerCase() !== offerPayload.payment_address!.toLowerCase()) {
+      throw new NegotiationError("X811-5003", "Escrow payee does not match offer payment_address", {
+        expected: offerPayload.payment_address,
+        actual: deposit.payee,
+      });
+    }
+
+    const price = parseFloat(offerPayload.price);
+    const fee = parseFloat(offerPayload.protocol_fee);
+    if (
+      parseFloat(deposit.amount) + 0.000001 < price ||
+      parseFloat(deposit.fee) + 0.000001 < fee
+    ) {
+      throw new NegotiationError("X811-5002", "Escrow deposit does not cover the offer", {
+        expected_amount: price,
+        expected_fee: fee,
+        actual_amount: deposit.amount,
+        actual_fee: deposit.fee,
+      });
+    }
+
+    const minDeadline =
+      Math.floor(Date.now() / 1000) +
+      this.stateTtlFor(interaction, "accepted") +
+      this.stateTtlFor(interaction, "delivered");
+    if (deposit.deadline < minDeadline) {
+      throw new NegotiationError("X811-5003", "Escrow deadline is too short", {
+        min_deadline: minDeadline,
+        deadline: deposit.deadline,
+      });
+    }
+  }
+
+  /**
+   * Release a verified interaction's escrow to the provider and complete
+   * it. If the release transaction fails, the interaction stays
+   * "delivered" so the initiator can verify again.
+   */
+  private async releaseEscrow(
+    interaction: InteractionRow,
+  ): Promise<{ interaction_id: string; status: string }> {
+    let txHash: string;
+    try {
+      txHash = await this.escrow!.release(computeEscrowId(interaction.id));
+    } catch (error) {
+      throw new NegotiationError("X811-5001", "Escrow release failed", {
+        interaction_id: interaction.id,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    const offerPayload = JSON.parse(interaction.offer_payload!) as OfferPayload;
+    this.db.updateInteraction(interaction.id, {
+      status: "completed",
+      outcome: "success",
+      payment_tx: txHash,
+      payment_amount: parseFloat(offerPayload.total_cost),
+      escrow_status: "released",
+    });
+
+    this.trust.recordSuccess(interaction.initiator_did);
+    this.trust.recordSuccess(interaction.provider_did);
+
+    await this.batching.addInteraction(interaction.interaction_hash);
+
+    return { interaction_id: interaction.id, status: "completed" };
+  }
+
+  /**
+   * Refund an interaction's escrow to the initiator.
+   * @returns Refund transaction hash
+   */
+  private async refundEscrow(interaction: InteractionRow): Promise<string> {
+    const txHash = await this.escrow!.refund(computeEscrowId(interaction.id));
+    this.db.updateInteraction(interaction.id, { escrow_status: "refunded" });
+    return txHash;
+  }
+
+  /**
+   * Build the on-chain transfer a payment must contain. The provider is
+   * paid the offer price directly; the protocol fee is a separate transfer
+   * to the treasury and is not part of tx_hash.
+   */
+  private buildExpectedPayment(
+    interaction: InteractionRow,
+    payload: PaymentPayload,
+  ): ExpectedPayment {
+    if (!payload.payer_address) {
+      throw new NegotiationError("X811-5001", "Missing payer_address in payment payload");
+    }
+
+    const offerPayload = interaction.offer_payload
+      ? (JSON.parse(interaction.offer_payload) as OfferPayload)
+      : undefined;
+
+    const payee =
+      offerPayload?.payment_address ??
+      this.db.getAgentByDid(interaction.provider_did)?.payment_address;
+    if (!payee) {
+      throw new NegotiationError("X811-5003", "Provider has no payment address on record", {
+        provider_did: interaction.provider_did,
+      });
+    }
+
+    const amount = offerPayload
+      ? parseFloat(offerPayload.price) * this.providerShare(interaction)
+      : Number(payload.amount);
+
+    return {
+      txHash: payload.tx_hash,
+      payer: payload.payer_address,
+      payee,
+      amount: amount.toFixed(6),
+    };
+  }
+
+  /**
+   * Check that a request may join an RFQ group: the ID is well-formed, the
+   * group belongs to the same initiator, and no offer in it has been
+   * accepted yet.
+   */
+  private validateRfqRequest(rfqId: unknown, initiatorDid: string): void {
+    if (typeof rfqId !== "string" || rfqId.length === 0 || rfqId.length > MAX_RFQ_ID_LENGTH) {
+      throw new NegotiationError(
+        "X811-4006",
+        `rfq_id must be a non-empty string of at most ${MAX_RFQ_ID_LENGTH} characters`,
+      );
+    }
+
+    const members = this.db.getInteractionsByRfqId(rfqId);
+    if (members.some((m) => m.initiator_did !== initiatorDid)) {
+      throw new NegotiationError("X811-2004", "RFQ belongs to another initiator", {
+        rfq_id: rfqId,
+      });
+    }
+    const awarded = members.find((m) => !UNAWARDED_RFQ_STATUSES.includes(m.status));
+    if (awarded) {
+      throw new NegotiationError("X811-4006", "RFQ has already been awarded", {
+        rfq_id: rfqId,
+        interaction_id: awarded.id,
+      });
+    }
+  }
+
+  /**
+   * Close out the rest of an RFQ group once one of its offers is accepted:
+   * outstanding offers are rejected and requests without an offer expire.
+   */
+  private closeOutRfq(rfqId: string, acceptedId: string): void {
+    for (const member of this.db.getInteractionsByRfqId(rfqId)) {
+      if (member.id === acceptedId || !OPEN_RFQ_STATUSES.includes(member.status)) continue;
+      this.db.updateInteraction(
+        member.id,
+        member.status !== "pending"
+          ? { status: "rejected", outcome: "rejected" }
+          : { status: "expired", outcome: "rfq_closed" },
+      );
+    }
+  }
+
+  /**
+   * TTL in seconds for an interaction entering `status`, clamped to the
+   * server's bounds:
+   * - pending: the server's request window
+   * - offered/countered: the offer's expiry
+   * - accepted: the request's deadline, or the offer's estimated_time if
+   *   the initiator accepted a longer one
+   * - delivered: the server's verify window
+   * - verified: VERIFY_TO_PAY
+   */
+  private stateTtl(status: string, request: RequestPayload, offer?: OfferPayload): number {
+    let ttl: number | undefined;
+    switch (status) {
+      case "pending":
+        ttl = this.ttlConfig.requestTtl;
+        break;
+      case "offered":
+      case "countered":
+        ttl = offer?.expiry;
+        break;
+      case "accepted":
+        ttl = Math.max(request.deadline || 0, offer?.estimated_time || 0) || undefined;
+        break;
+      case "delivered":
+        ttl = this.ttlConfig.verifyTtl;
+        break;
+    }
+    if (typeof ttl !== "number" || !Number.isFinite(ttl) || ttl <= 0) {
+      ttl = NEGOTIATION_TTLS[STATE_TTL_KEYS[status]];
+    }
+    return Math.min(this.ttlConfig.maxTtl, Math.max(this.ttlConfig.minTtl, ttl));
+  }
+
+  /** stateTtl() for a stored interaction. */
+  private stateTtlFor(interaction: InteractionRow, status: string): number {
+    const request = JSON.parse(interaction.request_payload!) as RequestPayload;
+    const offer = interaction.offer_payload
+      ? (JSON.parse(interaction.offer_payload) as OfferPayload)
+      : undefined;
+    return this.stateTtl(status, request, offer);
+  }
+
+  /** ISO 8601 time `seconds` from now. */
+  private deadlineIn(seconds: number): string {
+    return new Date(Date.now() + seconds * 1000).toISOString();
+  }
+
+  /**
+   * Check a trust attestation presented in an offer: it must be about the
+   * provider, and if this server issued it, its signature must verify and
+   * it must not have expired.
+   */
+  private validateTrustAttestation(attestation: TrustAttestation, providerDid: string): void {
+    if (attestation?.credentialSubject?.id !== providerDid) {
+      throw new NegotiationError("X811-4006", "Trust attestation does not describe the provider", {
+        provider: providerDid,
+        subject: attestation?.credentialSubject?.id,
+      });
+    }
+    if (this.attestations && attestation.issuer === this.attestations.issuerDid &&
+      !this.attestations.verify(attestation)) {
+      throw new NegotiationError("X811-2001", "Trust attestation is invalid or expired", {
+        attestation_id: attestation.id,
+      });
+    }
+  }
+
+  /**
+   * Validate the protocol fee (2.5%) and total cost of proposed terms, and
+   * that the total stays within the request's budget.
+   */
+  private validatePricing(
+    terms: { price: string; protocol_fee: string; total_cost: string },
+    maxBudget: number,
+  ): void {
+    const price = parseFloat(terms.price);
+    const expectedFee = Math.round(price * PROTOCOL_FEE_RATE * 1_000_000) / 1_000_000;
+    const actualFee = parseFloat(terms.protocol_fee);
+    if (Math.abs(actualFee - expectedFee) > 0.000001) {
+      throw new NegotiationError("X811-4006", "Invalid protocol fee calculation", {
+        expected_fee: expectedFee,
+        actual_fee: actualFee,
+        rate: PROTOCOL_FEE_RATE,
+      });
+    }
+
+    const expectedTotal = Math.round((price + expectedFee) * 1_000_000) / 1_000_000;
+    const actualTotal = parseFloat(terms.total_cost);
+    if (Math.abs(actualTotal - expectedTotal) > 0.000001) {
+      throw new NegotiationError("X811-4006", "Invalid total cost calculation", {
+        expected_total: expectedTotal,
+        actual_total: actualTotal,
+      });
+    }
+
+    if (actualTotal > maxBudget) {
+      throw new NegotiationError("X811-4003", "Offer total exceeds request budget", {
+        max_budget: maxBudget,
+        total_cost: actualTotal,
+      });
+    }
+  }
+
+  /**
+   * An interaction's offer history. Interactions offered before history
+   * was recorded start from their current offer as round 0.
+   */
+  private getOfferHistory(interaction: InteractionRow): OfferRound[] {
+    if (interaction.offer_history) {
+      return JSON.parse(interaction.offer_history) as OfferRound[];
+    }
+    if (!interaction.offer_payload) return [];
+    const offer = JSON.parse(interaction.offer_payload) as OfferPayload;
+    return [{ ...this.offerRound(0, "provider", offer), created_at: interaction.updated_at }];
+  }
+
+  private offerRound(
+    round: number,
+    from: OfferRound["from"],
+    terms: {
+      price: string;
+      protocol_fee: string;
+      total_cost: string;
+      estimated_time?: number;
+      message?: string;
+    },
+  ): OfferRound {
+    return {
+      round,
+      from,
+      price: terms.price,
+      protocol_fee: terms.protocol_fee,
+      total_cost: terms.total_cost,
+      estimated_time: terms.estimated_time ?? 0,
+      ...(terms.message !== undefined ? { message: terms.message } : {}),
+      created_at: new Date().toISOString(),
+    };
+  }
+
   /**
    * Validate that a state transition is allowed.
    */
@@ -732,11 +2047,14 @@ export function isNegotiationMessage(type: string): boolean {
   return [
     "x811/request",
     "x811/offer",
+    "x811/counter",
     "x811/accept",
     "x811/reject",
+    "x811/cancel",
     "x811/result",
     "x811/verify",
     "x811/payment",
     "x811/payment-failed",
+    "x811/dispute-response",
   ].includes(type);
 }
@@ -0,0 +1,79 @@
+/**
+ * x811 Protocol — Outbound request targets.
+ *
+ * Webhook endpoints and peer server URLs are chosen by others, so before
+ * the server sends anything to one it resolves the host and checks that
+ * every address is public — not loopback, private, link-local or
+ * otherwise reserved. The caller then connects to the address that was
+ * checked, so a second DNS answer cannot point the request elsewhere.
+ */
+
+import { lookup as dnsLookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+
+/** Resolves a hostname to its addresses. */
+export type HostLookup = (hostname: string) => Promise<string[]>;
+
+/** Address ranges the server may not send to: loopback, private, link-local, reserved. */
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8],
+  ["169.254.0.0", 16], ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.0.2.0", 24],
+  ["192.168.0.0", 16], ["198.18.0.0", 15], ["198.51.100.0", 24], ["203.0.113.0", 24],
+  ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128], ["::1", 128], ["64:ff9b::", 96], ["100::", 64], ["2001:db8::", 32],
+  ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Resolve a URL's host and check that it only resolves to public addresses.
+ * @param lookup - Resolver to use; defaults to the system resolver.
+ * @returns The address to connect to.
+ * @throws Error saying why the target is refused.
+ */
+export async function resolvePublicAddress(url: string, lookup: HostLookup = lookupAll): Promise<string> {
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, "");
+  let addresses: string[];
+  try {
+    addresses = isIP(hostname) ? [hostname] : await lookup(hostname);
+  } catch (err) {
+    throw new Error(`Could not resolve ${hostname}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (addresses.length === 0) {
+    throw new Error(`Could not resolve ${hostname}`);
+  }
+
+  const blocked = addresses.find(isBlockedAddress);
+  if (blocked) {
+    throw new Error(`Endpoint resolves to a non-public address (${blocked})`);
+  }
+  return addresses[0];
+}
+
+/** https, or also http when insecure targets are allowed. */
+export function isAllowedUrl(url: string | null | undefined, allowInsecure = false): url is string {
+  if (!url) return false;
+  try {
+    const { protocol } = new URL(url);
+    return protocol === "https:" || (protocol === "http:" && allowInsecure);
+  } catch {
+    return false;
+  }
+}
+
+async function lookupAll(hostname: string): Promise<string[]> {
+  return (await dnsLookup(hostname, { all: true })).map((entry) => entry.address);
+}
+
+/** BlockList also matches IPv4-mapped IPv6 addresses against the IPv4 ranges. */
+function isBlockedAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return true;
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
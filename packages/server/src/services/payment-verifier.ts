@@ -0,0 +1,287 @@
+/**
+ * x811 Protocol — Payment Verifier Service.
+ *
+ * Confirms that an x811/payment tx_hash really settled the agreed price
+ * on-chain before the server marks an interaction as completed. The
+ * transaction receipt is fetched from Base L2 and its ERC-20 Transfer
+ * logs for the configured USDC contract are checked against the
+ * expected payer, payee and amount.
+ *
+ * A payment that is mined but has fewer than the required number of
+ * confirmations is reported as "pending" so the caller can re-check it
+ * later.
+ *
+ * Also exports MockPaymentVerifierService (an in-memory mock chain) for
+ * local development / testing.
+ */
+
+import { ethers } from "ethers";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** USDC uses 6 decimals on every supported network. */
+const USDC_DECIMALS = 6;
+
+const ERC20_TRANSFER_ABI = [
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+];
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** The payment an interaction expects to find on-chain. */
+export interface ExpectedPayment {
+  /** Transaction hash reported in the x811/payment message. */
+  txHash: string;
+  /** Initiator's on-chain address (PaymentPayload.payer_address). */
+  payer: string;
+  /** Provider's on-chain address (OfferPayload.payment_address). */
+  payee: string;
+  /** Minimum USDC amount the payee must receive (decimal string). */
+  amount: string;
+}
+
+export type PaymentVerificationStatus = "confirmed" | "pending" | "invalid";
+
+export interface PaymentVerificationResult {
+  status: PaymentVerificationStatus;
+  /** Confirmations of the transaction at the time of the check. */
+  confirmations: number;
+  /** Human-readable explanation for "pending" and "invalid" results. */
+  reason?: string;
+}
+
+/** A decoded ERC-20 Transfer event. */
+interface TransferLog {
+  token: string;
+  from: string;
+  to: string;
+  value: bigint;
+}
+
+// ---------------------------------------------------------------------------
+// Interface
+// ---------------------------------------------------------------------------
+
+export interface IPaymentVerifier {
+  verifyPayment(expected: ExpectedPayment): Promise<PaymentVerificationResult>;
+}
+
+// ---------------------------------------------------------------------------
+// Shared matching logic
+// ---------------------------------------------------------------------------
+
+/**
+ * Check the decoded Transfer logs of a mined transaction against the
+ * expected payment. Returns a reason string on mismatch, or null if a
+ * matching USDC transfer was found.
+ */
+function matchTransfer(
+  transfers: TransferLog[],
+  usdcAddress: string,
+  expected: ExpectedPayment,
+): string | null {
+  let expectedValue: bigint;
+  try {
+    expectedValue = ethers.parseUnits(expected.amount, USDC_DECIMALS);
+  } catch {
+    return `Invalid expected amount: ${expected.amount}`;
+  }
+
+  const usdcTransfers = transfers.filter(
+    (t) => t.token.toLowerCase() === usdcAddress.toLowerCase(),
+  );
+  if (usdcTransfers.length === 0) {
+    return "Transaction contains no USDC transfer";
+  }
+
+  const toPayee = usdcTransfers.filter(
+    (t) => t.to.toLowerCase() === expected.payee.toLowerCase(),
+  );
+  if (toPayee.length === 0) {
+    return "USDC was not transferred to the provider's payment address";
+  }
+
+  const fromPayer = toPayee.filter(
+    (t) => t.from.toLowerCase() === expected.payer.toLowerCase(),
+  );
+  if (fromPayer.length === 0) {
+    return "USDC transfer was not sent from the payer address";
+  }
+
+  const received = fromPayer.reduce((sum, t) => sum + t.value, 0n);
+  if (received < expectedValue) {
+    return `USDC transfer amount ${ethers.formatUnits(received, USDC_DECIMALS)} is below the expected ${expected.amount}`;
+  }
+
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Production verifier
+// ---------------------------------------------------------------------------
+
+export class PaymentVerifierService implements IPaymentVerifier {
+  private provider: ethers.JsonRpcProvider;
+  private erc20: ethers.Interface;
+
+  constructor(
+    rpcUrl: string,
+    private usdcAddress: string,
+    private requiredConfirmations: number,
+  ) {
+    this.provider = new ethers.JsonRpcProvider(rpcUrl);
+    this.erc20 = new ethers.Interface(ERC20_TRANSFER_ABI);
+  }
+
+  /**
+   * Look up the transaction receipt and check its USDC Transfer logs.
+   * @param expected - Payer, payee and amount the transaction must cover
+   * @returns "confirmed", "pending" (not mined / not enough confirmations)
+   *          or "invalid" (reverted or no matching transfer)
+   */
+  async verifyPayment(
+    expected: ExpectedPayment,
+  ): Promise<PaymentVerificationResult> {
+    const receipt = await this.provider.getTransactionReceipt(expected.txHash);
+    if (!receipt) {
+      return {
+        status: "pending",
+        confirmations: 0,
+        reason: "Transaction not found or not yet mined",
+      };
+    }
+
+    if (receipt.status !== 1) {
+      return { status: "invalid", confirmations: 0, reason: "Transaction reverted" };
+    }
+
+    const transfers: TransferLog[] = [];
+    for (const log of receipt.logs) {
+      const parsed = this.erc20.parseLog({
+        topics: [...log.topics],
+        data: log.data,
+      });
+      if (parsed?.name !== "Transfer") continue;
+      transfers.push({
+        token: log.address,
+        from: parsed.args[0] as string,
+        to: parsed.args[1] as string,
+        value: parsed.args[2] as bigint,
+      });
+    }
+
+    const confirmations = await receipt.confirmations();
+
+    const mismatch = matchTransfer(transfers, this.usdcAddress, expected);
+    if (mismatch) {
+      return { status: "invalid", confirmations, reason: mismatch };
+    }
+
+    if (confirmations < this.requiredConfirmations) {
+      return {
+        status: "pending",
+        confirmations,
+        reason: `Waiting for ${this.requiredConfirmations} confirmations`,
+      };
+    }
+
+    return { status: "confirmed", confirmations };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Mock verifier (in-memory chain) for local development / testing
+// ---------------------------------------------------------------------------
+
+interface MockTransaction {
+  blockNumber: number;
+  reverted: boolean;
+  transfers: TransferLog[];
+}
+
+export class MockPaymentVerifierService implements IPaymentVerifier {
+  private transactions = new Map<string, MockTransaction>();
+  private blockNumber = 0;
+
+  /**
+   * @param usdcAddress - Token address treated as USDC
+   * @param requiredConfirmations - Confirmations needed before "confirmed"
+   * @param autoConfirm - Treat unknown tx hashes as valid, confirmed
+   *        payments. Opt-in, for local development without a chain.
+   */
+  constructor(
+    private usdcAddress: string,
+    private requiredConfirmations = 1,
+    private autoConfirm = false,
+  ) {}
+
+  /**
+   * Record a USDC transfer transaction in the next block.
+   * @param amount - Decimal USDC amount (e.g. "0.03")
+   */
+  submitTransfer(
+    txHash: string,
+    transfer: { from: string; to: string; amount: string; token?: string },
+    options: { reverted?: boolean } = {},
+  ): void {
+    this.blockNumber++;
+    this.transactions.set(txHash.toLowerCase(), {
+      blockNumber: this.blockNumber,
+      reverted: options.reverted ?? false,
+      transfers: [
+        {
+          token: transfer.token ?? this.usdcAddress,
+          from: transfer.from,
+          to: transfer.to,
+          value: ethers.parseUnits(transfer.amount, USDC_DECIMALS),
+        },
+      ],
+    });
+  }
+
+  /** Advance the mock chain by `count` blocks. */
+  mineBlocks(count = 1): void {
+    this.blockNumber += count;
+  }
+
+  async verifyPayment(
+    expected: ExpectedPayment,
+  ): Promise<PaymentVerificationResult> {
+    const tx = this.transactions.get(expected.txHash.toLowerCase());
+    if (!tx) {
+      if (this.autoConfirm) {
+        return { status: "confirmed", confirmations: this.requiredConfirmations };
+      }
+      return {
+        status: "pending",
+        confirmations: 0,
+        reason: "Transaction not found or not yet mined",
+      };
+    }
+
+    if (tx.reverted) {
+      return { status: "invalid", confirmations: 0, reason: "Transaction reverted" };
+    }
+
+    const confirmations = this.blockNumber - tx.blockNumber + 1;
+
+    const mismatch = matchTransfer(tx.transfers, this.usdcAddress, expected);
+    if (mismatch) {
+      return { status: "invalid", confirmations, reason: mismatch };
+    }
+
+    if (confirmations < this.requiredConfirmations) {
+      return {
+        status: "pending",
+        confirmations,
+        reason: `Waiting for ${this.requiredConfirmations} confirmations`,
+      };
+    }
+
+    return { status: "confirmed", confirmations };
+  }
+}
@@ -3,11 +3,30 @@
  *
  * Handles agent registration, discovery, agent cards, DID documents,
  * heartbeat / availability tracking, and agent lifecycle management.
+ *
+ * Every DID document an agent has used is kept as a numbered version, so
+ * a key rotation replaces the agent's keys without changing its DID or
+ * losing its trust history.
  */
 
 import { randomUUID } from "node:crypto";
-import type { Database, AgentRow, AgentFilters, CapabilityRow } from "../db/schema.js";
+import {
+  extractPublicKey,
+  isValidTransition,
+  verifyKeyRotationProof,
+  type DIDDocument,
+  type DIDStatus,
+} from "@x811/core";
+import type {
+  Database,
+  AgentRow,
+  AgentFilters,
+  CapabilityRow,
+  DidDocumentRow,
+} from "../db/schema.js";
 import type { TrustService } from "./trust.js";
+import type { SSEManager } from "./sse-manager.js";
+import { CapabilityService, type CapabilityInput } from "./capabilities.js";
 import { config } from "../config.js";
 
 // ---------------------------------------------------------------------------
@@ -22,10 +41,7 @@ export interface RegisterAgentInput {
       description?: string;
       endpoint?: string;
       payment_address?: string;
-      capabilities?: Array<{
-        name: string;
-        metadata?: Record<string, unknown>;
-      }>;
+      capabilities?: CapabilityInput[];
       agent_card?: Record<string, unknown>;
     };
   };
@@ -38,10 +54,7 @@ export interface UpdateAgentInput {
   description?: string;
   endpoint?: string;
   payment_address?: string;
-  capabilities?: Array<{
-    name: string;
-    metadata?: Record<string, unknown>;
-  }>;
+  capabilities?: CapabilityInput[];
   agent_card?: Record<string, unknown>;
 }
 
@@ -51,6 +64,28 @@ export interface HeartbeatInput {
   ttl?: number;
 }
 
+export interface RotateKeysInput {
+  didDocument: Record<string, unknown>;
+  /** New Ed25519 public key, base64url. */
+  publicKey: string;
+  /** New key's signature over `nonce`, base64url. */
+  proof: string;
+  /** Nonce of the rotation envelope. */
+  nonce: string;
+}
+
+export interface RevocationResult {
+  id: string;
+  did: string;
+  status: "revoked";
+  failed_interactions: number;
+  purged_messages: number;
+}
+
+/** Orders discovery results can be sorted in. */
+export const DISCOVERY_SORTS = ["price", "trust", "latency"] as const;
+export type DiscoverySort = (typeof DISCOVERY_SORTS)[number];
+
 export interface AgentDiscoveryResult {
   id: string;
   did: string;
@@ -58,9 +93,15 @@ export interface AgentDiscoveryResult {
   trust_score: number;
   capabilities: string[];
   pricing_hint?: Record<string, unknown>;
+  /** Lowest price (USDC) among the capabilities the query matched. */
+  min_price: number | null;
+  /** Median accept-to-result time of recent deliveries, in ms. */
+  median_completion_ms: number | null;
   status: string;
   availability: string;
   last_seen_at: string | null;
+  /** Relevance to the `q` search, scaled by trust; present only when searching. */
+  search_score?: number;
 }
 
 // ---------------------------------------------------------------------------
@@ -74,6 +115,8 @@ export class RegistryService {
   constructor(
     private db: Database,
     private trust: TrustService,
+    private sseManager?: SSEManager,
+    private capabilities: CapabilityService = new CapabilityService(db),
   ) {}
 
   /**
@@ -95,6 +138,8 @@ export class RegistryService {
       });
     }
 
+    this.capabilities.validateInputs(payload.capabilities ?? []);
+
     // Extract agent ID from DID (last segment)
     const idFromDid = did.split(":").pop() ?? randomUUID();
 
@@ -120,15 +165,11 @@ export class RegistryService {
       agent_card: JSON.stringify(agentCard),
     });
 
+    this.db.insertDidDocumentVersion(agent.id, 1, agent.did_document);
+
     // Insert capabilities
     if (payload.capabilities && payload.capabilities.length > 0) {
-      for (const cap of payload.capabilities) {
-        this.db.insertCapability({
-          agent_id: idFromDid,
-          name: cap.name,
-          metadata: cap.metadata ? JSON.stringify(cap.metadata) : null,
-        });
-      }
+      this.capabilities.setCapabilities(idFromDid, payload.capabilities);
     }
 
     return agent;
@@ -169,8 +210,10 @@ export class RegistryService {
     const limit = Math.min(filters.limit ?? 20, 100);
     const offset = filters.offset ?? 0;
 
+    const capabilityPath = filters.capability ? this.capabilities.resolvePath(filters.capability) : undefined;
     const result = this.db.listAgents({
       ...filters,
+      capability_path: capabilityPath,
       limit,
       offset,
     });
@@ -179,12 +222,25 @@ export class RegistryService {
       const capabilities = this.db.getCapabilitiesForAgent(agent.id);
       const capNames = capabilities.map((c) => c.name);
 
-      // Extract pricing hint from first capability metadata
+      // Pricing hint from the cheapest capability the query matched
+      // (older registrations kept pricing in metadata)
+      const matching = capabilities.filter((c) =>
+        !filters.capability ||
+        c.name === filters.capability ||
+        c.path === capabilityPath ||
+        c.path?.startsWith(`${capabilityPath}/`),
+      );
+      const priced = matching.find((c) => c.price_min !== null && c.price_min === agent.min_price);
+      const hintSource = priced ?? matching[0] ?? capabilities[0];
       let pricingHint: Record<string, unknown> | undefined;
-      if (capabilities.length > 0 && capabilities[0].metadata) {
+      if (hintSource) {
         try {
-          const meta = JSON.parse(capabilities[0].metadata);
-          if (meta.pricing) pricingHint = meta.pricing;
+          if (hintSource.pricing) {
+            pricingHint = JSON.parse(hintSource.pricing);
+          } else if (hintSource.metadata) {
+            const meta = JSON.parse(hintSource.metadata);
+            if (meta.pricing) pricingHint = meta.pricing;
+          }
         } catch {
           // ignore parse errors
         }
@@ -197,9 +253,14 @@ export class RegistryService {
         trust_score: agent.trust_score,
         capabilities: capNames,
         pricing_hint: pricingHint,
+        min_price: agent.min_price,
+        median_completion_ms: agent.median_completion_ms,
         status: agent.status,
         availability: agent.availability,
         last_seen_at: agent.last_seen_at,
+        ...(agent.search_score !== undefined
+          ? { search_score: Math.round(agent.search_score * 10_000) / 10_000 }
+          : {}),
       };
     });
 
@@ -211,6 +272,7 @@ export class RegistryService {
    */
   updateAgent(id: string, updates: UpdateAgentInput): AgentRow {
     const agent = this.getAgent(id);
+    if (updates.capabilities) this.capabilities.validateInputs(updates.capabilities);
 
     // Update basic fields
     const dbUpdates: Record<string, unknown> = {};
@@ -239,23 +301,9 @@ export class RegistryService {
 
     this.db.updateAgent(id, dbUpdates as Parameters<Database["updateAgent"]>[1]);
 
-    // Update capabilities if provided
+    // Replace capabilities if provided
     if (updates.capabilities) {
-      // Remove existing capabilities
-      const existing = this.db.getCapabilitiesForAgent(id);
-      for (const cap of existing) {
-        this.db.raw
-          .prepare("DELETE FROM capabilities WHERE id = ?")
-          .run(cap.id);
-      }
-      // Insert new capabilities
-      for (const cap of updates.capabilities) {
-        this.db.insertCapability({
-          agent_id: id,
-          name: cap.name,
-          metadata: cap.metadata ? JSON.stringify(cap.metadata) : null,
-        });
-      }
+      this.capabilities.setCapabilities(id, updates.capabilities);
     }
 
     return this.getAgent(id);
@@ -272,12 +320,54 @@ export class RegistryService {
     });
   }
 
+  /**
+   * Permanently revoke an agent's DID, either by the agent itself or by an
+   * admin for a compromised key. Every interaction involving the DID that
+   * has not been delivered yet fails, messages queued for it are dropped
+   * and its SSE streams are closed. Funded escrows on failed interactions
+   * are refunded by the escrow sweep; delivered, disputed and payment-pending
+   * interactions settle as usual.
+   */
+  revokeAgent(id: string): RevocationResult {
+    const agent = this.getAgent(id);
+
+    if (!isValidTransition(agent.status as DIDStatus, "revoked")) {
+      throw new RegistryError(
+        agent.status === "revoked" ? "X811-1002" : "X811-1003",
+        `Cannot revoke a DID with status ${agent.status}`,
+        { did: agent.did, status: agent.status },
+      );
+    }
+
+    const result = this.db.raw.transaction(() => {
+      this.db.updateAgent(id, { status: "revoked", availability: "offline" });
+      return {
+        id,
+        did: agent.did,
+        status: "revoked" as const,
+        failed_interactions: this.db.failOpenInteractionsForDid(agent.did, "did_revoked"),
+        purged_messages: this.db.deleteQueuedMessagesForDid(agent.did),
+      };
+    })();
+
+    this.sseManager?.evictAgent(id);
+    return result;
+  }
+
   /**
    * Get the agent card (A2A compatible with x811 extensions).
    */
   getAgentCard(id: string): Record<string, unknown> {
     const agent = this.getAgent(id);
-    return JSON.parse(agent.agent_card);
+    const card = JSON.parse(agent.agent_card);
+    // Trust figures change with every interaction; the stored card does not
+    card.x811 = {
+      ...card.x811,
+      trust_score: agent.trust_score,
+      interaction_count: agent.interaction_count,
+      reputation: this.trust.getReputationSummary(agent.did),
+    };
+    return card;
   }
 
   /**
@@ -285,9 +375,84 @@ export class RegistryService {
    */
   getDIDDocument(id: string): Record<string, unknown> {
     const agent = this.getAgent(id);
+    if (agent.status === "revoked") {
+      throw new RegistryError("X811-1002", "DID has been revoked", { did: agent.did });
+    }
     return JSON.parse(agent.did_document);
   }
 
+  /**
+   * Replace an agent's keys with a new DID document. The caller has already
+   * authenticated the request with the current key; the new key proves
+   * possession by signing the request nonce. The DID, trust score and
+   * interaction counts are unchanged.
+   * @returns The new DID document version
+   */
+  rotateKeys(id: string, input: RotateKeysInput): DidDocumentRow {
+    const agent = this.getAgent(id);
+    const didDocument = input.didDocument as unknown as DIDDocument;
+
+    if (didDocument.id !== agent.did) {
+      throw new RegistryError("X811-1004", "DID document does not belong to this agent", {
+        expected: agent.did,
+        actual: didDocument.id,
+      });
+    }
+
+    let newKey: Uint8Array;
+    try {
+      newKey = extractPublicKey(didDocument);
+    } catch {
+      throw new RegistryError("X811-1004", "DID document has no valid Ed25519 verification method");
+    }
+    const publicKey = Buffer.from(input.publicKey, "base64url");
+    if (!Buffer.from(newKey).equals(publicKey)) {
+      throw new RegistryError("X811-1004", "public_key does not match the DID document");
+    }
+
+    const currentKey = extractPublicKey(JSON.parse(agent.did_document) as DIDDocument);
+    if (Buffer.from(currentKey).equals(publicKey)) {
+      throw new RegistryError("X811-1004", "New key must differ from the current key");
+    }
+
+    if (!verifyKeyRotationProof(input.nonce, input.proof, newKey)) {
+      throw new RegistryError("X811-2001", "Invalid proof of possession for the new key");
+    }
+
+    return this.db.raw.transaction(() => {
+      const versions = this.db.getDidDocumentVersions(id);
+      // Agents registered before versioning start their history here
+      const current = versions.at(-1) ?? this.db.insertDidDocumentVersion(id, 1, agent.did_document);
+
+      this.db.supersedeDidDocumentVersion(id, current.version);
+      const next = this.db.insertDidDocumentVersion(
+        id,
+        current.version + 1,
+        JSON.stringify(didDocument),
+      );
+      this.db.updateAgent(id, { did_document: next.did_document });
+      return next;
+    })();
+  }
+
+  /**
+   * Get every DID document version of an agent, oldest first.
+   */
+  getDIDDocumentHistory(id: string): DidDocumentRow[] {
+    const agent = this.getAgent(id);
+    const versions = this.db.getDidDocumentVersions(id);
+    if (versions.length > 0) return versions;
+
+    // Registered before versioning and never rotated
+    return [{
+      agent_id: id,
+      version: 1,
+      did_document: agent.did_document,
+      created_at: agent.created_at,
+      superseded_at: null,
+    }];
+  }
+
   /**
    * Get the current status and availability of an agent.
    */
@@ -351,10 +516,7 @@ export class RegistryService {
       description?: string;
       endpoint?: string;
       payment_address?: string;
-      capabilities?: Array<{
-        name: string;
-        metadata?: Record<string, unknown>;
-      }>;
+      capabilities?: CapabilityInput[];
       agent_card?: Record<string, unknown>;
     },
     _didDocument: Record<string, unknown>,
@@ -363,6 +525,11 @@ export class RegistryService {
       id: randomUUID(),
       name: cap.name,
       ...(cap.metadata ?? {}),
+      version: cap.version ?? "1.0.0",
+      ...(cap.description !== undefined ? { description: cap.description } : {}),
+      ...(cap.input_schema !== undefined ? { input_schema: cap.input_schema } : {}),
+      ...(cap.output_schema !== undefined ? { output_schema: cap.output_schema } : {}),
+      ...(cap.pricing !== undefined ? { pricing: cap.pricing } : {}),
     }));
 
     // Merge with any user-provided agent card fields
@@ -2,13 +2,32 @@
  * x811 Protocol — Message Router Service.
  *
  * Routes signed envelopes between agents. Messages are stored in the
- * database and delivered via polling. Handles nonce replay protection,
- * timestamp validation, and message expiry.
+ * database and delivered via polling or SSE. Handles nonce replay
+ * protection, timestamp validation, and message expiry.
+ *
+ * Delivery is at-least-once: a polled or pushed message is leased to the
+ * recipient for a visibility timeout and only marked delivered when the
+ * recipient acknowledges it. Unacknowledged messages become deliverable
+ * again when the lease runs out; after too many redeliveries they are
+ * moved to the "dead_letter" status.
+ *
+ * Messages for agents without an open SSE connection are also pushed to
+ * their webhook, when they have one (see WebhookDispatcher).
+ *
+ * Envelopes for agents homed on a federated peer server are stored with
+ * status "forwarding" and relayed by the FederationService.
+ *
+ * End-to-end encrypted envelopes (`encrypted: true`) are stored and
+ * relayed as-is; the router only checks that their confidential fields
+ * really are sealed.
  */
 
 import { randomUUID } from "node:crypto";
+import { ENCRYPTED_FIELDS, type X811MessageType } from "@x811/core";
 import type { Database, MessageRow } from "../db/schema.js";
 import type { SSEManager } from "./sse-manager.js";
+import type { FederationService } from "./federation.js";
+import type { WebhookDispatcher } from "./webhooks.js";
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -23,6 +42,9 @@ const DEFAULT_EXPIRY_MS = 24 * 60 * 60 * 1000;
 /** Nonce TTL in hours. */
 const NONCE_TTL_HOURS = 24;
 
+/** Most message IDs accepted in one acknowledgement. */
+export const MAX_ACK_IDS = 100;
+
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
@@ -36,13 +58,33 @@ export interface Envelope {
   created: string;
   expires?: string;
   payload: unknown;
+  encrypted?: boolean;
   signature: string;
   nonce: string;
 }
 
+export interface DeliveryOptions {
+  /** Seconds a delivered message stays leased before it is redelivered. */
+  visibilityTimeoutSeconds: number;
+  /** Redeliveries of an unacknowledged message before it is dead-lettered. */
+  maxRedeliveries: number;
+}
+
+const DEFAULT_DELIVERY: DeliveryOptions = {
+  visibilityTimeoutSeconds: 60,
+  maxRedeliveries: 5,
+};
+
+export interface AckResult {
+  /** Messages marked delivered. */
+  acknowledged: string[];
+  /** IDs that are not leased or queued for this agent (unknown, already acknowledged or dead-lettered). */
+  unknown: string[];
+}
+
 export interface SendResult {
   message_id: string;
-  status: "delivered" | "queued";
+  status: "delivered" | "queued" | "forwarding";
   recipient_availability: string;
 }
 
@@ -51,7 +93,13 @@ export interface SendResult {
 // ---------------------------------------------------------------------------
 
 export class MessageRouterService {
-  constructor(private db: Database, private sseManager?: SSEManager) {}
+  constructor(
+    private db: Database,
+    private sseManager?: SSEManager,
+    private federation?: FederationService,
+    private delivery: DeliveryOptions = DEFAULT_DELIVERY,
+    private webhooks?: WebhookDispatcher,
+  ) {}
 
   /**
    * Send a signed envelope from one agent to another.
@@ -59,21 +107,23 @@ export class MessageRouterService {
    * Steps:
    * 1. Validate timestamp (±5 minutes)
    * 2. Check and store nonce (replay protection)
-   * 3. Verify recipient exists in registry
+   * 3. Verify recipient exists in registry (or is homed on a peer server)
    * 4. Store message in database
-   * 5. Return delivery status
+   * 5. Return delivery status ("forwarding" for peer-homed recipients)
    *
    * Note: Signature verification is handled by the auth middleware before
    * this service is called. This service handles routing and storage.
    */
   sendMessage(envelope: Envelope): SendResult {
     // Note: Timestamp validation and nonce replay protection are handled by the
-    // auth middleware (verifyEnvelopeAuth) before this method is called.
+    // auth middleware (verifyEnvelopeAuth), or for envelopes relayed by a peer
+    // by FederationService.receiveForward, before this method is called.
     // We skip them here to avoid double-checking / double-inserting nonces.
 
-    // 1. Verify recipient exists
+    // 1. Verify recipient exists, here or on a federated peer
     const recipient = this.db.getAgentByDid(envelope.to);
-    if (!recipient) {
+    const homePeer = recipient ? undefined : this.federation?.findHomePeer(envelope.to);
+    if (!recipient && !homePeer) {
       throw new RouterError(
         "X811-3001",
         "Recipient agent not found",
@@ -81,6 +131,10 @@ export class MessageRouterService {
       );
     }
 
+    if (envelope.encrypted) {
+      this.validateEncryptedPayload(envelope);
+    }
+
     // 2. Compute message expiry
     const expiresAt = envelope.expires
       ? envelope.expires
@@ -96,10 +150,24 @@ export class MessageRouterService {
       envelope: JSON.stringify(envelope),
       created_at: envelope.created,
       expires_at: expiresAt,
+      ...(homePeer ? { status: "forwarding", peer_did: homePeer.did } : {}),
     });
 
-    // 4. Push to SSE connections if any are active
-    this.sseManager?.emit(recipient.id, messageId, envelope);
+    if (!recipient) {
+      return {
+        message_id: messageId,
+        status: "forwarding",
+        recipient_availability: "remote",
+      };
+    }
+
+    // 4. Push to SSE connections if any are active; a pushed message is leased like a polled one.
+    //    Otherwise push it to the recipient's webhook, if any.
+    if (this.sseManager?.emit(recipient.id, messageId, envelope)) {
+      this.db.leaseMessage(messageId, this.leaseExpiry(), false);
+    } else {
+      this.webhooks?.dispatch({ ...envelope, id: messageId }, recipient);
+    }
 
     // 5. Determine delivery status based on recipient availability
     const recipientAvailability = recipient.availability;
@@ -114,8 +182,8 @@ export class MessageRouterService {
   }
 
   /**
-   * Poll messages for a specific agent. Returns queued messages and
-   * marks them as delivered.
+   * Poll messages for a specific agent. Returns deliverable messages and
+   * leases them until the agent acknowledges them.
    */
   pollMessages(agentId: string, did: string): Envelope[] {
     const agent = this.db.getAgent(agentId);
@@ -130,40 +198,99 @@ export class MessageRouterService {
       });
     }
 
-    // Get queued messages for this agent
-    const messages = this.db.getMessagesByRecipient(did, "queued");
+    return this.leaseMessages(did);
+  }
+
+  /**
+   * Lease an agent's deliverable messages: queued ones, and leased ones
+   * whose lease ran out without an acknowledgement. Messages that were
+   * already redelivered maxRedeliveries times are dead-lettered instead.
+   * Used by polling and by the SSE route to replay messages on connect.
+   *
+   * @param deliver - Hands each message over before it is leased; when it
+   *   returns false, that message and the rest are left unleased.
+   */
+  leaseMessages(
+    did: string,
+    deliver?: (messageId: string, envelope: Envelope) => boolean,
+  ): Envelope[] {
+    const leaseExpiresAt = this.leaseExpiry();
     const envelopes: Envelope[] = [];
 
-    for (const msg of messages) {
+    for (const msg of this.db.getDeliverableMessages(did)) {
+      const redelivery = msg.status === "leased";
+      if (redelivery && msg.retry_count >= this.delivery.maxRedeliveries) {
+        this.db.deadLetterMessage(
+          msg.id,
+          `Not acknowledged after ${msg.retry_count + 1} deliveries`,
+        );
+        continue;
+      }
+
+      let envelope: Envelope;
       try {
-        const envelope = JSON.parse(msg.envelope) as Envelope;
-        envelopes.push(envelope);
-        // Mark as delivered
-        this.db.updateMessageStatus(msg.id, "delivered");
+        envelope = JSON.parse(msg.envelope) as Envelope;
       } catch {
         // Skip malformed messages but mark them as failed
         this.db.updateMessageStatus(msg.id, "failed", "Failed to parse envelope");
+        continue;
       }
+
+      if (deliver && !deliver(msg.id, envelope)) break;
+      envelopes.push(envelope);
+      this.db.leaseMessage(msg.id, leaseExpiresAt, redelivery);
     }
 
     return envelopes;
   }
 
   /**
-   * Get queued messages for an agent without marking them as delivered.
-   * Used by SSE route to replay undelivered messages on reconnect.
+   * Push deliverable messages to every agent with an open push connection.
+   * Leases that run out unacknowledged are otherwise only re-issued when
+   * the agent polls or reconnects. Should be called periodically.
+   * @returns Number of messages pushed.
    */
-  getQueuedMessages(did: string): Envelope[] {
-    const messages = this.db.getMessagesByRecipient(did, "queued");
-    return messages
-      .map((msg) => {
-        try {
-          return JSON.parse(msg.envelope) as Envelope;
-        } catch {
-          return null;
-        }
-      })
-      .filter(Boolean) as Envelope[];
+  redeliverToConnected(): number {
+    const sseManager = this.sseManager;
+    if (!sseManager) return 0;
+
+    let pushed = 0;
+    for (const agentId of sseManager.pushAgentIds()) {
+      const agent = this.db.getAgent(agentId);
+      if (!agent) continue;
+      pushed += this.leaseMessages(agent.did, (messageId, envelope) =>
+        sseManager.emit(agentId, messageId, envelope),
+      ).length;
+    }
+    return pushed;
+  }
+
+  /**
+   * Acknowledge messages an agent has processed, so they are not
+   * redelivered.
+   */
+  ackMessages(did: string, messageIds: unknown): AckResult {
+    if (
+      !Array.isArray(messageIds) ||
+      messageIds.length === 0 ||
+      messageIds.length > MAX_ACK_IDS ||
+      !messageIds.every((id) => typeof id === "string")
+    ) {
+      throw new RouterError(
+        "X811-4006",
+        `message_ids must be an array of 1 to ${MAX_ACK_IDS} message IDs`,
+      );
+    }
+
+    const ids = [...new Set(messageIds as string[])];
+    const acknowledged = this.db.raw.transaction(() =>
+      ids.filter((id) => this.db.ackMessage(did, id)),
+    )();
+
+    return {
+      acknowledged,
+      unknown: ids.filter((id) => !acknowledged.includes(id)),
+    };
   }
 
   /**
@@ -211,6 +338,40 @@ export class MessageRouterService {
     }
     this.db.insertNonce(nonce, did, NONCE_TTL_HOURS);
   }
+
+  /** When a lease granted now runs out. */
+  private leaseExpiry(): string {
+    return new Date(Date.now() + this.delivery.visibilityTimeoutSeconds * 1000).toISOString();
+  }
+
+  /**
+   * Check an `encrypted: true` envelope carries a sealed payload and none
+   * of its type's confidential fields in the clear.
+   */
+  private validateEncryptedPayload(envelope: Envelope): void {
+    const payload = envelope.payload as Record<string, unknown> | null;
+    const sealed = payload?.sealed as Record<string, unknown> | undefined;
+    if (
+      !sealed ||
+      typeof sealed.epk !== "string" ||
+      typeof sealed.nonce !== "string" ||
+      typeof sealed.ciphertext !== "string"
+    ) {
+      throw new RouterError("X811-2005", "Encrypted envelope is missing a valid sealed payload", {
+        message_id: envelope.id,
+      });
+    }
+
+    const exposed = (ENCRYPTED_FIELDS[envelope.type as X811MessageType] ?? []).filter(
+      (field) => field in payload!,
+    );
+    if (exposed.length > 0) {
+      throw new RouterError("X811-2005", "Encrypted envelope exposes confidential fields", {
+        message_id: envelope.id,
+        fields: exposed,
+      });
+    }
+  }
 }
 
 // ---------------------------------------------------------------------------
@@ -5,7 +5,7 @@
 import { PassThrough } from "node:stream";
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import type http from "node:http";
-import { SSEManager } from "./sse-manager.js";
+import { SSEManager, type PushSocket } from "./sse-manager.js";
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -16,6 +16,15 @@ function mockResponse(): http.ServerResponse {
   return stream as unknown as http.ServerResponse;
 }
 
+function mockSocket() {
+  return {
+    readyState: 1,
+    send: vi.fn(),
+    ping: vi.fn(),
+    close: vi.fn(),
+  } satisfies PushSocket;
+}
+
 // ---------------------------------------------------------------------------
 // Tests
 // ---------------------------------------------------------------------------
@@ -148,4 +157,27 @@ describe("SSEManager", () => {
     mgr.emit("agent-1", "msg-1", { test: true });
     expect(mgr.getStats().global).toBe(0);
   });
+
+  it("pushes message frames to WebSockets and skips send-only ones", () => {
+    const socket = mockSocket();
+    const sendOnly = mockSocket();
+    mgr.subscribe("agent-1", socket);
+    mgr.subscribe("agent-1", sendOnly, { push: false });
+    expect(mgr.getStats().perAgent["agent-1"]).toBe(2);
+
+    expect(mgr.emit("agent-1", "msg-1", { id: "msg-1" })).toBe(true);
+    expect(socket.send).toHaveBeenCalledWith(JSON.stringify({ type: "message", envelope: { id: "msg-1" } }));
+    expect(sendOnly.send).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(30_000);
+    expect(socket.ping).toHaveBeenCalled();
+
+    // A closed socket is dropped instead of taking the message
+    socket.readyState = 3;
+    expect(mgr.emit("agent-1", "msg-2", { id: "msg-2" })).toBe(false);
+    expect(mgr.getStats().perAgent["agent-1"]).toBe(1);
+
+    mgr.evictAgent("agent-1");
+    expect(sendOnly.close).toHaveBeenCalled();
+  });
 });
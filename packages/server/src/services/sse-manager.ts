@@ -2,8 +2,12 @@
  * x811 Protocol --- SSE (Server-Sent Events) Manager.
  *
  * Manages persistent SSE connections per agent for real-time push
- * notifications. Messages are pushed as SSE events; the client still
- * polls to mark messages as delivered (SSE is a "fast path" only).
+ * notifications. Messages are pushed as SSE events; like polled messages
+ * they are leased until the client acknowledges them.
+ *
+ * WebSocket connections are tracked here too, under the same limits, and
+ * get pushes as `{"type":"message"}` frames. A send-only socket
+ * (`push: false`) counts toward the limits but is never pushed to.
  */
 
 import type http from "node:http";
@@ -12,12 +16,25 @@ import type http from "node:http";
 // Types
 // ---------------------------------------------------------------------------
 
+/** The subset of a `ws` WebSocket the manager uses. */
+export interface PushSocket {
+  readonly readyState: number;
+  send(data: string): void;
+  ping(): void;
+  close(code?: number, reason?: string): void;
+}
+
 export interface SSEConnection {
-  response: http.ServerResponse;
+  response: http.ServerResponse | PushSocket;
+  /** Whether messages are pushed to this connection. */
+  push: boolean;
   connectedAt: number;
   keepaliveTimer: NodeJS.Timeout;
 }
 
+/** WebSocket readyState of an open socket. */
+const SOCKET_OPEN = 1;
+
 // ---------------------------------------------------------------------------
 // Service
 // ---------------------------------------------------------------------------
@@ -29,26 +46,31 @@ export class SSEManager {
   private globalCount = 0;
 
   /** Returns false if limit reached (do not subscribe). */
-  subscribe(agentId: string, res: http.ServerResponse): boolean {
+  subscribe(
+    agentId: string,
+    res: http.ServerResponse | PushSocket,
+    options: { push?: boolean } = {},
+  ): boolean {
     if (this.globalCount >= this.MAX_GLOBAL) return false;
     const existing = this.connections.get(agentId) ?? [];
     if (existing.length >= this.MAX_PER_AGENT) return false;
 
     const keepaliveTimer = setInterval(() => {
       try {
-        res.write("event: keepalive\ndata: {}\n\n");
+        if (isSocket(res)) res.ping();
+        else res.write("event: keepalive\ndata: {}\n\n");
       } catch {
         this.unsubscribe(agentId, res);
       }
     }, 30_000);
 
-    existing.push({ response: res, connectedAt: Date.now(), keepaliveTimer });
+    existing.push({ response: res, push: options.push ?? true, connectedAt: Date.now(), keepaliveTimer });
     this.connections.set(agentId, existing);
     this.globalCount++;
     return true;
   }
 
-  unsubscribe(agentId: string, res: http.ServerResponse): void {
+  unsubscribe(agentId: string, res: http.ServerResponse | PushSocket): void {
     const existing = this.connections.get(agentId);
     if (!existing) return;
     const idx = existing.findIndex((c) => c.response === res);
@@ -60,18 +82,38 @@ export class SSEManager {
     else this.connections.set(agentId, existing);
   }
 
-  /** Emit a message event to all SSE connections for this agent. */
-  emit(agentId: string, messageId: string, message: unknown): void {
+  /**
+   * Emit a message event to all push connections for this agent.
+   * @returns Whether it was written to at least one connection.
+   */
+  emit(agentId: string, messageId: string, message: unknown): boolean {
     const conns = this.connections.get(agentId);
-    if (!conns || conns.length === 0) return;
+    if (!conns || conns.length === 0) return false;
     const data = `id: ${messageId}\nevent: message\ndata: ${JSON.stringify(message)}\n\n`;
+    let written = false;
     for (const conn of [...conns]) {
+      if (!conn.push) continue;
       try {
-        conn.response.write(data);
+        const res = conn.response;
+        if (isSocket(res)) {
+          if (res.readyState !== SOCKET_OPEN) throw new Error("WebSocket is not open");
+          res.send(JSON.stringify({ type: "message", envelope: message }));
+        } else {
+          res.write(data);
+        }
+        written = true;
       } catch {
         this.unsubscribe(agentId, conn.response);
       }
     }
+    return written;
+  }
+
+  /** Agents with at least one connection messages are pushed to. */
+  pushAgentIds(): string[] {
+    return [...this.connections]
+      .filter(([, conns]) => conns.some((c) => c.push))
+      .map(([agentId]) => agentId);
   }
 
   /** Close all connections for an agent (e.g., on heartbeat expiry). */
@@ -81,7 +123,9 @@ export class SSEManager {
     for (const conn of [...conns]) {
       clearInterval(conn.keepaliveTimer);
       try {
-        conn.response.end();
+        const res = conn.response;
+        if (isSocket(res)) res.close(1001, "Agent evicted");
+        else res.end();
       } catch {
         /* ignore */
       }
@@ -96,3 +140,11 @@ export class SSEManager {
     return { global: this.globalCount, perAgent };
   }
 }
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function isSocket(res: http.ServerResponse | PushSocket): res is PushSocket {
+  return typeof (res as PushSocket).ping === "function";
+}
@@ -0,0 +1,199 @@
+/**
+ * x811 Protocol — Trust models.
+ *
+ * A trust model turns an agent's interaction history into a trust score
+ * for TrustService, which then applies time decay for inactivity.
+ *
+ * - CountingTrustModel: the original formula over raw success, failure
+ *   and lost-dispute counts. Every completed interaction counts the same.
+ * - WeightedTrustModel: makes trust farming expensive. Each completed
+ *   interaction is weighted by the counterparty's trust and the USDC paid,
+ *   repeat interactions with the same counterparty have diminishing
+ *   returns, and agents that only trade within a small closed group
+ *   (a sybil ring) are flagged and held at the neutral score.
+ */
+
+import type { AgentRow, Database } from "../db/schema.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface TrustScoreInputs {
+  successful: number;
+  failed: number;
+  disputes: number;
+  time_active_days: number;
+}
+
+/** Flags a trust model can raise on an agent. */
+export const TRUST_FLAGS = ["closed_cluster"] as const;
+export type TrustFlag = (typeof TRUST_FLAGS)[number];
+
+export interface TrustAssessment {
+  /** Score before time decay, 0.0 - 1.0. */
+  score: number;
+  flags: TrustFlag[];
+}
+
+// ---------------------------------------------------------------------------
+// Interface
+// ---------------------------------------------------------------------------
+
+export interface ITrustModel {
+  assess(agent: AgentRow): TrustAssessment;
+}
+
+/** Score of an agent with no track record. */
+export const NEUTRAL_TRUST = 0.5;
+
+/** Disputes lost count this many times as much as a plain failure. */
+const DISPUTE_PENALTY = 3;
+
+// ---------------------------------------------------------------------------
+// Counting model
+// ---------------------------------------------------------------------------
+
+/**
+ * Calculate a trust score from raw interaction counts.
+ *
+ * Formula: 70% adjusted_rate + 20% raw_success + 10% activity_bonus, where
+ * disputes count 3x as failures in the adjusted rate and the activity bonus
+ * is min(1, log10(total + 1) / 3). New agents (zero interactions) receive
+ * the neutral score of 0.5.
+ */
+export function calculateTrustScore(inputs: TrustScoreInputs): number {
+  const { successful, failed, disputes, time_active_days: _timeActiveDays } = inputs;
+  const total = successful + failed + disputes;
+
+  // New agent — neutral score
+  if (total === 0) return NEUTRAL_TRUST;
+
+  // Raw success rate
+  const successRate = successful / total;
+
+  // Activity bonus: logarithmic scaling — rewards consistent usage
+  const activityFactor = Math.min(1.0, Math.log10(total + 1) / 3);
+
+  // Adjusted rate: disputes count 3x as failures
+  const adjustedFailures = failed + disputes * DISPUTE_PENALTY;
+  const adjustedTotal = successful + adjustedFailures;
+  const adjustedRate = adjustedTotal > 0 ? successful / adjustedTotal : 0;
+
+  // Weighted composite score
+  const rawScore =
+    0.7 * adjustedRate + 0.2 * successRate + 0.1 * activityFactor;
+
+  return roundScore(rawScore);
+}
+
+export class CountingTrustModel implements ITrustModel {
+  constructor(private db: Database) {}
+
+  assess(agent: AgentRow): TrustAssessment {
+    const timeActiveDays = Math.max(
+      0,
+      (Date.now() - new Date(agent.created_at).getTime()) / (1000 * 60 * 60 * 24),
+    );
+
+    return {
+      score: calculateTrustScore({
+        successful: agent.successful_count,
+        failed: agent.failed_count,
+        disputes: this.db.countDisputesLost(agent.did),
+        time_active_days: timeActiveDays,
+      }),
+      flags: [],
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Weighted model
+// ---------------------------------------------------------------------------
+
+/**
+ * Pseudo-interactions at the neutral score every agent starts with. The
+ * weighted evidence has to outweigh them before the score moves far.
+ */
+const PRIOR_WEIGHT = 2;
+
+/** Payment (USDC) at which an interaction carries half of full value weight. */
+const VALUE_HALF_WEIGHT_USDC = 0.1;
+
+/** A closed group needs at least this many completed interactions to be flagged. */
+const CLUSTER_MIN_INTERACTIONS = 10;
+
+/** Largest closed group (agent included) that is flagged. */
+const CLUSTER_MAX_SIZE = 5;
+
+export class WeightedTrustModel implements ITrustModel {
+  constructor(private db: Database) {}
+
+  /**
+   * Score = (PRIOR_WEIGHT * 0.5 + S) / (PRIOR_WEIGHT + S + F + 3D), where
+   * S sums the weight of completed interactions, F counts failures and D
+   * lost disputes. The n-th completed interaction with the same
+   * counterparty weighs
+   *
+   *   counterparty_trust * amount / (amount + 0.1 USDC) / n
+   *
+   * so a pair's total grows only logarithmically, and dust payments
+   * between untrusted agents move the score by almost nothing.
+   */
+  assess(agent: AgentRow): TrustAssessment {
+    const interactions = this.db.getCompletedCounterparties(agent.did);
+
+    const pairCounts = new Map<string, number>();
+    let weightedSuccess = 0;
+    for (const interaction of interactions) {
+      const n = (pairCounts.get(interaction.counterparty_did) ?? 0) + 1;
+      pairCounts.set(interaction.counterparty_did, n);
+
+      const amount = Math.max(0, interaction.payment_amount ?? 0);
+      const valueWeight = amount / (amount + VALUE_HALF_WEIGHT_USDC);
+      const counterpartyWeight = interaction.counterparty_trust ?? NEUTRAL_TRUST;
+      weightedSuccess += (counterpartyWeight * valueWeight) / n;
+    }
+
+    const penalties = agent.failed_count + this.db.countDisputesLost(agent.did) * DISPUTE_PENALTY;
+    const score = roundScore(
+      (PRIOR_WEIGHT * NEUTRAL_TRUST + weightedSuccess) /
+        (PRIOR_WEIGHT + weightedSuccess + penalties),
+    );
+
+    if (interactions.length >= CLUSTER_MIN_INTERACTIONS && this.inClosedCluster(agent.did, [...pairCounts.keys()])) {
+      return { score: Math.min(score, NEUTRAL_TRUST), flags: ["closed_cluster"] };
+    }
+    return { score, flags: [] };
+  }
+
+  /**
+   * Whether the agent belongs to a small group none of whose members has
+   * completed an interaction with anyone outside it. Walks the
+   * counterparty graph outward and gives up once the group grows past
+   * CLUSTER_MAX_SIZE.
+   */
+  private inClosedCluster(did: string, counterparties: string[]): boolean {
+    const group = new Set([did, ...counterparties]);
+    const pending = [...counterparties];
+    while (pending.length > 0 && group.size <= CLUSTER_MAX_SIZE) {
+      for (const other of this.db.getCounterpartyDids(pending.pop()!)) {
+        if (!group.has(other)) {
+          group.add(other);
+          pending.push(other);
+        }
+      }
+    }
+    return group.size <= CLUSTER_MAX_SIZE;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Clamp to [0, 1] and round to 2 decimal places. */
+function roundScore(score: number): number {
+  return Math.round(Math.max(0, Math.min(1, score)) * 100) / 100;
+}
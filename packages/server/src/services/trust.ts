@@ -6,58 +6,91 @@
  * Trust score range: 0.0 - 1.0
  * New agent default: 0.5
  *
- * Formula: 70% adjusted_rate + 20% raw_success + 10% activity_bonus
- * - Disputes carry a 3x penalty multiplier
+ * The score itself comes from a pluggable trust model (see
+ * trust-models.ts); the default counts interactions with the formula
+ * 70% adjusted_rate + 20% raw_success + 10% activity_bonus
+ * - Disputes carry a 3x penalty multiplier; only the party that loses a
+ *   resolved dispute is penalized
  * - Activity bonus: min(1, log10(total + 1) / 3)
  * - Inactive agents receive gradual time decay
+ *
+ * Reputation breaks a provider's record down per capability and over time:
+ * success and dispute rates, delivery time against the offer's
+ * estimated_time, and USDC volume.
  */
 
-import type { Database } from "../db/schema.js";
+import type { ReputationSummary } from "@x811/core";
+import type { Database, InteractionRow } from "../db/schema.js";
+import {
+  calculateTrustScore,
+  CountingTrustModel,
+  type ITrustModel,
+  type TrustScoreInputs,
+} from "./trust-models.js";
 
-export interface TrustScoreInputs {
+export interface ReputationMetrics {
+  /** Accepted tasks whose result the initiator accepted. */
   successful: number;
+  /** Accepted tasks with no result before the deadline, or disputes lost. */
   failed: number;
-  disputes: number;
-  time_active_days: number;
+  /** Delivered results that were disputed. */
+  disputed: number;
+  success_rate: number | null;
+  dispute_rate: number | null;
+  /** Median time from accept to result, in ms. */
+  median_delivery_ms: number | null;
+  /** Median estimated_time promised in the accepted offers, in ms. */
+  median_estimated_ms: number | null;
+  /** Share of deliveries that arrived within the offer's estimated_time. */
+  on_time_rate: number | null;
+  /** USDC paid for completed interactions. */
+  volume_usdc: number;
+}
+
+export interface CapabilityReputation extends ReputationMetrics {
+  capability: string;
+  trust_score: number;
+}
+
+/** Periods reputation history can be grouped by. */
+export const REPUTATION_BUCKETS = ["day", "week", "month"] as const;
+export type ReputationBucket = (typeof REPUTATION_BUCKETS)[number];
+
+export interface ReputationReport {
+  did: string;
+  trust_score: number;
+  /** Days of history covered, or null for all of it. */
+  window_days: number | null;
+  bucket: ReputationBucket;
+  summary: ReputationMetrics;
+  capabilities: CapabilityReputation[];
+  /** Metrics per period, by interaction start, oldest first. */
+  history: Array<ReputationMetrics & { period_start: string }>;
 }
 
+/** Statuses reached once the initiator accepted the result. */
+const SUCCESS_STATUSES = ["verified", "payment_pending", "completed"];
+
 export class TrustService {
-  constructor(private db: Database) {}
+  constructor(
+    private db: Database,
+    private model: ITrustModel = new CountingTrustModel(db),
+  ) {}
 
   /**
-   * Calculate a trust score from raw interaction counts.
+   * Calculate a trust score from raw interaction counts with the counting
+   * formula.
    *
    * New agents (zero interactions) receive the neutral score of 0.5.
    */
   calculateTrustScore(inputs: TrustScoreInputs): number {
-    const { successful, failed, disputes, time_active_days: _timeActiveDays } = inputs;
-    const total = successful + failed + disputes;
-
-    // New agent — neutral score
-    if (total === 0) return 0.5;
-
-    // Raw success rate
-    const successRate = successful / total;
-
-    // Activity bonus: logarithmic scaling — rewards consistent usage
-    const activityFactor = Math.min(1.0, Math.log10(total + 1) / 3);
-
-    // Adjusted rate: disputes count 3x as failures
-    const adjustedFailures = failed + disputes * 3;
-    const adjustedTotal = successful + adjustedFailures;
-    const adjustedRate = adjustedTotal > 0 ? successful / adjustedTotal : 0;
-
-    // Weighted composite score
-    const rawScore =
-      0.7 * adjustedRate + 0.2 * successRate + 0.1 * activityFactor;
-
-    // Clamp to [0, 1] and round to 2 decimal places
-    return Math.round(Math.max(0, Math.min(1, rawScore)) * 100) / 100;
+    return calculateTrustScore(inputs);
   }
 
   /**
    * Recalculate trust score for an agent from their interaction history
-   * stored in the database, and update the agent record.
+   * stored in the database, and update the agent record along with any
+   * flags the trust model raised.
    */
   updateTrustScore(agentDid: string): number {
     const agent = this.db.getAgentByDid(agentDid);
@@ -65,42 +98,23 @@ export class TrustService {
       throw new Error(`Agent not found: ${agentDid}`);
     }
 
-    // Compute days active
-    const createdAt = new Date(agent.created_at).getTime();
-    const now = Date.now();
-    const timeActiveDays = Math.max(
-      0,
-      (now - createdAt) / (1000 * 60 * 60 * 24),
-    );
-
-    // For disputes, count interactions with outcome = 'dispute'
-    // We use the agent's stored counts plus query disputed interactions
-    const disputeCountStmt = this.db.raw.prepare(
-      `SELECT COUNT(*) as count FROM interactions
-       WHERE (initiator_did = ? OR provider_did = ?) AND outcome = 'dispute'`,
-    );
-    const { count: disputes } = disputeCountStmt.get(agentDid, agentDid) as {
-      count: number;
-    };
-
-    const score = this.calculateTrustScore({
-      successful: agent.successful_count,
-      failed: agent.failed_count,
-      disputes,
-      time_active_days: timeActiveDays,
-    });
+    const { score, flags } = this.model.assess(agent);
 
     // Apply time decay if the agent has been inactive
+    const now = Date.now();
     const lastSeenAt = agent.last_seen_at
       ? new Date(agent.last_seen_at).getTime()
-      : createdAt;
+      : new Date(agent.created_at).getTime();
     const daysSinceActive = Math.max(
       0,
       (now - lastSeenAt) / (1000 * 60 * 60 * 24),
     );
     const finalScore = this.applyTimeDecay(score, daysSinceActive);
 
-    this.db.updateAgent(agent.id, { trust_score: finalScore });
+    this.db.updateAgent(agent.id, {
+      trust_score: finalScore,
+      trust_flags: flags.length > 0 ? JSON.stringify(flags) : null,
+    });
 
     return finalScore;
   }
@@ -155,4 +169,193 @@ export class TrustService {
     });
     this.updateTrustScore(agentDid);
   }
+
+  /**
+   * Record a lost dispute for an agent. The interaction's dispute_outcome
+   * must already be stored — the dispute itself is counted from there.
+   */
+  recordDisputeLoss(agentDid: string): void {
+    const agent = this.db.getAgentByDid(agentDid);
+    if (!agent) return;
+    this.db.updateAgent(agent.id, {
+      interaction_count: agent.interaction_count + 1,
+    });
+    this.updateTrustScore(agentDid);
+  }
+
+  // -----------------------------------------------------------------------
+  // Reputation
+  // -----------------------------------------------------------------------
+
+  /**
+   * Reputation of an agent as a provider, overall, per capability and per
+   * period.
+   * @param options.windowDays - Only count interactions started in the last N days.
+   * @param options.bucket - History period (default "week").
+   */
+  getReputation(
+    agentDid: string,
+    options: { windowDays?: number; bucket?: ReputationBucket } = {},
+  ): ReputationReport {
+    const agent = this.db.getAgentByDid(agentDid);
+    if (!agent) {
+      throw new Error(`Agent not found: ${agentDid}`);
+    }
+    const bucket = options.bucket ?? "week";
+    const since = options.windowDays !== undefined
+      ? new Date(Date.now() - options.windowDays * 86_400_000).toISOString()
+      : undefined;
+    const interactions = this.db.getProviderInteractions(agentDid, since);
+
+    const periods = new Map<string, InteractionRow[]>();
+    for (const interaction of interactions) {
+      const start = periodStart(interaction.created_at, bucket);
+      periods.set(start, [...(periods.get(start) ?? []), interaction]);
+    }
+
+    return {
+      did: agentDid,
+      trust_score: agent.trust_score,
+      window_days: options.windowDays ?? null,
+      bucket,
+      summary: reputationMetrics(interactions),
+      capabilities: this.capabilityReputations(interactions),
+      history: [...periods.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([start, rows]) => ({ period_start: start, ...reputationMetrics(rows) })),
+    };
+  }
+
+  /**
+   * All-time reputation summary for an agent card.
+   */
+  getReputationSummary(agentDid: string): ReputationSummary {
+    const interactions = this.db.getProviderInteractions(agentDid);
+    const metrics = reputationMetrics(interactions);
+    return {
+      success_rate: metrics.success_rate,
+      dispute_rate: metrics.dispute_rate,
+      median_delivery_ms: metrics.median_delivery_ms,
+      volume_usdc: metrics.volume_usdc,
+      capabilities: Object.fromEntries(
+        this.capabilityReputations(interactions).map((c) => [c.capability, c.trust_score]),
+      ),
+    };
+  }
+
+  /** Metrics and a trust score for each capability, busiest first. */
+  private capabilityReputations(interactions: InteractionRow[]): CapabilityReputation[] {
+    const byCapability = new Map<string, InteractionRow[]>();
+    for (const interaction of interactions) {
+      byCapability.set(interaction.capability, [
+        ...(byCapability.get(interaction.capability) ?? []),
+        interaction,
+      ]);
+    }
+
+    return [...byCapability.entries()]
+      .map(([capability, rows]) => {
+        const metrics = reputationMetrics(rows);
+        const lostDisputes = rows.filter((r) => r.dispute_outcome === "initiator_wins").length;
+        return {
+          capability,
+          trust_score: this.calculateTrustScore({
+            successful: metrics.successful,
+            failed: metrics.failed - lostDisputes,
+            disputes: lostDisputes,
+            time_active_days: 0,
+          }),
+          ...metrics,
+        };
+      })
+      .sort((a, b) => (b.successful + b.failed) - (a.successful + a.failed));
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Reputation helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Aggregate a provider's interactions. Failures only count what the
+ * provider is accountable for: accepted work that never produced a result,
+ * and disputes the initiator won.
+ */
+function reputationMetrics(interactions: InteractionRow[]): ReputationMetrics {
+  let successful = 0;
+  let failed = 0;
+  let delivered = 0;
+  let disputed = 0;
+  let volume = 0;
+  const deliveries: number[] = [];
+  const estimates: number[] = [];
+  let onTime = 0;
+
+  for (const interaction of interactions) {
+    if (SUCCESS_STATUSES.includes(interaction.status)) {
+      successful++;
+    } else if (
+      interaction.dispute_outcome === "initiator_wins" ||
+      (["failed", "expired"].includes(interaction.status) &&
+        interaction.accepted_at !== null &&
+        interaction.result_payload === null)
+    ) {
+      failed++;
+    }
+    if (interaction.result_payload !== null) delivered++;
+    if (interaction.dispute_payload !== null) disputed++;
+    if (interaction.status === "completed" && interaction.payment_amount !== null) {
+      volume += interaction.payment_amount;
+    }
+
+    if (interaction.accepted_at && interaction.delivered_at) {
+      const deliveryMs = Date.parse(interaction.delivered_at) - Date.parse(interaction.accepted_at);
+      deliveries.push(deliveryMs);
+      const estimatedTime = interaction.offer_payload
+        ? (JSON.parse(interaction.offer_payload) as { estimated_time?: number }).estimated_time
+        : undefined;
+      if (typeof estimatedTime === "number" && estimatedTime > 0) {
+        estimates.push(estimatedTime * 1000);
+        if (deliveryMs <= estimatedTime * 1000) onTime++;
+      }
+    }
+  }
+
+  return {
+    successful,
+    failed,
+    disputed,
+    success_rate: ratio(successful, successful + failed),
+    dispute_rate: ratio(disputed, delivered),
+    median_delivery_ms: median(deliveries),
+    median_estimated_ms: median(estimates),
+    on_time_rate: ratio(onTime, estimates.length),
+    volume_usdc: Math.round(volume * 1_000_000) / 1_000_000,
+  };
+}
+
+function ratio(part: number, total: number): number | null {
+  return total > 0 ? Math.round((part / total) * 10_000) / 10_000 : null;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[mid]
+    : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+}
+
+/** UTC start date of the day, ISO week (Monday) or month containing `iso`. */
+function periodStart(iso: string, bucket: ReputationBucket): string {
+  const date = new Date(iso);
+  if (bucket === "month") {
+    return `${date.toISOString().slice(0, 7)}-01`;
+  }
+  if (bucket === "week") {
+    const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+    date.setUTCDate(date.getUTCDate() - daysSinceMonday);
+  }
+  return date.toISOString().slice(0, 10);
 }
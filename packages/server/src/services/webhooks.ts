@@ -0,0 +1,228 @@
+/**
+ * x811 Protocol — Webhook dispatcher.
+ *
+ * Pushes routed envelopes to the recipient agent over HTTP, so providers
+ * can run without a poll loop or an SSE connection. The target is the
+ * `callback_url` of the request the message belongs to, when the
+ * recipient is that request's initiator, and otherwise the endpoint the
+ * recipient registered.
+ *
+ * Each delivery is POSTed as `{ envelope }`: an `x811/webhook` envelope
+ * signed with the server DID's key (`<server DID>#key-1` in
+ * /.well-known/did.json) that carries the agent envelope unchanged.
+ * Receivers check it with verifyWebhookDelivery() from @x811/sdk.
+ *
+ * A 2xx answer acknowledges the message. Anything else is retried with
+ * exponential backoff; after maxAttempts the delivery is marked "failed"
+ * and the message simply stays queued for polling or SSE.
+ *
+ * Targets are chosen by agents, so outside development they must be https
+ * and must not resolve to loopback, private or otherwise reserved
+ * addresses; deliveries to such targets fail without being attempted.
+ * Each attempt connects to the address that was checked.
+ */
+
+import { randomUUID } from "node:crypto";
+import { signEnvelope, type KeyPair, type RequestPayload, type WebhookPayload, type X811Envelope } from "@x811/core";
+import type { AgentRow, Database, WebhookDeliveryRow } from "../db/schema.js";
+import type { FederationResponse, IFederationTransport } from "./federation.js";
+import { isAllowedUrl, resolvePublicAddress, type HostLookup } from "./outbound.js";
+import type { Envelope } from "./router.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface WebhookOptions {
+  /** Delivery attempts per message before it is left to polling/SSE. */
+  maxAttempts: number;
+  /** Delay before the first retry; doubled for every further retry. */
+  retryBaseMs: number;
+  /** Milliseconds before the transport abandons a request. */
+  timeoutMs: number;
+  /** Allow http and private-network targets (development only). */
+  allowInsecureUrls?: boolean;
+  /** Resolves a hostname to its addresses; defaults to the system resolver. */
+  lookup?: HostLookup;
+}
+
+// ---------------------------------------------------------------------------
+// Service
+// ---------------------------------------------------------------------------
+
+export class WebhookDispatcher {
+  /**
+   * @param serverDid - This server's DID, whose key signs deliveries.
+   * @param transport - HTTP transport (HttpFederationTransport in production).
+   */
+  constructor(
+    private db: Database,
+    private serverDid: string,
+    private keyPair: KeyPair,
+    private transport: IFederationTransport,
+    private options: WebhookOptions,
+  ) {}
+
+  /**
+   * Schedule delivery of a stored message to its recipient and start the
+   * first attempt in the background.
+   * @returns false if the recipient has nowhere to receive webhooks.
+   */
+  dispatch(envelope: Envelope, recipient: AgentRow): boolean {
+    const url = this.resolveUrl(envelope, recipient);
+    if (!url) return false;
+
+    this.db.insertWebhookDelivery(envelope.id, recipient.did, url);
+    this.attempt(envelope.id).catch(() => {
+      // Recorded on the delivery row; retried by retryDueDeliveries()
+    });
+    return true;
+  }
+
+  /**
+   * Make one delivery attempt for a pending webhook.
+   * @returns The delivery's status afterwards.
+   */
+  async attempt(messageId: string): Promise<string> {
+    const delivery = this.db.getWebhookDelivery(messageId);
+    if (!delivery || delivery.status !== "pending") return delivery?.status ?? "unknown";
+
+    // Acknowledged through polling or SSE in the meantime, expired, or dead-lettered
+    const message = this.db.getMessage(messageId);
+    if (!message || (message.status !== "queued" && message.status !== "leased")) {
+      this.db.updateWebhookDelivery(messageId, { status: "cancelled", next_attempt_at: null });
+      return "cancelled";
+    }
+
+    const attempt = delivery.attempts + 1;
+    const body = {
+      envelope: signEnvelope<WebhookPayload>(
+        {
+          version: "0.1.0",
+          id: randomUUID(),
+          type: "x811/webhook",
+          from: this.serverDid,
+          to: delivery.agent_did,
+          created: new Date().toISOString(),
+          payload: {
+            envelope: JSON.parse(message.envelope) as X811Envelope<unknown>,
+            attempt,
+          },
+          nonce: randomUUID(),
+        },
+        this.keyPair.privateKey,
+      ),
+    };
+
+    // Keep retryDueDeliveries() off this delivery until the attempt has
+    // either finished or timed out
+    this.db.updateWebhookDelivery(messageId, {
+      next_attempt_at: new Date(
+        Date.now() + this.options.timeoutMs + this.options.retryBaseMs,
+      ).toISOString(),
+    });
+
+    // Connect to the address that was checked, not whatever the host
+    // resolves to by the time the request is sent
+    let address: string | undefined;
+    if (!this.options.allowInsecureUrls) {
+      try {
+        address = await resolvePublicAddress(delivery.url, this.options.lookup);
+      } catch (err) {
+        this.db.updateWebhookDelivery(messageId, {
+          status: "failed",
+          attempts: attempt,
+          next_attempt_at: null,
+          last_error: err instanceof Error ? err.message : String(err),
+        });
+        return "failed";
+      }
+    }
+
+    let response: FederationResponse;
+    try {
+      response = await this.transport.post(delivery.url, body, { address });
+    } catch (err) {
+      return this.recordFailure(delivery, attempt, err instanceof Error ? err.message : String(err));
+    }
+
+    if (response.status < 200 || response.status >= 300) {
+      return this.recordFailure(delivery, attempt, `Endpoint returned HTTP ${response.status}`);
+    }
+
+    this.db.ackMessage(delivery.agent_did, messageId);
+    this.db.updateWebhookDelivery(messageId, {
+      status: "delivered",
+      attempts: attempt,
+      next_attempt_at: null,
+      delivered_at: new Date().toISOString(),
+    });
+    return "delivered";
+  }
+
+  /**
+   * Retry every pending delivery whose backoff has elapsed.
+   * Should be called periodically (e.g. every 5 seconds).
+   * @returns Number of messages delivered on this pass.
+   */
+  async retryDueDeliveries(): Promise<number> {
+    let delivered = 0;
+    for (const delivery of this.db.getDueWebhookDeliveries()) {
+      if (await this.attempt(delivery.message_id) === "delivered") delivered++;
+    }
+    return delivered;
+  }
+
+  /**
+   * Where a message for `recipient` is pushed: the callback_url of the
+   * request it answers when the recipient is that request's initiator,
+   * else the recipient's registered endpoint.
+   */
+  private resolveUrl(envelope: Envelope, recipient: AgentRow): string | null {
+    const payload = envelope.payload as
+      | { request_id?: unknown; offer_id?: unknown; interaction_id?: unknown }
+      | null;
+    const interactionId = payload?.request_id ?? payload?.offer_id ?? payload?.interaction_id;
+    if (typeof interactionId === "string") {
+      const interaction = this.db.getInteraction(interactionId);
+      if (interaction?.initiator_did === recipient.did && interaction.request_payload) {
+        const callbackUrl = parseCallbackUrl(interaction.request_payload);
+        if (isAllowedUrl(callbackUrl, this.options.allowInsecureUrls)) return callbackUrl;
+      }
+    }
+    return isAllowedUrl(recipient.endpoint, this.options.allowInsecureUrls) ? recipient.endpoint : null;
+  }
+
+  /** Schedule the next retry, or give up after maxAttempts. */
+  private recordFailure(delivery: WebhookDeliveryRow, attempt: number, error: string): string {
+    if (attempt >= this.options.maxAttempts) {
+      this.db.updateWebhookDelivery(delivery.message_id, {
+        status: "failed",
+        attempts: attempt,
+        next_attempt_at: null,
+        last_error: error,
+      });
+      return "failed";
+    }
+
+    const delayMs = this.options.retryBaseMs * 2 ** (attempt - 1);
+    this.db.updateWebhookDelivery(delivery.message_id, {
+      attempts: attempt,
+      next_attempt_at: new Date(Date.now() + delayMs).toISOString(),
+      last_error: error,
+    });
+    return "pending";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function parseCallbackUrl(requestPayload: string): string | undefined {
+  try {
+    return (JSON.parse(requestPayload) as Partial<RequestPayload>).callback_url;
+  } catch {
+    return undefined;
+  }
+}